@@ -1,13 +1,26 @@
+import { PendingBadge } from '@/components/pending-badge';
+import { UploadQueue } from '@/components/upload-queue';
+import { useAuth } from '@/contexts/AuthContext';
 import { useTaxYear } from '@/contexts/TaxYearContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { useAuth } from '@/hooks/useAuth';
-import { apiGet, apiRequest, uploadReceiptImage } from '@/lib/api';
+import { useBusinessUsePercentages } from '@/hooks/useBusinessUsePercentages';
+import { useCollection } from '@/hooks/useCollection';
+import { useFormDraft } from '@/hooks/useFormDraft';
+import { useOutbox } from '@/hooks/useOutbox';
+import { calculateDeductible, getDeductionContext, getDeductionVehicleIds, sumDeductible } from '@/lib/deductions';
+import { getDraft, NEW_DRAFT_ID } from '@/lib/drafts';
+import { routes } from '@/lib/endpoints';
+import { getSaveErrorMessage } from '@/lib/errors';
+import { applyPendingEntries, removeOutboxEntry, sendOrQueue, updateOutboxEntry, type WithPending } from '@/lib/outbox';
+import { getProvinceRules, getSalesTaxLabels, splitTaxIncludedTotal } from '@/lib/provinces';
+import { removeEntity, upsertFromResponse } from '@/lib/store';
 import { formatCurrency, formatDate, getCategoryLabel, getTodayLocalDateString, getYearFromDateString } from '@/lib/format';
-import { type Expense, type Vehicle, HOME_OFFICE_LIVING_CATEGORIES } from '@/lib/types';
+import { type Expense, type Vehicle } from '@/lib/types';
+import { dismissUpload, uploadReceipt, type UploadTask, waitForUpload } from '@/lib/uploads';
 import { MaterialIcons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
-import { useRouter } from 'expo-router';
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -23,12 +36,6 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-// Module-level cache to persist across component remounts
-let receiptsCache: any[] | null = null;
-let receiptsCacheTimestamp: number = 0;
-let receiptsFetching: boolean = false;
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
 const EXPENSE_CATEGORIES = [
   'home_office_expenses',
   'motor_vehicle_expenses',
@@ -97,17 +104,23 @@ export default function Expenses() {
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { user } = useAuth();
+  const { draft: draftParam } = useLocalSearchParams<{ draft?: string }>();
+  const { user, isSessionExpired } = useAuth();
+  // The user's province decides which sales taxes new expenses start with and their rates
+  const salesTax = getProvinceRules(user?.province).salesTax;
+  const salesTaxLabels = getSalesTaxLabels(salesTax);
+  const chargesPst = salesTax.pstRate > 0;
   const { taxYear, setTaxYear } = useTaxYear();
   const hasGstNumber = user?.hasGstNumber === true;
 
-  const [expenseList, setExpenseList] = useState<Expense[]>([]);
-  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
-  const [receipts, setReceipts] = useState<any[]>(receiptsCache || []);
-  const [isLoading, setIsLoading] = useState(true);
+  const { items: expenseList, isLoading, refresh: refreshExpenses } = useCollection<Expense>('expenses', { taxYear });
+  const { items: vehicles } = useCollection<Vehicle>('vehicles');
+  const { items: receipts } = useCollection<any>('receipts');
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const isModalOpenRef = useRef(isModalOpen);
+  isModalOpenRef.current = isModalOpen;
   const [showYearPicker, setShowYearPicker] = useState(false);
-  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [editingExpense, setEditingExpense] = useState<WithPending<Expense> | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
   const [showSubcategoryPicker, setShowSubcategoryPicker] = useState(false);
@@ -115,7 +128,6 @@ export default function Expenses() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [lastEditedField, setLastEditedField] = useState<'baseCost' | 'total' | 'gstAmount' | 'pstAmount' | null>(null);
-  const [isProcessingReceipt, setIsProcessingReceipt] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [selectedVendor, setSelectedVendor] = useState<string>('');
@@ -124,7 +136,6 @@ export default function Expenses() {
   const [dateFrom, setDateFrom] = useState<string>('');
   const [dateTo, setDateTo] = useState<string>('');
   const [showFilterCategoryPicker, setShowFilterCategoryPicker] = useState(false);
-  const [vehicleBusinessUseMap, setVehicleBusinessUseMap] = useState<Map<string, number>>(new Map());
 
   const [formData, setFormData] = useState<ExpenseFormData>({
     baseCost: '',
@@ -132,7 +143,7 @@ export default function Expenses() {
     gstAmount: '',
     pstAmount: '',
     gstIncluded: true,
-    pstIncluded: true,
+    pstIncluded: chargesPst,
     date: getTodayLocalDateString(),
     title: '',
     category: '',
@@ -143,63 +154,14 @@ export default function Expenses() {
     isTaxDeductible: true,
   });
 
-  const fetchReceipts = useCallback(async () => {
-    // Prevent concurrent fetches
-    if (receiptsFetching) {
-      if (__DEV__) {
-        console.log('Receipt fetch already in progress, skipping');
-      }
-      return;
-    }
-    
-    // Use cache if it's still valid (less than 5 minutes old)
-    const now = Date.now();
-    if (receiptsCache && receiptsCacheTimestamp > 0 && (now - receiptsCacheTimestamp) < CACHE_DURATION) {
-      if (__DEV__) {
-        console.log('Using cached receipts');
-      }
-      setReceipts(receiptsCache);
-      return;
-    }
-    
-    receiptsFetching = true;
-    if (__DEV__) {
-      console.log('Fetching receipts...');
-    }
-    
-    try {
-      const data = await apiGet<any[]>('/api/receipts');
-      receiptsCache = data || [];
-      receiptsCacheTimestamp = now;
-      
-      if (__DEV__) {
-        console.log('Fetched receipts:', data);
-        if (data && data.length > 0) {
-          console.log('Sample receipt:', data[0]);
-        }
-      }
-      setReceipts(receiptsCache);
-    } catch (error) {
-      console.error('Error fetching receipts:', error);
-      setReceipts([]);
-    } finally {
-      receiptsFetching = false;
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchExpenses();
-    fetchVehicles();
-  }, []);
-
-  // Fetch receipts only once when component mounts
-  useEffect(() => {
-    // Only fetch if we don't have cached data
-    if (!receiptsCache || receiptsCache.length === 0) {
-      fetchReceipts();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  const { openWithDraft, discardDraft } = useFormDraft('expense', formData, {
+    isOpen: isModalOpen,
+    entityId: editingExpense?.id,
+    label: [
+      formData.vendor || formData.title || (formData.category ? getCategoryLabel(formData.category) : 'New expense'),
+      formData.total ? formatCurrency(formData.total) : null,
+    ].filter(Boolean).join(' · '),
+  });
 
   // Auto-calculate totals when fields change
   useEffect(() => {
@@ -211,42 +173,16 @@ export default function Expenses() {
       setFormData((prev) => ({ ...prev, total: total.toFixed(2) }));
     } else if (lastEditedField === 'total' && formData.total) {
       const total = parseFloat(formData.total) || 0;
-      if (formData.gstIncluded && formData.pstIncluded) {
-        const base = total / 1.12;
-        const gst = base * 0.05;
-        const pst = base * 0.07;
-        setFormData((prev) => ({
-          ...prev,
-          baseCost: base.toFixed(2),
-          gstAmount: gst.toFixed(2),
-          pstAmount: pst.toFixed(2),
-        }));
-      } else if (formData.gstIncluded) {
-        const base = total / 1.05;
-        const gst = base * 0.05;
-        setFormData((prev) => ({
-          ...prev,
-          baseCost: base.toFixed(2),
-          gstAmount: gst.toFixed(2),
-          pstAmount: '',
-        }));
-      } else if (formData.pstIncluded) {
-        const base = total / 1.07;
-        const pst = base * 0.07;
-        setFormData((prev) => ({
-          ...prev,
-          baseCost: base.toFixed(2),
-          gstAmount: '',
-          pstAmount: pst.toFixed(2),
-        }));
-      } else {
-        setFormData((prev) => ({
-          ...prev,
-          baseCost: total.toFixed(2),
-          gstAmount: '',
-          pstAmount: '',
-        }));
-      }
+      const { baseCost, gstAmount, pstAmount } = splitTaxIncludedTotal(total, salesTax, {
+        gstIncluded: formData.gstIncluded,
+        pstIncluded: formData.pstIncluded,
+      });
+      setFormData((prev) => ({
+        ...prev,
+        baseCost: baseCost.toFixed(2),
+        gstAmount: gstAmount > 0 ? gstAmount.toFixed(2) : '',
+        pstAmount: pstAmount > 0 ? pstAmount.toFixed(2) : '',
+      }));
     } else if ((lastEditedField === 'gstAmount' || lastEditedField === 'pstAmount') && formData.baseCost) {
       const base = parseFloat(formData.baseCost) || 0;
       const gst = parseFloat(formData.gstAmount) || 0;
@@ -254,31 +190,17 @@ export default function Expenses() {
       const total = base + gst + pst;
       setFormData((prev) => ({ ...prev, total: total.toFixed(2) }));
     }
-  }, [formData.baseCost, formData.total, formData.gstAmount, formData.pstAmount, formData.gstIncluded, formData.pstIncluded, lastEditedField]);
+  }, [formData.baseCost, formData.total, formData.gstAmount, formData.pstAmount, formData.gstIncluded, formData.pstIncluded, lastEditedField, salesTax]);
 
-  const fetchExpenses = async () => {
-    try {
-      setIsLoading(true);
-      const data = await apiGet<Expense[]>('/api/expenses');
-      setExpenseList(data);
-    } catch (error) {
-      console.error('Error fetching expenses:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const fetchVehicles = async () => {
-    try {
-      const data = await apiGet<Vehicle[]>('/api/vehicles');
-      setVehicles(data || []);
-    } catch (error) {
-      console.error('Error fetching vehicles:', error);
-    }
-  };
+  // Offline changes waiting in the outbox, shown as pending rows until they sync
+  const outboxEntries = useOutbox('expenses', refreshExpenses);
+  const expensesWithPending = useMemo(
+    () => applyPendingEntries<Expense>(expenseList || [], outboxEntries, (entry) => entry.data),
+    [expenseList, outboxEntries]
+  );
 
   const filteredExpenses = useMemo(() => {
-    return (expenseList || []).filter((item) => {
+    return expensesWithPending.filter((item) => {
       const itemYear = getYearFromDateString(item.date);
       if (itemYear !== taxYear) return false;
 
@@ -323,145 +245,25 @@ export default function Expenses() {
 
       return true;
     });
-  }, [expenseList, taxYear, searchQuery, selectedCategory, selectedVendor, minAmount, maxAmount, dateFrom, dateTo]);
-
-  // Helper function to calculate deductible amount and deductible GST for an expense
-  const calculateDeductible = useCallback((item: Expense, vehicleBusinessUseMap: Map<string, number>) => {
-    if (!item.isTaxDeductible) {
-      return { deductibleAmount: 0, deductibleGst: 0 };
-    }
-
-    const expenseType = (item as any).expenseType || 'self_employment';
-    const baseCost = item.baseCost ? parseFloat(item.baseCost.toString()) : 0;
-    const pstAmount = item.pstAmount ? parseFloat(item.pstAmount.toString()) : 0;
-    const gstAmount = item.gstAmount ? parseFloat(item.gstAmount.toString()) : 0;
-
-    if (expenseType === 'personal') {
-      return { deductibleAmount: 0, deductibleGst: 0 };
-    }
-
-    if (expenseType === 'home_office_living') {
-      // Home Office/Living expenses: apply home office percentage if set
-      let deductibleAmount = baseCost + pstAmount;
-      let deductibleGst = gstAmount;
-      if (user?.homeOfficePercentage) {
-        const percentage = parseFloat(user.homeOfficePercentage.toString()) / 100;
-        deductibleAmount = deductibleAmount * percentage;
-        deductibleGst = deductibleGst * percentage;
-      }
-      return { deductibleAmount, deductibleGst };
-    }
-
-    if (expenseType === 'vehicle') {
-      // Vehicle expenses: use business use percentage from odometer entries
-      const vehicleId = (item as any).vehicleId;
-      let businessPercentage = 1.0; // Default to 100% if no vehicle or percentage found
-      
-      if (vehicleId && vehicleBusinessUseMap.has(vehicleId)) {
-        businessPercentage = vehicleBusinessUseMap.get(vehicleId)! / 100;
-      }
-      
-      const deductibleAmount = (baseCost + pstAmount) * businessPercentage;
-      const deductibleGst = gstAmount * businessPercentage;
-      return { deductibleAmount, deductibleGst };
-    }
+  }, [expensesWithPending, taxYear, searchQuery, selectedCategory, selectedVendor, minAmount, maxAmount, dateFrom, dateTo]);
 
-    if (expenseType === 'self_employment') {
-      // Self-Employment expenses: fully deductible
-      return { deductibleAmount: baseCost + pstAmount, deductibleGst: gstAmount };
-    }
-
-    if (expenseType === 'mixed') {
-      const businessPercentage = (item as any).businessUsePercentage 
-        ? parseFloat((item as any).businessUsePercentage.toString()) / 100 
-        : 0;
-      
-      // Only business portion of base cost + proportional PST is deductible
-      const businessBaseCost = baseCost * businessPercentage;
-      const businessPstAmount = pstAmount * businessPercentage;
-      let deductibleAmount = businessBaseCost + businessPstAmount;
-      let deductibleGst = gstAmount * businessPercentage;
-      
-      // Apply home office percentage if applicable for home office/living categories
-      if (HOME_OFFICE_LIVING_CATEGORIES.includes(item.category as any) && user?.homeOfficePercentage) {
-        const homeOfficePercentage = parseFloat(user.homeOfficePercentage.toString()) / 100;
-        deductibleAmount = deductibleAmount * homeOfficePercentage;
-        deductibleGst = deductibleGst * homeOfficePercentage;
-      }
-      
-      return { deductibleAmount, deductibleGst };
-    }
-
-    // Default: treat as business expense (fully deductible)
-    return { deductibleAmount: baseCost + pstAmount, deductibleGst: gstAmount };
-  }, [user]);
-
-  // Get unique vehicle IDs from vehicle expenses
-  const vehicleIdsInExpenses = useMemo(() => {
-    const ids = new Set<string>();
-    if (!filteredExpenses) return [];
-    
-    filteredExpenses.forEach((expense) => {
-      const expenseType = (expense as any).expenseType || 'self_employment';
-      if (expenseType === 'vehicle' && (expense as any).vehicleId) {
-        const vehicleId = (expense as any).vehicleId;
-        if (vehicleId) {
-          ids.add(vehicleId);
-        }
-      }
-    });
-    
-    return Array.from(ids);
-  }, [filteredExpenses]);
+  // Vehicles whose business use is needed for the deductible totals
+  const vehicleIdsInExpenses = useMemo(() => getDeductionVehicleIds(filteredExpenses), [filteredExpenses]);
 
-  // Fetch business use percentages for vehicles used in expenses
-  useEffect(() => {
-    const fetchVehiclePercentages = async () => {
-      const map = new Map<string, number>();
-      const promises = vehicleIdsInExpenses.map(async (vehicleId: string) => {
-        try {
-          const response = await apiGet<{ businessUsePercentage: number }>(`/api/vehicles/${vehicleId}/business-use-percentage?taxYear=${taxYear}`);
-          map.set(vehicleId, response.businessUsePercentage || 100);
-        } catch (error) {
-          map.set(vehicleId, 100); // Default to 100% if fetch fails
-        }
-      });
-      
-      await Promise.all(promises);
-      setVehicleBusinessUseMap(map);
-    };
-    
-    if (vehicleIdsInExpenses.length > 0) {
-      fetchVehiclePercentages();
-    } else {
-      setVehicleBusinessUseMap(new Map());
-    }
-  }, [vehicleIdsInExpenses, taxYear]);
+  // Business use percentages for vehicles used in expenses, fetched in one batch
+  const vehicleBusinessUseMap = useBusinessUsePercentages(taxYear, vehicleIdsInExpenses);
+  const deductionContext = useMemo(
+    () => getDeductionContext(user, vehicleBusinessUseMap),
+    [user, vehicleBusinessUseMap]
+  );
 
   const totalExpenses = filteredExpenses.reduce((sum, item) => sum + parseFloat(item.amount.toString()), 0);
   
-  // Calculate deductible expenses and deductible GST using the helper function
-  const { deductibleExpenses, deductibleGstCredits } = useMemo(() => {
-    let deductibleSum = 0;
-    let deductibleGstSum = 0;
-    
-    // Create a temporary map with default 100% for vehicles (for summary calculations)
-    const tempVehicleMap = new Map<string, number>();
-    vehicles.forEach(vehicle => {
-      if (vehicle.id) {
-        // For summary, use 100% as default - actual calculation happens in table rows
-        tempVehicleMap.set(vehicle.id, 100);
-      }
-    });
-    
-    filteredExpenses.forEach((item) => {
-      const result = calculateDeductible(item, tempVehicleMap);
-      deductibleSum += result.deductibleAmount;
-      deductibleGstSum += result.deductibleGst;
-    });
-    
-    return { deductibleExpenses: deductibleSum, deductibleGstCredits: deductibleGstSum };
-  }, [filteredExpenses, calculateDeductible, vehicles]);
+  // Summed from the same per-row figures, so the cards match the rows
+  const { deductibleAmount: deductibleExpenses, deductibleGst: deductibleGstCredits } = useMemo(
+    () => sumDeductible(filteredExpenses, deductionContext),
+    [filteredExpenses, deductionContext]
+  );
   
   const totalGstCredits = filteredExpenses.reduce((sum, item) => {
     const gstAmount = item.gstAmount ? parseFloat(item.gstAmount.toString()) : 0;
@@ -519,15 +321,28 @@ export default function Expenses() {
         isTaxDeductible: formData.isTaxDeductible,
       };
 
-      if (editingExpense) {
-        await apiRequest('PATCH', `/api/expenses/${editingExpense.id}`, payload);
-        Alert.alert('Success', 'Expense updated successfully');
+      let result: { queued: boolean; response?: Response } = { queued: true };
+      if (editingExpense?.pending?.method === 'POST') {
+        // Not on the server yet, so just update the queued create
+        await updateOutboxEntry(editingExpense.pending.entryId, payload);
+      } else if (editingExpense) {
+        result = await sendOrQueue({
+          resource: 'expenses',
+          ...routes.expenses.update.request({ id: editingExpense.id }, payload),
+          entityId: editingExpense.id,
+        });
       } else {
-        await apiRequest('POST', '/api/expenses', payload);
-        Alert.alert('Success', 'Expense added successfully');
+        result = await sendOrQueue({ resource: 'expenses', ...routes.expenses.create.request(undefined, payload) });
       }
 
-      await fetchExpenses();
+      if (result.queued) {
+        Alert.alert('Saved Offline', 'This expense will sync automatically when you are back online.');
+      } else {
+        // Shared store update: every screen showing expenses picks this up
+        await upsertFromResponse('expenses', result.response);
+        Alert.alert('Success', editingExpense ? 'Expense updated successfully' : 'Expense added successfully');
+      }
+      discardDraft();
       setIsModalOpen(false);
       setEditingExpense(null);
       setFormData({
@@ -536,7 +351,7 @@ export default function Expenses() {
         gstAmount: '',
         pstAmount: '',
         gstIncluded: true,
-        pstIncluded: true,
+        pstIncluded: chargesPst,
         date: getTodayLocalDateString(),
         title: '',
         category: '',
@@ -549,13 +364,17 @@ export default function Expenses() {
       setLastEditedField(null);
     } catch (error) {
       console.error('Error saving expense:', error);
-      Alert.alert('Error', 'Failed to save expense. Please try again.');
+      Alert.alert('Error', getSaveErrorMessage(error, 'Failed to save expense. Please try again.'));
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const handleEdit = (expense: Expense) => {
+  const handleEdit = (expense: WithPending<Expense>) => {
+    openWithDraft((draft) => startEdit(expense, draft?.values), expense.id);
+  };
+
+  const startEdit = (expense: WithPending<Expense>, draftValues?: ExpenseFormData) => {
     setEditingExpense(expense);
     const baseCost = expense.baseCost ? parseFloat(expense.baseCost.toString()) : null;
     const gstAmount = expense.gstAmount ? parseFloat(expense.gstAmount.toString()) : null;
@@ -579,10 +398,10 @@ export default function Expenses() {
         description: expense.description || '',
         isTaxDeductible: expense.isTaxDeductible ?? true,
       });
-      setLastEditedField('baseCost');
     } else {
+      // No tax split recorded: the whole total is the base cost
       setFormData({
-        baseCost: '',
+        baseCost: totalAmount.toFixed(2),
         total: totalAmount.toFixed(2),
         gstAmount: '',
         pstAmount: '',
@@ -597,12 +416,16 @@ export default function Expenses() {
         description: expense.description || '',
         isTaxDeductible: expense.isTaxDeductible ?? true,
       });
-      setLastEditedField('total');
     }
+    // The form opens exactly as saved; auto-calculation waits for the first
+    // edit so an untouched form never differs from its draft snapshot
+    setLastEditedField(null);
+    if (draftValues) setFormData(draftValues);
     setIsModalOpen(true);
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (item: WithPending<Expense>) => {
+    const id = item.id;
     Alert.alert(
       'Delete expense entry?',
       'This will permanently remove this expense record. This action cannot be undone.',
@@ -614,9 +437,22 @@ export default function Expenses() {
           onPress: async () => {
             try {
               setDeleteId(id);
-              await apiRequest('DELETE', `/api/expenses/${id}`);
-              await fetchExpenses();
-              Alert.alert('Success', 'Expense deleted successfully');
+              if (item.pending?.method === 'POST') {
+                // Never reached the server, so dropping the queued create is enough
+                await removeOutboxEntry(item.pending.entryId);
+                return;
+              }
+              const { queued } = await sendOrQueue({
+                resource: 'expenses',
+                ...routes.expenses.remove.request({ id }),
+                entityId: id,
+              });
+              if (queued) {
+                Alert.alert('Deleted Offline', 'This expense will be removed from the server when you are back online.');
+              } else {
+                removeEntity('expenses', id);
+                Alert.alert('Success', 'Expense deleted successfully');
+              }
             } catch (error) {
               console.error('Error deleting expense:', error);
               Alert.alert('Error', 'Failed to delete expense. Please try again.');
@@ -639,9 +475,9 @@ export default function Expenses() {
     return [];
   };
 
-  const renderExpenseItem = useCallback(({ item }: { item: Expense }) => {
+  const renderExpenseItem = useCallback(({ item }: { item: WithPending<Expense> }) => {
     // Calculate deductible amount and deductible GST using the helper function
-    const { deductibleAmount, deductibleGst } = calculateDeductible(item, vehicleBusinessUseMap);
+    const { deductibleAmount, deductibleGst } = calculateDeductible(item, deductionContext);
     const gstAmount = item.gstAmount ? parseFloat(item.gstAmount.toString()) : 0;
     
     // Check if there's a linked receipt
@@ -680,7 +516,7 @@ export default function Expenses() {
               <MaterialIcons name="edit" size={20} color={isDark ? '#9BA1A6' : '#666'} />
             </TouchableOpacity>
             <TouchableOpacity
-              onPress={() => handleDelete(item.id)}
+              onPress={() => handleDelete(item)}
               disabled={deleteId === item.id}
               style={styles.expenseActionButton}
             >
@@ -694,6 +530,7 @@ export default function Expenses() {
         </View>
         
         <View style={styles.expenseCardBody}>
+          {item.pending && <PendingBadge pending={item.pending} />}
           <View style={styles.expenseCardRow}>
             <View style={[styles.badge, isDark && styles.badgeDark]}>
               <Text style={[styles.badgeText, isDark && styles.badgeTextDark]}>
@@ -740,7 +577,7 @@ export default function Expenses() {
         </View>
       </View>
     );
-  }, [receipts, isDark, router, handleEdit, handleDelete, deleteId, calculateDeductible, vehicleBusinessUseMap]);
+  }, [receipts, isDark, router, handleEdit, handleDelete, deleteId, deductionContext]);
 
   const resetFormData = () => {
     setEditingExpense(null);
@@ -750,7 +587,7 @@ export default function Expenses() {
       gstAmount: '',
       pstAmount: '',
       gstIncluded: true,
-      pstIncluded: true,
+      pstIncluded: chargesPst,
       date: getTodayLocalDateString(),
       title: '',
       category: '',
@@ -764,72 +601,103 @@ export default function Expenses() {
   };
 
   const openExpenseForm = () => {
-    resetFormData();
-    setIsModalOpen(true);
+    openWithDraft((draft) => {
+      resetFormData();
+      if (draft) setFormData(draft.values);
+      setIsModalOpen(true);
+    });
   };
 
-  const processReceiptImage = async (uri: string) => {
-    try {
-      setIsProcessingReceipt(true);
-      const receiptData = await uploadReceiptImage(uri);
-      
-      // Check if OCR completed successfully
-      if (receiptData.ocrStatus === 'completed' && receiptData.expenseData) {
-        // Backend provides expenseData when OCR is successful
-        const expenseData = receiptData.expenseData;
-        
-        const total = expenseData.total || expenseData.amount || 0;
-        const date = expenseData.date || getTodayLocalDateString();
-        const vendor = expenseData.vendor || expenseData.merchantName || '';
-        const category = expenseData.category || '';
-        const description = expenseData.description || expenseData.notes || '';
-        const baseCost = expenseData.baseCost || expenseData.subtotal || (total - (expenseData.gstAmount || 0) - (expenseData.pstAmount || 0));
-        const gstAmount = expenseData.gstAmount || 0;
-        const pstAmount = expenseData.pstAmount || 0;
-
-        setFormData({
-          baseCost: baseCost ? parseFloat(baseCost.toString()).toFixed(2) : total.toFixed(2),
-          total: parseFloat(total.toString()).toFixed(2),
-          gstAmount: gstAmount ? parseFloat(gstAmount.toString()).toFixed(2) : '',
-          pstAmount: pstAmount ? parseFloat(pstAmount.toString()).toFixed(2) : '',
-          gstIncluded: !!gstAmount,
-          pstIncluded: !!pstAmount,
-          date: date,
-          title: vendor || description || 'Receipt',
-          category: category || '',
-          subcategory: expenseData.subcategory || '',
-          vehicleId: expenseData.vehicleId || '',
-          vendor: vendor,
-          description: description,
-          isTaxDeductible: expenseData.isTaxDeductible !== undefined ? expenseData.isTaxDeductible : true,
-        });
-        setLastEditedField('total');
-        setIsModalOpen(true);
-      } else if (receiptData.ocrStatus === 'processing') {
-        // OCR is still processing (shouldn't happen with sync processing, but handle it)
-        Alert.alert(
-          'OCR Processing',
-          'Receipt uploaded but OCR is still processing. Please check back later.',
-          [{ text: 'OK' }]
-        );
+  // "Resume" on a Dashboard draft opens this screen with ?draft=<expense id or "new">
+  useEffect(() => {
+    if (!draftParam) return;
+    const draft = getDraft<ExpenseFormData>('expense', draftParam);
+    if (draftParam === NEW_DRAFT_ID) {
+      resetFormData();
+      if (draft) setFormData(draft.values);
+      setIsModalOpen(true);
+    } else {
+      const expense = expenseList.find((item) => item.id === draftParam);
+      if (!expense && isLoading) return;
+      if (expense) {
+        startEdit(expense, draft?.values);
       } else {
-        // OCR failed or not available
-        Alert.alert(
-          'OCR Not Available',
-          receiptData.ocrError || 'Could not extract data from receipt. Please use manual entry.',
-          [
-            { text: 'Manual Entry', onPress: openExpenseForm },
-            { text: 'OK', style: 'cancel' },
-          ]
-        );
+        Alert.alert('Expense Not Found', 'It may have been deleted, or belong to a different tax year.');
       }
-      setIsProcessingReceipt(false);
-    } catch (error: any) {
-      console.error('Error processing receipt:', error);
-      setIsProcessingReceipt(false);
+    }
+    router.setParams({ draft: undefined });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftParam, expenseList, isLoading]);
+
+  // Fills the form from a finished receipt upload's OCR result
+  const reviewReceipt = (task: UploadTask) => {
+    dismissUpload(task.id);
+    const receiptData = task.result ?? {};
+
+    // Check if OCR completed successfully
+    if (receiptData.ocrStatus === 'completed' && receiptData.expenseData) {
+      // Backend provides expenseData when OCR is successful
+      const expenseData = receiptData.expenseData;
       
-      // Check for subscription tier error
-      if (error.message?.includes('403') || error.message?.includes('subscription')) {
+      const total = expenseData.total || expenseData.amount || 0;
+      const date = expenseData.date || getTodayLocalDateString();
+      const vendor = expenseData.vendor || expenseData.merchantName || '';
+      const category = expenseData.category || '';
+      const description = expenseData.description || expenseData.notes || '';
+      const baseCost = expenseData.baseCost || expenseData.subtotal || (total - (expenseData.gstAmount || 0) - (expenseData.pstAmount || 0));
+      const gstAmount = expenseData.gstAmount || 0;
+      const pstAmount = expenseData.pstAmount || 0;
+
+      setFormData({
+        baseCost: baseCost ? parseFloat(baseCost.toString()).toFixed(2) : total.toFixed(2),
+        total: parseFloat(total.toString()).toFixed(2),
+        gstAmount: gstAmount ? parseFloat(gstAmount.toString()).toFixed(2) : '',
+        pstAmount: pstAmount ? parseFloat(pstAmount.toString()).toFixed(2) : '',
+        gstIncluded: !!gstAmount,
+        pstIncluded: !!pstAmount,
+        date: date,
+        title: vendor || description || 'Receipt',
+        category: category || '',
+        subcategory: expenseData.subcategory || '',
+        vehicleId: expenseData.vehicleId || '',
+        vendor: vendor,
+        description: description,
+        isTaxDeductible: expenseData.isTaxDeductible !== undefined ? expenseData.isTaxDeductible : true,
+      });
+      setLastEditedField('total');
+      setIsModalOpen(true);
+    } else if (receiptData.ocrStatus === 'processing') {
+      // OCR is still processing (shouldn't happen with sync processing, but handle it)
+      Alert.alert(
+        'OCR Processing',
+        'Receipt uploaded but OCR is still processing. Please check back later.',
+        [{ text: 'OK' }]
+      );
+    } else {
+      // OCR failed or not available
+      Alert.alert(
+        'OCR Not Available',
+        receiptData.ocrError || 'Could not extract data from receipt. Please use manual entry.',
+        [
+          { text: 'Manual Entry', onPress: openExpenseForm },
+          { text: 'OK', style: 'cancel' },
+        ]
+      );
+    }
+  };
+
+  // Queues the photo and keeps the screen usable while it uploads
+  const processReceiptImage = async (uri: string) => {
+    const task = await uploadReceipt(uri, 'expenses');
+    const finished = await waitForUpload(task.id);
+    if (finished?.status === 'done') {
+      // Receipts snapped in a row wait in the upload list instead of stacking forms
+      if (!isModalOpenRef.current) {
+        reviewReceipt(finished);
+      }
+    } else if (finished?.status === 'failed') {
+      if (finished.errorKind === 'forbidden') {
+        dismissUpload(finished.id);
         Alert.alert(
           'Subscription Required',
           'Receipt uploads require a Personal or Corporate subscription. Please upgrade your plan.',
@@ -838,7 +706,7 @@ export default function Expenses() {
       } else {
         Alert.alert(
           'Error Processing Receipt',
-          error.message || 'Failed to process receipt. Please try again or use manual entry.',
+          finished.error || 'Failed to process receipt. Please try again or use manual entry.',
           [
             { text: 'Try Manual Entry', onPress: openExpenseForm },
             { text: 'OK', style: 'cancel' },
@@ -864,7 +732,7 @@ export default function Expenses() {
       });
 
       if (!result.canceled && result.assets[0]) {
-        await processReceiptImage(result.assets[0].uri);
+        processReceiptImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error('Error taking photo:', error);
@@ -888,7 +756,7 @@ export default function Expenses() {
       });
 
       if (!result.canceled && result.assets[0]) {
-        await processReceiptImage(result.assets[0].uri);
+        processReceiptImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error('Error picking image:', error);
@@ -1165,6 +1033,7 @@ export default function Expenses() {
             </View>
           </View>
         )}
+        <UploadQueue kind="receipt" source="expenses" onReview={reviewReceipt} />
         {isLoading ? (
           <ActivityIndicator size="large" color={isDark ? '#9BA1A6' : '#666'} style={styles.loader} />
         ) : filteredExpenses.length === 0 ? (
@@ -1188,9 +1057,9 @@ export default function Expenses() {
         )}
       </View>
 
-      {/* Add/Edit Expense Modal */}
+      {/* Add/Edit Expense Modal (hidden, not closed, while signing back in so the form survives) */}
       <Modal
-        visible={isModalOpen}
+        visible={isModalOpen && !isSessionExpired}
         animationType="slide"
         presentationStyle="pageSheet"
         onRequestClose={() => setIsModalOpen(false)}
@@ -1239,7 +1108,7 @@ export default function Expenses() {
                     trackColor={{ false: '#e5e7eb', true: '#0a7ea4' }}
                     thumbColor={formData.gstIncluded ? '#fff' : '#f3f4f6'}
                   />
-                  <Text style={[styles.label, isDark && styles.labelDark]}>GST Amount</Text>
+                  <Text style={[styles.label, isDark && styles.labelDark]}>{salesTaxLabels.gst} Amount</Text>
                 </View>
                 <View style={[styles.currencyInput, isDark && styles.currencyInputDark]}>
                   <Text style={[styles.currencySymbol, isDark && styles.currencySymbolDark]}>$</Text>
@@ -1258,34 +1127,37 @@ export default function Expenses() {
                 </View>
               </View>
 
-              <View style={styles.formGroup}>
-                <View style={styles.switchRow}>
-                  <Switch
-                    value={formData.pstIncluded}
-                    onValueChange={(value) => {
-                      setFormData({ ...formData, pstIncluded: value, pstAmount: value ? formData.pstAmount : '' });
-                    }}
-                    trackColor={{ false: '#e5e7eb', true: '#0a7ea4' }}
-                    thumbColor={formData.pstIncluded ? '#fff' : '#f3f4f6'}
-                  />
-                  <Text style={[styles.label, isDark && styles.labelDark]}>PST Amount</Text>
-                </View>
-                <View style={[styles.currencyInput, isDark && styles.currencyInputDark]}>
-                  <Text style={[styles.currencySymbol, isDark && styles.currencySymbolDark]}>$</Text>
-                  <TextInput
-                    style={[styles.input, styles.inputInCurrency, isDark && styles.inputDark, !formData.pstIncluded && styles.inputDisabled]}
-                    placeholder="0.00"
-                    placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
-                    value={formData.pstAmount}
-                    onChangeText={(text) => {
-                      setFormData({ ...formData, pstAmount: text });
-                      setLastEditedField('pstAmount');
-                    }}
-                    keyboardType="decimal-pad"
-                    editable={formData.pstIncluded}
-                  />
+              {/* Provinces without PST only show it for expenses that already have some */}
+              {(chargesPst || formData.pstIncluded) && (
+                <View style={styles.formGroup}>
+                  <View style={styles.switchRow}>
+                    <Switch
+                      value={formData.pstIncluded}
+                      onValueChange={(value) => {
+                        setFormData({ ...formData, pstIncluded: value, pstAmount: value ? formData.pstAmount : '' });
+                      }}
+                      trackColor={{ false: '#e5e7eb', true: '#0a7ea4' }}
+                      thumbColor={formData.pstIncluded ? '#fff' : '#f3f4f6'}
+                    />
+                    <Text style={[styles.label, isDark && styles.labelDark]}>{salesTaxLabels.pst} Amount</Text>
+                  </View>
+                  <View style={[styles.currencyInput, isDark && styles.currencyInputDark]}>
+                    <Text style={[styles.currencySymbol, isDark && styles.currencySymbolDark]}>$</Text>
+                    <TextInput
+                      style={[styles.input, styles.inputInCurrency, isDark && styles.inputDark, !formData.pstIncluded && styles.inputDisabled]}
+                      placeholder="0.00"
+                      placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+                      value={formData.pstAmount}
+                      onChangeText={(text) => {
+                        setFormData({ ...formData, pstAmount: text });
+                        setLastEditedField('pstAmount');
+                      }}
+                      keyboardType="decimal-pad"
+                      editable={formData.pstIncluded}
+                    />
+                  </View>
                 </View>
-              </View>
+              )}
 
               <View style={styles.formGroup}>
                 <Text style={[styles.label, isDark && styles.labelDark]}>Total</Text>
@@ -1,13 +1,24 @@
+import { PendingBadge } from '@/components/pending-badge';
+import { UploadQueue } from '@/components/upload-queue';
+import { useAuth } from '@/contexts/AuthContext';
 import { useTaxYear } from '@/contexts/TaxYearContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { useAuth } from '@/hooks/useAuth';
-import { apiGet, apiRequest, uploadReceiptImage } from '@/lib/api';
+import { useCollection } from '@/hooks/useCollection';
+import { useFormDraft } from '@/hooks/useFormDraft';
+import { useOutbox } from '@/hooks/useOutbox';
+import { useSetAsides } from '@/hooks/useSetAsides';
+import { getDraft, NEW_DRAFT_ID } from '@/lib/drafts';
+import { routes } from '@/lib/endpoints';
+import { getSaveErrorMessage } from '@/lib/errors';
+import { applyPendingEntries, removeOutboxEntry, sendOrQueue, updateOutboxEntry, type WithPending } from '@/lib/outbox';
+import { removeEntity, upsertFromResponse } from '@/lib/store';
 import { formatCurrency, formatDate, getIncomeTypeLabel, getTodayLocalDateString, getYearFromDateString } from '@/lib/format';
 import { type Income } from '@/lib/types';
+import { dismissUpload, uploadReceipt, type UploadTask, waitForUpload } from '@/lib/uploads';
 import { MaterialIcons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
-import { useRouter } from 'expo-router';
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -22,12 +33,6 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-// Module-level cache to persist across component remounts
-let paystubsCache: any[] | null = null;
-let paystubsCacheTimestamp: number = 0;
-let paystubsFetching: boolean = false;
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
 const INCOME_TYPES = ['union_production', 'non_union_production', 'royalty_residual', 'cash'] as const;
 
 const ACCOUNTING_OFFICES = [
@@ -51,27 +56,31 @@ interface IncomeFormData {
   insurance: string;
 }
 
-export default function Income() {
+// The typed-in office name lives outside formData, so drafts carry it alongside
+type IncomeDraft = IncomeFormData & { customAccountingOffice: string };
+
+export default function IncomePage() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { user } = useAuth();
+  const { draft: draftParam } = useLocalSearchParams<{ draft?: string }>();
+  const { user, isSessionExpired } = useAuth();
   const { taxYear, setTaxYear } = useTaxYear();
   const hasGstNumber = user?.hasGstNumber === true;
 
-  const [incomeList, setIncomeList] = useState<Income[]>([]);
-  const [paystubs, setPaystubs] = useState<any[]>(paystubsCache || []);
-  const [isLoading, setIsLoading] = useState(true);
+  const { items: incomeList, isLoading, refresh: refreshIncome } = useCollection<Income>('income', { taxYear });
+  const { items: paystubs } = useCollection<any>('paystubs');
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [editingIncome, setEditingIncome] = useState<Income | null>(null);
+  const isModalOpenRef = useRef(isModalOpen);
+  isModalOpenRef.current = isModalOpen;
+  const [editingIncome, setEditingIncome] = useState<WithPending<Income> | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [customAccountingOffice, setCustomAccountingOffice] = useState('');
   const [showIncomeTypePicker, setShowIncomeTypePicker] = useState(false);
   const [showAccountingOfficePicker, setShowAccountingOfficePicker] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [deleteId, setDeleteId] = useState<string | null>(null);
-  const [isProcessingReceipt, setIsProcessingReceipt] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [selectedIncomeType, setSelectedIncomeType] = useState<string | null>(null);
   const [selectedAccountingOffice, setSelectedAccountingOffice] = useState<string | null>(null);
@@ -99,77 +108,36 @@ export default function Income() {
     insurance: '',
   });
 
-  const fetchPaystubs = useCallback(async () => {
-    // Prevent concurrent fetches
-    if (paystubsFetching) {
-      if (__DEV__) {
-        console.log('Paystub fetch already in progress, skipping');
-      }
-      return;
-    }
-    
-    // Use cache if it's still valid (less than 5 minutes old)
-    const now = Date.now();
-    if (paystubsCache && paystubsCacheTimestamp > 0 && (now - paystubsCacheTimestamp) < CACHE_DURATION) {
-      if (__DEV__) {
-        console.log('Using cached paystubs');
-      }
-      setPaystubs(paystubsCache);
-      return;
-    }
-    
-    paystubsFetching = true;
-    if (__DEV__) {
-      console.log('Fetching paystubs...');
-    }
-    
-    try {
-      const data = await apiGet<any[]>('/api/paystubs');
-      paystubsCache = data || [];
-      paystubsCacheTimestamp = now;
-      
-      if (__DEV__) {
-        console.log('Fetched paystubs:', data);
-        if (data && data.length > 0) {
-          console.log('Sample paystub:', data[0]);
-        }
-      }
-      setPaystubs(paystubsCache);
-    } catch (error) {
-      console.error('Error fetching paystubs:', error);
-      setPaystubs([]);
-    } finally {
-      paystubsFetching = false;
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchIncome();
-  }, []);
+  const draftValues = useMemo<IncomeDraft>(
+    () => ({ ...formData, customAccountingOffice }),
+    [formData, customAccountingOffice]
+  );
+  const { openWithDraft, discardDraft } = useFormDraft('income', draftValues, {
+    isOpen: isModalOpen,
+    entityId: editingIncome?.id,
+    label: [
+      formData.productionName || (formData.incomeType ? getIncomeTypeLabel(formData.incomeType) : 'New income'),
+      formData.amount ? formatCurrency(formData.amount) : null,
+    ].filter(Boolean).join(' · '),
+  });
 
-  // Fetch paystubs only once when component mounts
-  useEffect(() => {
-    // Only fetch if we don't have cached data
-    if (!paystubsCache || paystubsCache.length === 0) {
-      fetchPaystubs();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  // Offline changes waiting in the outbox, shown as pending rows until they sync
+  const outboxEntries = useOutbox('income', refreshIncome);
+  const incomeWithPending = useMemo(
+    () => applyPendingEntries<Income>(incomeList || [], outboxEntries, (entry) => entry.data),
+    [incomeList, outboxEntries]
+  );
 
-  const fetchIncome = async () => {
-    try {
-      setIsLoading(true);
-      const data = await apiGet<Income[]>('/api/income');
-      setIncomeList(data);
-    } catch (error) {
-      console.error('Error fetching income:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  // Set-asides are worked out over the whole year so CPP/QPP caps correctly
+  // whatever filters are applied to the list
+  const yearIncome = useMemo(
+    () => incomeWithPending.filter((item) => getYearFromDateString(item.date) === taxYear),
+    [incomeWithPending, taxYear]
+  );
+  const { setAsides, pensionPlan } = useSetAsides(taxYear, yearIncome);
 
   const filteredIncome = useMemo(() => {
-    return (incomeList || []).filter((item) => {
+    return incomeWithPending.filter((item) => {
       const itemYear = getYearFromDateString(item.date);
       if (itemYear !== taxYear) return false;
 
@@ -224,7 +192,7 @@ export default function Income() {
 
       return true;
     });
-  }, [incomeList, taxYear, searchQuery, selectedIncomeType, selectedAccountingOffice, selectedProduction, minAmount, maxAmount, dateFrom, dateTo]);
+  }, [incomeWithPending, taxYear, searchQuery, selectedIncomeType, selectedAccountingOffice, selectedProduction, minAmount, maxAmount, dateFrom, dateTo]);
 
   const totalIncome = filteredIncome.reduce((sum, item) => sum + parseFloat(item.amount.toString()), 0);
   
@@ -276,27 +244,42 @@ export default function Income() {
         insurance: formData.insurance ? parseFloat(formData.insurance) : null,
       };
 
-      if (editingIncome) {
-        await apiRequest('PATCH', `/api/income/${editingIncome.id}`, payload);
-        Alert.alert('Success', 'Income updated successfully');
+      let result: { queued: boolean; response?: Response } = { queued: true };
+      if (editingIncome?.pending?.method === 'POST') {
+        // Not on the server yet, so just update the queued create
+        await updateOutboxEntry(editingIncome.pending.entryId, payload);
+      } else if (editingIncome) {
+        result = await sendOrQueue({
+          resource: 'income',
+          ...routes.income.update.request({ id: editingIncome.id }, payload),
+          entityId: editingIncome.id,
+        });
+      } else {
+        result = await sendOrQueue({ resource: 'income', ...routes.income.create.request(undefined, payload) });
+      }
+
+      if (result.queued) {
+        Alert.alert('Saved Offline', 'This income will sync automatically when you are back online.');
       } else {
-        await apiRequest('POST', '/api/income', payload);
-        Alert.alert('Success', 'Income added successfully');
+        // Shared store update: every screen showing income picks this up
+        await upsertFromResponse('income', result.response);
+        Alert.alert('Success', editingIncome ? 'Income updated successfully' : 'Income added successfully');
       }
 
+      discardDraft();
       setIsModalOpen(false);
       setEditingIncome(null);
       resetFormData();
-      await fetchIncome();
     } catch (error) {
       console.error('Error adding income:', error);
-      Alert.alert('Error', 'Failed to add income. Please try again.');
+      Alert.alert('Error', getSaveErrorMessage(error, 'Failed to add income. Please try again.'));
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (item: WithPending<Income>) => {
+    const id = item.id;
     Alert.alert(
       'Delete income entry?',
       'This will permanently remove this income record. This action cannot be undone.',
@@ -308,9 +291,22 @@ export default function Income() {
           onPress: async () => {
             try {
               setDeleteId(id);
-              await apiRequest('DELETE', `/api/income/${id}`);
-              await fetchIncome();
-              Alert.alert('Success', 'Income deleted successfully');
+              if (item.pending?.method === 'POST') {
+                // Never reached the server, so dropping the queued create is enough
+                await removeOutboxEntry(item.pending.entryId);
+                return;
+              }
+              const { queued } = await sendOrQueue({
+                resource: 'income',
+                ...routes.income.remove.request({ id }),
+                entityId: id,
+              });
+              if (queued) {
+                Alert.alert('Deleted Offline', 'This income will be removed from the server when you are back online.');
+              } else {
+                removeEntity('income', id);
+                Alert.alert('Success', 'Income deleted successfully');
+              }
             } catch (error) {
               console.error('Error deleting income:', error);
               Alert.alert('Error', 'Failed to delete income. Please try again.');
@@ -342,12 +338,24 @@ export default function Income() {
     setEditingIncome(null);
   };
 
+  const restoreDraft = ({ customAccountingOffice: customOffice, ...values }: IncomeDraft) => {
+    setFormData(values);
+    setCustomAccountingOffice(customOffice);
+  };
+
   const openIncomeForm = () => {
-    resetFormData();
-    setIsModalOpen(true);
+    openWithDraft((draft) => {
+      resetFormData();
+      if (draft) restoreDraft(draft.values);
+      setIsModalOpen(true);
+    });
+  };
+
+  const handleEdit = (income: WithPending<Income>) => {
+    openWithDraft((draft) => startEdit(income, draft?.values), income.id);
   };
 
-  const handleEdit = (income: Income) => {
+  const startEdit = (income: WithPending<Income>, draft?: IncomeDraft) => {
     setEditingIncome(income);
     setFormData({
       amount: parseFloat(income.amount.toString()).toFixed(2),
@@ -369,62 +377,91 @@ export default function Income() {
     } else {
       setCustomAccountingOffice('');
     }
+    if (draft) restoreDraft(draft);
     setIsModalOpen(true);
   };
 
-  const processReceiptImage = async (uri: string) => {
-    try {
-      setIsProcessingReceipt(true);
-      const receiptData = await uploadReceiptImage(uri);
-      
-      // Check if OCR completed successfully
-      if (receiptData.ocrStatus === 'completed' && receiptData.expenseData) {
-        // Backend provides expenseData when OCR is successful
-        // For income, we'll try to extract relevant fields
-        const expenseData = receiptData.expenseData;
-        
-        const amount = expenseData.total || expenseData.amount || 0;
-        const date = expenseData.date || getTodayLocalDateString();
-        const productionName = expenseData.vendor || expenseData.merchantName || expenseData.description || '';
-        
-        setFormData({
-          amount: parseFloat(amount.toString()).toFixed(2),
-          date: date,
-          incomeType: '', // User will need to select this
-          productionName: productionName,
-          accountingOffice: '',
-          gstHstCollected: expenseData.gstAmount ? parseFloat(expenseData.gstAmount.toString()).toFixed(2) : '',
-          dues: '',
-          retirement: '',
-          labour: '',
-          buyout: '',
-          pension: '',
-          insurance: '',
-        });
-        setIsModalOpen(true);
-      } else if (receiptData.ocrStatus === 'processing') {
-        Alert.alert(
-          'OCR Processing',
-          'Receipt uploaded but OCR is still processing. Please check back later.',
-          [{ text: 'OK' }]
-        );
+  // "Resume" on a Dashboard draft opens this screen with ?draft=<income id or "new">
+  useEffect(() => {
+    if (!draftParam) return;
+    const draft = getDraft<IncomeDraft>('income', draftParam);
+    if (draftParam === NEW_DRAFT_ID) {
+      resetFormData();
+      if (draft) restoreDraft(draft.values);
+      setIsModalOpen(true);
+    } else {
+      const income = incomeList.find((item) => item.id === draftParam);
+      if (!income && isLoading) return;
+      if (income) {
+        startEdit(income, draft?.values);
       } else {
-        Alert.alert(
-          'OCR Not Available',
-          receiptData.ocrError || 'Could not extract data from receipt. Please use manual entry.',
-          [
-            { text: 'Manual Entry', onPress: openIncomeForm },
-            { text: 'OK', style: 'cancel' },
-          ]
-        );
+        Alert.alert('Income Not Found', 'It may have been deleted, or belong to a different tax year.');
       }
-      setIsProcessingReceipt(false);
-    } catch (error: any) {
-      console.error('Error processing receipt:', error);
-      setIsProcessingReceipt(false);
+    }
+    router.setParams({ draft: undefined });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftParam, incomeList, isLoading]);
+
+  // Fills the form from a finished receipt upload's OCR result
+  const reviewReceipt = (task: UploadTask) => {
+    dismissUpload(task.id);
+    const receiptData = task.result ?? {};
+
+    // Check if OCR completed successfully
+    if (receiptData.ocrStatus === 'completed' && receiptData.expenseData) {
+      // Backend provides expenseData when OCR is successful
+      // For income, we'll try to extract relevant fields
+      const expenseData = receiptData.expenseData;
+      
+      const amount = expenseData.total || expenseData.amount || 0;
+      const date = expenseData.date || getTodayLocalDateString();
+      const productionName = expenseData.vendor || expenseData.merchantName || expenseData.description || '';
       
-      // Check for subscription tier error
-      if (error.message?.includes('403') || error.message?.includes('subscription')) {
+      setFormData({
+        amount: parseFloat(amount.toString()).toFixed(2),
+        date: date,
+        incomeType: '', // User will need to select this
+        productionName: productionName,
+        accountingOffice: '',
+        gstHstCollected: expenseData.gstAmount ? parseFloat(expenseData.gstAmount.toString()).toFixed(2) : '',
+        dues: '',
+        retirement: '',
+        labour: '',
+        buyout: '',
+        pension: '',
+        insurance: '',
+      });
+      setIsModalOpen(true);
+    } else if (receiptData.ocrStatus === 'processing') {
+      Alert.alert(
+        'OCR Processing',
+        'Receipt uploaded but OCR is still processing. Please check back later.',
+        [{ text: 'OK' }]
+      );
+    } else {
+      Alert.alert(
+        'OCR Not Available',
+        receiptData.ocrError || 'Could not extract data from receipt. Please use manual entry.',
+        [
+          { text: 'Manual Entry', onPress: openIncomeForm },
+          { text: 'OK', style: 'cancel' },
+        ]
+      );
+    }
+  };
+
+  // Queues the photo and keeps the screen usable while it uploads
+  const processReceiptImage = async (uri: string) => {
+    const task = await uploadReceipt(uri, 'income');
+    const finished = await waitForUpload(task.id);
+    if (finished?.status === 'done') {
+      // Receipts snapped in a row wait in the upload list instead of stacking forms
+      if (!isModalOpenRef.current) {
+        reviewReceipt(finished);
+      }
+    } else if (finished?.status === 'failed') {
+      if (finished.errorKind === 'forbidden') {
+        dismissUpload(finished.id);
         Alert.alert(
           'Subscription Required',
           'Receipt uploads require a Personal or Corporate subscription. Please upgrade your plan.',
@@ -433,7 +470,7 @@ export default function Income() {
       } else {
         Alert.alert(
           'Error Processing Receipt',
-          error.message || 'Failed to process receipt. Please try again or use manual entry.',
+          finished.error || 'Failed to process receipt. Please try again or use manual entry.',
           [
             { text: 'Try Manual Entry', onPress: openIncomeForm },
             { text: 'OK', style: 'cancel' },
@@ -459,7 +496,7 @@ export default function Income() {
       });
 
       if (!result.canceled && result.assets[0]) {
-        await processReceiptImage(result.assets[0].uri);
+        processReceiptImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error('Error taking photo:', error);
@@ -483,7 +520,7 @@ export default function Income() {
       });
 
       if (!result.canceled && result.assets[0]) {
-        await processReceiptImage(result.assets[0].uri);
+        processReceiptImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error('Error picking image:', error);
@@ -517,9 +554,10 @@ export default function Income() {
     );
   };
 
-  const renderIncomeItem = useCallback(({ item }: { item: Income }) => {
+  const renderIncomeItem = useCallback(({ item }: { item: WithPending<Income> }) => {
     // Check if there's a linked paystub
     const hasLinkedPaystub = paystubs.some((paystub) => paystub.linkedIncomeId === item.id);
+    const setAside = setAsides.get(item.id);
     
     return (
     <View style={[styles.incomeCard, isDark && styles.incomeCardDark]}>
@@ -536,6 +574,7 @@ export default function Income() {
       </View>
       
       <View style={styles.incomeCardBody}>
+        {item.pending && <PendingBadge pending={item.pending} />}
         <View style={styles.incomeCardRow}>
           <View style={[styles.badge, isDark && styles.badgeDark]}>
             <Text style={[styles.badgeText, isDark && styles.badgeTextDark]}>
@@ -548,6 +587,19 @@ export default function Income() {
             </Text>
           )}
         </View>
+        {setAside && setAside.total > 0 && (
+          <View style={styles.setAsideRow}>
+            <MaterialIcons name="savings" size={16} color="#0a7ea4" />
+            <Text style={styles.setAsideAmount}>Set aside {formatCurrency(setAside.total)}</Text>
+            <Text style={[styles.incomeCardOffice, isDark && styles.incomeCardOfficeDark]}>
+              {[
+                setAside.incomeTax > 0 && `Tax ${formatCurrency(setAside.incomeTax)}`,
+                setAside.salesTax > 0 && `GST/HST ${formatCurrency(setAside.salesTax)}`,
+                setAside.pension > 0 && `${pensionPlan} ${formatCurrency(setAside.pension)}`,
+              ].filter(Boolean).join(' · ')}
+            </Text>
+          </View>
+        )}
       </View>
       
       <View style={[styles.incomeCardFooter, isDark && styles.incomeCardFooterDark]}>
@@ -573,7 +625,7 @@ export default function Income() {
             <MaterialIcons name="edit" size={20} color={isDark ? '#9BA1A6' : '#666'} />
           </TouchableOpacity>
           <TouchableOpacity
-            onPress={() => handleDelete(item.id)}
+            onPress={() => handleDelete(item)}
             disabled={deleteId === item.id}
             style={styles.incomeActionButton}
           >
@@ -587,7 +639,7 @@ export default function Income() {
       </View>
     </View>
     );
-  }, [paystubs, isDark, router, handleEdit, handleDelete, deleteId]);
+  }, [paystubs, setAsides, pensionPlan, isDark, router, handleEdit, handleDelete, deleteId]);
 
   return (
     <View style={[styles.container, isDark && styles.containerDark]}>
@@ -865,6 +917,7 @@ export default function Income() {
             </View>
           </View>
         )}
+        <UploadQueue kind="receipt" source="income" onReview={reviewReceipt} />
         {isLoading ? (
           <ActivityIndicator size="large" color={isDark ? '#9BA1A6' : '#666'} style={styles.loader} />
         ) : filteredIncome.length === 0 ? (
@@ -888,9 +941,9 @@ export default function Income() {
         )}
       </View>
 
-      {/* Add Income Modal */}
+      {/* Add Income Modal (hidden, not closed, while signing back in so the form survives) */}
       <Modal
-        visible={isModalOpen}
+        visible={isModalOpen && !isSessionExpired}
         animationType="slide"
         presentationStyle="pageSheet"
         onRequestClose={() => setIsModalOpen(false)}
@@ -1624,6 +1677,17 @@ const styles = StyleSheet.create({
   incomeCardOfficeDark: {
     color: '#9BA1A6',
   },
+  setAsideRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    flexWrap: 'wrap',
+  },
+  setAsideAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
   incomeCardFooter: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -1,41 +1,40 @@
+import { SetAsideTracker } from '@/components/set-aside-tracker';
+import { useAuth } from '@/contexts/AuthContext';
 import { useTaxYear } from '@/contexts/TaxYearContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { useAuth } from '@/hooks/useAuth';
-import { apiGet } from '@/lib/api';
-import { formatCurrency, getCategoryLabel, getYearFromDateString } from '@/lib/format';
-import { type Expense, type Vehicle, HOME_OFFICE_LIVING_CATEGORIES } from '@/lib/types';
+import { useBusinessUsePercentages } from '@/hooks/useBusinessUsePercentages';
+import { useCollection } from '@/hooks/useCollection';
+import { useDrafts } from '@/hooks/useDrafts';
+import { useSetAsides } from '@/hooks/useSetAsides';
+import { getDeductionContext, getDeductionVehicleIds, sumDeductible } from '@/lib/deductions';
+import { clearDraft, type DraftForm } from '@/lib/drafts';
+import { routes } from '@/lib/endpoints';
+import { formatCurrency, formatTimeAgo, getCategoryLabel, getYearFromDateString } from '@/lib/format';
+import { getPensionPlan } from '@/lib/pension';
+import { getProvinceRules, QUEBEC_ABATEMENT_RATE } from '@/lib/provinces';
+import { revalidateCollection } from '@/lib/store';
+import { type DashboardData, type Expense, type Income } from '@/lib/types';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'expo-router';
+import { useCallback, useMemo, useState } from 'react';
 import { ActivityIndicator, Dimensions, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { PieChart } from 'react-native-chart-kit';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-// Types
-interface Income {
-  id: string;
-  amount: number | string;
-  date: string;
-  [key: string]: any;
-}
-
-interface TaxCalculation {
-  grossIncome: number;
-  federalTax: number;
-  provincialTax: number;
-  cppContribution: number;
-}
-
-interface DashboardData {
-  income: Income[];
-  expenses: Expense[];
-  taxCalculation: TaxCalculation;
-  monthlyData: Array<{ month: string; income: number; expenses: number }>;
-  expensesByCategory: Array<{ category: string; amount: number; color: string }>;
-}
-
 const CHART_COLORS = ['#3b82f6', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#06b6d4', '#84cc16', '#f97316'];
 
+// Where each kind of draft is resumed, and how it's described in the list
+const DRAFT_SCREENS: Record<
+  DraftForm,
+  { pathname: '/expenses' | '/income' | '/mileage' | '/vehicles'; title: string; icon: keyof typeof MaterialIcons.glyphMap }
+> = {
+  expense: { pathname: '/expenses', title: 'Expense', icon: 'receipt' },
+  income: { pathname: '/income', title: 'Income', icon: 'attach-money' },
+  mileage: { pathname: '/mileage', title: 'Mileage Log', icon: 'directions-car' },
+  vehicle: { pathname: '/vehicles', title: 'Vehicle', icon: 'local-shipping' },
+};
+
 function StatCard({
   title,
   value,
@@ -91,13 +90,18 @@ export default function Dashboard() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
+  const router = useRouter();
   const { taxYear, setTaxYear } = useTaxYear();
   const { user } = useAuth();
+  const drafts = useDrafts();
   const [data, setData] = useState<DashboardData | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const [isTaxLoading, setIsTaxLoading] = useState(true);
   const [showYearPicker, setShowYearPicker] = useState(false);
-  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
-  const [vehicleBusinessUseMap, setVehicleBusinessUseMap] = useState<Map<string, number>>(new Map());
+  // Income and expenses come from the shared store so edits made on
+  // other tabs show up here immediately
+  const { items: incomeList, isLoading: isIncomeLoading } = useCollection<Income>('income', { taxYear });
+  const { items: expenseList, isLoading: isExpensesLoading } = useCollection<Expense>('expenses', { taxYear });
+  const isLoading = isTaxLoading || isIncomeLoading || isExpensesLoading;
   const currentYear = new Date().getFullYear();
   
   // Generate array of years (current year and 5 years back)
@@ -107,13 +111,10 @@ export default function Dashboard() {
     useCallback(() => {
       const fetchDashboardData = async () => {
         try {
-          setIsLoading(true);
-          const [dashboardData, vehiclesData] = await Promise.all([
-            apiGet<DashboardData>('/api/dashboard'),
-            apiGet<Vehicle[]>('/api/vehicles').catch(() => []),
-          ]);
+          // Only show a spinner the first time; later visits refresh in place
+          if (!data) setIsTaxLoading(true);
+          const dashboardData = await routes.dashboard.call();
           setData(dashboardData);
-          setVehicles(vehiclesData);
         } catch (error) {
           console.error('Error fetching dashboard data:', error);
           setData({
@@ -128,169 +129,55 @@ export default function Dashboard() {
             monthlyData: [],
             expensesByCategory: [],
           });
-          setVehicles([]);
         } finally {
-          setIsLoading(false);
+          setIsTaxLoading(false);
         }
       };
 
       fetchDashboardData();
+      (['income', 'expenses'] as const).forEach((name) => {
+        revalidateCollection(name, { taxYear }).catch((error) => console.error(`Error refreshing ${name}:`, error));
+      });
+      // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [taxYear])
   );
 
   // Filter income and expenses by selected year
   const filteredIncome = useMemo(() => {
-    return (data?.income || []).filter((item) => {
+    return incomeList.filter((item) => {
       const itemYear = getYearFromDateString(item.date);
       return itemYear === taxYear;
     });
-  }, [data?.income, taxYear]);
+  }, [incomeList, taxYear]);
+  const { totalSetAside } = useSetAsides(taxYear, filteredIncome);
 
   const filteredExpenses = useMemo(() => {
-    return (data?.expenses || []).filter((item) => {
+    return expenseList.filter((item) => {
       const itemYear = getYearFromDateString(item.date);
       return itemYear === taxYear;
-    }) as Expense[];
-  }, [data?.expenses, taxYear]);
-
-  // Helper function to calculate deductible amount for an expense
-  const calculateDeductible = useCallback((item: Expense, vehicleBusinessUseMap: Map<string, number>) => {
-    if (!item.isTaxDeductible) {
-      return { deductibleAmount: 0, deductibleGst: 0 };
-    }
-
-    const expenseType = (item as any).expenseType || 'self_employment';
-    const baseCost = item.baseCost ? parseFloat(item.baseCost.toString()) : 0;
-    const pstAmount = item.pstAmount ? parseFloat(item.pstAmount.toString()) : 0;
-    const gstAmount = item.gstAmount ? parseFloat(item.gstAmount.toString()) : 0;
-
-    if (expenseType === 'personal') {
-      return { deductibleAmount: 0, deductibleGst: 0 };
-    }
-
-    if (expenseType === 'home_office_living') {
-      // Home Office/Living expenses: apply home office percentage if set
-      let deductibleAmount = baseCost + pstAmount;
-      let deductibleGst = gstAmount;
-      if (user?.homeOfficePercentage) {
-        const percentage = parseFloat(user.homeOfficePercentage.toString()) / 100;
-        deductibleAmount = deductibleAmount * percentage;
-        deductibleGst = deductibleGst * percentage;
-      }
-      return { deductibleAmount, deductibleGst };
-    }
-
-    if (expenseType === 'vehicle') {
-      // Vehicle expenses: use business use percentage from odometer entries
-      const vehicleId = (item as any).vehicleId;
-      let businessPercentage = 1.0; // Default to 100% if no vehicle or percentage found
-      
-      if (vehicleId && vehicleBusinessUseMap.has(vehicleId)) {
-        businessPercentage = vehicleBusinessUseMap.get(vehicleId)! / 100;
-      }
-      
-      const deductibleAmount = (baseCost + pstAmount) * businessPercentage;
-      const deductibleGst = gstAmount * businessPercentage;
-      return { deductibleAmount, deductibleGst };
-    }
-
-    if (expenseType === 'self_employment') {
-      // Self-Employment expenses: fully deductible
-      return { deductibleAmount: baseCost + pstAmount, deductibleGst: gstAmount };
-    }
-
-    if (expenseType === 'mixed') {
-      const businessPercentage = (item as any).businessUsePercentage 
-        ? parseFloat((item as any).businessUsePercentage.toString()) / 100 
-        : 0;
-      
-      // Only business portion of base cost + proportional PST is deductible
-      const businessBaseCost = baseCost * businessPercentage;
-      const businessPstAmount = pstAmount * businessPercentage;
-      let deductibleAmount = businessBaseCost + businessPstAmount;
-      let deductibleGst = gstAmount * businessPercentage;
-      
-      // Apply home office percentage if applicable for home office/living categories
-      if (HOME_OFFICE_LIVING_CATEGORIES.includes(item.category as any) && user?.homeOfficePercentage) {
-        const homeOfficePercentage = parseFloat(user.homeOfficePercentage.toString()) / 100;
-        deductibleAmount = deductibleAmount * homeOfficePercentage;
-        deductibleGst = deductibleGst * homeOfficePercentage;
-      }
-      
-      return { deductibleAmount, deductibleGst };
-    }
-
-    // Default: treat as business expense (fully deductible)
-    return { deductibleAmount: baseCost + pstAmount, deductibleGst: gstAmount };
-  }, [user]);
-
-  // Get unique vehicle IDs from vehicle expenses
-  const vehicleIdsInExpenses = useMemo(() => {
-    const ids = new Set<string>();
-    if (!filteredExpenses) return [];
-    
-    filteredExpenses.forEach((expense) => {
-      const expenseType = (expense as any).expenseType || 'self_employment';
-      if (expenseType === 'vehicle' && (expense as any).vehicleId) {
-        const vehicleId = (expense as any).vehicleId;
-        if (vehicleId) {
-          ids.add(vehicleId);
-        }
-      }
     });
-    
-    return Array.from(ids);
-  }, [filteredExpenses]);
+  }, [expenseList, taxYear]);
 
-  // Fetch business use percentages for vehicles used in expenses
-  useEffect(() => {
-    const fetchVehiclePercentages = async () => {
-      const map = new Map<string, number>();
-      const promises = vehicleIdsInExpenses.map(async (vehicleId: string) => {
-        try {
-          const response = await apiGet<{ businessUsePercentage: number }>(`/api/vehicles/${vehicleId}/business-use-percentage?taxYear=${taxYear}`);
-          map.set(vehicleId, response.businessUsePercentage || 100);
-        } catch (error) {
-          map.set(vehicleId, 100); // Default to 100% if fetch fails
-        }
-      });
-      
-      await Promise.all(promises);
-      setVehicleBusinessUseMap(map);
-    };
-    
-    if (vehicleIdsInExpenses.length > 0) {
-      fetchVehiclePercentages();
-    } else {
-      setVehicleBusinessUseMap(new Map());
-    }
-  }, [vehicleIdsInExpenses, taxYear]);
+  // Vehicles whose business use is needed for the deductible totals
+  const vehicleIdsInExpenses = useMemo(() => getDeductionVehicleIds(filteredExpenses), [filteredExpenses]);
+
+  // Business use percentages for vehicles used in expenses, fetched in one batch
+  const vehicleBusinessUseMap = useBusinessUsePercentages(taxYear, vehicleIdsInExpenses);
+  const deductionContext = useMemo(
+    () => getDeductionContext(user, vehicleBusinessUseMap),
+    [user, vehicleBusinessUseMap]
+  );
 
   // Recalculate totals from filtered data
   const totalIncome = filteredIncome.reduce((sum, item) => sum + parseFloat(item.amount.toString()), 0);
   const totalExpenses = filteredExpenses.reduce((sum, item) => sum + parseFloat(item.amount.toString()), 0);
   const netCashflow = totalIncome - totalExpenses;
   
-  // Calculate deductible expenses using the helper function
-  const deductibleExpenses = useMemo(() => {
-    let deductibleSum = 0;
-    
-    // Create a temporary map with default 100% for vehicles (for summary calculations)
-    const tempVehicleMap = new Map<string, number>();
-    vehicles.forEach(vehicle => {
-      if (vehicle.id) {
-        // For summary, use 100% as default - actual calculation happens with fetched percentages
-        tempVehicleMap.set(vehicle.id, vehicleBusinessUseMap.get(vehicle.id) || 100);
-      }
-    });
-    
-    filteredExpenses.forEach((item) => {
-      const result = calculateDeductible(item, tempVehicleMap);
-      deductibleSum += result.deductibleAmount;
-    });
-    
-    return deductibleSum;
-  }, [filteredExpenses, calculateDeductible, vehicles, vehicleBusinessUseMap]);
+  // Same engine the Expenses screen uses, so both show the same total
+  const deductibleExpenses = useMemo(
+    () => sumDeductible(filteredExpenses, deductionContext).deductibleAmount,
+    [filteredExpenses, deductionContext]
+  );
   
   const netIncome = totalIncome - deductibleExpenses;
 
@@ -298,7 +185,11 @@ export default function Dashboard() {
   const originalGrossIncome = data?.taxCalculation?.grossIncome ?? 0;
   const incomeRatio = originalGrossIncome > 0 ? totalIncome / originalGrossIncome : 0;
 
-  const federalTax = (data?.taxCalculation?.federalTax ?? 0) * incomeRatio;
+  // Quebec residents pay QPP instead of CPP and get the federal abatement
+  const province = getProvinceRules(user?.province);
+  const pensionPlan = getPensionPlan(province.code);
+  const quebecAbatementShare = province.code === 'QC' ? 1 - QUEBEC_ABATEMENT_RATE : 1;
+  const federalTax = (data?.taxCalculation?.federalTax ?? 0) * incomeRatio * quebecAbatementShare;
   const provincialTax = (data?.taxCalculation?.provincialTax ?? 0) * incomeRatio;
   const cppContribution = (data?.taxCalculation?.cppContribution ?? 0) * incomeRatio;
   const totalTaxOwed = federalTax + provincialTax + cppContribution;
@@ -393,6 +284,47 @@ export default function Dashboard() {
         </TouchableOpacity>
       </Modal>
 
+      {drafts.length > 0 && (
+        <View style={[styles.section, isDark && styles.sectionDark]}>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>Unfinished Entries</Text>
+            <Text style={[styles.sectionDescription, isDark && styles.sectionDescriptionDark]}>
+              Drafts saved while you were typing
+            </Text>
+          </View>
+          <View style={styles.draftList}>
+            {drafts.map((draft) => {
+              const screen = DRAFT_SCREENS[draft.form];
+              return (
+                <View key={`${draft.form}:${draft.entityId}`} style={styles.draftItem}>
+                  <TouchableOpacity
+                    style={styles.draftInfo}
+                    onPress={() => router.push({ pathname: screen.pathname, params: { draft: draft.entityId } })}
+                  >
+                    <MaterialIcons name={screen.icon} size={20} color="#0a7ea4" />
+                    <View style={styles.draftText}>
+                      <Text style={[styles.draftTitle, isDark && styles.draftTitleDark]} numberOfLines={1}>
+                        {draft.label || `New ${screen.title.toLowerCase()}`}
+                      </Text>
+                      <Text style={[styles.draftMeta, isDark && styles.draftMetaDark]}>
+                        {screen.title} · {formatTimeAgo(draft.updatedAt)}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => clearDraft(draft.form, draft.entityId)}
+                    hitSlop={8}
+                    accessibilityLabel="Discard draft"
+                  >
+                    <MaterialIcons name="close" size={20} color={isDark ? '#9BA1A6' : '#666'} />
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
       <View style={styles.statsGrid}>
         <StatCard
           title="Total Income"
@@ -474,6 +406,8 @@ export default function Dashboard() {
         )}
       </View>
 
+      <SetAsideTracker taxYear={taxYear} shouldHaveSetAside={totalSetAside} isLoading={isIncomeLoading} />
+
       <View style={[styles.section, isDark && styles.sectionDark]}>
         <View style={styles.sectionHeader}>
           <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>Tax Breakdown</Text>
@@ -494,7 +428,7 @@ export default function Dashboard() {
               <Text style={[styles.taxValue, isDark && styles.taxValueDark]}>{formatCurrency(provincialTax)}</Text>
             </View>
             <View style={styles.taxItem}>
-              <Text style={[styles.taxLabel, isDark && styles.taxLabelDark]}>CPP Contribution</Text>
+              <Text style={[styles.taxLabel, isDark && styles.taxLabelDark]}>{pensionPlan.code} Contribution</Text>
               <Text style={[styles.taxValue, isDark && styles.taxValueDark]}>{formatCurrency(cppContribution)}</Text>
             </View>
             <View style={[styles.taxItem, styles.taxItemTotal]}>
@@ -682,6 +616,40 @@ const styles = StyleSheet.create({
   emptyTextDark: {
     color: '#9BA1A6',
   },
+  draftList: {
+    gap: 4,
+  },
+  draftItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  draftInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  draftText: {
+    flex: 1,
+  },
+  draftTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#11181C',
+  },
+  draftTitleDark: {
+    color: '#ECEDEE',
+  },
+  draftMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  draftMetaDark: {
+    color: '#9BA1A6',
+  },
   categoryItem: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1,9 +1,18 @@
+import { PendingBadge } from '@/components/pending-badge';
+import { useAuth } from '@/contexts/AuthContext';
 import { useTaxYear } from '@/contexts/TaxYearContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { apiGet, apiRequest } from '@/lib/api';
+import { useCollection } from '@/hooks/useCollection';
+import { useFormDraft } from '@/hooks/useFormDraft';
+import { useOutbox } from '@/hooks/useOutbox';
+import { type Draft, getDraft, NEW_DRAFT_ID } from '@/lib/drafts';
+import { routes } from '@/lib/endpoints';
+import { getSaveErrorMessage } from '@/lib/errors';
+import { applyPendingEntries, isLocalId, removeOutboxEntry, sendOrQueue, updateOutboxEntry, type WithPending } from '@/lib/outbox';
 import { formatDate, getTodayLocalDateString, getYearFromDateString } from '@/lib/format';
 import { type Vehicle, type VehicleMileageLog } from '@/lib/types';
 import { MaterialIcons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
@@ -31,12 +40,14 @@ export default function VehicleMileagePage() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { draft: draftParam } = useLocalSearchParams<{ draft?: string }>();
   const { taxYear, setTaxYear } = useTaxYear();
+  const { isSessionExpired } = useAuth();
 
-  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const { items: vehicles, isLoading } = useCollection<Vehicle>('vehicles');
   const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null);
   const [mileageLogs, setMileageLogs] = useState<VehicleMileageLog[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingLogId, setEditingLogId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -56,8 +67,17 @@ export default function VehicleMileagePage() {
     isBusinessUse: true,
   });
 
+  const { openWithDraft, discardDraft } = useFormDraft('mileage', formData, {
+    isOpen: isModalOpen,
+    entityId: editingLogId ?? undefined,
+    label: [
+      vehicles.find((v) => v.id === selectedVehicleId)?.name,
+      formData.tripTitle || formData.date,
+    ].filter(Boolean).join(' · '),
+    context: selectedVehicleId ? { vehicleId: selectedVehicleId } : undefined,
+  });
+
   useEffect(() => {
-    fetchVehicles();
     fetchMileageLoggingStyle();
   }, []);
 
@@ -75,25 +95,10 @@ export default function VehicleMileagePage() {
     }
   }, [vehicles]);
 
-  const fetchVehicles = async () => {
-    try {
-      const data = await apiGet<Vehicle[]>('/api/vehicles');
-      setVehicles(data);
-      if (data.length > 0 && !selectedVehicleId) {
-        setSelectedVehicleId(data[0].id);
-      }
-    } catch (error) {
-      console.error('Error fetching vehicles:', error);
-      Alert.alert('Error', 'Failed to load vehicles');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const fetchMileageLoggingStyle = async () => {
     try {
-      const data = await apiGet<{ mileageLoggingStyle: string }>('/api/user/mileage-logging-style');
-      setMileageLoggingStyle(data.mileageLoggingStyle as 'trip_distance' | 'odometer');
+      const data = await routes.user.mileageLoggingStyle.call();
+      setMileageLoggingStyle(data.mileageLoggingStyle);
     } catch (error) {
       console.error('Error fetching mileage logging style:', error);
     }
@@ -102,7 +107,7 @@ export default function VehicleMileagePage() {
   const fetchMileageLogs = async () => {
     if (!selectedVehicleId) return;
     try {
-      const data = await apiGet<VehicleMileageLog[]>(`/api/vehicles/${selectedVehicleId}/mileage-logs`);
+      const data = await routes.mileageLogs.list.call({ vehicleId: selectedVehicleId });
       setMileageLogs(data);
     } catch (error) {
       console.error('Error fetching mileage logs:', error);
@@ -113,7 +118,7 @@ export default function VehicleMileagePage() {
   const fetchBusinessUsePercentage = async () => {
     if (!selectedVehicleId) return;
     try {
-      const response = await apiGet<{ businessUsePercentage: number; totalMileage?: number; isEstimate?: boolean }>(`/api/vehicles/${selectedVehicleId}/business-use-percentage?taxYear=${taxYear}`);
+      const response = await routes.vehicles.businessUsePercentage.call({ vehicleId: selectedVehicleId, taxYear });
       setBusinessUsePercentage(response.businessUsePercentage || null);
       setTotalMileageFromAPI(response.totalMileage ?? null);
       setIsEstimateFromAPI(response.isEstimate ?? false);
@@ -128,10 +133,23 @@ export default function VehicleMileagePage() {
   const selectedVehicle = vehicles.find((v) => v.id === selectedVehicleId);
   const isOdometerStyle = mileageLoggingStyle === 'odometer';
 
+  // Offline changes waiting in the outbox, shown as pending rows until they sync
+  const outboxEntries = useOutbox('mileage-logs', fetchMileageLogs);
+  const logsWithPending = useMemo(() => {
+    const vehicleEntries = outboxEntries.filter(
+      (entry) => entry.method !== 'POST' || entry.parentId === selectedVehicleId
+    );
+    return applyPendingEntries<VehicleMileageLog>(
+      mileageLogs,
+      vehicleEntries,
+      (entry) => ({ ...entry.data, vehicleId: entry.parentId })
+    );
+  }, [mileageLogs, outboxEntries, selectedVehicleId]);
+
   // Calculate distances and totals
   const sortedLogs = useMemo(() => {
     const taxYearNum = Number(taxYear);
-    const sorted = [...mileageLogs]
+    const sorted = [...logsWithPending]
       .filter((log) => getYearFromDateString(log.date) === taxYearNum)
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
     return sorted.map((log, index) => {
@@ -145,7 +163,7 @@ export default function VehicleMileagePage() {
       }
       return { ...log, distance: Math.max(0, distance) };
     });
-  }, [mileageLogs, selectedVehicle, taxYear]);
+  }, [logsWithPending, selectedVehicle, taxYear]);
 
   const filteredLogs = useMemo(() => {
     return sortedLogs
@@ -295,26 +313,67 @@ export default function VehicleMileagePage() {
         isBusinessUse: formData.isBusinessUse,
       };
 
-      if (editingLogId) {
-        await apiRequest('PATCH', `/api/mileage-logs/${editingLogId}`, payload);
-        Alert.alert('Success', 'Mileage log updated successfully');
+      let queued = false;
+      if (editingLogId && isLocalId(editingLogId)) {
+        // Not on the server yet, so just update the queued create
+        await updateOutboxEntry(editingLogId, payload);
+        queued = true;
+      } else if (editingLogId) {
+        ({ queued } = await sendOrQueue({
+          resource: 'mileage-logs',
+          ...routes.mileageLogs.update.request({ id: editingLogId }, payload),
+          entityId: editingLogId,
+        }));
       } else {
-        await apiRequest('POST', `/api/vehicles/${selectedVehicleId}/mileage-logs`, payload);
-        Alert.alert('Success', 'Mileage log added successfully');
+        ({ queued } = await sendOrQueue({
+          resource: 'mileage-logs',
+          ...routes.mileageLogs.create.request({ vehicleId: selectedVehicleId }, payload),
+          parentId: selectedVehicleId,
+        }));
       }
 
+      if (queued) {
+        Alert.alert('Saved Offline', 'This mileage log will sync automatically when you are back online.');
+      } else {
+        Alert.alert('Success', editingLogId ? 'Mileage log updated successfully' : 'Mileage log added successfully');
+      }
+
+      discardDraft();
       setIsModalOpen(false);
       resetFormData();
-      await fetchMileageLogs();
+      if (!queued) {
+        await fetchMileageLogs();
+      }
     } catch (error) {
       console.error('Error saving mileage log:', error);
-      Alert.alert('Error', 'Failed to save mileage log. Please try again.');
+      Alert.alert('Error', getSaveErrorMessage(error, 'Failed to save mileage log. Please try again.'));
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  // Drafts remember their vehicle, so resuming one switches back to it
+  const openForm = (draft?: Draft<MileageLogFormData>, logId?: string) => {
+    if (draft?.context?.vehicleId) setSelectedVehicleId(draft.context.vehicleId);
+    resetFormData();
+    if (draft) setFormData(draft.values);
+    if (logId) setEditingLogId(logId);
+    setIsModalOpen(true);
+  };
+
+  // "Resume" on a Dashboard draft opens this screen with ?draft=<log id or "new">
+  useEffect(() => {
+    if (!draftParam) return;
+    openForm(getDraft<MileageLogFormData>('mileage', draftParam), draftParam === NEW_DRAFT_ID ? undefined : draftParam);
+    router.setParams({ draft: undefined });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftParam]);
+
   const handleEdit = (log: VehicleMileageLog) => {
+    openWithDraft((draft) => (draft ? openForm(draft, log.id) : startEdit(log)), log.id);
+  };
+
+  const startEdit = (log: VehicleMileageLog) => {
     setEditingLogId(log.id);
     let readingValue: string;
 
@@ -347,9 +406,22 @@ export default function VehicleMileagePage() {
           onPress: async () => {
             try {
               setDeleteId(id);
-              await apiRequest('DELETE', `/api/mileage-logs/${id}`);
-              Alert.alert('Success', 'Mileage log deleted successfully');
-              await fetchMileageLogs();
+              if (isLocalId(id)) {
+                // Never reached the server, so dropping the queued create is enough
+                await removeOutboxEntry(id);
+                return;
+              }
+              const { queued } = await sendOrQueue({
+                resource: 'mileage-logs',
+                ...routes.mileageLogs.remove.request({ id }),
+                entityId: id,
+              });
+              if (queued) {
+                Alert.alert('Deleted Offline', 'This mileage log will be removed from the server when you are back online.');
+              } else {
+                Alert.alert('Success', 'Mileage log deleted successfully');
+                await fetchMileageLogs();
+              }
             } catch (error) {
               console.error('Error deleting mileage log:', error);
               Alert.alert('Error', 'Failed to delete mileage log. Please try again.');
@@ -362,7 +434,7 @@ export default function VehicleMileagePage() {
     );
   };
 
-  const renderMileageItem = ({ item }: { item: VehicleMileageLog & { distance?: number } }) => (
+  const renderMileageItem = ({ item }: { item: WithPending<VehicleMileageLog> & { distance?: number } }) => (
     <View style={[styles.mileageCard, isDark && styles.mileageCardDark]}>
       <View style={styles.mileageCardHeader}>
         <View style={styles.mileageCardHeaderLeft}>
@@ -378,6 +450,7 @@ export default function VehicleMileagePage() {
         </Text>
       </View>
       <View style={styles.mileageCardBody}>
+        {item.pending && <PendingBadge pending={item.pending} />}
         <View style={styles.mileageCardRow}>
           <View style={[styles.badge, item.isBusinessUse && styles.badgeBusiness, isDark && styles.badgeDark]}>
             <Text style={[styles.badgeText, isDark && styles.badgeTextDark]}>
@@ -572,9 +645,9 @@ export default function VehicleMileagePage() {
         </TouchableOpacity>
       </Modal>
 
-      {/* Add/Edit Mileage Log Modal */}
+      {/* Add/Edit Mileage Log Modal (hidden, not closed, while signing back in so the form survives) */}
       <Modal
-        visible={isModalOpen}
+        visible={isModalOpen && !isSessionExpired}
         animationType="slide"
         presentationStyle="pageSheet"
         onRequestClose={() => setIsModalOpen(false)}
@@ -720,10 +793,7 @@ export default function VehicleMileagePage() {
       </ScrollView>
       <TouchableOpacity
         style={[styles.fabButton, { bottom: insets.bottom + 16, right: 24 }]}
-        onPress={() => {
-          resetFormData();
-          setIsModalOpen(true);
-        }}
+        onPress={() => openWithDraft((draft) => openForm(draft))}
         activeOpacity={0.8}
       >
         <MaterialIcons name="add" size={32} color="#fff" />
@@ -1,5 +1,8 @@
+import { useAuth } from '@/contexts/AuthContext';
 import { useTaxYear } from '@/contexts/TaxYearContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { getAuthErrorMessage } from '@/lib/auth';
+import { countUnsyncedChanges } from '@/lib/session';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useState } from 'react';
@@ -23,29 +26,34 @@ export default function More() {
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { taxYear, setTaxYear } = useTaxYear();
+  const { taxYear, setTaxYear, resetTaxYear } = useTaxYear();
+  const { signOut } = useAuth();
   const [showYearPicker, setShowYearPicker] = useState(false);
   const currentYear = new Date().getFullYear();
 
   // Generate array of years (current year and 5 years back)
   const availableYears = Array.from({ length: 6 }, (_, i) => currentYear - i);
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    const unsyncedCount = await countUnsyncedChanges();
     Alert.alert(
       'Sign Out',
-      'Are you sure you want to sign out?',
+      unsyncedCount > 0
+        ? `${unsyncedCount} change${unsyncedCount === 1 ? '' : 's'} on this device ${unsyncedCount === 1 ? "hasn't" : "haven't"} been synced yet and will be lost if you sign out.`
+        : 'Are you sure you want to sign out? Your data will be removed from this device.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Sign Out',
+          text: unsyncedCount > 0 ? 'Discard and Sign Out' : 'Sign Out',
           style: 'destructive',
           onPress: async () => {
             try {
-              // TODO: Add logout API call if available
-              // For now, just navigate to login
+              await signOut();
+              await resetTaxYear();
               router.replace('/login');
             } catch (error) {
               console.error('Error signing out:', error);
+              Alert.alert('Error', getAuthErrorMessage(error, 'Failed to sign out. Please try again.'));
             }
           },
         },
@@ -73,6 +81,22 @@ export default function More() {
           },
           showChevron: true,
         },
+        {
+          title: 'Employment Slips (T4)',
+          icon: 'work',
+          onPress: () => {
+            router.push('/employment-slips');
+          },
+          showChevron: true,
+        },
+        {
+          title: 'Tax Instalments',
+          icon: 'event',
+          onPress: () => {
+            router.push('/instalments');
+          },
+          showChevron: true,
+        },
       ],
     },
     {
@@ -101,6 +125,14 @@ export default function More() {
           },
           showChevron: true,
         },
+        {
+          title: 'App Lock',
+          icon: 'lock',
+          onPress: () => {
+            router.push('/app-lock');
+          },
+          showChevron: true,
+        },
       ],
     },
     {
@@ -121,6 +153,14 @@ export default function More() {
           },
           showChevron: true,
         },
+        {
+          title: 'Server',
+          icon: 'dns',
+          onPress: () => {
+            router.push('/server-profiles');
+          },
+          showChevron: true,
+        },
       ],
     },
   ];
@@ -1,63 +1,86 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
-import { Stack, useRouter, useSegments } from 'expo-router';
+import * as Notifications from 'expo-notifications';
+import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
 import 'react-native-reanimated';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
+import { AppLockScreen } from '@/components/app-lock-screen';
+import { AppLockProvider } from '@/contexts/AppLockContext';
+import { AuthProvider } from '@/contexts/AuthContext';
 import { TaxYearProvider } from '@/contexts/TaxYearContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { useAuth } from '@/hooks/useAuth';
+import { useOutboxSync } from '@/hooks/useOutbox';
+import { useRouteGuard } from '@/hooks/useRouteGuard';
 import '@/lib/network-config'; // Initialize network configuration to prefer IPv4
+import { resumeUploads } from '@/lib/uploads';
 
 export const unstable_settings = {
   anchor: '(tabs)',
 };
 
-export default function RootLayout() {
+// Instalment reminders still show as a banner when they arrive with the app open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+function RootNavigator() {
   const colorScheme = useColorScheme();
-  const { isAuthenticated, isLoading } = useAuth();
-  const segments = useSegments();
-  const router = useRouter();
 
+  // Replay offline changes whenever the backend becomes reachable again
+  useOutboxSync();
+
+  // Pick up photo uploads that were interrupted when the app was last closed
   useEffect(() => {
-    if (isLoading) return;
+    resumeUploads();
+  }, []);
 
-    const inAuthGroup = segments[0] === '(tabs)';
-    const isPublicPage = segments[0] === 'login';
-    const currentRoute = segments[0] as string;
-    const isSettingsPage = currentRoute === 'vehicles' || currentRoute === 'expense-settings' || currentRoute === 'about' || currentRoute === 'tax-calculator' || currentRoute === 'gst-hst' || currentRoute === 'profile' || currentRoute === 'paystub-gallery' || currentRoute === 'receipt-gallery' || currentRoute === 'odometer-gallery' || currentRoute === 'help' || currentRoute === 'modal';
+  // Login redirects and plan checks for every screen (see lib/route-guards.ts)
+  useRouteGuard();
 
-    if (!isAuthenticated && (inAuthGroup || isSettingsPage)) {
-      // Redirect to login if not authenticated and trying to access protected pages
-      router.replace('/login');
-    } else if (isAuthenticated && isPublicPage) {
-      // Redirect to tabs if authenticated and on login page
-      router.replace('/(tabs)');
-    }
-  }, [isAuthenticated, isLoading, segments]);
+  return (
+    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+      <Stack>
+        <Stack.Screen name="login" options={{ headerShown: false }} />
+        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        <Stack.Screen name="vehicles" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="expense-settings" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="about" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="help" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="tax-calculator" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="gst-hst" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="employment-slips" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="instalments" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="profile" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="paystub-gallery" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="receipt-gallery" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="odometer-gallery" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="server-profiles" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="app-lock" options={{ headerShown: false, presentation: 'card' }} />
+        <Stack.Screen name="upgrade" options={{ headerShown: false, presentation: 'card' }} />
+      </Stack>
+      <AppLockScreen />
+      <StatusBar style="auto" />
+    </ThemeProvider>
+  );
+}
 
+export default function RootLayout() {
   return (
     <SafeAreaProvider>
       <TaxYearProvider>
-        <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-          <Stack>
-            <Stack.Screen name="login" options={{ headerShown: false }} />
-            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-            <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-            <Stack.Screen name="vehicles" options={{ headerShown: false, presentation: 'card' }} />
-            <Stack.Screen name="expense-settings" options={{ headerShown: false, presentation: 'card' }} />
-            <Stack.Screen name="about" options={{ headerShown: false, presentation: 'card' }} />
-            <Stack.Screen name="help" options={{ headerShown: false, presentation: 'card' }} />
-            <Stack.Screen name="tax-calculator" options={{ headerShown: false, presentation: 'card' }} />
-            <Stack.Screen name="gst-hst" options={{ headerShown: false, presentation: 'card' }} />
-            <Stack.Screen name="profile" options={{ headerShown: false, presentation: 'card' }} />
-            <Stack.Screen name="paystub-gallery" options={{ headerShown: false, presentation: 'card' }} />
-            <Stack.Screen name="receipt-gallery" options={{ headerShown: false, presentation: 'card' }} />
-            <Stack.Screen name="odometer-gallery" options={{ headerShown: false, presentation: 'card' }} />
-          </Stack>
-          <StatusBar style="auto" />
-        </ThemeProvider>
+        <AuthProvider>
+          <AppLockProvider>
+            <RootNavigator />
+          </AppLockProvider>
+        </AuthProvider>
       </TaxYearProvider>
     </SafeAreaProvider>
   );
@@ -0,0 +1,356 @@
+import { PinPad } from '@/components/pin-pad';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  clearAppLock,
+  getBiometricLabel,
+  LOCK_TIMEOUT_OPTIONS,
+  PIN_LENGTH,
+  setPin,
+  updateAppLockSettings,
+  verifyPin,
+} from '@/lib/app-lock';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { Alert, Modal, ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// What the PIN modal is doing: turning the lock on, changing the PIN or turning it off
+type PinFlow = 'enable' | 'change' | 'disable';
+type PinStep = 'current' | 'new' | 'confirm';
+
+const STEP_PROMPTS: Record<PinStep, string> = {
+  current: 'Enter your current PIN',
+  new: `Choose a ${PIN_LENGTH}-digit PIN`,
+  confirm: 'Enter the PIN again to confirm',
+};
+
+export default function AppLockSettingsPage() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { settings } = useAppLock();
+  const [biometricLabel, setBiometricLabel] = useState<string | null>(null);
+  const [flow, setFlow] = useState<PinFlow | null>(null);
+  const [step, setStep] = useState<PinStep>('new');
+  const [value, setValue] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getBiometricLabel().then(setBiometricLabel);
+  }, []);
+
+  const startFlow = (nextFlow: PinFlow) => {
+    setFlow(nextFlow);
+    setStep(nextFlow === 'enable' ? 'new' : 'current');
+    setValue('');
+    setNewPin('');
+    setError(null);
+  };
+
+  const closeFlow = () => setFlow(null);
+
+  const handleChange = async (entered: string) => {
+    setValue(entered);
+    setError(null);
+    if (entered.length < PIN_LENGTH) return;
+    setValue('');
+
+    try {
+      if (step === 'current') {
+        const result = await verifyPin(entered);
+        if (!result.ok) {
+          setError(
+            result.attemptsLeft > 0
+              ? `Wrong PIN. ${result.attemptsLeft} attempt${result.attemptsLeft === 1 ? '' : 's'} left.`
+              : 'Too many wrong PINs. Sign out and back in to reset your PIN.'
+          );
+          return;
+        }
+        if (flow === 'disable') {
+          await clearAppLock();
+          closeFlow();
+        } else {
+          setStep('new');
+        }
+      } else if (step === 'new') {
+        setNewPin(entered);
+        setStep('confirm');
+      } else if (entered !== newPin) {
+        setNewPin('');
+        setStep('new');
+        setError("PINs didn't match. Try again.");
+      } else {
+        await setPin(entered);
+        closeFlow();
+      }
+    } catch (error) {
+      console.error('Error updating app lock:', error);
+      closeFlow();
+      Alert.alert('Error', 'Failed to update the app lock. Please try again.');
+    }
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, isDark && styles.containerDark]}
+      contentContainerStyle={[styles.contentContainer, { paddingTop: insets.top + 8 }]}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color={isDark ? '#ECEDEE' : '#11181C'} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={[styles.title, isDark && styles.titleDark]}>App Lock</Text>
+          <Text style={[styles.subtitle, isDark && styles.subtitleDark]}>
+            Keep your income and tax figures private
+          </Text>
+        </View>
+      </View>
+
+      <View style={[styles.card, isDark && styles.cardDark]}>
+        <View style={styles.row}>
+          <View style={styles.rowText}>
+            <Text style={[styles.rowTitle, isDark && styles.rowTitleDark]}>Require PIN</Text>
+            <Text style={[styles.rowDescription, isDark && styles.rowDescriptionDark]}>
+              Asked for when the app starts and after it has been in the background
+            </Text>
+          </View>
+          <Switch
+            value={settings.enabled}
+            onValueChange={(enabled) => startFlow(enabled ? 'enable' : 'disable')}
+            trackColor={{ false: '#d1d5db', true: '#0a7ea4' }}
+          />
+        </View>
+
+        {settings.enabled && (
+          <>
+            {biometricLabel && (
+              <View style={[styles.row, styles.rowBorder, isDark && styles.rowBorderDark]}>
+                <View style={styles.rowText}>
+                  <Text style={[styles.rowTitle, isDark && styles.rowTitleDark]}>Unlock with {biometricLabel}</Text>
+                  <Text style={[styles.rowDescription, isDark && styles.rowDescriptionDark]}>
+                    Your PIN still works if {biometricLabel} fails
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.useBiometrics}
+                  onValueChange={(useBiometrics) => updateAppLockSettings({ useBiometrics })}
+                  trackColor={{ false: '#d1d5db', true: '#0a7ea4' }}
+                />
+              </View>
+            )}
+            <TouchableOpacity
+              style={[styles.row, styles.rowBorder, isDark && styles.rowBorderDark]}
+              onPress={() => startFlow('change')}
+            >
+              <Text style={[styles.rowTitle, isDark && styles.rowTitleDark]}>Change PIN</Text>
+              <MaterialIcons name="chevron-right" size={24} color={isDark ? '#9BA1A6' : '#666'} />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      {settings.enabled && (
+        <View style={[styles.card, isDark && styles.cardDark]}>
+          <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>Lock After</Text>
+          {LOCK_TIMEOUT_OPTIONS.map((option) => {
+            const isSelected = option.seconds === settings.timeoutSeconds;
+            return (
+              <TouchableOpacity
+                key={option.seconds}
+                style={styles.option}
+                onPress={() => updateAppLockSettings({ timeoutSeconds: option.seconds })}
+              >
+                <MaterialIcons
+                  name={isSelected ? 'radio-button-checked' : 'radio-button-unchecked'}
+                  size={22}
+                  color={isSelected ? '#0a7ea4' : isDark ? '#9BA1A6' : '#666'}
+                />
+                <Text style={[styles.optionText, isDark && styles.optionTextDark]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+          <Text style={[styles.rowDescription, isDark && styles.rowDescriptionDark]}>
+            How long the app can stay in the background before it asks for your PIN again
+          </Text>
+        </View>
+      )}
+
+      <Modal visible={flow !== null} animationType="slide" onRequestClose={closeFlow}>
+        <View style={[styles.pinModal, isDark && styles.pinModalDark, { paddingTop: insets.top + 48 }]}>
+          <Text style={[styles.pinTitle, isDark && styles.pinTitleDark]}>
+            {flow === 'disable' ? 'Turn Off App Lock' : flow === 'change' ? 'Change PIN' : 'Set Up App Lock'}
+          </Text>
+          <Text style={[styles.pinPrompt, isDark && styles.pinPromptDark, error && styles.pinPromptError]}>
+            {error || STEP_PROMPTS[step]}
+          </Text>
+          <PinPad value={value} length={PIN_LENGTH} onChange={handleChange} />
+          <TouchableOpacity style={styles.cancelButton} onPress={closeFlow}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  containerDark: {
+    backgroundColor: '#151718',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    marginBottom: 4,
+    color: '#11181C',
+  },
+  titleDark: {
+    color: '#ECEDEE',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  subtitleDark: {
+    color: '#9BA1A6',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+    marginBottom: 16,
+  },
+  cardDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  rowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  rowBorderDark: {
+    borderTopColor: '#374151',
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#11181C',
+  },
+  rowTitleDark: {
+    color: '#ECEDEE',
+  },
+  rowDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  rowDescriptionDark: {
+    color: '#9BA1A6',
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  sectionTitleDark: {
+    color: '#9BA1A6',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#11181C',
+  },
+  optionTextDark: {
+    color: '#ECEDEE',
+  },
+  pinModal: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: 24,
+  },
+  pinModalDark: {
+    backgroundColor: '#151718',
+  },
+  pinTitle: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#11181C',
+    marginBottom: 8,
+  },
+  pinTitleDark: {
+    color: '#ECEDEE',
+  },
+  pinPrompt: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  pinPromptDark: {
+    color: '#9BA1A6',
+  },
+  pinPromptError: {
+    color: '#ef4444',
+  },
+  cancelButton: {
+    marginTop: 24,
+    padding: 8,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#0a7ea4',
+  },
+});
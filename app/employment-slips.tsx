@@ -0,0 +1,723 @@
+import { UploadQueue } from '@/components/upload-queue';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTaxYear } from '@/contexts/TaxYearContext';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useCollection } from '@/hooks/useCollection';
+import { routes } from '@/lib/endpoints';
+import { getSaveErrorMessage } from '@/lib/errors';
+import { formatCurrency } from '@/lib/format';
+import { getPensionPlan } from '@/lib/pension';
+import { getProvinceRules } from '@/lib/provinces';
+import { removeEntity, upsertEntities } from '@/lib/store';
+import { employmentFromSlips } from '@/lib/tax-engine';
+import { type T4Slip } from '@/lib/types';
+import { uploadT4SlipPhoto } from '@/lib/uploads';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useRouter } from 'expo-router';
+import { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+interface SlipFormData {
+  employer: string;
+  employmentIncome: string;
+  incomeTaxDeducted: string;
+  cppContributions: string;
+  eiPremiums: string;
+  unionDues: string;
+}
+
+const EMPTY_FORM: SlipFormData = {
+  employer: '',
+  employmentIncome: '',
+  incomeTaxDeducted: '',
+  cppContributions: '',
+  eiPremiums: '',
+  unionDues: '',
+};
+
+const AMOUNT_FIELDS = ['employmentIncome', 'incomeTaxDeducted', 'cppContributions', 'eiPremiums', 'unionDues'] as const;
+
+function toFormValue(value: number | string | null | undefined) {
+  return value === null || value === undefined ? '' : value.toString();
+}
+
+export default function EmploymentSlipsPage() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { user, isSessionExpired } = useAuth();
+  const { taxYear } = useTaxYear();
+  const pensionPlan = getPensionPlan(getProvinceRules(user?.province).code);
+
+  const { items: slipList, isLoading } = useCollection<T4Slip>('t4Slips', { taxYear });
+  const slips = useMemo(() => slipList.filter((slip) => Number(slip.taxYear) === taxYear), [slipList, taxYear]);
+  const totals = useMemo(() => employmentFromSlips(slips), [slips]);
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingSlip, setEditingSlip] = useState<T4Slip | null>(null);
+  const [formData, setFormData] = useState<SlipFormData>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+
+  // Box labels; box 16 is box 17 on slips for QPP contributions
+  const amountLabels: Record<(typeof AMOUNT_FIELDS)[number], string> = {
+    employmentIncome: 'Box 14 · Employment income *',
+    incomeTaxDeducted: 'Box 22 · Income tax deducted',
+    cppContributions: `Box ${pensionPlan.code === 'QPP' ? '17' : '16'} · ${pensionPlan.code} contributions`,
+    eiPremiums: 'Box 18 · EI premiums',
+    unionDues: 'Box 44 · Union dues',
+  };
+
+  const openSlipForm = (slip?: T4Slip) => {
+    setEditingSlip(slip ?? null);
+    setFormData(
+      slip
+        ? {
+            employer: slip.employer,
+            employmentIncome: toFormValue(slip.employmentIncome),
+            incomeTaxDeducted: toFormValue(slip.incomeTaxDeducted),
+            cppContributions: toFormValue(slip.cppContributions),
+            eiPremiums: toFormValue(slip.eiPremiums),
+            unionDues: toFormValue(slip.unionDues),
+          }
+        : EMPTY_FORM
+    );
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.employer.trim() || !formData.employmentIncome) {
+      Alert.alert('Error', 'Please enter the employer and the box 14 employment income');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const payload: Record<string, string | number | null> = { taxYear, employer: formData.employer.trim() };
+      AMOUNT_FIELDS.forEach((field) => {
+        payload[field] = formData[field] ? parseFloat(formData[field]) : null;
+      });
+
+      const slip = editingSlip
+        ? await routes.t4Slips.update.call({ id: editingSlip.id }, payload)
+        : await routes.t4Slips.create.call(undefined, payload);
+      // Shared store update: the Tax Estimator picks the slip up right away
+      upsertEntities('t4Slips', slip);
+
+      setIsModalOpen(false);
+      setEditingSlip(null);
+      if (!editingSlip) {
+        Alert.alert('Slip Added', 'Would you like to attach a photo of the slip?', [
+          { text: 'Not now', style: 'cancel' },
+          { text: 'Add Photo', onPress: () => handleAttachPhoto(slip) },
+        ]);
+      }
+    } catch (error) {
+      console.error('Error saving T4 slip:', error);
+      Alert.alert('Error', getSaveErrorMessage(error, 'Failed to save slip. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = (slip: T4Slip) => {
+    Alert.alert('Delete slip?', `This will permanently remove the T4 from ${slip.employer}.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setDeleteId(slip.id);
+            await routes.t4Slips.remove.call({ id: slip.id });
+            removeEntity('t4Slips', slip.id);
+          } catch (error) {
+            console.error('Error deleting T4 slip:', error);
+            Alert.alert('Error', 'Failed to delete slip. Please try again.');
+          } finally {
+            setDeleteId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const pickPhoto = async (slip: T4Slip, source: 'camera' | 'library') => {
+    try {
+      const permission =
+        source === 'camera'
+          ? await ImagePicker.requestCameraPermissionsAsync()
+          : await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (permission.granted === false) {
+        Alert.alert(
+          'Permission Required',
+          source === 'camera'
+            ? 'Camera permission is required to take photos'
+            : 'Photo library permission is required to select photos'
+        );
+        return;
+      }
+
+      const options: ImagePicker.ImagePickerOptions = {
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        quality: 0.8,
+      };
+      const result =
+        source === 'camera'
+          ? await ImagePicker.launchCameraAsync(options)
+          : await ImagePicker.launchImageLibraryAsync(options);
+
+      if (!result.canceled && result.assets[0]) {
+        // Uploads in the background; the slip gets its photo when it's done
+        uploadT4SlipPhoto(slip.id, result.assets[0].uri);
+      }
+    } catch (error) {
+      console.error('Error attaching slip photo:', error);
+      Alert.alert('Error', 'Failed to attach photo. Please try again.');
+    }
+  };
+
+  const handleAttachPhoto = (slip: T4Slip) => {
+    Alert.alert(slip.photoUrl ? 'Replace Photo' : 'Attach Photo', 'Add a photo of this T4 slip', [
+      { text: 'Take Photo', onPress: () => pickPhoto(slip, 'camera') },
+      { text: 'Choose from Library', onPress: () => pickPhoto(slip, 'library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const renderAmountRow = (label: string, value: number | string | null | undefined) => {
+    if (value === null || value === undefined || value === '') return null;
+    return (
+      <View style={styles.slipDetailRow}>
+        <Text style={[styles.slipDetailLabel, isDark && styles.slipDetailLabelDark]}>{label}</Text>
+        <Text style={[styles.slipDetailValue, isDark && styles.slipDetailValueDark]}>{formatCurrency(value)}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, isDark && styles.containerDark]}
+      contentContainerStyle={[styles.contentContainer, { paddingTop: insets.top + 8 }]}
+    >
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color={isDark ? '#ECEDEE' : '#11181C'} />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={[styles.title, isDark && styles.titleDark]}>Employment Slips</Text>
+            <Text style={[styles.subtitle, isDark && styles.subtitleDark]}>
+              T4 slips from regular employment for {taxYear}
+            </Text>
+          </View>
+        </View>
+        <TouchableOpacity style={styles.fabButton} onPress={() => openSlipForm()} activeOpacity={0.8}>
+          <MaterialIcons name="add" size={28} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      {slips.length > 0 && (
+        <View style={[styles.card, isDark && styles.cardDark]}>
+          <View style={styles.cardHeader}>
+            <Text style={[styles.cardTitle, isDark && styles.cardTitleDark]}>{taxYear} Totals</Text>
+            <Text style={[styles.cardDescription, isDark && styles.cardDescriptionDark]}>
+              Used by the Tax Estimator with your self-employment income
+            </Text>
+          </View>
+          <View style={styles.slipDetails}>
+            {renderAmountRow('Employment income', totals.employmentIncome)}
+            {renderAmountRow('Income tax deducted', totals.taxesPaid)}
+            {renderAmountRow(`${pensionPlan.code} contributions`, totals.employmentPensionPaid)}
+            {renderAmountRow('EI premiums', totals.employmentEiPaid)}
+            {renderAmountRow('Union dues', totals.unionDues)}
+          </View>
+        </View>
+      )}
+
+      <UploadQueue kind="t4" />
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={isDark ? '#9BA1A6' : '#666'} />
+        </View>
+      ) : slips.length === 0 ? (
+        <View style={[styles.emptyState, isDark && styles.emptyStateDark]}>
+          <MaterialIcons name="work-outline" size={48} color={isDark ? '#9BA1A6' : '#666'} />
+          <Text style={[styles.emptyStateText, isDark && styles.emptyStateTextDark]}>No T4 slips for {taxYear}</Text>
+          <Text style={[styles.emptyStateSubtext, isDark && styles.emptyStateSubtextDark]}>
+            Tap the + button to add a slip from each employer
+          </Text>
+        </View>
+      ) : (
+        slips.map((slip) => (
+          <View key={slip.id} style={[styles.slipCard, isDark && styles.slipCardDark]}>
+            <View style={styles.slipCardHeader}>
+              <View style={styles.slipCardHeaderLeft}>
+                <Text style={[styles.slipCardTitle, isDark && styles.slipCardTitleDark]}>{slip.employer}</Text>
+                <Text style={[styles.slipCardSubtitle, isDark && styles.slipCardSubtitleDark]}>T4 · {taxYear}</Text>
+              </View>
+              <View style={styles.slipCardActions}>
+                <TouchableOpacity onPress={() => handleAttachPhoto(slip)} style={styles.slipActionButton}>
+                  <MaterialIcons name="add-a-photo" size={20} color={isDark ? '#9BA1A6' : '#666'} />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => openSlipForm(slip)} style={styles.slipActionButton}>
+                  <MaterialIcons name="edit" size={20} color={isDark ? '#9BA1A6' : '#666'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleDelete(slip)}
+                  style={styles.slipActionButton}
+                  disabled={deleteId === slip.id}
+                >
+                  {deleteId === slip.id ? (
+                    <ActivityIndicator size="small" color="#ef4444" />
+                  ) : (
+                    <MaterialIcons name="delete" size={20} color="#ef4444" />
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+            <View style={styles.slipDetails}>
+              {renderAmountRow('Box 14 · Employment income', slip.employmentIncome)}
+              {renderAmountRow('Box 22 · Income tax deducted', slip.incomeTaxDeducted)}
+              {renderAmountRow(amountLabels.cppContributions, slip.cppContributions)}
+              {renderAmountRow('Box 18 · EI premiums', slip.eiPremiums)}
+              {renderAmountRow('Box 44 · Union dues', slip.unionDues)}
+            </View>
+            {slip.photoUrl && <Image source={{ uri: slip.photoUrl }} style={styles.slipPhoto} resizeMode="cover" />}
+          </View>
+        ))
+      )}
+
+      {/* Add/Edit Slip Modal (hidden, not closed, while signing back in so the form survives) */}
+      <Modal
+        visible={isModalOpen && !isSessionExpired}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setIsModalOpen(false)}
+      >
+        <View style={[styles.modalContainer, isDark && styles.modalContainerDark]}>
+          <View style={[styles.modalHeader, isDark && styles.modalHeaderDark]}>
+            <Text style={[styles.modalTitle, isDark && styles.modalTitleDark]}>
+              {editingSlip ? 'Edit T4 Slip' : 'Add T4 Slip'}
+            </Text>
+            <TouchableOpacity onPress={() => setIsModalOpen(false)}>
+              <MaterialIcons name="close" size={24} color={isDark ? '#ECEDEE' : '#11181C'} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent} contentContainerStyle={styles.modalContentContainer}>
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, isDark && styles.labelDark]}>Employer *</Text>
+              <TextInput
+                style={[styles.input, isDark && styles.inputDark]}
+                placeholder="Employer's name as shown on the slip"
+                placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+                value={formData.employer}
+                onChangeText={(text) => setFormData({ ...formData, employer: text })}
+              />
+            </View>
+
+            {AMOUNT_FIELDS.map((field) => (
+              <View key={field} style={styles.formGroup}>
+                <Text style={[styles.label, isDark && styles.labelDark]}>{amountLabels[field]}</Text>
+                <TextInput
+                  style={[styles.input, isDark && styles.inputDark]}
+                  placeholder="0.00"
+                  placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+                  value={formData[field]}
+                  onChangeText={(text) => setFormData({ ...formData, [field]: text })}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            ))}
+            <Text style={[styles.helperText, isDark && styles.helperTextDark]}>
+              From 2024, add any second additional contributions (box 16A or 17A) to the {pensionPlan.code} amount.
+            </Text>
+          </ScrollView>
+
+          <View style={[styles.modalFooter, isDark && styles.modalFooterDark]}>
+            <TouchableOpacity
+              style={[styles.cancelButton, isDark && styles.cancelButtonDark]}
+              onPress={() => setIsModalOpen(false)}
+            >
+              <Text style={[styles.cancelButtonText, isDark && styles.cancelButtonTextDark]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>{editingSlip ? 'Update Slip' : 'Add Slip'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  containerDark: {
+    backgroundColor: '#151718',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 24,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    marginBottom: 4,
+    color: '#11181C',
+  },
+  titleDark: {
+    color: '#ECEDEE',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  subtitleDark: {
+    color: '#9BA1A6',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  cardDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  cardHeader: {
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+    color: '#11181C',
+  },
+  cardTitleDark: {
+    color: '#ECEDEE',
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: '#666',
+  },
+  cardDescriptionDark: {
+    color: '#9BA1A6',
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 6,
+  },
+  helperTextDark: {
+    color: '#9BA1A6',
+  },
+  slipCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  slipCardDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  slipCardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  slipCardHeaderLeft: {
+    flex: 1,
+  },
+  slipCardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+    color: '#11181C',
+  },
+  slipCardTitleDark: {
+    color: '#ECEDEE',
+  },
+  slipCardSubtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  slipCardSubtitleDark: {
+    color: '#9BA1A6',
+  },
+  slipCardActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  slipActionButton: {
+    padding: 8,
+  },
+  slipDetails: {
+    gap: 8,
+  },
+  slipDetailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  slipDetailLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  slipDetailLabelDark: {
+    color: '#9BA1A6',
+  },
+  slipDetailValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#11181C',
+  },
+  slipDetailValueDark: {
+    color: '#ECEDEE',
+  },
+  slipPhoto: {
+    width: '100%',
+    height: 160,
+    borderRadius: 8,
+    marginTop: 12,
+    backgroundColor: '#f3f4f6',
+  },
+  loadingContainer: {
+    padding: 32,
+    alignItems: 'center',
+  },
+  emptyState: {
+    padding: 32,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  emptyStateDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  emptyStateText: {
+    marginTop: 16,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#11181C',
+    textAlign: 'center',
+  },
+  emptyStateTextDark: {
+    color: '#ECEDEE',
+  },
+  emptyStateSubtext: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  emptyStateSubtextDark: {
+    color: '#9BA1A6',
+  },
+  fabButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#0a7ea4',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  modalContainerDark: {
+    backgroundColor: '#151718',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  modalHeaderDark: {
+    backgroundColor: '#1f2937',
+    borderBottomColor: '#374151',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  modalTitleDark: {
+    color: '#ECEDEE',
+  },
+  modalContent: {
+    flex: 1,
+  },
+  modalContentContainer: {
+    padding: 16,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 10,
+    color: '#11181C',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  labelDark: {
+    color: '#ECEDEE',
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#11181C',
+    backgroundColor: '#fff',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  inputDark: {
+    backgroundColor: '#374151',
+    borderColor: '#4b5563',
+    color: '#ECEDEE',
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  modalFooterDark: {
+    backgroundColor: '#1f2937',
+    borderTopColor: '#374151',
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  cancelButtonDark: {
+    backgroundColor: '#374151',
+    borderColor: '#4b5563',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  cancelButtonTextDark: {
+    color: '#ECEDEE',
+  },
+  submitButton: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 10,
+    backgroundColor: '#0a7ea4',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
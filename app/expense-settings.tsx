@@ -1,5 +1,7 @@
+import { useAuth } from '@/contexts/AuthContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { apiGet, apiRequest } from '@/lib/api';
+import { useCollection } from '@/hooks/useCollection';
+import { routes } from '@/lib/endpoints';
 import { getCategoryLabel, getPersonalExpenseCategoryLabel } from '@/lib/format';
 import {
   NON_DEDUCTIBLE_PERSONAL_EXPENSE_CATEGORIES,
@@ -28,9 +30,10 @@ export default function ExpenseSettingsPage() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
+  const { refetch: refreshUser } = useAuth();
 
   const [user, setUser] = useState<User | null>(null);
-  const [expenseList, setExpenseList] = useState<Expense[]>([]);
+  const { items: expenseList } = useCollection<Expense>('expenses');
   const [isLoading, setIsLoading] = useState(true);
   const [homeOfficePercentage, setHomeOfficePercentage] = useState<string>('');
   const [isSavingPercentage, setIsSavingPercentage] = useState(false);
@@ -48,12 +51,8 @@ export default function ExpenseSettingsPage() {
 
   const fetchData = async () => {
     try {
-      const [userData, expenses] = await Promise.all([
-        apiGet<User>('/api/user/profile'),
-        apiGet<Expense[]>('/api/expenses'),
-      ]);
+      const userData = await routes.user.profile.call();
       setUser(userData);
-      setExpenseList(expenses);
 
       // Initialize home office percentage
       if (userData?.homeOfficePercentage !== null && userData?.homeOfficePercentage !== undefined) {
@@ -117,12 +116,13 @@ export default function ExpenseSettingsPage() {
 
     try {
       setIsSavingPercentage(true);
-      await apiRequest('PATCH', '/api/user/profile', {
+      await routes.user.updateProfile.call(undefined, {
         homeOfficePercentage: percentage,
       });
       // Refresh user data to get updated value
-      const userData = await apiGet<User>('/api/user/profile');
+      const userData = await routes.user.profile.call();
       setUser(userData);
+      refreshUser();
       // Update the displayed value
       if (userData?.homeOfficePercentage) {
         setHomeOfficePercentage(parseFloat(userData.homeOfficePercentage.toString()).toString());
@@ -146,10 +146,11 @@ export default function ExpenseSettingsPage() {
         Array.from(customPersonalCategories)
       );
 
-      await apiRequest('PATCH', '/api/user/profile', {
+      await routes.user.updateProfile.call(undefined, {
         enabledExpenseCategories: allBusinessCategories,
         enabledPersonalExpenseCategories: allPersonalCategories,
       });
+      refreshUser();
       Alert.alert('Success', 'Categories updated');
     } catch (error) {
       console.error('Error updating categories:', error);
@@ -1,11 +1,16 @@
+import { useAuth } from '@/contexts/AuthContext';
 import { useTaxYear } from '@/contexts/TaxYearContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { useAuth } from '@/hooks/useAuth';
-import { apiGet } from '@/lib/api';
-import { formatCurrency } from '@/lib/format';
+import { useBusinessUsePercentages } from '@/hooks/useBusinessUsePercentages';
+import { useCollection } from '@/hooks/useCollection';
+import { getDeductionContext, getDeductionVehicleIds, roundToCents, sumDeductible } from '@/lib/deductions';
+import { routes } from '@/lib/endpoints';
+import { formatCurrency, getYearFromDateString } from '@/lib/format';
+import { formatRate, getProvinceRules, getSalesTaxLabels } from '@/lib/provinces';
+import { type Expense, type GstHstSummary } from '@/lib/types';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -17,13 +22,6 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-interface GstHstSummary {
-  gstHstCollected: number;
-  inputTaxCredits: number;
-  netGstHstOwing: number;
-  transactionsWithGstHst: number;
-}
-
 export default function GstHstPage() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
@@ -36,6 +34,32 @@ export default function GstHstPage() {
   const [isLoading, setIsLoading] = useState(true);
 
   const hasGstNumber = user?.hasGstNumber === true;
+  const province = getProvinceRules(user?.province);
+  const salesTaxLabels = getSalesTaxLabels(province.salesTax);
+  const isQuebec = province.code === 'QC';
+  const salesTaxNote =
+    province.salesTax.type === 'hst'
+      ? 'Charge HST on your invoices and claim the HST you pay as ITCs.'
+      : isQuebec
+        ? 'Charge GST and QST on your invoices. QST you pay is claimed back as input tax refunds (ITRs) on your Revenu Québec return.'
+        : province.salesTax.type === 'gst_pst'
+        ? `Charge GST on your invoices. ${salesTaxLabels.pst} (${formatRate(province.salesTax.pstRate)}) is separate and can't be claimed as an ITC.`
+        : 'Charge GST on your invoices. There is no provincial sales tax.';
+
+  // ITCs (and Quebec's QST refunds) come from the same deduction engine as the
+  // Expenses screen's "Deductible GST Credits", so personal and business-use shares match
+  const { items: expenseList } = useCollection<Expense>('expenses', { taxYear });
+  const yearExpenses = useMemo(
+    () => expenseList.filter((item) => getYearFromDateString(item.date) === taxYear),
+    [expenseList, taxYear]
+  );
+  const vehicleIds = useMemo(() => getDeductionVehicleIds(yearExpenses), [yearExpenses]);
+  const vehicleBusinessUse = useBusinessUsePercentages(taxYear, vehicleIds);
+  const { deductibleGst: inputTaxCredits, deductibleQst: qstInputTaxRefunds } = useMemo(
+    () => sumDeductible(yearExpenses, getDeductionContext(user, vehicleBusinessUse)),
+    [yearExpenses, user, vehicleBusinessUse]
+  );
+  const netGstHstOwing = roundToCents((gstHstData?.gstHstCollected || 0) - inputTaxCredits);
 
   useEffect(() => {
     if (hasGstNumber) {
@@ -48,7 +72,7 @@ export default function GstHstPage() {
   const fetchGstHstData = async () => {
     try {
       setIsLoading(true);
-      const data = await apiGet<GstHstSummary>(`/api/gst-hst?taxYear=${taxYear}`);
+      const data = await routes.gstHst.call({ taxYear });
       setGstHstData(data);
     } catch (error: any) {
       console.error('Error fetching GST/HST data:', error);
@@ -183,13 +207,40 @@ export default function GstHstPage() {
                   isDark && styles.statCardValueBlueDark,
                 ]}
               >
-                {formatCurrency(gstHstData?.inputTaxCredits || 0)}
+                {formatCurrency(inputTaxCredits)}
               </Text>
               <Text style={[styles.statCardSubtitle, isDark && styles.statCardSubtitleDark]}>
                 GST/HST paid on business expenses
               </Text>
             </View>
 
+            {isQuebec && (
+              <View style={[styles.statCard, isDark && styles.statCardDark]}>
+                <View style={styles.statCardHeader}>
+                  <MaterialIcons
+                    name="trending-down"
+                    size={20}
+                    color={isDark ? '#9BA1A6' : '#666'}
+                  />
+                  <Text style={[styles.statCardTitle, isDark && styles.statCardTitleDark]}>
+                    QST Input Tax Refunds (ITRs)
+                  </Text>
+                </View>
+                <Text
+                  style={[
+                    styles.statCardValue,
+                    styles.statCardValueBlue,
+                    isDark && styles.statCardValueBlueDark,
+                  ]}
+                >
+                  {formatCurrency(qstInputTaxRefunds)}
+                </Text>
+                <Text style={[styles.statCardSubtitle, isDark && styles.statCardSubtitleDark]}>
+                  QST paid on business expenses, claimed from Revenu Québec
+                </Text>
+              </View>
+            )}
+
             <View style={[styles.statCard, isDark && styles.statCardDark]}>
               <View style={styles.statCardHeader}>
                 <MaterialIcons
@@ -204,16 +255,16 @@ export default function GstHstPage() {
               <Text
                 style={[
                   styles.statCardValue,
-                  (gstHstData?.netGstHstOwing || 0) >= 0
+                  netGstHstOwing >= 0
                     ? [styles.statCardValueRed, isDark && styles.statCardValueRedDark]
                     : [styles.statCardValueGreen, isDark && styles.statCardValueGreenDark],
                 ]}
               >
-                {(gstHstData?.netGstHstOwing || 0) >= 0 ? '' : '-'}
-                {formatCurrency(Math.abs(gstHstData?.netGstHstOwing || 0))}
+                {netGstHstOwing >= 0 ? '' : '-'}
+                {formatCurrency(Math.abs(netGstHstOwing))}
               </Text>
               <Text style={[styles.statCardSubtitle, isDark && styles.statCardSubtitleDark]}>
-                {(gstHstData?.netGstHstOwing || 0) >= 0
+                {netGstHstOwing >= 0
                   ? 'Amount owing to CRA'
                   : 'Refund expected from CRA'}
               </Text>
@@ -256,6 +307,29 @@ export default function GstHstPage() {
               </View>
             </View>
 
+            <View style={[styles.summaryRow, isDark && styles.summaryRowDark]}>
+              <View style={styles.summaryRowLeft}>
+                <MaterialIcons
+                  name="place"
+                  size={20}
+                  color={isDark ? '#9BA1A6' : '#666'}
+                />
+                <View style={styles.summaryRowText}>
+                  <Text style={[styles.summaryRowTitle, isDark && styles.summaryRowTitleDark]}>
+                    Sales tax in {province.name}
+                  </Text>
+                  <Text style={[styles.summaryRowSubtitle, isDark && styles.summaryRowSubtitleDark]}>
+                    {salesTaxNote}
+                  </Text>
+                </View>
+              </View>
+              <View style={[styles.badge, isDark && styles.badgeDark]}>
+                <Text style={[styles.badgeText, isDark && styles.badgeTextDark]}>
+                  {salesTaxLabels.gst} {formatRate(province.salesTax.gstRate)}
+                </Text>
+              </View>
+            </View>
+
             {(gstHstData?.transactionsWithGstHst || 0) === 0 && (
               <View style={[styles.alert, isDark && styles.alertDark]}>
                 <MaterialIcons
@@ -0,0 +1,971 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { useTaxYear } from '@/contexts/TaxYearContext';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useCollection } from '@/hooks/useCollection';
+import { useInstalmentPlanner } from '@/hooks/useInstalmentPlanner';
+import { useTaxEstimate } from '@/hooks/useTaxEstimate';
+import { routes } from '@/lib/endpoints';
+import { getSaveErrorMessage } from '@/lib/errors';
+import { formatCurrency, formatDate, getTodayLocalDateString } from '@/lib/format';
+import {
+  REMINDER_DAYS_BEFORE,
+  scheduleInstalmentReminders,
+  setAssessedBalance,
+  setInstalmentOption,
+  setRemindersEnabled,
+} from '@/lib/instalment-planner';
+import {
+  calculateInstalments,
+  getInstalmentBase,
+  getInstalmentDueDates,
+  getInstalmentThreshold,
+  getRecommendedOption,
+  INSTALMENT_OPTIONS,
+  type InstalmentBases,
+  isInstalmentRequired,
+} from '@/lib/instalments';
+import { getProvinceRules } from '@/lib/provinces';
+import { removeEntity, upsertEntities } from '@/lib/store';
+import { type InstalmentPayment } from '@/lib/types';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+const REMINDER_SCHEDULE_DELAY = 1000; // Wait for amounts to stop changing before rescheduling
+
+interface PaymentFormData {
+  dueDate: string;
+  amount: string;
+  paidDate: string;
+  note: string;
+}
+
+function toAmount(value: number | string) {
+  return parseFloat(value.toString()) || 0;
+}
+
+export default function InstalmentsPage() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { user, isSessionExpired } = useAuth();
+  const { taxYear } = useTaxYear();
+  const province = getProvinceRules(user?.province);
+  const planner = useInstalmentPlanner();
+
+  // Instalments depend on this year's estimate and the balances of the two years before
+  const { estimate: currentEstimate, isLoading: isCurrentLoading } = useTaxEstimate(taxYear);
+  const { estimate: priorEstimate, isLoading: isPriorLoading } = useTaxEstimate(taxYear - 1);
+  const { estimate: twoYearsAgoEstimate, isLoading: isTwoYearsAgoLoading } = useTaxEstimate(taxYear - 2);
+  const priorYears = [
+    { year: taxYear - 1, estimate: priorEstimate },
+    { year: taxYear - 2, estimate: twoYearsAgoEstimate },
+  ];
+
+  const assessed = planner.assessedBalances;
+  const bases: InstalmentBases = {
+    currentYear: getInstalmentBase(currentEstimate),
+    priorYear: assessed[taxYear - 1] ?? getInstalmentBase(priorEstimate),
+    twoYearsAgo: assessed[taxYear - 2] ?? getInstalmentBase(twoYearsAgoEstimate),
+  };
+  const isRequired = isInstalmentRequired(bases, province.code);
+  const recommendedOption = getRecommendedOption(bases);
+  const selectedOption = planner.options[taxYear] ?? recommendedOption;
+
+  const { items: paymentList, isLoading } = useCollection<InstalmentPayment>('instalmentPayments', { taxYear });
+  const payments = useMemo(
+    () =>
+      paymentList
+        .filter((payment) => Number(payment.taxYear) === taxYear)
+        .sort((a, b) => a.paidDate.localeCompare(b.paidDate)),
+    [paymentList, taxYear]
+  );
+
+  const today = getTodayLocalDateString();
+  const amounts = calculateInstalments(selectedOption, bases);
+  const schedule = getInstalmentDueDates(taxYear).map((dueDate, index) => {
+    const amount = amounts[index];
+    const paid = payments
+      .filter((payment) => payment.dueDate === dueDate)
+      .reduce((sum, payment) => sum + toAmount(payment.amount), 0);
+    const remaining = Math.max(0, amount - paid);
+    return { dueDate, amount, paid, remaining, isOverdue: remaining > 0 && dueDate < today };
+  });
+  const totalDue = amounts.reduce((sum, amount) => sum + amount, 0);
+  const totalPaid = payments.reduce((sum, payment) => sum + toAmount(payment.amount), 0);
+
+  const [assessedInputs, setAssessedInputs] = useState<Record<number, string>>({});
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<PaymentFormData>({ dueDate: '', amount: '', paidDate: '', note: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+
+  // Reminders only cover this calendar year's instalments; what's left to pay on each
+  const isCalendarYear = taxYear === new Date().getFullYear();
+  // Compared by value so reminders are only rescheduled when an amount changes
+  const reminders = JSON.stringify(schedule.map(({ dueDate, remaining }) => ({ dueDate, amount: remaining })));
+  // Amounts shift as each collection loads, so wait for all of them and then for edits to settle
+  const isScheduleLoading = isLoading || isCurrentLoading || isPriorLoading || isTwoYearsAgoLoading;
+  useEffect(() => {
+    if (!planner.remindersEnabled || !isCalendarYear || isScheduleLoading) return;
+    const timeout = setTimeout(() => scheduleInstalmentReminders(JSON.parse(reminders)), REMINDER_SCHEDULE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [planner.remindersEnabled, isCalendarYear, isScheduleLoading, reminders]);
+
+  const handleRemindersChange = async (enabled: boolean) => {
+    try {
+      const isAllowed = await setRemindersEnabled(enabled);
+      if (!isAllowed) {
+        Alert.alert('Notifications Off', 'Allow notifications for Crew Books in Settings to get instalment reminders.');
+      }
+    } catch (error) {
+      console.error('Error updating instalment reminders:', error);
+      Alert.alert('Error', 'Failed to update reminders. Please try again.');
+    }
+  };
+
+  const handleAssessedBalanceEnd = (year: number) => {
+    const text = assessedInputs[year];
+    if (text === undefined) return;
+    const amount = parseFloat(text);
+    setAssessedBalance(year, text.trim() && Number.isFinite(amount) ? amount : null);
+    setAssessedInputs((inputs) => {
+      const next = { ...inputs };
+      delete next[year];
+      return next;
+    });
+  };
+
+  const openPaymentForm = (dueDate?: string) => {
+    const next = schedule.find((row) => row.remaining > 0) ?? schedule[schedule.length - 1];
+    const row = schedule.find((item) => item.dueDate === dueDate) ?? next;
+    setFormData({
+      dueDate: row.dueDate,
+      amount: row.remaining > 0 ? row.remaining.toFixed(2) : '',
+      paidDate: today,
+      note: '',
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.amount || !formData.paidDate) {
+      Alert.alert('Error', 'Please enter the amount and the date paid');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const payment = await routes.instalmentPayments.create.call(undefined, {
+        taxYear,
+        dueDate: formData.dueDate,
+        paidDate: formData.paidDate,
+        amount: parseFloat(formData.amount),
+        note: formData.note.trim() || undefined,
+      });
+      upsertEntities('instalmentPayments', payment);
+      setIsModalOpen(false);
+    } catch (error) {
+      console.error('Error recording instalment payment:', error);
+      Alert.alert('Error', getSaveErrorMessage(error, 'Failed to record payment. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = (payment: InstalmentPayment) => {
+    const description = `${formatCurrency(payment.amount)} paid ${formatDate(payment.paidDate)}`;
+    Alert.alert('Delete payment?', `This will remove the ${description} from your records.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setDeleteId(payment.id);
+            await routes.instalmentPayments.remove.call({ id: payment.id });
+            removeEntity('instalmentPayments', payment.id);
+          } catch (error) {
+            console.error('Error deleting instalment payment:', error);
+            Alert.alert('Error', 'Failed to delete payment. Please try again.');
+          } finally {
+            setDeleteId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, isDark && styles.containerDark]}
+      contentContainerStyle={[styles.contentContainer, { paddingTop: insets.top + 8 }]}
+    >
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color={isDark ? '#ECEDEE' : '#11181C'} />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={[styles.title, isDark && styles.titleDark]}>Tax Instalments</Text>
+            <Text style={[styles.subtitle, isDark && styles.subtitleDark]}>
+              Quarterly payments to the CRA for {taxYear}
+            </Text>
+          </View>
+        </View>
+        <TouchableOpacity style={styles.fabButton} onPress={() => openPaymentForm()} activeOpacity={0.8}>
+          <MaterialIcons name="add" size={28} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Whether instalments are due */}
+      <View
+        style={[
+          styles.statusBanner,
+          isRequired ? styles.statusBannerRequired : styles.statusBannerClear,
+          isDark && styles.statusBannerDark,
+        ]}
+      >
+        <MaterialIcons
+          name={isRequired ? 'warning' : 'check-circle'}
+          size={20}
+          color={isRequired ? '#f59e0b' : '#10b981'}
+        />
+        <Text style={[styles.statusBannerText, isDark && styles.statusBannerTextDark]}>
+          {isRequired
+            ? `You likely need to pay instalments for ${taxYear}: your net tax owing is over ${formatCurrency(getInstalmentThreshold(province.code))} this year and in ${taxYear - 1} or ${taxYear - 2}. Late or short payments are charged interest.`
+            : `Instalments don't look required for ${taxYear}. They are when net tax owing is over ${formatCurrency(getInstalmentThreshold(province.code))} this year and in ${taxYear - 1} or ${taxYear - 2}.`}
+          {province.code === 'QC' ? ' Quebec tax instalments are paid to Revenu Québec separately.' : ''}
+        </Text>
+      </View>
+
+      {/* Balances the options are based on */}
+      <View style={[styles.card, isDark && styles.cardDark]}>
+        <View style={styles.cardHeader}>
+          <Text style={[styles.cardTitle, isDark && styles.cardTitleDark]}>Balances</Text>
+          <Text style={[styles.cardDescription, isDark && styles.cardDescriptionDark]}>
+            Estimated from your records. For past years, enter the balance from your Notice of Assessment if you
+            have it.
+          </Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={[styles.rowLabel, isDark && styles.rowLabelDark]}>{taxYear} estimate</Text>
+          <Text style={[styles.rowValue, isDark && styles.rowValueDark]}>{formatCurrency(bases.currentYear)}</Text>
+        </View>
+        {priorYears.map(({ year, estimate }) => (
+          <View key={year} style={styles.formGroup}>
+            <Text style={[styles.label, isDark && styles.labelDark]}>
+              {year} balance (estimated {formatCurrency(getInstalmentBase(estimate))})
+            </Text>
+            <TextInput
+              style={[styles.input, isDark && styles.inputDark]}
+              placeholder="From Notice of Assessment"
+              placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+              value={assessedInputs[year] ?? (assessed[year] !== undefined ? assessed[year].toString() : '')}
+              onChangeText={(text) => setAssessedInputs({ ...assessedInputs, [year]: text })}
+              onEndEditing={() => handleAssessedBalanceEnd(year)}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        ))}
+      </View>
+
+      {/* Payment options */}
+      <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>Payment Option</Text>
+      {INSTALMENT_OPTIONS.map(({ key, label, description }) => {
+        const optionTotal = calculateInstalments(key, bases).reduce((sum, amount) => sum + amount, 0);
+        const isSelected = key === selectedOption;
+        return (
+          <TouchableOpacity
+            key={key}
+            style={[styles.optionCard, isDark && styles.optionCardDark, isSelected && styles.optionCardSelected]}
+            onPress={() => setInstalmentOption(taxYear, key)}
+          >
+            <MaterialIcons
+              name={isSelected ? 'radio-button-checked' : 'radio-button-unchecked'}
+              size={24}
+              color={isSelected ? '#0a7ea4' : isDark ? '#9BA1A6' : '#666'}
+            />
+            <View style={styles.optionText}>
+              <View style={styles.optionTitleRow}>
+                <Text style={[styles.optionTitle, isDark && styles.optionTitleDark]}>{label}</Text>
+                {key === recommendedOption && (
+                  <View style={styles.recommendedBadge}>
+                    <Text style={styles.recommendedBadgeText}>Lowest without interest</Text>
+                  </View>
+                )}
+              </View>
+              <Text style={[styles.optionDescription, isDark && styles.optionDescriptionDark]}>{description}</Text>
+            </View>
+            <Text style={[styles.optionTotal, isDark && styles.optionTotalDark]}>{formatCurrency(optionTotal)}</Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      {/* Schedule */}
+      <View style={[styles.card, isDark && styles.cardDark]}>
+        <View style={styles.cardHeader}>
+          <Text style={[styles.cardTitle, isDark && styles.cardTitleDark]}>{taxYear} Schedule</Text>
+          <Text style={[styles.cardDescription, isDark && styles.cardDescriptionDark]}>
+            {formatCurrency(totalPaid)} paid of {formatCurrency(totalDue)}
+          </Text>
+        </View>
+        {schedule.map(({ dueDate, amount, paid, remaining, isOverdue }) => (
+          <TouchableOpacity key={dueDate} style={styles.scheduleRow} onPress={() => openPaymentForm(dueDate)}>
+            <MaterialIcons
+              name={amount > 0 && remaining === 0 ? 'check-circle' : isOverdue ? 'error' : 'schedule'}
+              size={20}
+              color={amount > 0 && remaining === 0 ? '#10b981' : isOverdue ? '#ef4444' : isDark ? '#9BA1A6' : '#666'}
+            />
+            <View style={styles.scheduleText}>
+              <Text style={[styles.rowValue, isDark && styles.rowValueDark]}>{formatDate(dueDate)}</Text>
+              {paid > 0 && (
+                <Text style={[styles.scheduleHelper, isDark && styles.scheduleHelperDark]}>
+                  {formatCurrency(paid)} paid{remaining > 0 ? `, ${formatCurrency(remaining)} left` : ''}
+                </Text>
+              )}
+            </View>
+            <Text style={[styles.rowValue, isDark && styles.rowValueDark, isOverdue && styles.overdueText]}>
+              {formatCurrency(amount)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+
+        <View style={styles.switchRow}>
+          <View style={styles.switchRowLeft}>
+            <Text style={[styles.switchLabel, isDark && styles.switchLabelDark]}>Reminders</Text>
+            <Text style={[styles.switchHelper, isDark && styles.switchHelperDark]}>
+              {isCalendarYear || !planner.remindersEnabled
+                ? `A notification ${REMINDER_DAYS_BEFORE} days before each payment still owing`
+                : `Reminders are set from the ${new Date().getFullYear()} plan`}
+            </Text>
+          </View>
+          <Switch
+            value={planner.remindersEnabled}
+            onValueChange={handleRemindersChange}
+            trackColor={{ false: isDark ? '#374151' : '#d1d5db', true: '#0a7ea4' }}
+            thumbColor="#fff"
+          />
+        </View>
+      </View>
+
+      {/* Payments made */}
+      <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>Payments Made</Text>
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={isDark ? '#9BA1A6' : '#666'} />
+        </View>
+      ) : payments.length === 0 ? (
+        <View style={[styles.emptyState, isDark && styles.emptyStateDark]}>
+          <MaterialIcons name="payments" size={48} color={isDark ? '#9BA1A6' : '#666'} />
+          <Text style={[styles.emptyStateText, isDark && styles.emptyStateTextDark]}>No payments recorded</Text>
+          <Text style={[styles.emptyStateSubtext, isDark && styles.emptyStateSubtextDark]}>
+            Tap the + button after each instalment you pay
+          </Text>
+        </View>
+      ) : (
+        <View style={[styles.card, isDark && styles.cardDark]}>
+          {payments.map((payment) => (
+            <View key={payment.id} style={styles.scheduleRow}>
+              <View style={styles.scheduleText}>
+                <Text style={[styles.rowValue, isDark && styles.rowValueDark]}>{formatCurrency(payment.amount)}</Text>
+                <Text style={[styles.scheduleHelper, isDark && styles.scheduleHelperDark]}>
+                  Paid {formatDate(payment.paidDate)} · for {formatDate(payment.dueDate)}
+                  {payment.note ? ` · ${payment.note}` : ''}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => handleDelete(payment)}
+                style={styles.deleteButton}
+                disabled={deleteId === payment.id}
+              >
+                {deleteId === payment.id ? (
+                  <ActivityIndicator size="small" color="#ef4444" />
+                ) : (
+                  <MaterialIcons name="delete" size={20} color="#ef4444" />
+                )}
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Record Payment Modal (hidden, not closed, while signing back in so the form survives) */}
+      <Modal
+        visible={isModalOpen && !isSessionExpired}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setIsModalOpen(false)}
+      >
+        <View style={[styles.modalContainer, isDark && styles.modalContainerDark]}>
+          <View style={[styles.modalHeader, isDark && styles.modalHeaderDark]}>
+            <Text style={[styles.modalTitle, isDark && styles.modalTitleDark]}>Record Payment</Text>
+            <TouchableOpacity onPress={() => setIsModalOpen(false)}>
+              <MaterialIcons name="close" size={24} color={isDark ? '#ECEDEE' : '#11181C'} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent} contentContainerStyle={styles.modalContentContainer}>
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, isDark && styles.labelDark]}>Instalment</Text>
+              <View style={styles.dueDateOptions}>
+                {schedule.map(({ dueDate }) => {
+                  const isSelected = dueDate === formData.dueDate;
+                  return (
+                    <TouchableOpacity
+                      key={dueDate}
+                      style={[
+                        styles.dueDateOption,
+                        isDark && styles.dueDateOptionDark,
+                        isSelected && styles.dueDateOptionSelected,
+                      ]}
+                      onPress={() => setFormData({ ...formData, dueDate })}
+                    >
+                      <Text
+                        style={[
+                          styles.dueDateOptionText,
+                          isDark && styles.dueDateOptionTextDark,
+                          isSelected && styles.dueDateOptionTextSelected,
+                        ]}
+                      >
+                        {formatDate(dueDate)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, isDark && styles.labelDark]}>Amount *</Text>
+              <TextInput
+                style={[styles.input, isDark && styles.inputDark]}
+                placeholder="0.00"
+                placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+                value={formData.amount}
+                onChangeText={(text) => setFormData({ ...formData, amount: text })}
+                keyboardType="decimal-pad"
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, isDark && styles.labelDark]}>Date Paid *</Text>
+              <TextInput
+                style={[styles.input, isDark && styles.inputDark]}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+                value={formData.paidDate}
+                onChangeText={(text) => setFormData({ ...formData, paidDate: text })}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, isDark && styles.labelDark]}>Note</Text>
+              <TextInput
+                style={[styles.input, isDark && styles.inputDark]}
+                placeholder="e.g. confirmation number"
+                placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+                value={formData.note}
+                onChangeText={(text) => setFormData({ ...formData, note: text })}
+              />
+            </View>
+          </ScrollView>
+
+          <View style={[styles.modalFooter, isDark && styles.modalFooterDark]}>
+            <TouchableOpacity
+              style={[styles.cancelButton, isDark && styles.cancelButtonDark]}
+              onPress={() => setIsModalOpen(false)}
+            >
+              <Text style={[styles.cancelButtonText, isDark && styles.cancelButtonTextDark]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Record Payment</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  containerDark: {
+    backgroundColor: '#151718',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 24,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    marginBottom: 4,
+    color: '#11181C',
+  },
+  titleDark: {
+    color: '#ECEDEE',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  subtitleDark: {
+    color: '#9BA1A6',
+  },
+  fabButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#0a7ea4',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  statusBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  statusBannerRequired: {
+    backgroundColor: '#fffbeb',
+    borderColor: '#fde68a',
+  },
+  statusBannerClear: {
+    backgroundColor: '#ecfdf5',
+    borderColor: '#a7f3d0',
+  },
+  statusBannerDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  statusBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#11181C',
+  },
+  statusBannerTextDark: {
+    color: '#ECEDEE',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  cardDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  cardHeader: {
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+    color: '#11181C',
+  },
+  cardTitleDark: {
+    color: '#ECEDEE',
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: '#666',
+  },
+  cardDescriptionDark: {
+    color: '#9BA1A6',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+    color: '#11181C',
+  },
+  sectionTitleDark: {
+    color: '#ECEDEE',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  rowLabelDark: {
+    color: '#9BA1A6',
+  },
+  rowValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#11181C',
+  },
+  rowValueDark: {
+    color: '#ECEDEE',
+  },
+  overdueText: {
+    color: '#ef4444',
+  },
+  optionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  optionCardDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  optionCardSelected: {
+    borderColor: '#0a7ea4',
+    borderWidth: 2,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 4,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  optionTitleDark: {
+    color: '#ECEDEE',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#666',
+  },
+  optionDescriptionDark: {
+    color: '#9BA1A6',
+  },
+  optionTotal: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  optionTotalDark: {
+    color: '#ECEDEE',
+  },
+  recommendedBadge: {
+    backgroundColor: '#0a7ea4',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  recommendedBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+  },
+  scheduleText: {
+    flex: 1,
+  },
+  scheduleHelper: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  scheduleHelperDark: {
+    color: '#9BA1A6',
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  switchRowLeft: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#11181C',
+  },
+  switchLabelDark: {
+    color: '#ECEDEE',
+  },
+  switchHelper: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  switchHelperDark: {
+    color: '#9BA1A6',
+  },
+  loadingContainer: {
+    padding: 32,
+    alignItems: 'center',
+  },
+  emptyState: {
+    padding: 32,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  emptyStateDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  emptyStateText: {
+    marginTop: 16,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#11181C',
+    textAlign: 'center',
+  },
+  emptyStateTextDark: {
+    color: '#ECEDEE',
+  },
+  emptyStateSubtext: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  emptyStateSubtextDark: {
+    color: '#9BA1A6',
+  },
+  dueDateOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  dueDateOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  dueDateOptionDark: {
+    backgroundColor: '#374151',
+    borderColor: '#4b5563',
+  },
+  dueDateOptionSelected: {
+    backgroundColor: '#0a7ea4',
+    borderColor: '#0a7ea4',
+  },
+  dueDateOptionText: {
+    fontSize: 14,
+    color: '#11181C',
+  },
+  dueDateOptionTextDark: {
+    color: '#ECEDEE',
+  },
+  dueDateOptionTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  modalContainerDark: {
+    backgroundColor: '#151718',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  modalHeaderDark: {
+    backgroundColor: '#1f2937',
+    borderBottomColor: '#374151',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  modalTitleDark: {
+    color: '#ECEDEE',
+  },
+  modalContent: {
+    flex: 1,
+  },
+  modalContentContainer: {
+    padding: 16,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 10,
+    color: '#11181C',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  labelDark: {
+    color: '#ECEDEE',
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#11181C',
+    backgroundColor: '#fff',
+  },
+  inputDark: {
+    backgroundColor: '#374151',
+    borderColor: '#4b5563',
+    color: '#ECEDEE',
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  modalFooterDark: {
+    backgroundColor: '#1f2937',
+    borderTopColor: '#374151',
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  cancelButtonDark: {
+    backgroundColor: '#374151',
+    borderColor: '#4b5563',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  cancelButtonTextDark: {
+    color: '#ECEDEE',
+  },
+  submitButton: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 10,
+    backgroundColor: '#0a7ea4',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
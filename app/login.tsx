@@ -1,21 +1,52 @@
-import { useAuth } from '@/hooks/useAuth';
-import { API_URL, apiRequest } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { useServerProfiles } from '@/hooks/useServerProfiles';
+import { apiFetch, resolveUrl } from '@/lib/api';
+import {
+  getAuthErrorMessage,
+  resetPassword,
+  sendPasswordResetCode,
+  sendSignInCode,
+  signInWithPassword,
+  verifySignInCode,
+} from '@/lib/auth';
+import { USE_MOCK_BACKEND } from '@/lib/config';
+import { MOCK_SIGN_IN_CODE } from '@/lib/mock-backend';
+import { MOCK_DEMO_ACCOUNT } from '@/lib/mock-fixtures';
+import { isSupabaseConfigured } from '@/lib/supabase';
 import { useRouter } from 'expo-router';
 import { useState } from 'react';
 import { ActivityIndicator, Alert, KeyboardAvoidingView, Platform, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+// password: email + password; code: emailed 6-digit code (the email also has a
+// magic link); reset: emailed code + new password
+type LoginMode = 'password' | 'code' | 'reset';
+
+const MIN_PASSWORD_LENGTH = 6; // Supabase's default minimum
+
 export default function Login() {
+  const [mode, setMode] = useState<LoginMode>('password');
   const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const router = useRouter();
   const { refetch } = useAuth();
+  const { activeProfile } = useServerProfiles();
   const insets = useSafeAreaInsets();
 
+  const switchMode = (nextMode: LoginMode) => {
+    setMode(nextMode);
+    setPassword('');
+    setCode('');
+    setCodeSent(false);
+  };
+
   const testConnection = async () => {
     setIsLoading(true);
     try {
-      const response = await fetch(`${API_URL}/api/auth/user`, {
+      const response = await apiFetch(await resolveUrl('/api/auth/user'), {
         credentials: 'include',
       });
       Alert.alert(
@@ -29,39 +60,89 @@ export default function Login() {
     }
   };
 
-  const handleLogin = async () => {
-    if (!email.trim()) {
+  // Runs one auth step with the shared spinner and error alert
+  const runStep = async (step: () => Promise<void>, fallbackMessage: string) => {
+    setIsLoading(true);
+    try {
+      await step();
+    } catch (error) {
+      console.error('Login error:', error);
+      Alert.alert('Sign In Failed', getAuthErrorMessage(error, fallbackMessage));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    const trimmedEmail = email.trim();
+    if (!trimmedEmail) {
       Alert.alert('Error', 'Please enter your email');
       return;
     }
 
-    setIsLoading(true);
-    try {
-      const response = await apiRequest('POST', '/api/login', {
-        email: email.trim(),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Login failed');
+    if (mode === 'password') {
+      if (!password) {
+        Alert.alert('Error', 'Please enter your password');
+        return;
       }
+      runStep(async () => {
+        await signInWithPassword(trimmedEmail, password);
+        // Navigation will happen automatically via auth state change in _layout.tsx
+        await refetch();
+      }, 'Incorrect email or password.');
+      return;
+    }
+
+    if (!codeSent) {
+      runStep(async () => {
+        if (mode === 'code') {
+          await sendSignInCode(trimmedEmail);
+        } else {
+          await sendPasswordResetCode(trimmedEmail);
+        }
+        setCodeSent(true);
+      }, 'Failed to send the email. Please try again.');
+      return;
+    }
 
-      const data = await response.json();
-      
-      // Refresh auth state
+    if (!code.trim()) {
+      Alert.alert('Error', 'Please enter the code from your email');
+      return;
+    }
+
+    if (mode === 'code') {
+      runStep(async () => {
+        await verifySignInCode(trimmedEmail, code.trim());
+        await refetch();
+      }, 'That code is invalid or has expired.');
+      return;
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      Alert.alert('Error', `Your new password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    runStep(async () => {
+      await resetPassword(trimmedEmail, code.trim(), password);
+      Alert.alert('Password Updated', 'Your new password is saved and you are now signed in.');
       await refetch();
-      
-      Alert.alert('Success', data.message || 'Logged in successfully!');
-      // Navigation will happen automatically via auth state change in _layout.tsx
-    } catch (error: any) {
-      console.error('Login error:', error);
-      Alert.alert(
-        'Connection Error', 
-        error.message || 'Login failed. Check console for details.'
-      );
-    } finally {
-      setIsLoading(false);
+    }, 'Failed to reset your password. Please try again.');
+  };
+
+  const getSubmitLabel = () => {
+    if (mode === 'password') return 'Sign In';
+    if (!codeSent) return mode === 'code' ? 'Email Me a Code' : 'Send Reset Code';
+    return mode === 'code' ? 'Verify Code' : 'Set New Password';
+  };
+
+  const getSubtitle = () => {
+    if (mode === 'reset') {
+      return codeSent ? 'Enter the code we emailed you and choose a new password' : 'Reset your password';
+    }
+    if (mode === 'code' && codeSent) {
+      return `Enter the code sent to ${email.trim()}, or tap the link in the email`;
     }
+    return 'Sign in to your account';
   };
 
   return (
@@ -71,15 +152,20 @@ export default function Login() {
     >
       <View style={[styles.content, { paddingTop: insets.top + 32 }]}>
         <Text style={styles.title}>Crew Books</Text>
-        <Text style={styles.subtitle}>
-          Sign in to your account
-        </Text>
-        <Text style={styles.devNote}>
-          Enter any email to get started (development mode)
-        </Text>
+        <Text style={styles.subtitle}>{getSubtitle()}</Text>
+        {!isSupabaseConfigured && (
+          <Text style={styles.warning}>
+            Sign-in is not configured. Set EXPO_PUBLIC_SUPABASE_URL and EXPO_PUBLIC_SUPABASE_ANON_KEY, then restart.
+          </Text>
+        )}
+        {USE_MOCK_BACKEND && (
+          <Text style={styles.devNote}>
+            Mock backend: sign in as {MOCK_DEMO_ACCOUNT.email} / {MOCK_DEMO_ACCOUNT.password}, or use code {MOCK_SIGN_IN_CODE}
+          </Text>
+        )}
         {__DEV__ && (
           <Text style={styles.apiUrlNote}>
-            API: {API_URL}
+            API: {activeProfile.url}
           </Text>
         )}
 
@@ -93,21 +179,87 @@ export default function Login() {
             autoCapitalize="none"
             keyboardType="email-address"
             autoComplete="email"
-            editable={!isLoading}
+            editable={!isLoading && !codeSent}
           />
 
+          {codeSent && (
+            <TextInput
+              style={styles.input}
+              placeholder="6-digit code"
+              placeholderTextColor="#999"
+              value={code}
+              onChangeText={setCode}
+              keyboardType="number-pad"
+              autoComplete="one-time-code"
+              textContentType="oneTimeCode"
+              maxLength={6}
+              editable={!isLoading}
+            />
+          )}
+
+          {(mode === 'password' || (mode === 'reset' && codeSent)) && (
+            <TextInput
+              style={styles.input}
+              placeholder={mode === 'reset' ? 'New password' : 'Password'}
+              placeholderTextColor="#999"
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              autoComplete={mode === 'reset' ? 'new-password' : 'current-password'}
+              editable={!isLoading}
+            />
+          )}
+
           <TouchableOpacity
             style={[styles.button, isLoading && styles.buttonDisabled]}
-            onPress={handleLogin}
+            onPress={handleSubmit}
             disabled={isLoading}
           >
             {isLoading ? (
               <ActivityIndicator color="#fff" />
             ) : (
-              <Text style={styles.buttonText}>Sign In</Text>
+              <Text style={styles.buttonText}>{getSubmitLabel()}</Text>
             )}
           </TouchableOpacity>
 
+          {codeSent && (
+            <TouchableOpacity
+              style={styles.modeLink}
+              onPress={() => switchMode(mode)}
+              disabled={isLoading}
+            >
+              <Text style={styles.modeLinkText}>Use a different email</Text>
+            </TouchableOpacity>
+          )}
+          {mode !== 'password' && (
+            <TouchableOpacity
+              style={styles.modeLink}
+              onPress={() => switchMode('password')}
+              disabled={isLoading}
+            >
+              <Text style={styles.modeLinkText}>Sign in with password</Text>
+            </TouchableOpacity>
+          )}
+          {mode !== 'code' && (
+            <TouchableOpacity
+              style={styles.modeLink}
+              onPress={() => switchMode('code')}
+              disabled={isLoading}
+            >
+              <Text style={styles.modeLinkText}>Email me a sign-in code instead</Text>
+            </TouchableOpacity>
+          )}
+          {mode === 'password' && (
+            <TouchableOpacity
+              style={styles.modeLink}
+              onPress={() => switchMode('reset')}
+              disabled={isLoading}
+            >
+              <Text style={styles.modeLinkText}>Forgot password?</Text>
+            </TouchableOpacity>
+          )}
+
           {__DEV__ && (
             <TouchableOpacity
               style={[styles.button, styles.testButton]}
@@ -117,6 +269,16 @@ export default function Login() {
               <Text style={styles.buttonText}>Test Connection</Text>
             </TouchableOpacity>
           )}
+
+          <TouchableOpacity
+            style={styles.serverLink}
+            onPress={() => router.push('/server-profiles')}
+            disabled={isLoading}
+          >
+            <Text style={styles.serverLinkText}>
+              Server: {activeProfile.name} · Change
+            </Text>
+          </TouchableOpacity>
         </View>
       </View>
     </KeyboardAvoidingView>
@@ -152,6 +314,12 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     fontStyle: 'italic',
   },
+  warning: {
+    fontSize: 13,
+    color: '#b45309',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
   apiUrlNote: {
     fontSize: 10,
     color: '#666',
@@ -190,4 +358,22 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  modeLink: {
+    alignItems: 'center',
+    marginTop: 12,
+    padding: 4,
+  },
+  modeLinkText: {
+    fontSize: 14,
+    color: '#3b82f6',
+  },
+  serverLink: {
+    alignItems: 'center',
+    marginTop: 16,
+    padding: 8,
+  },
+  serverLinkText: {
+    fontSize: 14,
+    color: '#3b82f6',
+  },
 });
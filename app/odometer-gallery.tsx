@@ -1,7 +1,11 @@
+import { UploadQueue } from '@/components/upload-queue';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { apiGet, apiRequest } from '@/lib/api';
-import { API_URL } from '@/lib/config';
+import { routes } from '@/lib/endpoints';
+import { getErrorStatus } from '@/lib/errors';
 import { formatDate, getTodayLocalDateString } from '@/lib/format';
+import { getApiUrl } from '@/lib/server-profiles';
+import { type OdometerPhoto } from '@/lib/types';
+import { dismissUpload, uploadOdometerPhoto, waitForUpload } from '@/lib/uploads';
 import { MaterialIcons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { useLocalSearchParams, useRouter } from 'expo-router';
@@ -22,21 +26,6 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-interface OdometerReading {
-  id: string;
-  filename?: string;
-  imageUrl?: string;
-  photoUrl?: string;
-  readingDate?: string;
-  photoDate?: string;
-  odometerValue?: number;
-  mileage?: number | string;
-  vehicleId: string;
-  notes?: string;
-  uploadedAt?: string;
-  [key: string]: any;
-}
-
 const { width } = Dimensions.get('window');
 const CARD_MARGIN = 16;
 const CARDS_PER_ROW = 2;
@@ -49,15 +38,14 @@ export default function OdometerGallery() {
   const router = useRouter();
   const { vehicleId, odometerReadingId, vehicleName: vehicleNameParam } = useLocalSearchParams<{ vehicleId?: string; odometerReadingId?: string; vehicleName?: string }>();
 
-  const [readings, setReadings] = useState<OdometerReading[]>([]);
+  const [readings, setReadings] = useState<OdometerPhoto[]>([]);
   const [vehicleName, setVehicleName] = useState<string>(vehicleNameParam || 'Vehicle');
   const [isLoading, setIsLoading] = useState(true);
-  const [selectedReading, setSelectedReading] = useState<OdometerReading | null>(null);
+  const [selectedReading, setSelectedReading] = useState<OdometerPhoto | null>(null);
   const [isImageModalOpen, setIsImageModalOpen] = useState(false);
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [pressedCardId, setPressedCardId] = useState<string | null>(null);
-  const [isUploading, setIsUploading] = useState(false);
   const [uploadDate, setUploadDate] = useState<string>(getTodayLocalDateString());
   const [uploadMileage, setUploadMileage] = useState<string>('');
   const [uploadNotes, setUploadNotes] = useState<string>('');
@@ -105,7 +93,7 @@ export default function OdometerGallery() {
     if (!vehicleId) return;
     try {
       // Try to get vehicle from the list endpoint instead
-      const vehicles = await apiGet<any[]>('/api/vehicles');
+      const vehicles = await routes.vehicles.list.call();
       const vehicle = vehicles?.find((v) => v.id === vehicleId);
       if (vehicle?.name) {
         setVehicleName(vehicle.name);
@@ -120,14 +108,14 @@ export default function OdometerGallery() {
     if (!vehicleId) return;
     try {
       setIsLoading(true);
-      const data = await apiGet<OdometerReading[]>(`/api/vehicles/${vehicleId}/odometer-photos`);
+      const data = await routes.vehicles.odometerPhotos.call({ vehicleId });
       if (__DEV__) {
         console.log('Fetched odometer photos:', data);
       }
       setReadings(data || []);
     } catch (error: any) {
       // Silently handle 404 - endpoint may not exist yet
-      if (error.message?.includes('404')) {
+      if (getErrorStatus(error) === 404) {
         if (__DEV__) {
           console.log('Odometer photos endpoint not found (404) - showing empty state');
         }
@@ -161,80 +149,24 @@ export default function OdometerGallery() {
       return;
     }
 
-    const fullUrl = `${API_URL}/api/vehicles/${vehicleId}/odometer-photos`;
-    
-    if (__DEV__) {
-      console.log(`Uploading odometer photo: ${fullUrl}`);
-    }
-    
-    try {
-      setIsUploading(true);
-      const formData = new FormData();
-      
-      const filename = uri.split('/').pop() || 'odometer.jpg';
-      const match = /\.(\w+)$/.exec(filename);
-      const type = match ? `image/${match[1]}` : 'image/jpeg';
-      
-      // @ts-ignore - FormData append types are complex in React Native
-      formData.append('file', {
-        uri,
-        name: filename,
-        type,
-      } as any);
-      
-      // Backend expects photoDate (not readingDate)
-      if (uploadDate) {
-        formData.append('photoDate', uploadDate);
-      }
-      // Add required mileage field
-      formData.append('mileage', uploadMileage);
-      if (uploadNotes) {
-        formData.append('notes', uploadNotes);
-      }
-
-      const res = await fetch(fullUrl, {
-        method: 'POST',
-        // Don't set Content-Type header - let React Native set it automatically for FormData
-        headers: {},
-        body: formData,
-        credentials: 'include',
-      });
-
-      if (res.status === 401) {
-        throw new Error('Unauthorized');
-      }
-
-      if (!res.ok) {
-        const text = await res.text();
-        // Handle 404 gracefully if endpoint doesn't exist
-        if (res.status === 404) {
-          throw new Error('Upload endpoint not available. Please ensure the backend API is implemented.');
-        }
-        throw new Error(`${res.status}: ${text}`);
-      }
+    // Queue the upload and close the form right away; progress shows above the grid
+    const task = await uploadOdometerPhoto(vehicleId, uri, {
+      photoDate: uploadDate,
+      mileage: uploadMileage,
+      notes: uploadNotes,
+    });
+    setIsUploadModalOpen(false);
+    setUploadDate(getTodayLocalDateString());
+    setUploadMileage('');
+    setUploadNotes('');
+    setPendingPhotoUri(null);
 
-      const result = await res.json();
-      
+    const finished = await waitForUpload(task.id);
+    if (finished?.status === 'done') {
+      dismissUpload(task.id);
       await fetchReadings();
-      setIsUploadModalOpen(false);
-      setUploadDate(getTodayLocalDateString());
-      setUploadMileage('');
-      setUploadNotes('');
-      setPendingPhotoUri(null);
-      Alert.alert('Success', 'Odometer photo uploaded successfully');
-    } catch (error: any) {
-      console.error('Error uploading odometer reading:', error);
-      
-      if (error.message?.includes('Network request failed') || error.message?.includes('Failed to fetch')) {
-        Alert.alert(
-          'Connection Error',
-          `Cannot connect to backend at ${fullUrl}. Please ensure the backend is running and the endpoint is implemented.`
-        );
-      } else {
-        Alert.alert('Upload Error', error.message || 'Failed to upload odometer reading. Please try again.');
-      }
-    } finally {
-      setIsUploading(false);
+    } else if (finished?.status === 'failed') {
+      Alert.alert('Upload Error', finished.error || 'Failed to upload odometer reading. Please try again.');
     }
   };
 
@@ -313,7 +245,8 @@ export default function OdometerGallery() {
     setIsUploadModalOpen(true);
   };
 
-  const handleDelete = async (reading: OdometerReading) => {
+  const handleDelete = async (reading: OdometerPhoto) => {
+    if (!vehicleId) return;
     Alert.alert(
       'Delete Odometer Photo?',
       'This will permanently remove this odometer photo. This action cannot be undone.',
@@ -325,7 +258,7 @@ export default function OdometerGallery() {
           onPress: async () => {
             try {
               setDeleteId(reading.id);
-              await apiRequest('DELETE', `/api/vehicles/${vehicleId}/odometer-photos/${reading.id}`);
+              await routes.vehicles.removeOdometerPhoto.call({ vehicleId, id: reading.id });
               await fetchReadings();
               if (selectedReading?.id === reading.id) {
                 setSelectedReading(null);
@@ -344,16 +277,17 @@ export default function OdometerGallery() {
     );
   };
 
-  const getImageUrl = (reading: OdometerReading) => {
+  const getImageUrl = (reading: OdometerPhoto) => {
     const url = reading.imageUrl || reading.photoUrl || '';
     if (!url) return '';
-    if (url.startsWith('http://') || url.startsWith('https://')) {
+    // Absolute URLs (http, or local file:// URIs from the mock backend) are used as is
+    if (/^[a-z][a-z0-9+.-]*:/i.test(url)) {
       return url;
     }
-    return `${API_URL}${url.startsWith('/') ? '' : '/'}${url}`;
+    return `${getApiUrl()}${url.startsWith('/') ? '' : '/'}${url}`;
   };
 
-  const openImageModal = (reading: OdometerReading) => {
+  const openImageModal = (reading: OdometerPhoto) => {
     setSelectedReading(reading);
     setIsImageModalOpen(true);
     setIsEditingPhoto(false);
@@ -382,7 +316,7 @@ export default function OdometerGallery() {
 
     try {
       setIsSavingEdit(true);
-      await apiRequest('PATCH', `/api/vehicles/${vehicleId}/odometer-photos/${selectedReading.id}`, {
+      await routes.vehicles.updateOdometerPhoto.call({ vehicleId, id: selectedReading.id }, {
         photoDate: editPhotoDate,
         mileage: editPhotoMileage,
         notes: editPhotoNotes || null,
@@ -410,7 +344,7 @@ export default function OdometerGallery() {
     }
   };
 
-  const renderReadingCard = ({ item }: { item: OdometerReading }) => {
+  const renderReadingCard = ({ item }: { item: OdometerPhoto }) => {
     const isPressed = pressedCardId === item.id;
 
     return (
@@ -541,6 +475,12 @@ export default function OdometerGallery() {
         </TouchableOpacity>
       </View>
 
+      {vehicleId && (
+        <View style={styles.uploadQueue}>
+          <UploadQueue kind="odometer" source={vehicleId} />
+        </View>
+      )}
+
       {isLoading ? (
         <View style={styles.loaderContainer}>
           <ActivityIndicator size="large" color={isDark ? '#9BA1A6' : '#666'} />
@@ -646,7 +586,6 @@ export default function OdometerGallery() {
                   <TouchableOpacity
                     style={[styles.uploadButton, isDark && styles.uploadButtonDark]}
                     onPress={handleTakePhoto}
-                    disabled={isUploading}
                   >
                     <MaterialIcons name="camera-alt" size={24} color={isDark ? '#ECEDEE' : '#11181C'} />
                     <Text style={[styles.uploadButtonText, isDark && styles.uploadButtonTextDark]}>
@@ -656,7 +595,6 @@ export default function OdometerGallery() {
                   <TouchableOpacity
                     style={[styles.uploadButton, isDark && styles.uploadButtonDark]}
                     onPress={handlePickImage}
-                    disabled={isUploading}
                   >
                     <MaterialIcons name="photo-library" size={24} color={isDark ? '#ECEDEE' : '#11181C'} />
                     <Text style={[styles.uploadButtonText, isDark && styles.uploadButtonTextDark]}>
@@ -737,19 +675,10 @@ export default function OdometerGallery() {
                     isDark && styles.uploadConfirmButtonDark,
                   ]}
                   onPress={handleUploadWithMileage}
-                  disabled={isUploading || !uploadMileage || parseFloat(uploadMileage) <= 0}
+                  disabled={!uploadMileage || parseFloat(uploadMileage) <= 0}
                 >
-                  {isUploading ? (
-                    <>
-                      <ActivityIndicator size="small" color="#fff" />
-                      <Text style={styles.uploadConfirmButtonText}>Uploading...</Text>
-                    </>
-                  ) : (
-                    <>
-                      <MaterialIcons name="cloud-upload" size={24} color="#fff" />
-                      <Text style={styles.uploadConfirmButtonText}>Upload Photo</Text>
-                    </>
-                  )}
+                  <MaterialIcons name="cloud-upload" size={24} color="#fff" />
+                  <Text style={styles.uploadConfirmButtonText}>Upload Photo</Text>
                 </TouchableOpacity>
               </>
             )}
@@ -1064,6 +993,10 @@ const styles = StyleSheet.create({
   emptyStateTextDark: {
     color: '#9BA1A6',
   },
+  uploadQueue: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
   listContent: {
     padding: 16,
   },
@@ -1,8 +1,11 @@
 import { useTaxYear } from '@/contexts/TaxYearContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { apiGet, apiRequest } from '@/lib/api';
-import { API_URL } from '@/lib/config';
+import { routes } from '@/lib/endpoints';
+import { getErrorStatus } from '@/lib/errors';
 import { formatDate } from '@/lib/format';
+import { getApiUrl } from '@/lib/server-profiles';
+import { removeEntity, replaceCollection } from '@/lib/store';
+import { type Paystub } from '@/lib/types';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
@@ -21,16 +24,6 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-interface Paystub {
-  id: string;
-  filename: string;
-  imageUrl: string;
-  uploadedAt: string;
-  incomeId?: string;
-  notes?: string;
-  [key: string]: any;
-}
-
 const { width } = Dimensions.get('window');
 const CARD_MARGIN = 16;
 const CARDS_PER_ROW = 2;
@@ -71,7 +64,8 @@ export default function PaystubGallery() {
     try {
       setIsLoading(true);
       // Try to fetch paystubs - adjust endpoint based on your API
-      const data = await apiGet<Paystub[]>('/api/paystubs');
+      const data = await routes.paystubs.list.call();
+      replaceCollection('paystubs', data);
       if (__DEV__) {
         console.log('Fetched paystubs:', data);
         if (data && data.length > 0) {
@@ -79,10 +73,10 @@ export default function PaystubGallery() {
         }
       }
       setPaystubs(data || []);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error fetching paystubs:', error);
       // If endpoint doesn't exist yet, show empty state
-      if (!error.message?.includes('404')) {
+      if (getErrorStatus(error) !== 404) {
         Alert.alert('Error', 'Failed to load paystubs. Please try again.');
       }
       setPaystubs([]);
@@ -140,7 +134,8 @@ export default function PaystubGallery() {
     try {
       setDeleteId(paystub.id);
       const payload = deleteLinked ? { deleteLinked: true } : undefined;
-      await apiRequest('DELETE', `/api/paystubs/${paystub.id}`, payload);
+      await routes.paystubs.remove.call({ id: paystub.id }, payload);
+      removeEntity('paystubs', paystub.id);
       await fetchPaystubs();
       if (selectedPaystub?.id === paystub.id) {
         setSelectedPaystub(null);
@@ -157,12 +152,12 @@ export default function PaystubGallery() {
   };
 
   const getImageUrl = (imageUrl: string) => {
-    // If the URL is already absolute (starts with http), use it as is
-    if (imageUrl.startsWith('http://') || imageUrl.startsWith('https://')) {
+    // If the URL is already absolute (http, or a local file:// URI from the mock backend), use it as is
+    if (/^[a-z][a-z0-9+.-]*:/i.test(imageUrl)) {
       return imageUrl;
     }
     // Otherwise, prepend the API URL
-    return `${API_URL}${imageUrl.startsWith('/') ? '' : '/'}${imageUrl}`;
+    return `${getApiUrl()}${imageUrl.startsWith('/') ? '' : '/'}${imageUrl}`;
   };
 
   const openImageModal = (paystub: Paystub) => {
@@ -1,5 +1,7 @@
+import { useAuth } from '@/contexts/AuthContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { apiGet, apiRequest } from '@/lib/api';
+import { routes } from '@/lib/endpoints';
+import { DEFAULT_PROVINCE, describeSalesTax, isProvinceCode, type ProvinceCode, PROVINCES } from '@/lib/provinces';
 import { PRICING_TIERS, TAX_FILING_STATUS, UNIONS, USER_TYPES, type UnionAffiliation, type User } from '@/lib/types';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
@@ -23,6 +25,7 @@ export default function ProfilePage() {
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
   const router = useRouter();
+  const { refetch: refreshUser } = useAuth();
 
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -39,9 +42,12 @@ export default function ProfilePage() {
   const [agentName, setAgentName] = useState('');
   const [agentCommission, setAgentCommission] = useState('');
   const [hasGstNumber, setHasGstNumber] = useState(false);
+  const [hasRegularEmployment, setHasRegularEmployment] = useState(false);
   const [gstNumber, setGstNumber] = useState('');
+  const [province, setProvince] = useState<ProvinceCode>(DEFAULT_PROVINCE);
 
   // Modal states
+  const [showProvincePicker, setShowProvincePicker] = useState(false);
   const [showUnionLevelPicker, setShowUnionLevelPicker] = useState<string | null>(null);
   const [selectedUnionForLevel, setSelectedUnionForLevel] = useState<string | null>(null);
 
@@ -52,7 +58,7 @@ export default function ProfilePage() {
   const fetchProfile = async () => {
     try {
       setIsLoading(true);
-      const userData = await apiGet<User>('/api/user/profile');
+      const userData = await routes.user.profile.call();
       setUser(userData);
       
       // Populate form
@@ -67,6 +73,8 @@ export default function ProfilePage() {
       setAgentCommission(userData.agentCommission || '');
       setHasGstNumber(userData.hasGstNumber || false);
       setGstNumber(userData.gstNumber || '');
+      setHasRegularEmployment(userData.hasRegularEmployment || false);
+      setProvince(isProvinceCode(userData.province) ? userData.province : DEFAULT_PROVINCE);
     } catch (error: any) {
       console.error('Error fetching profile:', error);
       Alert.alert('Error', 'Failed to load profile');
@@ -78,7 +86,7 @@ export default function ProfilePage() {
   const handleSave = async () => {
     try {
       setIsSaving(true);
-      await apiRequest('PATCH', '/api/user/profile', {
+      await routes.user.updateProfile.call(undefined, {
         firstName,
         lastName,
         email,
@@ -90,10 +98,12 @@ export default function ProfilePage() {
         agentCommission,
         hasGstNumber,
         gstNumber,
-        province: 'BC', // Hardcoded to British Columbia
+        hasRegularEmployment,
+        province,
       });
       Alert.alert('Success', 'Profile updated successfully');
       fetchProfile(); // Refresh data
+      refreshUser(); // Other screens read the shared user
     } catch (error: any) {
       console.error('Error updating profile:', error);
       Alert.alert('Error', 'Failed to update profile');
@@ -254,6 +264,20 @@ export default function ProfilePage() {
             autoCapitalize="none"
           />
         </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, isDark && styles.labelDark]}>Province or Territory</Text>
+          <TouchableOpacity
+            style={[styles.select, isDark && styles.selectDark]}
+            onPress={() => setShowProvincePicker(true)}
+          >
+            <Text style={[styles.selectText, isDark && styles.selectTextDark]}>{PROVINCES[province].name}</Text>
+            <MaterialIcons name="arrow-drop-down" size={24} color={isDark ? '#9BA1A6' : '#666'} />
+          </TouchableOpacity>
+          <Text style={[styles.helperText, isDark && styles.helperTextDark]}>
+            Where you live on December 31. Sets your provincial tax and sales tax ({describeSalesTax(PROVINCES[province].salesTax)})
+          </Text>
+        </View>
       </View>
 
       {/* Industry Role */}
@@ -684,6 +708,23 @@ export default function ProfilePage() {
           </View>
         </View>
 
+        <View style={styles.switchRow}>
+          <View style={styles.switchRowLeft}>
+            <Text style={[styles.switchLabel, isDark && styles.switchLabelDark]}>
+              Regular Employment
+            </Text>
+            <Text style={[styles.switchHelper, isDark && styles.switchHelperDark]}>
+              Do you also get T4 slips from an employer?
+            </Text>
+          </View>
+          <Switch
+            value={hasRegularEmployment}
+            onValueChange={setHasRegularEmployment}
+            trackColor={{ false: isDark ? '#374151' : '#d1d5db', true: '#0a7ea4' }}
+            thumbColor="#fff"
+          />
+        </View>
+
         <View style={styles.switchRow}>
           <View style={styles.switchRowLeft}>
             <Text style={[styles.switchLabel, isDark && styles.switchLabelDark]}>
@@ -731,6 +772,58 @@ export default function ProfilePage() {
         )}
       </TouchableOpacity>
 
+      {/* Province Picker Modal */}
+      <Modal
+        visible={showProvincePicker}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowProvincePicker(false)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setShowProvincePicker(false)}
+        >
+          <View style={[styles.modalContent, isDark && styles.modalContentDark]}>
+            <View style={[styles.modalHeader, isDark && styles.modalHeaderDark]}>
+              <Text style={[styles.modalTitle, isDark && styles.modalTitleDark]}>
+                Select Province or Territory
+              </Text>
+              <TouchableOpacity onPress={() => setShowProvincePicker(false)}>
+                <MaterialIcons name="close" size={24} color={isDark ? '#ECEDEE' : '#11181C'} />
+              </TouchableOpacity>
+            </View>
+            <ScrollView>
+              {Object.values(PROVINCES).map((rules) => (
+                <TouchableOpacity
+                  key={rules.code}
+                  style={[
+                    styles.modalOption,
+                    province === rules.code && styles.modalOptionSelected,
+                    isDark && styles.modalOptionDark,
+                  ]}
+                  onPress={() => {
+                    setProvince(rules.code);
+                    setShowProvincePicker(false);
+                  }}
+                >
+                  <Text
+                    style={[
+                      styles.modalOptionText,
+                      isDark && styles.modalOptionTextDark,
+                      province === rules.code && styles.modalOptionTextSelected,
+                    ]}
+                  >
+                    {rules.name}
+                  </Text>
+                  {province === rules.code && <MaterialIcons name="check" size={24} color="#0a7ea4" />}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
       {/* Union Level Picker Modal */}
       <Modal
         visible={showUnionLevelPicker !== null}
@@ -1,8 +1,11 @@
 import { useTaxYear } from '@/contexts/TaxYearContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { apiGet, apiRequest } from '@/lib/api';
-import { API_URL } from '@/lib/config';
+import { routes } from '@/lib/endpoints';
+import { getErrorStatus } from '@/lib/errors';
 import { formatDate } from '@/lib/format';
+import { getApiUrl } from '@/lib/server-profiles';
+import { removeEntity, replaceCollection } from '@/lib/store';
+import { type Receipt } from '@/lib/types';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
@@ -21,16 +24,6 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-interface Receipt {
-  id: string;
-  filename: string;
-  imageUrl: string;
-  uploadedAt: string;
-  expenseId?: string;
-  notes?: string;
-  [key: string]: any;
-}
-
 const { width } = Dimensions.get('window');
 const CARD_MARGIN = 16;
 const CARDS_PER_ROW = 2;
@@ -70,7 +63,8 @@ export default function ReceiptGallery() {
   const fetchReceipts = async () => {
     try {
       setIsLoading(true);
-      const data = await apiGet<Receipt[]>('/api/receipts');
+      const data = await routes.receipts.list.call();
+      replaceCollection('receipts', data);
       if (__DEV__) {
         console.log('Fetched receipts:', data);
         if (data && data.length > 0) {
@@ -78,9 +72,9 @@ export default function ReceiptGallery() {
         }
       }
       setReceipts(data || []);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error fetching receipts:', error);
-      if (!error.message?.includes('404')) {
+      if (getErrorStatus(error) !== 404) {
         Alert.alert('Error', 'Failed to load receipts. Please try again.');
       }
       setReceipts([]);
@@ -136,7 +130,8 @@ export default function ReceiptGallery() {
     try {
       setDeleteId(receipt.id);
       const payload = deleteLinked ? { deleteLinked: true } : undefined;
-      await apiRequest('DELETE', `/api/receipts/${receipt.id}`, payload);
+      await routes.receipts.remove.call({ id: receipt.id }, payload);
+      removeEntity('receipts', receipt.id);
       await fetchReceipts();
       if (selectedReceipt?.id === receipt.id) {
         setSelectedReceipt(null);
@@ -153,10 +148,11 @@ export default function ReceiptGallery() {
   };
 
   const getImageUrl = (imageUrl: string) => {
-    if (imageUrl.startsWith('http://') || imageUrl.startsWith('https://')) {
+    // Absolute URLs (http, or local file:// URIs from the mock backend) are used as is
+    if (/^[a-z][a-z0-9+.-]*:/i.test(imageUrl)) {
       return imageUrl;
     }
-    return `${API_URL}${imageUrl.startsWith('/') ? '' : '/'}${imageUrl}`;
+    return `${getApiUrl()}${imageUrl.startsWith('/') ? '' : '/'}${imageUrl}`;
   };
 
   const openImageModal = (receipt: Receipt) => {
@@ -0,0 +1,520 @@
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useServerProfiles } from '@/hooks/useServerProfiles';
+import { USE_MOCK_BACKEND } from '@/lib/config';
+import {
+  type ConnectionTestResult,
+  DEFAULT_PROFILE_ID,
+  removeServerProfile,
+  saveServerProfile,
+  selectServerProfile,
+  type ServerProfile,
+  testServerConnection,
+} from '@/lib/server-profiles';
+import { clearLocalData, countUnsyncedChanges } from '@/lib/session';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+export default function ServerProfilesPage() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { profiles, activeProfile } = useServerProfiles();
+
+  const [testResults, setTestResults] = useState<Record<string, ConnectionTestResult>>({});
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<ServerProfile | null>(null);
+  const [formData, setFormData] = useState({ name: '', url: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleTest = async (profile: ServerProfile) => {
+    setTestingId(profile.id);
+    const result = await testServerConnection(profile.url);
+    setTestResults((prev) => ({ ...prev, [profile.id]: result }));
+    setTestingId(null);
+  };
+
+  const switchTo = async (profile: ServerProfile) => {
+    try {
+      await selectServerProfile(profile.id);
+      // Cached data, queued changes and uploads belong to the previous server
+      await clearLocalData();
+    } catch (error) {
+      console.error('Error switching server:', error);
+      Alert.alert('Error', 'Failed to switch server');
+    }
+  };
+
+  const handleSelect = async (profile: ServerProfile) => {
+    if (profile.id === activeProfile.id) return;
+    const pendingCount = await countUnsyncedChanges();
+    Alert.alert(
+      `Switch to ${profile.name}?`,
+      'Cached data will be cleared and reloaded from the new server. You may need to sign in again.' +
+        (pendingCount > 0
+          ? `\n\n${pendingCount} offline change${pendingCount === 1 ? '' : 's'} not yet synced will be discarded.`
+          : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Switch', style: pendingCount > 0 ? 'destructive' : 'default', onPress: () => switchTo(profile) },
+      ]
+    );
+  };
+
+  const handleDelete = (profile: ServerProfile) => {
+    Alert.alert(
+      'Delete Server?',
+      `Remove "${profile.name}" from your saved servers?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const wasActive = profile.id === activeProfile.id;
+            await removeServerProfile(profile.id);
+            if (wasActive) {
+              await clearLocalData();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const openForm = (profile: ServerProfile | null) => {
+    setEditingProfile(profile);
+    setFormData({ name: profile?.name ?? '', url: profile?.url ?? 'http://' });
+    setIsModalOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await saveServerProfile({ id: editingProfile?.id, name: formData.name, url: formData.url });
+      setIsModalOpen(false);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save server');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderTestResult = (profile: ServerProfile) => {
+    if (testingId === profile.id) {
+      return <ActivityIndicator size="small" color={isDark ? '#9BA1A6' : '#666'} />;
+    }
+    const result = testResults[profile.id];
+    if (!result) return null;
+    return (
+      <Text style={[styles.testResult, result.ok ? styles.testResultOk : styles.testResultFailed]}>
+        {result.ok ? `Reachable (HTTP ${result.status}, ${result.latencyMs} ms)` : result.error}
+      </Text>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, isDark && styles.containerDark]}
+      contentContainerStyle={[styles.contentContainer, { paddingTop: insets.top + 8 }]}
+    >
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color={isDark ? '#ECEDEE' : '#11181C'} />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={[styles.title, isDark && styles.titleDark]}>Server</Text>
+            <Text style={[styles.subtitle, isDark && styles.subtitleDark]}>
+              Choose which backend the app talks to
+            </Text>
+          </View>
+        </View>
+        <TouchableOpacity onPress={() => openForm(null)} style={styles.addButton}>
+          <MaterialIcons name="add" size={24} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      {USE_MOCK_BACKEND && (
+        <View style={[styles.notice, isDark && styles.noticeDark]}>
+          <MaterialIcons name="info-outline" size={20} color="#b45309" />
+          <Text style={styles.noticeText}>
+            The mock backend is on, so requests never leave the device and the server selected here is ignored.
+          </Text>
+        </View>
+      )}
+
+      {profiles.map((profile) => {
+        const isActive = profile.id === activeProfile.id;
+        return (
+          <TouchableOpacity
+            key={profile.id}
+            style={[styles.card, isDark && styles.cardDark, isActive && styles.cardActive]}
+            onPress={() => handleSelect(profile)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.cardHeader}>
+              <MaterialIcons
+                name={isActive ? 'radio-button-checked' : 'radio-button-unchecked'}
+                size={22}
+                color={isActive ? '#0a7ea4' : isDark ? '#9BA1A6' : '#666'}
+              />
+              <View style={styles.cardText}>
+                <Text style={[styles.cardTitle, isDark && styles.cardTitleDark]}>{profile.name}</Text>
+                <Text style={[styles.cardUrl, isDark && styles.cardUrlDark]} numberOfLines={1}>
+                  {profile.url}
+                </Text>
+              </View>
+            </View>
+            <View style={styles.cardFooter}>
+              <View style={styles.testResultContainer}>{renderTestResult(profile)}</View>
+              <View style={styles.cardActions}>
+                <TouchableOpacity onPress={() => handleTest(profile)} style={styles.actionButton}>
+                  <Text style={styles.actionText}>Test</Text>
+                </TouchableOpacity>
+                {profile.id !== DEFAULT_PROFILE_ID && (
+                  <>
+                    <TouchableOpacity onPress={() => openForm(profile)} style={styles.actionButton}>
+                      <MaterialIcons name="edit" size={20} color={isDark ? '#9BA1A6' : '#666'} />
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => handleDelete(profile)} style={styles.actionButton}>
+                      <MaterialIcons name="delete" size={20} color="#ef4444" />
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      <Modal
+        visible={isModalOpen}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setIsModalOpen(false)}
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+          style={styles.modalOverlay}
+        >
+          <View style={[styles.modal, isDark && styles.modalDark]}>
+            <Text style={[styles.modalTitle, isDark && styles.modalTitleDark]}>
+              {editingProfile ? 'Edit Server' : 'Add Server'}
+            </Text>
+
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, isDark && styles.labelDark]}>Name</Text>
+              <TextInput
+                style={[styles.input, isDark && styles.inputDark]}
+                value={formData.name}
+                onChangeText={(name) => setFormData({ ...formData, name })}
+                placeholder="e.g., Staging"
+                placeholderTextColor={isDark ? '#9BA1A6' : '#999'}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, isDark && styles.labelDark]}>URL</Text>
+              <TextInput
+                style={[styles.input, isDark && styles.inputDark]}
+                value={formData.url}
+                onChangeText={(url) => setFormData({ ...formData, url })}
+                placeholder="http://192.168.1.100:5000"
+                placeholderTextColor={isDark ? '#9BA1A6' : '#999'}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+            </View>
+
+            <View style={styles.modalFooter}>
+              <TouchableOpacity
+                style={[styles.cancelButton, isDark && styles.cancelButtonDark]}
+                onPress={() => setIsModalOpen(false)}
+              >
+                <Text style={[styles.cancelButtonText, isDark && styles.cancelButtonTextDark]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.submitButton, isSaving && styles.submitButtonDisabled]}
+                onPress={handleSave}
+                disabled={isSaving}
+              >
+                {isSaving ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.submitButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  containerDark: {
+    backgroundColor: '#151718',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    marginBottom: 4,
+    color: '#11181C',
+  },
+  titleDark: {
+    color: '#ECEDEE',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  subtitleDark: {
+    color: '#9BA1A6',
+  },
+  addButton: {
+    backgroundColor: '#0a7ea4',
+    borderRadius: 20,
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fef3c7',
+    borderColor: '#fcd34d',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  noticeDark: {
+    backgroundColor: '#451a03',
+    borderColor: '#92400e',
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#b45309',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+    marginBottom: 12,
+  },
+  cardDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  cardActive: {
+    borderColor: '#0a7ea4',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cardText: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  cardTitleDark: {
+    color: '#ECEDEE',
+  },
+  cardUrl: {
+    fontSize: 13,
+    color: '#666',
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  cardUrlDark: {
+    color: '#9BA1A6',
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  testResultContainer: {
+    flex: 1,
+    marginRight: 8,
+  },
+  testResult: {
+    fontSize: 12,
+  },
+  testResultOk: {
+    color: '#10b981',
+  },
+  testResultFailed: {
+    color: '#ef4444',
+  },
+  cardActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  actionButton: {
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modal: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    width: '100%',
+    maxWidth: 420,
+  },
+  modalDark: {
+    backgroundColor: '#1f2937',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#11181C',
+    marginBottom: 20,
+  },
+  modalTitleDark: {
+    color: '#ECEDEE',
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 10,
+    color: '#11181C',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  labelDark: {
+    color: '#ECEDEE',
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#11181C',
+    backgroundColor: '#fff',
+  },
+  inputDark: {
+    backgroundColor: '#374151',
+    borderColor: '#4b5563',
+    color: '#ECEDEE',
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  cancelButtonDark: {
+    backgroundColor: '#374151',
+    borderColor: '#4b5563',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  cancelButtonTextDark: {
+    color: '#ECEDEE',
+  },
+  submitButton: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 10,
+    backgroundColor: '#0a7ea4',
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
@@ -1,8 +1,19 @@
+import { ScenarioSimulator } from '@/components/scenario-simulator';
+import { useAuth } from '@/contexts/AuthContext';
 import { useTaxYear } from '@/contexts/TaxYearContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { useAuth } from '@/hooks/useAuth';
-import { apiGet } from '@/lib/api';
+import { useTaxEstimate } from '@/hooks/useTaxEstimate';
+import { ForbiddenError, isNetworkError, UnauthorizedError } from '@/lib/errors';
 import { formatCurrency, formatPercent } from '@/lib/format';
+import {
+  getPensionParameters,
+  maxSelfEmployedContribution,
+  type PensionContribution,
+  selfEmployedContribution,
+} from '@/lib/pension';
+import { formatRate, getIncomeTaxTable, getIncomeTaxTableYear, getProvinceRules, QUEBEC_ABATEMENT_RATE } from '@/lib/provinces';
+import { fetchTaxCalculation } from '@/lib/tax-calculation';
+import { type TaxCalculationResponse } from '@/lib/types';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
@@ -12,33 +23,11 @@ import {
   ScrollView,
   StyleSheet,
   Text,
-  TextInput,
   TouchableOpacity,
   View,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-interface TaxCalculation {
-  grossIncome: number;
-  netIncome: number;
-  totalExpenses: number;
-  federalTax: number;
-  provincialTax: number;
-  cppContribution: number;
-  totalOwed: number;
-  marginalTaxRate: number;
-  effectiveTaxRate: number;
-}
-
-interface User {
-  subscriptionTier?: string;
-}
-
-interface TaxData {
-  calculation: TaxCalculation;
-  user: User;
-}
-
 export default function TaxCalculatorPage() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
@@ -46,12 +35,17 @@ export default function TaxCalculatorPage() {
   const router = useRouter();
   const { taxYear } = useTaxYear();
   const { user } = useAuth();
+  const province = getProvinceRules(user?.province);
+  // Quebec residents pay into the QPP, file a separate provincial return and get the federal abatement
+  const isQuebec = province.code === 'QC';
+  const brackets = getIncomeTaxTable(province.incomeTax, taxYear).brackets;
+  // Differs from taxYear when the app has no brackets for it yet and borrows another year's
+  const bracketYear = getIncomeTaxTableYear(province.incomeTax, taxYear);
 
-  const [data, setData] = useState<TaxData | null>(null);
+  const [data, setData] = useState<TaxCalculationResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [regularEmploymentIncome, setRegularEmploymentIncome] = useState('');
-  const [taxesPaidOnEmployment, setTaxesPaidOnEmployment] = useState('');
-  const [cppPaidOnEmployment, setCppPaidOnEmployment] = useState('');
+  // Set when /api/tax-calculation can't be reached; totals then come from the local store
+  const [isOffline, setIsOffline] = useState(false);
 
   useEffect(() => {
     fetchTaxData();
@@ -60,11 +54,16 @@ export default function TaxCalculatorPage() {
   const fetchTaxData = async () => {
     try {
       setIsLoading(true);
-      const taxData = await apiGet<TaxData>(`/api/tax-calculation?taxYear=${taxYear}`);
+      const taxData = await fetchTaxCalculation(taxYear);
       setData(taxData);
+      setIsOffline(false);
     } catch (error: any) {
       console.error('Error fetching tax calculation:', error);
-      if (error.message?.includes('403') || error.message?.includes('Unauthorized')) {
+      if (isNetworkError(error)) {
+        // Estimate from the income and expenses already on the device
+        setData(null);
+        setIsOffline(true);
+      } else if (error instanceof ForbiddenError || error instanceof UnauthorizedError) {
         // Handle locked content - user doesn't have access
         setData(null);
       } else {
@@ -75,71 +74,39 @@ export default function TaxCalculatorPage() {
     }
   };
 
-  const calculation = data?.calculation;
-  const isBasicTier = data?.user?.subscriptionTier === 'basic';
-  const hasTaxTools = !isBasicTier;
-
-  const regularIncomeValue = parseFloat(regularEmploymentIncome) || 0;
-  const taxesPaidValue = parseFloat(taxesPaidOnEmployment) || 0;
-  const cppPaidValue = parseFloat(cppPaidOnEmployment) || 0;
-
-  // Calculate adjusted tax totals including regular employment
-  const selfEmploymentNetIncome = calculation?.netIncome ?? 0;
-  const combinedNetIncome = selfEmploymentNetIncome + regularIncomeValue;
-
-  const selfEmploymentFederalTax = calculation?.federalTax ?? 0;
-  const selfEmploymentProvincialTax = calculation?.provincialTax ?? 0;
-  const selfEmploymentCPP = calculation?.cppContribution ?? 0;
-  const effectiveRate = calculation?.effectiveTaxRate ?? 0;
+  // The server's totals when it answered, otherwise the same totals worked out locally
+  const { summary, yearSlips, employment, input, estimate } = useTaxEstimate(taxYear, data?.calculation);
 
-  const estimatedTaxOnEmployment =
-    regularIncomeValue > 0 ? (effectiveRate / 100) * regularIncomeValue : 0;
+  const isBasicTier = (data?.user ?? user)?.subscriptionTier === 'basic';
+  const hasTaxTools = !isBasicTier && (!!data || isOffline);
 
-  const federalTaxRate =
-    selfEmploymentNetIncome > 0
-      ? selfEmploymentFederalTax / (selfEmploymentFederalTax + selfEmploymentProvincialTax || 1)
-      : 0.5;
-  const provincialTaxRate = 1 - federalTaxRate;
-
-  const estimatedFederalTaxOnEmployment = estimatedTaxOnEmployment * federalTaxRate;
-  const estimatedProvincialTaxOnEmployment = estimatedTaxOnEmployment * provincialTaxRate;
-
-  const adjustedFederalTax = selfEmploymentFederalTax + estimatedFederalTaxOnEmployment;
-  const adjustedProvincialTax = selfEmploymentProvincialTax + estimatedProvincialTaxOnEmployment;
-  const adjustedTotalIncomeTax = adjustedFederalTax + adjustedProvincialTax;
-
-  // Calculate adjusted CPP considering annual cap
-  const getMaxCPPContribution = (year: number): number => {
-    const cppParamsByYear: Record<
-      number,
-      { maxPensionableEarnings: number; basicExemption: number; selfEmployedRate: number }
-    > = {
-      2020: { maxPensionableEarnings: 58700, basicExemption: 3500, selfEmployedRate: 0.1095 },
-      2021: { maxPensionableEarnings: 61600, basicExemption: 3500, selfEmployedRate: 0.1095 },
-      2022: { maxPensionableEarnings: 64900, basicExemption: 3500, selfEmployedRate: 0.1115 },
-      2023: { maxPensionableEarnings: 66600, basicExemption: 3500, selfEmployedRate: 0.1140 },
-      2024: { maxPensionableEarnings: 68500, basicExemption: 3500, selfEmployedRate: 0.1190 },
-      2025: { maxPensionableEarnings: 71300, basicExemption: 3500, selfEmployedRate: 0.1190 },
-      2026: { maxPensionableEarnings: 74600, basicExemption: 3500, selfEmployedRate: 0.1190 },
-    };
-    const params = cppParamsByYear[year] || cppParamsByYear[2026];
-    const maxContributoryEarnings = params.maxPensionableEarnings - params.basicExemption;
-    return maxContributoryEarnings * params.selfEmployedRate;
-  };
-
-  const maxCPPContribution = getMaxCPPContribution(taxYear);
-  const totalCPPNeeded = selfEmploymentCPP;
-  const totalCPPWithEmployment = cppPaidValue + totalCPPNeeded;
-  const adjustedCPP = Math.min(totalCPPWithEmployment, maxCPPContribution) - cppPaidValue;
-  const adjustedCPPAfterCap = Math.max(0, adjustedCPP);
-
-  const adjustedTotalOwed = adjustedTotalIncomeTax + adjustedCPPAfterCap - taxesPaidValue;
-  const adjustedEffectiveRate =
-    combinedNetIncome > 0 ? (Math.max(0, adjustedTotalOwed) / combinedNetIncome) * 100 : 0;
-  const progressValue = Math.min(adjustedEffectiveRate, 50);
+  const regularIncomeValue = employment.employmentIncome ?? 0;
+  const taxesPaidValue = employment.taxesPaid ?? 0;
+  const unionDuesValue = employment.unionDues ?? 0;
+  const { pensionPlan, selfEmployedPension, employeePension } = estimate;
+  const pensionParameters = getPensionParameters(taxYear, pensionPlan.code);
+  const hasSecondCeiling = pensionParameters.employeeSecondRate > 0;
+  const hasEmployment = regularIncomeValue > 0;
+  const pensionShortfall =
+    employment.employmentPensionPaid !== undefined
+      ? Math.max(0, employeePension.total - employment.employmentPensionPaid)
+      : 0;
+  const pensionRows: { label: string; key: keyof PensionContribution }[] = [
+    { label: 'Base', key: 'base' },
+    { label: 'First enhanced', key: 'firstEnhanced' },
+    ...(hasSecondCeiling ? [{ label: `Second additional (${pensionPlan.code}2)`, key: 'secondAdditional' as const }] : []),
+    { label: 'Total', key: 'total' },
+  ];
+  const maxCPPContribution = maxSelfEmployedContribution(taxYear, pensionPlan.code);
+  const totalOwed = Math.max(0, estimate.totalOwed);
+  // Employment earnings already used up part of the ceilings
+  const isPensionCapReached =
+    hasEmployment &&
+    estimate.pensionContribution < selfEmployedContribution(summary.netIncome, taxYear, pensionPlan.code).total;
+  const progressValue = Math.min(estimate.effectiveTaxRate, 50);
 
   // Show locked content if API returns 403 or user lacks access
-  if (!isLoading && (!hasTaxTools || !data)) {
+  if (!isLoading && !hasTaxTools) {
     return (
       <ScrollView
         style={[styles.container, isDark && styles.containerDark]}
@@ -205,6 +172,25 @@ export default function TaxCalculatorPage() {
         </View>
       ) : (
         <>
+          {isOffline && (
+            <View style={[styles.offlineBanner, isDark && styles.offlineBannerDark]}>
+              <MaterialIcons name="cloud-off" size={20} color={isDark ? '#fbbf24' : '#d97706'} />
+              <Text style={[styles.offlineBannerText, isDark && styles.offlineBannerTextDark]}>
+                Can&apos;t reach the server. This estimate uses the income and expenses saved on this device.
+              </Text>
+            </View>
+          )}
+
+          {bracketYear !== taxYear && (
+            <View style={[styles.offlineBanner, isDark && styles.offlineBannerDark]}>
+              <MaterialIcons name="info-outline" size={20} color={isDark ? '#fbbf24' : '#d97706'} />
+              <Text style={[styles.offlineBannerText, isDark && styles.offlineBannerTextDark]}>
+                {taxYear} tax brackets aren&apos;t in the app yet. This estimate uses the {bracketYear} brackets, so
+                treat it as a rough guide.
+              </Text>
+            </View>
+          )}
+
           {/* Summary Cards */}
           <View style={styles.statsGrid}>
             <View style={[styles.statCard, isDark && styles.statCardDark]}>
@@ -215,7 +201,7 @@ export default function TaxCalculatorPage() {
                 </Text>
               </View>
               <Text style={[styles.statCardValue, isDark && styles.statCardValueDark]}>
-                {formatCurrency(calculation?.grossIncome ?? 0)}
+                {formatCurrency(summary.grossIncome)}
               </Text>
             </View>
 
@@ -233,7 +219,7 @@ export default function TaxCalculatorPage() {
                   isDark && styles.statCardValueGreenDark,
                 ]}
               >
-                -{formatCurrency(calculation?.totalExpenses ?? 0)}
+                -{formatCurrency(summary.totalExpenses)}
               </Text>
             </View>
 
@@ -249,87 +235,71 @@ export default function TaxCalculatorPage() {
                 </Text>
               </View>
               <Text style={[styles.statCardValue, isDark && styles.statCardValueDark]}>
-                {formatCurrency(calculation?.netIncome ?? 0)}
+                {formatCurrency(summary.netIncome)}
               </Text>
             </View>
           </View>
 
-          {/* Employment Income Inputs */}
+          {/* Employment income from the year's T4 slips */}
           <View style={[styles.card, isDark && styles.cardDark]}>
             <View style={styles.cardHeader}>
               <Text style={[styles.cardTitle, isDark && styles.cardTitleDark]}>
                 Regular Employment Income
               </Text>
               <Text style={[styles.cardDescription, isDark && styles.cardDescriptionDark]}>
-                Include income from regular employment to see combined tax estimate
-              </Text>
-            </View>
-
-            <View style={styles.inputGroup}>
-              <Text style={[styles.inputLabel, isDark && styles.inputLabelDark]}>
-                Estimated annual income from regular employment
+                {yearSlips.length > 0
+                  ? `From ${yearSlips.length} T4 slip${yearSlips.length === 1 ? '' : 's'} for ${taxYear}`
+                  : user?.hasRegularEmployment
+                    ? `Add your ${taxYear} T4 slips to include your employment income and the tax already withheld`
+                    : 'Add T4 slips if you also earn income from regular employment'}
               </Text>
-              <View style={[styles.currencyInput, isDark && styles.currencyInputDark]}>
-                <Text style={[styles.currencySymbol, isDark && styles.currencySymbolDark]}>$</Text>
-                <TextInput
-                  style={[styles.inputInCurrency, isDark && styles.inputInCurrencyDark]}
-                  placeholder="0.00"
-                  placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
-                  value={regularEmploymentIncome}
-                  onChangeText={setRegularEmploymentIncome}
-                  keyboardType="decimal-pad"
-                />
-              </View>
-              {regularIncomeValue > 0 && (
-                <Text style={[styles.inputHelper, isDark && styles.inputHelperDark]}>
-                  {formatCurrency(regularIncomeValue)} per year
-                </Text>
-              )}
             </View>
 
-            <View style={styles.inputGroup}>
-              <Text style={[styles.inputLabel, isDark && styles.inputLabelDark]}>
-                Total taxes already paid on employment income
-              </Text>
-              <View style={[styles.currencyInput, isDark && styles.currencyInputDark]}>
-                <Text style={[styles.currencySymbol, isDark && styles.currencySymbolDark]}>$</Text>
-                <TextInput
-                  style={[styles.inputInCurrency, isDark && styles.inputInCurrencyDark]}
-                  placeholder="0.00"
-                  placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
-                  value={taxesPaidOnEmployment}
-                  onChangeText={setTaxesPaidOnEmployment}
-                  keyboardType="decimal-pad"
-                />
+            {yearSlips.length > 0 && (
+              <View style={styles.cppBreakdown}>
+                <View style={styles.cppInfoRow}>
+                  <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>Employment income</Text>
+                  <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                    {formatCurrency(regularIncomeValue)}
+                  </Text>
+                </View>
+                <View style={styles.cppInfoRow}>
+                  <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>Income tax deducted</Text>
+                  <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                    {formatCurrency(taxesPaidValue)}
+                  </Text>
+                </View>
+                <View style={styles.cppInfoRow}>
+                  <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>EI premiums</Text>
+                  <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                    {employment.employmentEiPaid !== undefined
+                      ? formatCurrency(employment.employmentEiPaid)
+                      : 'Not entered'}
+                  </Text>
+                </View>
+                {unionDuesValue > 0 && (
+                  <View style={styles.cppInfoRow}>
+                    <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>
+                      Union dues (deducted from income)
+                    </Text>
+                    <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                      {formatCurrency(unionDuesValue)}
+                    </Text>
+                  </View>
+                )}
+                {estimate.eiOverpayment > 0 && (
+                  <Text style={[styles.cppContributionNote, isDark && styles.cppContributionNoteDark]}>
+                    {formatCurrency(estimate.eiOverpayment)} of EI withheld over the{' '}
+                    {formatCurrency(estimate.eiPremiums)} your employment earnings require is refunded with your return.
+                  </Text>
+                )}
               </View>
-              {taxesPaidValue > 0 && (
-                <Text style={[styles.inputHelper, isDark && styles.inputHelperDark]}>
-                  {formatCurrency(taxesPaidValue)} paid
-                </Text>
-              )}
-            </View>
+            )}
 
-            <View style={styles.inputGroup}>
-              <Text style={[styles.inputLabel, isDark && styles.inputLabelDark]}>
-                CPP contributions already paid on employment income
-              </Text>
-              <View style={[styles.currencyInput, isDark && styles.currencyInputDark]}>
-                <Text style={[styles.currencySymbol, isDark && styles.currencySymbolDark]}>$</Text>
-                <TextInput
-                  style={[styles.inputInCurrency, isDark && styles.inputInCurrencyDark]}
-                  placeholder="0.00"
-                  placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
-                  value={cppPaidOnEmployment}
-                  onChangeText={setCppPaidOnEmployment}
-                  keyboardType="decimal-pad"
-                />
-              </View>
-              {cppPaidValue > 0 && (
-                <Text style={[styles.inputHelper, isDark && styles.inputHelperDark]}>
-                  {formatCurrency(cppPaidValue)} paid
-                </Text>
-              )}
-            </View>
+            <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/employment-slips')}>
+              <Text style={styles.linkRowText}>{yearSlips.length > 0 ? 'Manage T4 Slips' : 'Add T4 Slips'}</Text>
+              <MaterialIcons name="chevron-right" size={20} color="#0a7ea4" />
+            </TouchableOpacity>
           </View>
 
           {/* Tax Breakdown */}
@@ -351,11 +321,14 @@ export default function TaxCalculatorPage() {
                   Total Federal Tax
                 </Text>
                 <Text style={[styles.taxCardValue, isDark && styles.taxCardValueDark]}>
-                  {formatCurrency(
-                    regularIncomeValue > 0 ? adjustedFederalTax : calculation?.federalTax ?? 0
-                  )}
+                  {formatCurrency(estimate.federalTax)}
                 </Text>
               </View>
+              {isQuebec && (
+                <Text style={[styles.taxCardNote, isDark && styles.taxCardNoteDark]}>
+                  After the {formatRate(QUEBEC_ABATEMENT_RATE)} Quebec abatement (-{formatCurrency(estimate.quebecAbatement)})
+                </Text>
+              )}
             </View>
 
             <View style={[styles.taxCard, isDark && styles.taxCardDark]}>
@@ -366,7 +339,7 @@ export default function TaxCalculatorPage() {
                     Provincial Tax
                   </Text>
                   <Text style={[styles.taxCardSubtitle, isDark && styles.taxCardSubtitleDark]}>
-                    British Columbia
+                    {isQuebec ? 'Revenu Québec (separate TP-1 return)' : province.name}
                   </Text>
                 </View>
               </View>
@@ -375,13 +348,21 @@ export default function TaxCalculatorPage() {
                   Total Provincial Tax
                 </Text>
                 <Text style={[styles.taxCardValue, isDark && styles.taxCardValueDark]}>
-                  {formatCurrency(
-                    regularIncomeValue > 0
-                      ? adjustedProvincialTax
-                      : calculation?.provincialTax ?? 0
-                  )}
+                  {formatCurrency(estimate.provincialTax)}
                 </Text>
               </View>
+              <View style={styles.bracketList}>
+                {brackets.map(([upTo, rate], index) => (
+                  <View key={upTo} style={styles.bracketRow}>
+                    <Text style={[styles.bracketLabel, isDark && styles.bracketLabelDark]}>
+                      {upTo === Infinity
+                        ? `Over ${formatCurrency(brackets[index - 1]?.[0] ?? 0)}`
+                        : `Up to ${formatCurrency(upTo)}`}
+                    </Text>
+                    <Text style={[styles.bracketRate, isDark && styles.bracketRateDark]}>{formatRate(rate)}</Text>
+                  </View>
+                ))}
+              </View>
             </View>
           </View>
 
@@ -402,7 +383,7 @@ export default function TaxCalculatorPage() {
                   Marginal Tax Rate
                 </Text>
                 <Text style={[styles.rateValue, isDark && styles.rateValueDark]}>
-                  {formatPercent(calculation?.marginalTaxRate ?? 0)}
+                  {formatPercent(estimate.marginalTaxRate)}
                 </Text>
                 <Text style={[styles.rateHelper, isDark && styles.rateHelperDark]}>
                   Tax rate on next dollar earned
@@ -413,7 +394,7 @@ export default function TaxCalculatorPage() {
                   Effective Tax Rate
                 </Text>
                 <Text style={[styles.rateValue, isDark && styles.rateValueDark]}>
-                  {formatPercent(calculation?.effectiveTaxRate ?? 0)}
+                  {formatPercent(estimate.effectiveTaxRate)}
                 </Text>
                 <Text style={[styles.rateHelper, isDark && styles.rateHelperDark]}>
                   Average tax rate on total income
@@ -422,14 +403,14 @@ export default function TaxCalculatorPage() {
             </View>
           </View>
 
-          {/* CPP Contributions */}
+          {/* CPP/QPP Contributions */}
           <View style={[styles.card, isDark && styles.cardDark]}>
             <View style={styles.cardHeader}>
               <Text style={[styles.cardTitle, isDark && styles.cardTitleDark]}>
-                CPP Contributions
+                {pensionPlan.code} Contributions
               </Text>
               <Text style={[styles.cardDescription, isDark && styles.cardDescriptionDark]}>
-                Canada Pension Plan self-employment contribution ({taxYear})
+                {pensionPlan.name} on self-employment{hasEmployment ? ' and employment' : ''} earnings ({taxYear})
               </Text>
             </View>
             <View style={styles.cppGrid}>
@@ -438,24 +419,50 @@ export default function TaxCalculatorPage() {
                   <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>
                     Contribution Rate
                   </Text>
-                  <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>11.90%</Text>
+                  <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                    {formatRate(pensionParameters.selfEmployedRate)}
+                  </Text>
                 </View>
+                {hasSecondCeiling && (
+                  <View style={styles.cppInfoRow}>
+                    <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>
+                      {pensionPlan.code}2 Rate
+                    </Text>
+                    <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                      {formatRate(pensionParameters.selfEmployedSecondRate)}
+                    </Text>
+                  </View>
+                )}
                 <View style={styles.cppInfoRow}>
                   <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>
                     Maximum Pensionable Earnings
                   </Text>
-                  <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>$68,500</Text>
+                  <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                    {formatCurrency(pensionParameters.maxPensionableEarnings)}
+                  </Text>
                 </View>
+                {hasSecondCeiling && (
+                  <View style={styles.cppInfoRow}>
+                    <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>
+                      Additional Maximum Pensionable Earnings
+                    </Text>
+                    <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                      {formatCurrency(pensionParameters.maxAdditionalPensionableEarnings)}
+                    </Text>
+                  </View>
+                )}
                 <View style={styles.cppInfoRow}>
                   <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>
                     Basic Exemption
                   </Text>
-                  <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>$3,500</Text>
+                  <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                    {formatCurrency(pensionParameters.basicExemption)}
+                  </Text>
                 </View>
               </View>
               <View style={[styles.cppContributionBox, isDark && styles.cppContributionBoxDark]}>
                 <Text style={[styles.cppContributionLabel, isDark && styles.cppContributionLabelDark]}>
-                  Your CPP Contribution
+                  Your {pensionPlan.code} Contribution
                 </Text>
                 <Text
                   style={[
@@ -463,19 +470,93 @@ export default function TaxCalculatorPage() {
                     isDark && styles.cppContributionValueDark,
                   ]}
                 >
-                  {formatCurrency(
-                    regularIncomeValue > 0 || cppPaidValue > 0
-                      ? adjustedCPPAfterCap
-                      : calculation?.cppContribution ?? 0
-                  )}
+                  {formatCurrency(estimate.pensionContribution)}
                 </Text>
-                {cppPaidValue > 0 && totalCPPWithEmployment > maxCPPContribution && (
+                {isPensionCapReached && (
                   <Text style={[styles.cppContributionNote, isDark && styles.cppContributionNoteDark]}>
                     Annual cap reached
                   </Text>
                 )}
               </View>
             </View>
+
+            {/* Contribution parts: self-employed at both shares, employment at the employee share */}
+            <View style={styles.cppBreakdown}>
+              <View style={styles.cppInfoRow}>
+                <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]} />
+                <Text style={[styles.cppColumnHeader, isDark && styles.cppColumnHeaderDark]}>Self-employed</Text>
+                {hasEmployment && (
+                  <Text style={[styles.cppColumnHeader, isDark && styles.cppColumnHeaderDark]}>Employment</Text>
+                )}
+              </View>
+              {pensionRows.map(({ label, key }) => (
+                <View key={key} style={styles.cppInfoRow}>
+                  <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>{label}</Text>
+                  <Text style={[styles.cppColumnValue, isDark && styles.cppInfoValueDark]}>
+                    {formatCurrency(selfEmployedPension[key])}
+                  </Text>
+                  {hasEmployment && (
+                    <Text style={[styles.cppColumnValue, isDark && styles.cppInfoValueDark]}>
+                      {formatCurrency(employeePension[key])}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.cppBreakdown}>
+              <View style={styles.cppInfoRow}>
+                <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>
+                  Deducted from income (enhanced parts and employer share)
+                </Text>
+                <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                  {formatCurrency(estimate.pensionDeduction)}
+                </Text>
+              </View>
+              <View style={styles.cppInfoRow}>
+                <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>
+                  Claimed as a tax credit (employee base part)
+                </Text>
+                <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                  {formatCurrency(estimate.pensionCredit)}
+                </Text>
+              </View>
+            </View>
+
+            {hasEmployment && (
+              <View style={styles.cppBreakdown}>
+                <View style={styles.cppInfoRow}>
+                  <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>
+                    Due on employment earnings
+                  </Text>
+                  <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                    {formatCurrency(employeePension.total)}
+                  </Text>
+                </View>
+                <View style={styles.cppInfoRow}>
+                  <Text style={[styles.cppInfoLabel, isDark && styles.cppInfoLabelDark]}>
+                    Withheld on T4 slips
+                  </Text>
+                  <Text style={[styles.cppInfoValue, isDark && styles.cppInfoValueDark]}>
+                    {employment.employmentPensionPaid !== undefined
+                      ? formatCurrency(employment.employmentPensionPaid)
+                      : 'Not entered'}
+                  </Text>
+                </View>
+                {estimate.pensionOverpayment > 0 && (
+                  <Text style={[styles.cppContributionNote, isDark && styles.cppContributionNoteDark]}>
+                    {formatCurrency(estimate.pensionOverpayment)} withheld over what your employment earnings require is
+                    refunded with your return.
+                  </Text>
+                )}
+                {pensionShortfall > 0 && (
+                  <Text style={[styles.cppContributionNote, isDark && styles.cppContributionNoteDark]}>
+                    {formatCurrency(pensionShortfall)} less than expected was withheld. Check your T4 slips; if they
+                    are right, your employer needs to correct them.
+                  </Text>
+                )}
+              </View>
+            )}
           </View>
 
           {/* Total Tax Owed */}
@@ -487,7 +568,7 @@ export default function TaxCalculatorPage() {
                   Total Tax Owed
                 </Text>
                 <Text style={[styles.totalCardDescription, isDark && styles.totalCardDescriptionDark]}>
-                  Combined federal, provincial, and CPP for {taxYear}
+                  Combined federal, provincial, and {pensionPlan.code} for {taxYear}
                   {regularIncomeValue > 0 && (
                     <Text style={[styles.totalCardDescription, isDark && styles.totalCardDescriptionDark]}>
                       {'\n'}Including regular employment income: {formatCurrency(regularIncomeValue)}
@@ -501,9 +582,7 @@ export default function TaxCalculatorPage() {
                 <View style={styles.totalRow}>
                   <Text style={[styles.totalLabel, isDark && styles.totalLabelDark]}>Federal Tax</Text>
                   <Text style={[styles.totalValue, isDark && styles.totalValueDark]}>
-                    {formatCurrency(
-                      regularIncomeValue > 0 ? adjustedFederalTax : calculation?.federalTax ?? 0
-                    )}
+                    {formatCurrency(estimate.federalTax)}
                   </Text>
                 </View>
                 <View style={styles.totalRow}>
@@ -511,23 +590,15 @@ export default function TaxCalculatorPage() {
                     Provincial Tax
                   </Text>
                   <Text style={[styles.totalValue, isDark && styles.totalValueDark]}>
-                    {formatCurrency(
-                      regularIncomeValue > 0
-                        ? adjustedProvincialTax
-                        : calculation?.provincialTax ?? 0
-                    )}
+                    {formatCurrency(estimate.provincialTax)}
                   </Text>
                 </View>
                 <View style={styles.totalRow}>
                   <Text style={[styles.totalLabel, isDark && styles.totalLabelDark]}>
-                    CPP Contribution
+                    {pensionPlan.code} Contribution
                   </Text>
                   <Text style={[styles.totalValue, isDark && styles.totalValueDark]}>
-                    {formatCurrency(
-                      regularIncomeValue > 0 || cppPaidValue > 0
-                        ? adjustedCPPAfterCap
-                        : calculation?.cppContribution ?? 0
-                    )}
+                    {formatCurrency(estimate.pensionContribution)}
                   </Text>
                 </View>
                 {taxesPaidValue > 0 && (
@@ -546,10 +617,10 @@ export default function TaxCalculatorPage() {
                     </Text>
                   </View>
                 )}
-                {cppPaidValue > 0 && (
+                {estimate.pensionOverpayment > 0 && (
                   <View style={styles.totalRow}>
                     <Text style={[styles.totalLabel, styles.totalLabelGreen, isDark && styles.totalLabelGreenDark]}>
-                      Less: CPP Already Paid
+                      Less: {pensionPlan.code} Overpaid on T4s
                     </Text>
                     <Text
                       style={[
@@ -558,11 +629,27 @@ export default function TaxCalculatorPage() {
                         isDark && styles.totalValueGreenDark,
                       ]}
                     >
-                      -{formatCurrency(cppPaidValue)}
+                      -{formatCurrency(estimate.pensionOverpayment)}
                     </Text>
                   </View>
                 )}
-                {cppPaidValue > 0 && totalCPPWithEmployment > maxCPPContribution && (
+                {estimate.eiOverpayment > 0 && (
+                  <View style={styles.totalRow}>
+                    <Text style={[styles.totalLabel, styles.totalLabelGreen, isDark && styles.totalLabelGreenDark]}>
+                      Less: EI Overpaid on T4s
+                    </Text>
+                    <Text
+                      style={[
+                        styles.totalValue,
+                        styles.totalValueGreen,
+                        isDark && styles.totalValueGreenDark,
+                      ]}
+                    >
+                      -{formatCurrency(estimate.eiOverpayment)}
+                    </Text>
+                  </View>
+                )}
+                {isPensionCapReached && (
                   <View style={styles.totalRow}>
                     <Text
                       style={[
@@ -570,7 +657,7 @@ export default function TaxCalculatorPage() {
                         isDark && styles.totalNoteDark,
                       ]}
                     >
-                      Note: Annual CPP cap applied ({formatCurrency(maxCPPContribution)})
+                      Note: Annual {pensionPlan.code} cap applied ({formatCurrency(maxCPPContribution)})
                     </Text>
                   </View>
                 )}
@@ -580,11 +667,7 @@ export default function TaxCalculatorPage() {
                     Total Owed
                   </Text>
                   <Text style={[styles.totalOwedValue, isDark && styles.totalOwedValueDark]}>
-                    {formatCurrency(
-                      regularIncomeValue > 0 || taxesPaidValue > 0 || cppPaidValue > 0
-                        ? Math.max(0, adjustedTotalOwed)
-                        : calculation?.totalOwed ?? 0
-                    )}
+                    {formatCurrency(totalOwed)}
                   </Text>
                 </View>
               </View>
@@ -593,7 +676,7 @@ export default function TaxCalculatorPage() {
                   Effective Tax Rate
                 </Text>
                 <Text style={[styles.effectiveRateValue, isDark && styles.effectiveRateValueDark]}>
-                  {formatPercent(regularIncomeValue > 0 ? adjustedEffectiveRate : effectiveRate)}
+                  {formatPercent(estimate.effectiveTaxRate)}
                 </Text>
                 <View style={[styles.progressBar, isDark && styles.progressBarDark]}>
                   <View
@@ -604,14 +687,20 @@ export default function TaxCalculatorPage() {
                   />
                 </View>
                 <Text style={[styles.progressHelper, isDark && styles.progressHelperDark]}>
-                  Based on net taxable income of{' '}
-                  {formatCurrency(
-                    regularIncomeValue > 0 ? combinedNetIncome : calculation?.netIncome ?? 0
-                  )}
+                  Based on combined net income of{' '}
+                  {formatCurrency(estimate.totalIncome)}
                 </Text>
               </View>
             </View>
+            {/* Large balances mean quarterly instalments to the CRA */}
+            <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/instalments')}>
+              <Text style={styles.linkRowText}>Plan Instalments</Text>
+              <MaterialIcons name="chevron-right" size={20} color="#0a7ea4" />
+            </TouchableOpacity>
           </View>
+
+          {/* Hypothetical changes compared against the estimate above */}
+          <ScenarioSimulator key={taxYear} baseline={input} baselineEstimate={estimate} />
         </>
       )}
     </ScrollView>
@@ -667,6 +756,29 @@ const styles = StyleSheet.create({
   subtitleDark: {
     color: '#9BA1A6',
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  offlineBannerDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  offlineBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+  },
+  offlineBannerTextDark: {
+    color: '#9BA1A6',
+  },
   loader: {
     marginVertical: 32,
     alignItems: 'center',
@@ -830,66 +942,16 @@ const styles = StyleSheet.create({
   cardDescriptionDark: {
     color: '#9BA1A6',
   },
-  inputGroup: {
-    marginBottom: 20,
-  },
-  inputLabel: {
-    fontSize: 12,
-    color: '#666',
-    marginBottom: 8,
-    flexShrink: 1,
-    flexWrap: 'wrap',
-  },
-  inputLabelDark: {
-    color: '#9BA1A6',
-  },
-  currencyInput: {
+  linkRow: {
     flexDirection: 'row',
     alignItems: 'center',
-    borderWidth: 1.5,
-    borderColor: '#e5e7eb',
-    borderRadius: 10,
-    backgroundColor: '#fff',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 1 },
-    shadowOpacity: 0.05,
-    shadowRadius: 2,
-    elevation: 1,
+    justifyContent: 'flex-end',
+    marginTop: 12,
   },
-  currencyInputDark: {
-    backgroundColor: '#374151',
-    borderColor: '#4b5563',
-  },
-  currencySymbol: {
-    fontSize: 18,
-    fontWeight: '600',
-    paddingLeft: 16,
-    paddingRight: 8,
-    color: '#11181C',
-  },
-  currencySymbolDark: {
-    color: '#ECEDEE',
-  },
-  inputInCurrency: {
-    flex: 1,
-    fontSize: 18,
-    paddingVertical: 14,
-    paddingRight: 16,
-    fontFamily: 'monospace',
-    color: '#11181C',
-    backgroundColor: 'transparent',
-  },
-  inputInCurrencyDark: {
-    color: '#ECEDEE',
-  },
-  inputHelper: {
+  linkRowText: {
     fontSize: 14,
-    fontFamily: 'monospace',
-    color: '#666',
-    marginTop: 4,
-  },
-  inputHelperDark: {
-    color: '#9BA1A6',
+    fontWeight: '600',
+    color: '#0a7ea4',
   },
   taxCard: {
     backgroundColor: '#fff',
@@ -967,6 +1029,37 @@ const styles = StyleSheet.create({
   taxCardValueDark: {
     color: '#ECEDEE',
   },
+  taxCardNote: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+  },
+  taxCardNoteDark: {
+    color: '#9BA1A6',
+  },
+  bracketList: {
+    marginTop: 12,
+    gap: 4,
+  },
+  bracketRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  bracketLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  bracketLabelDark: {
+    color: '#9BA1A6',
+  },
+  bracketRate: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    color: '#11181C',
+  },
+  bracketRateDark: {
+    color: '#ECEDEE',
+  },
   ratesGrid: {
     flexDirection: 'row',
     gap: 16,
@@ -1039,6 +1132,31 @@ const styles = StyleSheet.create({
   cppInfoValueDark: {
     color: '#ECEDEE',
   },
+  cppBreakdown: {
+    marginTop: 16,
+    paddingTop: 12,
+    gap: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  cppColumnHeader: {
+    width: 100,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    textAlign: 'right',
+  },
+  cppColumnHeaderDark: {
+    color: '#9BA1A6',
+  },
+  cppColumnValue: {
+    width: 100,
+    fontSize: 14,
+    fontWeight: '500',
+    fontFamily: 'monospace',
+    color: '#11181C',
+    textAlign: 'right',
+  },
   cppContributionBox: {
     flex: 1,
     backgroundColor: '#f3f4f6',
@@ -0,0 +1,160 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { getRouteAccess, getUserTier } from '@/lib/route-guards';
+import { PRICING_TIERS } from '@/lib/types';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// Shown by the route guard in place of a screen the user's plan doesn't include
+export default function UpgradePage() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { route } = useLocalSearchParams<{ route?: string }>();
+
+  const access = getRouteAccess(route);
+  const feature = access.kind === 'tier' ? access.feature : 'This feature';
+  const description =
+    access.kind === 'tier' ? access.description : 'Upgrade to a paid plan to access this feature.';
+  const requiredPlans = access.kind === 'tier' ? access.tiers.map((tier) => PRICING_TIERS[tier].name) : [];
+  const currentPlan = PRICING_TIERS[getUserTier(user)].name;
+
+  return (
+    <ScrollView
+      style={[styles.container, isDark && styles.containerDark]}
+      contentContainerStyle={[styles.contentContainer, { paddingTop: insets.top + 8 }]}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)'))}
+          style={styles.backButton}
+        >
+          <MaterialIcons name="arrow-back" size={24} color={isDark ? '#ECEDEE' : '#11181C'} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={[styles.title, isDark && styles.titleDark]}>{feature}</Text>
+          <Text style={[styles.subtitle, isDark && styles.subtitleDark]}>
+            Not included in your {currentPlan} plan
+          </Text>
+        </View>
+      </View>
+
+      <View style={[styles.lockedContainer, isDark && styles.lockedContainerDark]}>
+        <View style={[styles.lockedIcon, isDark && styles.lockedIconDark]}>
+          <MaterialIcons name="lock" size={40} color={isDark ? '#9BA1A6' : '#666'} />
+        </View>
+        <Text style={[styles.lockedTitle, isDark && styles.lockedTitleDark]}>{feature}</Text>
+        <Text style={[styles.lockedDescription, isDark && styles.lockedDescriptionDark]}>{description}</Text>
+        {requiredPlans.length > 0 && (
+          <Text style={[styles.lockedDescription, isDark && styles.lockedDescriptionDark]}>
+            Available on the {requiredPlans.join(' and ')} plans.
+          </Text>
+        )}
+        <TouchableOpacity style={styles.upgradeButton} onPress={() => router.replace('/profile')}>
+          <MaterialIcons name="stars" size={20} color="#fff" />
+          <Text style={styles.upgradeButtonText}>View Pricing Plans</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  containerDark: {
+    backgroundColor: '#151718',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    marginBottom: 4,
+    color: '#11181C',
+  },
+  titleDark: {
+    color: '#ECEDEE',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  subtitleDark: {
+    color: '#9BA1A6',
+  },
+  lockedContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    minHeight: 400,
+  },
+  lockedContainerDark: {
+    backgroundColor: '#1f2937',
+  },
+  lockedIcon: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#f3f4f6',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  lockedIconDark: {
+    backgroundColor: '#374151',
+  },
+  lockedTitle: {
+    fontSize: 24,
+    fontWeight: '600',
+    marginBottom: 8,
+    color: '#11181C',
+  },
+  lockedTitleDark: {
+    color: '#ECEDEE',
+  },
+  lockedDescription: {
+    fontSize: 14,
+    textAlign: 'center',
+    color: '#666',
+    marginBottom: 24,
+    maxWidth: 400,
+  },
+  lockedDescriptionDark: {
+    color: '#9BA1A6',
+  },
+  upgradeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#0a7ea4',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  upgradeButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,11 +1,16 @@
+import { useAuth } from '@/contexts/AuthContext';
 import { useTaxYear } from '@/contexts/TaxYearContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { apiGet, apiRequest } from '@/lib/api';
+import { useFormDraft } from '@/hooks/useFormDraft';
+import { getDraft, NEW_DRAFT_ID } from '@/lib/drafts';
+import { routes } from '@/lib/endpoints';
+import { getSaveErrorMessage } from '@/lib/errors';
 import { formatCurrency } from '@/lib/format';
+import { replaceCollection } from '@/lib/store';
 import { type Vehicle } from '@/lib/types';
 import { MaterialIcons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
@@ -41,6 +46,8 @@ export default function VehiclesPage() {
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
   const { taxYear } = useTaxYear();
+  const { refetch: refreshUser, isSessionExpired } = useAuth();
+  const { draft: draftParam } = useLocalSearchParams<{ draft?: string }>();
 
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -72,6 +79,12 @@ export default function VehiclesPage() {
     purchasePrice: '',
   });
 
+  const { openWithDraft, discardDraft } = useFormDraft('vehicle', formData, {
+    isOpen: isModalOpen,
+    entityId: editingVehicle?.id,
+    label: formData.name || [formData.make, formData.model].filter(Boolean).join(' ') || 'Unnamed vehicle',
+  });
+
   useEffect(() => {
     fetchVehicles();
     fetchMileageLoggingStyle();
@@ -111,8 +124,10 @@ export default function VehiclesPage() {
 
   const fetchVehicles = async () => {
     try {
-      const data = await apiGet<Vehicle[]>('/api/vehicles');
+      const data = await routes.vehicles.list.call();
       setVehicles(data);
+      // Keep the shared store in step so Mileage, Expenses and the Dashboard see the change
+      replaceCollection('vehicles', data);
       // Fetch photos for all vehicles (this will also check for year-start photos)
       await fetchVehiclePhotos(data);
     } catch (error) {
@@ -127,7 +142,7 @@ export default function VehiclesPage() {
     const photosMap: Record<string, any[]> = {};
     for (const vehicle of vehiclesList) {
       try {
-        const photos = await apiGet<any[]>(`/api/vehicles/${vehicle.id}/odometer-photos`);
+        const photos = await routes.vehicles.odometerPhotos.call({ vehicleId: vehicle.id });
         photosMap[vehicle.id] = photos || [];
       } catch (error) {
         // Silently fail - vehicle may not have photos endpoint yet
@@ -177,8 +192,8 @@ export default function VehiclesPage() {
 
   const fetchMileageLoggingStyle = async () => {
     try {
-      const data = await apiGet<{ mileageLoggingStyle: string }>('/api/user/mileage-logging-style');
-      setMileageLoggingStyle(data.mileageLoggingStyle as 'trip_distance' | 'odometer');
+      const data = await routes.user.mileageLoggingStyle.call();
+      setMileageLoggingStyle(data.mileageLoggingStyle);
     } catch (error) {
       console.error('Error fetching mileage logging style:', error);
     }
@@ -234,30 +249,34 @@ export default function VehiclesPage() {
       };
 
       if (editingVehicle) {
-        await apiRequest('PATCH', `/api/vehicles/${editingVehicle.id}`, payload);
+        await routes.vehicles.update.call({ id: editingVehicle.id }, payload);
         Alert.alert('Success', 'Vehicle updated successfully');
       } else {
-        const response = await apiRequest('POST', '/api/vehicles', payload);
-        const newVehicle = await response.json();
+        const newVehicle = await routes.vehicles.create.call(undefined, payload);
         setNewlyCreatedVehicleId(newVehicle.id);
         setShowInitialPhotoPrompt(true);
         Alert.alert('Success', 'Vehicle added successfully');
       }
 
+      discardDraft();
       setIsModalOpen(false);
       resetFormData();
       await fetchVehicles();
     } catch (error) {
       console.error('Error saving vehicle:', error);
-      Alert.alert('Error', 'Failed to save vehicle. Please try again.');
+      Alert.alert('Error', getSaveErrorMessage(error, 'Failed to save vehicle. Please try again.'));
     } finally {
       setIsSubmitting(false);
     }
   };
 
   const handleEdit = (vehicle: Vehicle) => {
+    openWithDraft((draft) => startEdit(vehicle, draft?.values), vehicle.id);
+  };
+
+  const startEdit = (vehicle: Vehicle, draftValues?: VehicleFormData) => {
     setEditingVehicle(vehicle);
-    setFormData({
+    setFormData(draftValues ?? {
       name: vehicle.name || '',
       make: vehicle.make || '',
       model: vehicle.model || '',
@@ -273,6 +292,30 @@ export default function VehiclesPage() {
     setIsModalOpen(true);
   };
 
+  const openVehicleForm = () => {
+    openWithDraft((draft) => {
+      resetFormData();
+      if (draft) setFormData(draft.values);
+      setIsModalOpen(true);
+    });
+  };
+
+  // "Resume" on a Dashboard draft opens this screen with ?draft=<vehicle id or "new">
+  useEffect(() => {
+    if (!draftParam || isLoading) return;
+    const draft = getDraft<VehicleFormData>('vehicle', draftParam);
+    if (draftParam === NEW_DRAFT_ID) {
+      resetFormData();
+      if (draft) setFormData(draft.values);
+      setIsModalOpen(true);
+    } else {
+      const vehicle = vehicles.find((v) => v.id === draftParam);
+      if (vehicle) startEdit(vehicle, draft?.values);
+    }
+    router.setParams({ draft: undefined });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftParam, isLoading]);
+
   const handleDelete = async (id: string) => {
     Alert.alert(
       'Delete vehicle?',
@@ -285,7 +328,7 @@ export default function VehiclesPage() {
           onPress: async () => {
             try {
               setDeleteId(id);
-              await apiRequest('DELETE', `/api/vehicles/${id}`);
+              await routes.vehicles.remove.call({ id });
               Alert.alert('Success', 'Vehicle deleted successfully');
               await fetchVehicles();
             } catch (error) {
@@ -302,8 +345,9 @@ export default function VehiclesPage() {
 
   const updateMileageLoggingStyle = async (style: 'trip_distance' | 'odometer') => {
     try {
-      await apiRequest('PATCH', '/api/user/mileage-logging-style', { mileageLoggingStyle: style });
+      await routes.user.updateMileageLoggingStyle.call(undefined, { mileageLoggingStyle: style });
       setMileageLoggingStyle(style);
+      refreshUser();
       setShowMileageStylePicker(false);
       Alert.alert('Success', 'Mileage logging style updated');
     } catch (error) {
@@ -471,10 +515,7 @@ export default function VehiclesPage() {
         </View>
         <TouchableOpacity
           style={styles.fabButton}
-          onPress={() => {
-            resetFormData();
-            setIsModalOpen(true);
-          }}
+          onPress={openVehicleForm}
           activeOpacity={0.8}
         >
           <MaterialIcons name="add" size={28} color="#fff" />
@@ -824,9 +865,9 @@ export default function VehiclesPage() {
         </View>
       </Modal>
 
-      {/* Add/Edit Vehicle Modal */}
+      {/* Add/Edit Vehicle Modal (hidden, not closed, while signing back in so the form survives) */}
       <Modal
-        visible={isModalOpen}
+        visible={isModalOpen && !isSessionExpired}
         animationType="slide"
         presentationStyle="pageSheet"
         onRequestClose={() => setIsModalOpen(false)}
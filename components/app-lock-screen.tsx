@@ -0,0 +1,225 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { PinPad } from '@/components/pin-pad';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTaxYear } from '@/contexts/TaxYearContext';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  authenticateWithBiometrics,
+  clearAppLock,
+  dismissPinReset,
+  getBiometricLabel,
+  getRemainingPinAttempts,
+  PIN_LENGTH,
+  verifyPin,
+} from '@/lib/app-lock';
+import { getAuthErrorMessage } from '@/lib/auth';
+import { countUnsyncedChanges } from '@/lib/session';
+
+function LockScreen() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { settings, isObscured, unlock } = useAppLock();
+  const { signOut } = useAuth();
+  const { resetTaxYear } = useTaxYear();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [attemptsLeft, setAttemptsLeft] = useState<number | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [biometricLabel, setBiometricLabel] = useState<string | null>(null);
+
+  const tryBiometrics = async () => {
+    if (await authenticateWithBiometrics()) unlock();
+  };
+
+  useEffect(() => {
+    getRemainingPinAttempts().then(setAttemptsLeft);
+    if (settings.useBiometrics) getBiometricLabel().then(setBiometricLabel);
+  }, [settings.useBiometrics]);
+
+  // Offer biometrics as soon as the lock screen is actually visible
+  useEffect(() => {
+    if (biometricLabel && !isObscured) tryBiometrics();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [biometricLabel, isObscured]);
+
+  const handleChange = async (value: string) => {
+    setPin(value);
+    setError(null);
+    if (value.length < PIN_LENGTH) return;
+
+    setIsChecking(true);
+    const result = await verifyPin(value);
+    setIsChecking(false);
+    setPin('');
+    if (result.ok) {
+      unlock();
+      return;
+    }
+    setAttemptsLeft(result.attemptsLeft);
+    setError(`Wrong PIN. ${result.attemptsLeft} attempt${result.attemptsLeft === 1 ? '' : 's'} left.`);
+  };
+
+  // Forgetting the PIN means proving who you are again: sign out, sign back in, choose a new PIN
+  const resetPin = async () => {
+    try {
+      await signOut();
+      await clearAppLock({ pinResetPending: true });
+      await resetTaxYear();
+      unlock();
+      router.replace('/login');
+    } catch (error) {
+      console.error('Error resetting PIN:', error);
+      Alert.alert('Error', getAuthErrorMessage(error, 'Failed to sign out. Please try again.'));
+    }
+  };
+
+  const handleForgotPin = async () => {
+    const unsyncedCount = await countUnsyncedChanges();
+    Alert.alert(
+      'Reset PIN',
+      'You will be signed out and can choose a new PIN after signing back in.' +
+        (unsyncedCount > 0
+          ? `\n\n${unsyncedCount} change${unsyncedCount === 1 ? '' : 's'} on this device ${unsyncedCount === 1 ? "hasn't" : "haven't"} been synced yet and will be lost.`
+          : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out', style: 'destructive', onPress: resetPin },
+      ]
+    );
+  };
+
+  const isLockedOut = attemptsLeft === 0;
+
+  return (
+    <View style={[styles.lockScreen, isDark && styles.lockScreenDark, { paddingTop: insets.top + 48 }]}>
+      <MaterialIcons name="lock" size={40} color="#0a7ea4" />
+      <Text style={[styles.title, isDark && styles.titleDark]}>Crew Books is locked</Text>
+      <Text style={[styles.message, isDark && styles.messageDark, (error || isLockedOut) && styles.messageError]}>
+        {isLockedOut ? 'Too many wrong PINs. Sign in again to reset your PIN.' : error || 'Enter your PIN'}
+      </Text>
+
+      {isLockedOut ? (
+        <TouchableOpacity style={styles.resetButton} onPress={handleForgotPin}>
+          <Text style={styles.resetButtonText}>Reset PIN</Text>
+        </TouchableOpacity>
+      ) : (
+        <>
+          <PinPad
+            value={pin}
+            length={PIN_LENGTH}
+            onChange={handleChange}
+            disabled={isChecking}
+            extraKey={
+              biometricLabel ? (
+                <TouchableOpacity onPress={tryBiometrics} accessibilityLabel={`Unlock with ${biometricLabel}`}>
+                  <MaterialIcons
+                    name={biometricLabel === 'Face ID' ? 'face' : 'fingerprint'}
+                    size={32}
+                    color="#0a7ea4"
+                  />
+                </TouchableOpacity>
+              ) : null
+            }
+          />
+          {isChecking && <ActivityIndicator style={styles.spinner} color="#0a7ea4" />}
+          <TouchableOpacity style={styles.forgotButton} onPress={handleForgotPin}>
+            <Text style={styles.forgotText}>Forgot PIN?</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+/**
+ * Sits in front of the whole navigation stack: the PIN lock screen while the
+ * app is locked, otherwise a blur whenever the app leaves the foreground so the
+ * app switcher's snapshot doesn't show any figures.
+ */
+export function AppLockScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const { isAuthenticated } = useAuth();
+  const { settings, isReady, isLocked, isObscured } = useAppLock();
+
+  // Back in after a forgotten PIN: go straight to choosing a new one
+  useEffect(() => {
+    if (isAuthenticated && settings.pinResetPending) {
+      dismissPinReset();
+      router.push('/app-lock');
+    }
+  }, [isAuthenticated, settings.pinResetPending, router]);
+
+  if (isLocked) {
+    return <LockScreen />;
+  }
+  if (!isReady || isObscured) {
+    return <BlurView intensity={100} tint={colorScheme === 'dark' ? 'dark' : 'light'} style={StyleSheet.absoluteFill} />;
+  }
+  return null;
+}
+
+const styles = StyleSheet.create({
+  lockScreen: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: 24,
+  },
+  lockScreenDark: {
+    backgroundColor: '#151718',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#11181C',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  titleDark: {
+    color: '#ECEDEE',
+  },
+  message: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  messageDark: {
+    color: '#9BA1A6',
+  },
+  messageError: {
+    color: '#ef4444',
+  },
+  spinner: {
+    marginTop: 16,
+  },
+  forgotButton: {
+    marginTop: 24,
+    padding: 8,
+  },
+  forgotText: {
+    fontSize: 14,
+    color: '#0a7ea4',
+  },
+  resetButton: {
+    backgroundColor: '#0a7ea4',
+    borderRadius: 10,
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+  },
+  resetButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
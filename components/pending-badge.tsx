@@ -0,0 +1,112 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { getPendingLabel, PendingInfo, removeOutboxEntry, retryOutboxEntry } from '@/lib/outbox';
+
+// Shows the sync state of a queued offline change, with retry/discard for rejected ones
+export function PendingBadge({ pending }: { pending: PendingInfo }) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const isRejected = pending.status !== 'pending';
+
+  const handleDiscard = () => {
+    Alert.alert(
+      'Discard change?',
+      'This offline change will be removed and never sent to the server.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => removeOutboxEntry(pending.entryId) },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.badge, isRejected ? styles.badgeRejected : styles.badgePending]}>
+        <MaterialIcons
+          name={isRejected ? 'error-outline' : 'cloud-upload'}
+          size={14}
+          color={isRejected ? '#b91c1c' : '#b45309'}
+        />
+        <Text style={[styles.badgeText, isRejected ? styles.badgeTextRejected : styles.badgeTextPending]}>
+          {getPendingLabel(pending)}
+        </Text>
+      </View>
+      {isRejected && (
+        <>
+          {pending.error && (
+            <Text style={[styles.errorText, isDark && styles.errorTextDark]} numberOfLines={2}>
+              {pending.error}
+            </Text>
+          )}
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => retryOutboxEntry(pending.entryId)} style={styles.actionButton}>
+              <Text style={styles.actionText}>Retry</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleDiscard} style={styles.actionButton}>
+              <Text style={[styles.actionText, styles.actionTextDestructive]}>Discard</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+    gap: 4,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+    borderWidth: 1,
+  },
+  badgePending: {
+    backgroundColor: '#fef3c7',
+    borderColor: '#fcd34d',
+  },
+  badgeRejected: {
+    backgroundColor: '#fee2e2',
+    borderColor: '#fca5a5',
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  badgeTextPending: {
+    color: '#b45309',
+  },
+  badgeTextRejected: {
+    color: '#b91c1c',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  errorTextDark: {
+    color: '#9BA1A6',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  actionButton: {
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  actionTextDestructive: {
+    color: '#ef4444',
+  },
+});
@@ -0,0 +1,124 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import type { ReactNode } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { useColorScheme } from '@/hooks/use-color-scheme';
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+/**
+ * Dots for the digits entered so far above a numeric keypad. `extraKey` fills
+ * the empty slot left of 0, e.g. with a biometric unlock button.
+ */
+export function PinPad({
+  value,
+  length,
+  onChange,
+  disabled,
+  extraKey,
+}: {
+  value: string;
+  length: number;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  extraKey?: ReactNode;
+}) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  const press = (digit: string) => {
+    if (value.length < length) onChange(value + digit);
+  };
+
+  const renderKey = (digit: string) => (
+    <TouchableOpacity
+      key={digit}
+      style={[styles.key, styles.digitKey, isDark && styles.digitKeyDark]}
+      onPress={() => press(digit)}
+      disabled={disabled}
+      accessibilityLabel={digit}
+    >
+      <Text style={[styles.keyText, isDark && styles.keyTextDark]}>{digit}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.dots}>
+        {Array.from({ length }, (_, index) => (
+          <View
+            key={index}
+            style={[styles.dot, isDark && styles.dotDark, index < value.length && styles.dotFilled]}
+          />
+        ))}
+      </View>
+
+      <View style={styles.keypad}>
+        {KEYS.map(renderKey)}
+        <View style={styles.key}>{extraKey}</View>
+        {renderKey('0')}
+        <TouchableOpacity
+          style={styles.key}
+          onPress={() => onChange(value.slice(0, -1))}
+          disabled={disabled || value.length === 0}
+          accessibilityLabel="Delete"
+        >
+          <MaterialIcons name="backspace" size={24} color={isDark ? '#ECEDEE' : '#11181C'} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 16,
+    marginBottom: 32,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1.5,
+    borderColor: '#666',
+  },
+  dotDark: {
+    borderColor: '#9BA1A6',
+  },
+  dotFilled: {
+    backgroundColor: '#0a7ea4',
+    borderColor: '#0a7ea4',
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 264,
+    gap: 16,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  digitKey: {
+    backgroundColor: '#f3f4f6',
+  },
+  digitKeyDark: {
+    backgroundColor: '#1f2937',
+  },
+  keyText: {
+    fontSize: 28,
+    fontWeight: '500',
+    color: '#11181C',
+  },
+  keyTextDark: {
+    color: '#ECEDEE',
+  },
+});
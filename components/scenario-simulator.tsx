@@ -0,0 +1,659 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { useMemo, useState } from 'react';
+import { Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useScenarios } from '@/hooks/useScenarios';
+import { CCA_CLASSES, type CcaClassCode, firstYearCca } from '@/lib/cca';
+import { formatCurrency, formatPercent } from '@/lib/format';
+import {
+  applyScenario,
+  createScenarioId,
+  deleteScenario,
+  getScenarioCca,
+  saveScenario,
+  type Scenario,
+  type ScenarioAdjustments,
+  type ScenarioAsset,
+} from '@/lib/scenarios';
+import { estimateTax, type TaxEstimate, type TaxEstimateInput } from '@/lib/tax-engine';
+
+type AmountField = 'income' | 'expenses' | 'rrspContribution';
+
+const AMOUNT_FIELDS: { key: AmountField; label: string; placeholder: string }[] = [
+  { key: 'income', label: 'Additional Income', placeholder: 'e.g. another contract' },
+  { key: 'expenses', label: 'Additional Expenses', placeholder: 'Deductible business expenses' },
+  { key: 'rrspContribution', label: 'RRSP Contribution', placeholder: 'Up to your contribution room' },
+];
+
+const emptyAmounts: Record<AmountField, string> = { income: '', expenses: '', rrspContribution: '' };
+const emptyAsset = { description: '', ccaClass: '8' as CcaClassCode, cost: '' };
+
+function toAmount(value: string) {
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) ? Math.max(0, amount) : 0;
+}
+
+function toField(amount: number) {
+  return amount ? amount.toString() : '';
+}
+
+/**
+ * What-if mode for the Tax Estimator: hypothetical income, expenses, RRSP
+ * contributions and asset purchases compared side by side with the year's
+ * real estimate. Nothing entered here is recorded; named scenarios are
+ * saved on the device for the tax year. Mount with `key={taxYear}` so
+ * switching years starts a fresh scenario.
+ */
+export function ScenarioSimulator({
+  baseline,
+  baselineEstimate,
+}: {
+  baseline: TaxEstimateInput;
+  baselineEstimate: TaxEstimate;
+}) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { taxYear } = baseline;
+  const savedScenarios = useScenarios(taxYear);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [scenarioId, setScenarioId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [amounts, setAmounts] = useState(emptyAmounts);
+  const [assets, setAssets] = useState<ScenarioAsset[]>([]);
+  const [assetForm, setAssetForm] = useState(emptyAsset);
+
+  const adjustments = useMemo(
+    (): ScenarioAdjustments => ({
+      income: toAmount(amounts.income),
+      expenses: toAmount(amounts.expenses),
+      rrspContribution: toAmount(amounts.rrspContribution),
+      assets,
+    }),
+    [amounts, assets]
+  );
+  const scenarioEstimate = useMemo(() => estimateTax(applyScenario(baseline, adjustments)), [baseline, adjustments]);
+  const cca = getScenarioCca(baseline, adjustments);
+  const pensionCode = baselineEstimate.pensionPlan.code;
+
+  const comparisonRows: { label: string; baseline: number; scenario: number; isRate?: boolean }[] = [
+    { label: 'Taxable Income', baseline: baselineEstimate.taxableIncome, scenario: scenarioEstimate.taxableIncome },
+    { label: 'Income Tax', baseline: baselineEstimate.totalIncomeTax, scenario: scenarioEstimate.totalIncomeTax },
+    {
+      label: `${pensionCode} Contribution`,
+      baseline: baselineEstimate.pensionContribution,
+      scenario: scenarioEstimate.pensionContribution,
+    },
+    {
+      label: 'Total Owed',
+      baseline: Math.max(0, baselineEstimate.totalOwed),
+      scenario: Math.max(0, scenarioEstimate.totalOwed),
+    },
+    {
+      label: 'Marginal Rate',
+      baseline: baselineEstimate.marginalTaxRate,
+      scenario: scenarioEstimate.marginalTaxRate,
+      isRate: true,
+    },
+  ];
+
+  const startNewScenario = () => {
+    setScenarioId(null);
+    setName('');
+    setAmounts(emptyAmounts);
+    setAssets([]);
+    setAssetForm(emptyAsset);
+  };
+
+  const openScenario = (scenario: Scenario) => {
+    setScenarioId(scenario.id);
+    setName(scenario.name);
+    setAmounts({
+      income: toField(scenario.income),
+      expenses: toField(scenario.expenses),
+      rrspContribution: toField(scenario.rrspContribution),
+    });
+    setAssets(scenario.assets);
+    setAssetForm(emptyAsset);
+    setIsOpen(true);
+  };
+
+  const handleAddAsset = () => {
+    const cost = toAmount(assetForm.cost);
+    if (cost <= 0) {
+      Alert.alert('Error', 'Please enter what the asset costs');
+      return;
+    }
+    setAssets([
+      ...assets,
+      {
+        id: createScenarioId('asset'),
+        description: assetForm.description.trim(),
+        ccaClass: assetForm.ccaClass,
+        cost,
+      },
+    ]);
+    setAssetForm(emptyAsset);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please name the scenario, e.g. "New camera kit"');
+      return;
+    }
+    const saved = await saveScenario({ id: scenarioId ?? createScenarioId(), taxYear, name: name.trim(), ...adjustments });
+    setScenarioId(saved.id);
+  };
+
+  const handleDelete = (scenario: Scenario) => {
+    Alert.alert('Delete scenario?', `"${scenario.name}" will be removed from this device.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteScenario(scenario.id);
+          if (scenario.id === scenarioId) setScenarioId(null);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={[styles.card, isDark && styles.cardDark]}>
+      <View style={styles.cardHeader}>
+        <MaterialIcons name="science" size={24} color="#0a7ea4" />
+        <View style={styles.cardHeaderText}>
+          <Text style={[styles.cardTitle, isDark && styles.cardTitleDark]}>What-If Scenarios</Text>
+          <Text style={[styles.cardDescription, isDark && styles.cardDescriptionDark]}>
+            See the tax impact of a purchase, another contract or an RRSP contribution before you commit.
+            Nothing here is added to your income or expenses.
+          </Text>
+        </View>
+      </View>
+
+      {savedScenarios.length > 0 && (
+        <View style={styles.savedList}>
+          {savedScenarios.map((scenario) => (
+            <View
+              key={scenario.id}
+              style={[
+                styles.savedRow,
+                isDark && styles.savedRowDark,
+                scenario.id === scenarioId && styles.savedRowSelected,
+              ]}
+            >
+              <TouchableOpacity style={styles.savedRowButton} onPress={() => openScenario(scenario)}>
+                <MaterialIcons name="bookmark" size={18} color="#0a7ea4" />
+                <Text style={[styles.savedRowText, isDark && styles.savedRowTextDark]} numberOfLines={1}>
+                  {scenario.name}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDelete(scenario)} hitSlop={8} accessibilityLabel="Delete scenario">
+                <MaterialIcons name="close" size={18} color={isDark ? '#9BA1A6' : '#666'} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {!isOpen ? (
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => {
+            startNewScenario();
+            setIsOpen(true);
+          }}
+        >
+          <Text style={styles.linkRowText}>Try a Scenario</Text>
+          <MaterialIcons name="chevron-right" size={20} color="#0a7ea4" />
+        </TouchableOpacity>
+      ) : (
+        <>
+          <View style={styles.formGroup}>
+            <Text style={[styles.label, isDark && styles.labelDark]}>Scenario Name</Text>
+            <TextInput
+              style={[styles.input, isDark && styles.inputDark]}
+              placeholder="e.g. New camera kit"
+              placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+              value={name}
+              onChangeText={setName}
+            />
+          </View>
+
+          {AMOUNT_FIELDS.map(({ key, label, placeholder }) => (
+            <View key={key} style={styles.formGroup}>
+              <Text style={[styles.label, isDark && styles.labelDark]}>{label}</Text>
+              <TextInput
+                style={[styles.input, isDark && styles.inputDark]}
+                placeholder={placeholder}
+                placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+                value={amounts[key]}
+                onChangeText={(value) => setAmounts({ ...amounts, [key]: value })}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          ))}
+
+          {/* Equipment and vehicles are deducted through CCA rather than as expenses */}
+          <View style={styles.formGroup}>
+            <Text style={[styles.label, isDark && styles.labelDark]}>Asset Purchases (CCA)</Text>
+            {assets.map((asset) => (
+              <View key={asset.id} style={styles.assetRow}>
+                <View style={styles.assetText}>
+                  <Text style={[styles.assetTitle, isDark && styles.assetTitleDark]} numberOfLines={1}>
+                    {asset.description || `Class ${asset.ccaClass} asset`} · {formatCurrency(asset.cost)}
+                  </Text>
+                  <Text style={[styles.assetMeta, isDark && styles.assetMetaDark]}>
+                    Class {asset.ccaClass} · {formatCurrency(firstYearCca(asset.cost, asset.ccaClass, taxYear))} CCA
+                    in {taxYear}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => setAssets(assets.filter((current) => current.id !== asset.id))}
+                  hitSlop={8}
+                  accessibilityLabel="Remove asset"
+                >
+                  <MaterialIcons name="close" size={18} color={isDark ? '#9BA1A6' : '#666'} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <View style={styles.classOptions}>
+              {CCA_CLASSES.map((ccaClass) => {
+                const isSelected = ccaClass.code === assetForm.ccaClass;
+                return (
+                  <TouchableOpacity
+                    key={ccaClass.code}
+                    style={[styles.classOption, isDark && styles.classOptionDark, isSelected && styles.classOptionSelected]}
+                    onPress={() => setAssetForm({ ...assetForm, ccaClass: ccaClass.code })}
+                  >
+                    <Text
+                      style={[
+                        styles.classOptionText,
+                        isDark && styles.classOptionTextDark,
+                        isSelected && styles.classOptionTextSelected,
+                      ]}
+                    >
+                      Class {ccaClass.code}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={[styles.helperText, isDark && styles.helperTextDark]}>
+              {CCA_CLASSES.find((ccaClass) => ccaClass.code === assetForm.ccaClass)?.label}
+            </Text>
+            <View style={styles.assetInputs}>
+              <TextInput
+                style={[styles.input, styles.assetDescriptionInput, isDark && styles.inputDark]}
+                placeholder="Description"
+                placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+                value={assetForm.description}
+                onChangeText={(description) => setAssetForm({ ...assetForm, description })}
+              />
+              <TextInput
+                style={[styles.input, styles.assetCostInput, isDark && styles.inputDark]}
+                placeholder="Cost"
+                placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+                value={assetForm.cost}
+                onChangeText={(cost) => setAssetForm({ ...assetForm, cost })}
+                keyboardType="decimal-pad"
+              />
+            </View>
+            <TouchableOpacity style={styles.linkRow} onPress={handleAddAsset}>
+              <MaterialIcons name="add" size={20} color="#0a7ea4" />
+              <Text style={styles.linkRowText}>Add Asset</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Side-by-side comparison with the real figures */}
+          <View style={[styles.comparison, isDark && styles.comparisonDark]}>
+            <View style={styles.comparisonRow}>
+              <Text style={[styles.comparisonLabel, isDark && styles.comparisonLabelDark]} />
+              <Text style={[styles.comparisonHeading, isDark && styles.comparisonHeadingDark]}>Baseline</Text>
+              <Text style={[styles.comparisonHeading, isDark && styles.comparisonHeadingDark]}>Scenario</Text>
+              <Text style={[styles.comparisonHeading, isDark && styles.comparisonHeadingDark]}>Change</Text>
+            </View>
+            {comparisonRows.map((row) => {
+              const change = row.scenario - row.baseline;
+              const format = row.isRate ? formatPercent : formatCurrency;
+              return (
+                <View key={row.label} style={styles.comparisonRow}>
+                  <Text style={[styles.comparisonLabel, isDark && styles.comparisonLabelDark]}>{row.label}</Text>
+                  <Text style={[styles.comparisonValue, isDark && styles.comparisonValueDark]}>
+                    {format(row.baseline)}
+                  </Text>
+                  <Text style={[styles.comparisonValue, isDark && styles.comparisonValueDark]}>
+                    {format(row.scenario)}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.comparisonValue,
+                      isDark && styles.comparisonValueDark,
+                      change > 0.005 && styles.comparisonValueUp,
+                      change < -0.005 && styles.comparisonValueDown,
+                    ]}
+                  >
+                    {change > 0.005 ? '+' : ''}
+                    {format(Math.abs(change) < 0.005 ? 0 : change)}
+                  </Text>
+                </View>
+              );
+            })}
+            {cca > 0 && (
+              <Text style={[styles.helperText, isDark && styles.helperTextDark]}>
+                Includes {formatCurrency(cca)} of first-year CCA. The rest of each asset&apos;s cost is claimed in
+                later years.
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.cancelButton, isDark && styles.cancelButtonDark]}
+              onPress={() => setIsOpen(false)}
+            >
+              <Text style={[styles.cancelButtonText, isDark && styles.cancelButtonTextDark]}>Close</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.submitButton} onPress={handleSave}>
+              <Text style={styles.submitButtonText}>{scenarioId ? 'Update Scenario' : 'Save Scenario'}</Text>
+            </TouchableOpacity>
+          </View>
+          {scenarioId && (
+            <TouchableOpacity style={styles.linkRow} onPress={startNewScenario}>
+              <Text style={styles.linkRowText}>Start a New Scenario</Text>
+              <MaterialIcons name="chevron-right" size={20} color="#0a7ea4" />
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+    marginBottom: 16,
+  },
+  cardDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: 16,
+  },
+  cardHeaderText: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+    color: '#11181C',
+  },
+  cardTitleDark: {
+    color: '#ECEDEE',
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: '#666',
+  },
+  cardDescriptionDark: {
+    color: '#9BA1A6',
+  },
+  savedList: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  savedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+  },
+  savedRowDark: {
+    borderColor: '#4b5563',
+  },
+  savedRowSelected: {
+    borderColor: '#0a7ea4',
+  },
+  savedRowButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  savedRowText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#11181C',
+  },
+  savedRowTextDark: {
+    color: '#ECEDEE',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  linkRowText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 10,
+    color: '#11181C',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  labelDark: {
+    color: '#ECEDEE',
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#11181C',
+    backgroundColor: '#fff',
+  },
+  inputDark: {
+    backgroundColor: '#374151',
+    borderColor: '#4b5563',
+    color: '#ECEDEE',
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+  },
+  helperTextDark: {
+    color: '#9BA1A6',
+  },
+  assetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  assetText: {
+    flex: 1,
+  },
+  assetTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#11181C',
+  },
+  assetTitleDark: {
+    color: '#ECEDEE',
+  },
+  assetMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  assetMetaDark: {
+    color: '#9BA1A6',
+  },
+  classOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  classOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  classOptionDark: {
+    backgroundColor: '#374151',
+    borderColor: '#4b5563',
+  },
+  classOptionSelected: {
+    backgroundColor: '#0a7ea4',
+    borderColor: '#0a7ea4',
+  },
+  classOptionText: {
+    fontSize: 14,
+    color: '#11181C',
+  },
+  classOptionTextDark: {
+    color: '#ECEDEE',
+  },
+  classOptionTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  assetInputs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  assetDescriptionInput: {
+    flex: 2,
+  },
+  assetCostInput: {
+    flex: 1,
+  },
+  comparison: {
+    paddingTop: 12,
+    gap: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  comparisonDark: {
+    borderTopColor: '#374151',
+  },
+  comparisonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  comparisonLabel: {
+    flex: 1.4,
+    fontSize: 14,
+    color: '#666',
+  },
+  comparisonLabelDark: {
+    color: '#9BA1A6',
+  },
+  comparisonHeading: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    textAlign: 'right',
+    textTransform: 'uppercase',
+  },
+  comparisonHeadingDark: {
+    color: '#9BA1A6',
+  },
+  comparisonValue: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+    fontFamily: 'monospace',
+    color: '#11181C',
+    textAlign: 'right',
+  },
+  comparisonValueDark: {
+    color: '#ECEDEE',
+  },
+  comparisonValueUp: {
+    color: '#ef4444',
+  },
+  comparisonValueDown: {
+    color: '#10b981',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  cancelButtonDark: {
+    backgroundColor: '#374151',
+    borderColor: '#4b5563',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  cancelButtonTextDark: {
+    color: '#ECEDEE',
+  },
+  submitButton: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 10,
+    backgroundColor: '#0a7ea4',
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
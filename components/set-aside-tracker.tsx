@@ -0,0 +1,520 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useCollection } from '@/hooks/useCollection';
+import { routes } from '@/lib/endpoints';
+import { getSaveErrorMessage } from '@/lib/errors';
+import { formatCurrency, formatDate, getTodayLocalDateString } from '@/lib/format';
+import { removeEntity, upsertEntities } from '@/lib/store';
+import { type TaxSavingsTransfer } from '@/lib/types';
+
+const RECENT_TRANSFERS = 5;
+
+/**
+ * "Should have set aside / actually set aside" for a tax year, with the
+ * transfers to the user's tax savings account and a form to record one.
+ */
+export function SetAsideTracker({
+  taxYear,
+  shouldHaveSetAside,
+  isLoading,
+}: {
+  taxYear: number;
+  shouldHaveSetAside: number;
+  isLoading?: boolean;
+}) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { isSessionExpired } = useAuth();
+
+  const { items: transferList } = useCollection<TaxSavingsTransfer>('taxSavingsTransfers', { taxYear });
+  const transfers = useMemo(
+    () =>
+      transferList
+        .filter((transfer) => Number(transfer.taxYear) === taxYear)
+        .sort((a, b) => b.date.localeCompare(a.date)),
+    [transferList, taxYear]
+  );
+  const setAside = transfers.reduce((sum, transfer) => sum + (parseFloat(transfer.amount.toString()) || 0), 0);
+  const shortfall = shouldHaveSetAside - setAside;
+  const progress = shouldHaveSetAside > 0 ? Math.min(setAside / shouldHaveSetAside, 1) : 1;
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+
+  const openTransferForm = () => {
+    setAmount(shortfall > 0 ? shortfall.toFixed(2) : '');
+    setDate(getTodayLocalDateString());
+    setNote('');
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!amount || !date) {
+      Alert.alert('Error', 'Please enter the amount and the date of the transfer');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const transfer = await routes.taxSavingsTransfers.create.call(undefined, {
+        taxYear,
+        date,
+        amount: parseFloat(amount),
+        note: note.trim() || undefined,
+      });
+      upsertEntities('taxSavingsTransfers', transfer);
+      setIsModalOpen(false);
+    } catch (error) {
+      console.error('Error recording tax savings transfer:', error);
+      Alert.alert('Error', getSaveErrorMessage(error, 'Failed to record transfer. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = (transfer: TaxSavingsTransfer) => {
+    Alert.alert('Delete transfer?', `This will remove the ${formatCurrency(transfer.amount)} transfer.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setDeleteId(transfer.id);
+            await routes.taxSavingsTransfers.remove.call({ id: transfer.id });
+            removeEntity('taxSavingsTransfers', transfer.id);
+          } catch (error) {
+            console.error('Error deleting tax savings transfer:', error);
+            Alert.alert('Error', 'Failed to delete transfer. Please try again.');
+          } finally {
+            setDeleteId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={[styles.container, isDark && styles.containerDark]}>
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          <Text style={[styles.title, isDark && styles.titleDark]}>Tax Set-Aside</Text>
+          <Text style={[styles.description, isDark && styles.descriptionDark]}>
+            Savings for tax, GST/HST and CPP on {taxYear} income
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.addButton} onPress={openTransferForm}>
+          <MaterialIcons name="add" size={18} color="#fff" />
+          <Text style={styles.addButtonText}>Transfer</Text>
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator size="large" color={isDark ? '#9BA1A6' : '#666'} style={styles.loader} />
+      ) : (
+        <>
+          <View style={styles.totals}>
+            <View style={styles.total}>
+              <Text style={[styles.totalLabel, isDark && styles.totalLabelDark]}>Should have set aside</Text>
+              <Text style={[styles.totalValue, isDark && styles.totalValueDark]}>
+                {formatCurrency(shouldHaveSetAside)}
+              </Text>
+            </View>
+            <View style={styles.total}>
+              <Text style={[styles.totalLabel, isDark && styles.totalLabelDark]}>Actually set aside</Text>
+              <Text style={[styles.totalValue, isDark && styles.totalValueDark]}>{formatCurrency(setAside)}</Text>
+            </View>
+          </View>
+          <View style={[styles.progressBar, isDark && styles.progressBarDark]}>
+            <View
+              style={[
+                styles.progressFill,
+                shortfall > 0 && styles.progressFillShort,
+                { width: `${progress * 100}%` },
+              ]}
+            />
+          </View>
+          <Text style={[styles.status, shortfall > 0 ? styles.statusShort : styles.statusOnTrack]}>
+            {shortfall > 0 ? `${formatCurrency(shortfall)} behind` : 'On track'}
+          </Text>
+
+          {transfers.slice(0, RECENT_TRANSFERS).map((transfer) => (
+            <View key={transfer.id} style={styles.transferRow}>
+              <View style={styles.transferText}>
+                <Text style={[styles.transferAmount, isDark && styles.transferAmountDark]}>
+                  {formatCurrency(transfer.amount)}
+                </Text>
+                <Text style={[styles.transferMeta, isDark && styles.transferMetaDark]} numberOfLines={1}>
+                  {formatDate(transfer.date)}
+                  {transfer.note ? ` · ${transfer.note}` : ''}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => handleDelete(transfer)}
+                disabled={deleteId === transfer.id}
+                hitSlop={8}
+                accessibilityLabel="Delete transfer"
+              >
+                {deleteId === transfer.id ? (
+                  <ActivityIndicator size="small" color="#ef4444" />
+                ) : (
+                  <MaterialIcons name="close" size={20} color={isDark ? '#9BA1A6' : '#666'} />
+                )}
+              </TouchableOpacity>
+            </View>
+          ))}
+        </>
+      )}
+
+      {/* Record Transfer Modal (hidden, not closed, while signing back in so the form survives) */}
+      <Modal
+        visible={isModalOpen && !isSessionExpired}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setIsModalOpen(false)}
+      >
+        <View style={[styles.modalContainer, isDark && styles.modalContainerDark]}>
+          <View style={[styles.modalHeader, isDark && styles.modalHeaderDark]}>
+            <Text style={[styles.modalTitle, isDark && styles.modalTitleDark]}>Record Transfer</Text>
+            <TouchableOpacity onPress={() => setIsModalOpen(false)}>
+              <MaterialIcons name="close" size={24} color={isDark ? '#ECEDEE' : '#11181C'} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent} contentContainerStyle={styles.modalContentContainer}>
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, isDark && styles.labelDark]}>Amount *</Text>
+              <TextInput
+                style={[styles.input, isDark && styles.inputDark]}
+                placeholder="0.00"
+                placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+                value={amount}
+                onChangeText={setAmount}
+                keyboardType="decimal-pad"
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, isDark && styles.labelDark]}>Date *</Text>
+              <TextInput
+                style={[styles.input, isDark && styles.inputDark]}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+                value={date}
+                onChangeText={setDate}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, isDark && styles.labelDark]}>Note</Text>
+              <TextInput
+                style={[styles.input, isDark && styles.inputDark]}
+                placeholder="e.g. savings account name"
+                placeholderTextColor={isDark ? '#9BA1A6' : '#666'}
+                value={note}
+                onChangeText={setNote}
+              />
+            </View>
+          </ScrollView>
+
+          <View style={[styles.modalFooter, isDark && styles.modalFooterDark]}>
+            <TouchableOpacity
+              style={[styles.cancelButton, isDark && styles.cancelButtonDark]}
+              onPress={() => setIsModalOpen(false)}
+            >
+              <Text style={[styles.cancelButtonText, isDark && styles.cancelButtonTextDark]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Record Transfer</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+    marginHorizontal: 16,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  containerDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+    color: '#11181C',
+  },
+  titleDark: {
+    color: '#ECEDEE',
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+  },
+  descriptionDark: {
+    color: '#9BA1A6',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#0a7ea4',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  loader: {
+    marginVertical: 16,
+  },
+  totals: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  total: {
+    flex: 1,
+  },
+  totalLabel: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 4,
+  },
+  totalLabelDark: {
+    color: '#9BA1A6',
+  },
+  totalValue: {
+    fontSize: 20,
+    fontWeight: '600',
+    fontFamily: 'monospace',
+    color: '#11181C',
+  },
+  totalValueDark: {
+    color: '#ECEDEE',
+  },
+  progressBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#e5e7eb',
+    overflow: 'hidden',
+  },
+  progressBarDark: {
+    backgroundColor: '#374151',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#10b981',
+  },
+  progressFillShort: {
+    backgroundColor: '#f59e0b',
+  },
+  status: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 8,
+  },
+  statusShort: {
+    color: '#f59e0b',
+  },
+  statusOnTrack: {
+    color: '#10b981',
+  },
+  transferRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingTop: 12,
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  transferText: {
+    flex: 1,
+  },
+  transferAmount: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#11181C',
+  },
+  transferAmountDark: {
+    color: '#ECEDEE',
+  },
+  transferMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  transferMetaDark: {
+    color: '#9BA1A6',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  modalContainerDark: {
+    backgroundColor: '#151718',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  modalHeaderDark: {
+    backgroundColor: '#1f2937',
+    borderBottomColor: '#374151',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  modalTitleDark: {
+    color: '#ECEDEE',
+  },
+  modalContent: {
+    flex: 1,
+  },
+  modalContentContainer: {
+    padding: 16,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 10,
+    color: '#11181C',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  labelDark: {
+    color: '#ECEDEE',
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#11181C',
+    backgroundColor: '#fff',
+  },
+  inputDark: {
+    backgroundColor: '#374151',
+    borderColor: '#4b5563',
+    color: '#ECEDEE',
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  modalFooterDark: {
+    backgroundColor: '#1f2937',
+    borderTopColor: '#374151',
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  cancelButtonDark: {
+    backgroundColor: '#374151',
+    borderColor: '#4b5563',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  cancelButtonTextDark: {
+    color: '#ECEDEE',
+  },
+  submitButton: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 10,
+    backgroundColor: '#0a7ea4',
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
@@ -0,0 +1,157 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useUploads } from '@/hooks/useUploads';
+import { cancelUpload, dismissUpload, retryUpload, type UploadKind, type UploadTask } from '@/lib/uploads';
+
+function getStatusLabel(task: UploadTask) {
+  switch (task.status) {
+    case 'queued':
+      return task.attempts > 0 ? 'Connection lost, retrying…' : 'Waiting to upload';
+    case 'uploading':
+      return task.progress < 1 ? `Uploading ${Math.round(task.progress * 100)}%` : 'Processing…';
+    case 'done':
+      return 'Uploaded';
+    case 'cancelled':
+      return 'Cancelled';
+    default:
+      return task.error || 'Upload failed';
+  }
+}
+
+/**
+ * Progress list for queued photo uploads. `onReview` adds a Review action to
+ * finished uploads, e.g. to open a form prefilled from a scanned receipt.
+ */
+export function UploadQueue({
+  kind,
+  source,
+  onReview,
+}: {
+  kind: UploadKind;
+  source?: string;
+  onReview?: (task: UploadTask) => void;
+}) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const uploads = useUploads(kind, source);
+
+  if (uploads.length === 0) return null;
+
+  return (
+    <View style={[styles.container, isDark && styles.containerDark]}>
+      {uploads.map((task) => {
+        const isActive = task.status === 'queued' || task.status === 'uploading';
+        return (
+          <View key={task.id} style={styles.row}>
+            <Image source={{ uri: task.uri }} style={styles.thumbnail} />
+            <View style={styles.details}>
+              <Text
+                style={[
+                  styles.status,
+                  isDark && styles.statusDark,
+                  task.status === 'failed' && styles.statusFailed,
+                ]}
+                numberOfLines={2}
+              >
+                {getStatusLabel(task)}
+              </Text>
+              {isActive && (
+                <View style={[styles.progressTrack, isDark && styles.progressTrackDark]}>
+                  <View style={[styles.progressFill, { width: `${Math.round(task.progress * 100)}%` }]} />
+                </View>
+              )}
+            </View>
+            <View style={styles.actions}>
+              {task.status === 'done' && onReview && (
+                <TouchableOpacity onPress={() => onReview(task)} style={styles.actionButton}>
+                  <Text style={styles.actionText}>Review</Text>
+                </TouchableOpacity>
+              )}
+              {task.status === 'failed' && task.errorKind !== 'forbidden' && (
+                <TouchableOpacity onPress={() => retryUpload(task.id)} style={styles.actionButton}>
+                  <Text style={styles.actionText}>Retry</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                onPress={() => (isActive ? cancelUpload(task.id) : dismissUpload(task.id))}
+                style={styles.actionButton}
+              >
+                <MaterialIcons name="close" size={20} color={isDark ? '#9BA1A6' : '#666'} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginBottom: 16,
+  },
+  containerDark: {
+    backgroundColor: '#1f2937',
+    borderColor: '#374151',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 12,
+  },
+  thumbnail: {
+    width: 40,
+    height: 40,
+    borderRadius: 4,
+    backgroundColor: '#f3f4f6',
+  },
+  details: {
+    flex: 1,
+    gap: 6,
+  },
+  status: {
+    fontSize: 14,
+    color: '#11181C',
+  },
+  statusDark: {
+    color: '#ECEDEE',
+  },
+  statusFailed: {
+    color: '#ef4444',
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e5e7eb',
+    overflow: 'hidden',
+  },
+  progressTrackDark: {
+    backgroundColor: '#374151',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#0a7ea4',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  actionButton: {
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+});
@@ -0,0 +1,77 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { type AppLockSettings, getAppLockSettings, loadAppLock, subscribeToAppLock } from '@/lib/app-lock';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+
+interface AppLockContextType {
+  settings: AppLockSettings;
+  isReady: boolean;
+  isLocked: boolean;
+  isObscured: boolean; // App is leaving the foreground; hide it from the app switcher
+  unlock: () => void;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+// Decides when the lock screen shows: on a cold start and after the app has
+// spent longer than the chosen timeout in the background. Applies while signed
+// in and while the cold-start session check is still running, since cached
+// figures show before it finishes; the login screen is never locked.
+export function AppLockProvider({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const [settings, setSettings] = useState(getAppLockSettings);
+  const [isReady, setIsReady] = useState(false);
+  const [isLockRequired, setIsLockRequired] = useState(true);
+  const [isObscured, setIsObscured] = useState(false);
+  const backgroundedAt = useRef<number | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToAppLock(() => setSettings(getAppLockSettings()));
+    loadAppLock().then(() => {
+      setSettings(getAppLockSettings());
+      // Turning the lock on later shouldn't lock the app straight away
+      setIsLockRequired(getAppLockSettings().enabled);
+      setIsReady(true);
+    });
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') {
+        setIsObscured(true);
+        // 'inactive' alone (control centre, an incoming call) doesn't start the timer
+        if (state === 'background' && backgroundedAt.current === null) {
+          backgroundedAt.current = Date.now();
+        }
+        return;
+      }
+
+      setIsObscured(false);
+      const { timeoutSeconds } = getAppLockSettings();
+      if (backgroundedAt.current !== null && Date.now() - backgroundedAt.current >= timeoutSeconds * 1000) {
+        setIsLockRequired(true);
+      }
+      backgroundedAt.current = null;
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const unlock = useCallback(() => setIsLockRequired(false), []);
+
+  const isLocked = (isAuthenticated || isAuthLoading) && settings.enabled && isLockRequired;
+
+  return (
+    <AppLockContext.Provider value={{ settings, isReady, isLocked, isObscured, unlock }}>
+      {children}
+    </AppLockContext.Provider>
+  );
+}
+
+export function useAppLock() {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+}
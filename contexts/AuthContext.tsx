@@ -0,0 +1,153 @@
+import { useTaxYear } from '@/contexts/TaxYearContext';
+import { clearAppLock } from '@/lib/app-lock';
+import { completeSignInFromUrl, getAuthErrorMessage, hasStoredSession, signOutOfSupabase } from '@/lib/auth';
+import { finishPendingSignIn, isAwaitingSignIn, subscribeToUnauthorized } from '@/lib/auth-events';
+import { routes } from '@/lib/endpoints';
+import { getErrorStatus } from '@/lib/errors';
+import { clearLocalData, clearSessionUser, endServerSession, loadSessionUser, saveSessionUser } from '@/lib/session';
+import { supabase } from '@/lib/supabase';
+import type { User } from '@/lib/types';
+import * as Linking from 'expo-linking';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Alert, AppState } from 'react-native';
+
+interface AuthContextType {
+  user: User | null;
+  isLoading: boolean;
+  isAuthenticated: boolean;
+  isSessionExpired: boolean; // Signed out by a 401; paused saves resume once the same user signs back in
+  refetch: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+// Loads the signed-in user once and shares it app-wide. It is refreshed when
+// the app returns to the foreground, when Supabase signs a user in and
+// whenever a screen calls refetch (e.g. after saving the profile); any 401
+// from the API signs everyone out until the user signs in again.
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const { resetTaxYear } = useTaxYear();
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSessionExpired, setIsSessionExpired] = useState(false);
+  const userRef = useRef(user);
+  userRef.current = user;
+  // Who was signed in when the session expired, to tell whether the next sign-in is the same person
+  const expiredUserId = useRef<string | null>(null);
+
+  const handleSignedIn = useCallback(async (userData: User) => {
+    if (isAwaitingSignIn()) {
+      const isSameUser = !expiredUserId.current || expiredUserId.current === userData.id;
+      // Someone else signed in: the previous account's cached data, paused
+      // saves and chosen tax year must not carry over
+      if (!isSameUser) await Promise.all([clearLocalData(), resetTaxYear()]);
+      finishPendingSignIn(isSameUser);
+    }
+    expiredUserId.current = null;
+    setIsSessionExpired(false);
+    setUser(userData);
+  }, [resetTaxYear]);
+
+  const refetch = useCallback(async () => {
+    try {
+      // No Supabase session means signed out; no need to ask the backend
+      if (!(await hasStoredSession())) {
+        setUser(null);
+        return;
+      }
+      const userData = await routes.auth.user.call();
+      await handleSignedIn(userData);
+      await saveSessionUser(userData);
+    } catch (error) {
+      if (getErrorStatus(error) === 401) {
+        await clearSessionUser();
+        setUser(null);
+      } else {
+        // Offline or server trouble says nothing about the session: keep the
+        // user we have, or on a cold start the one last seen on this device
+        console.error('Error checking auth:', error);
+        if (!userRef.current) {
+          const cachedUser = await loadSessionUser();
+          if (cachedUser) setUser(cachedUser);
+        }
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [handleSignedIn]);
+
+  // Ends the backend's cookie session and the Supabase session, then wipes this
+  // user's data from the device. If either can't be reached this throws and
+  // nothing is cleared, so the session is never left alive behind a
+  // signed-out screen.
+  const signOut = useCallback(async () => {
+    await endServerSession();
+    await signOutOfSupabase();
+    await Promise.all([clearLocalData(), clearAppLock()]);
+    // Saves still waiting for a sign-in give up
+    finishPendingSignIn(false);
+    expiredUserId.current = null;
+    setIsSessionExpired(false);
+    setUser(null);
+  }, []);
+
+  useEffect(() => {
+    refetch();
+
+    const unsubscribe = subscribeToUnauthorized(() => {
+      expiredUserId.current = userRef.current?.id ?? expiredUserId.current;
+      setIsSessionExpired(true);
+      setUser(null);
+    });
+    const { data: authListener } = supabase.auth.onAuthStateChange((event) => {
+      // Deferred: Supabase calls made inside this callback would deadlock
+      if (event === 'SIGNED_IN') setTimeout(refetch, 0);
+      if (event === 'SIGNED_OUT') setUser(null);
+    });
+    // Supabase only refreshes tokens while the app is in the foreground
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        supabase.auth.startAutoRefresh();
+        refetch();
+      } else {
+        supabase.auth.stopAutoRefresh();
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      authListener.subscription.unsubscribe();
+      subscription.remove();
+    };
+  }, [refetch]);
+
+  // Magic links open the app with the session tokens in the URL
+  useEffect(() => {
+    const handleUrl = (url: string | null) => {
+      if (!url) return;
+      completeSignInFromUrl(url).catch((error) => {
+        console.error('Error completing sign in:', error);
+        Alert.alert('Sign In Failed', getAuthErrorMessage(error, 'This sign-in link is invalid or has expired.'));
+      });
+    };
+
+    Linking.getInitialURL().then(handleUrl);
+    const subscription = Linking.addEventListener('url', ({ url }) => handleUrl(url));
+    return () => subscription.remove();
+  }, []);
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, isAuthenticated: !!user, isSessionExpired, refetch, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -1,9 +1,10 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 
 interface TaxYearContextType {
   taxYear: number;
   setTaxYear: (year: number) => Promise<void>;
+  resetTaxYear: () => Promise<void>;
   isLoading: boolean;
 }
 
@@ -41,8 +42,18 @@ export function TaxYearProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Back to the current year and forget the saved choice (used on sign out and when another user signs in)
+  const resetTaxYear = useCallback(async () => {
+    setTaxYearState(new Date().getFullYear());
+    try {
+      await AsyncStorage.removeItem(TAX_YEAR_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error clearing tax year:', error);
+    }
+  }, []);
+
   return (
-    <TaxYearContext.Provider value={{ taxYear, setTaxYear, isLoading }}>
+    <TaxYearContext.Provider value={{ taxYear, setTaxYear, resetTaxYear, isLoading }}>
       {children}
     </TaxYearContext.Provider>
   );
@@ -0,0 +1,33 @@
+import { fetchBusinessUsePercentages } from '@/lib/business-use';
+import { useEffect, useState } from 'react';
+
+// Business-use percentage per vehicle id for the tax year. Only refetches when
+// the year or the set of vehicles changes, not on every filter change.
+export function useBusinessUsePercentages(taxYear: number, vehicleIds: string[]) {
+  const [percentages, setPercentages] = useState<Map<string, number>>(() => new Map());
+  const vehicleKey = [...vehicleIds].sort().join(',');
+
+  useEffect(() => {
+    if (!vehicleKey) {
+      setPercentages(new Map());
+      return;
+    }
+
+    let isCurrent = true;
+    fetchBusinessUsePercentages(taxYear, vehicleKey.split(','))
+      .then((result) => {
+        if (isCurrent) setPercentages(result);
+      })
+      .catch((error) => {
+        console.error('Error fetching vehicle business use:', error);
+        // Fall back to 100% for every vehicle rather than showing stale figures
+        if (isCurrent) setPercentages(new Map());
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [taxYear, vehicleKey]);
+
+  return percentages;
+}
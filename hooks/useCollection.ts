@@ -0,0 +1,56 @@
+import {
+  CollectionName,
+  getCollection,
+  hasCollectionData,
+  hydrateCollection,
+  revalidateCollection,
+  subscribeToCollection,
+} from '@/lib/store';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Reads a collection from the shared store: cached items render immediately
+// and a background revalidation keeps them fresh. Pass the tax year on screen
+// so a first load fetches that year before the rest of the history.
+export function useCollection<T = any>(name: CollectionName, options: { taxYear?: number } = {}) {
+  const [items, setItems] = useState<T[]>(() => getCollection<T>(name));
+  const [isLoading, setIsLoading] = useState(() => !hasCollectionData(name));
+  const taxYearRef = useRef(options.taxYear);
+  taxYearRef.current = options.taxYear;
+
+  useEffect(() => {
+    const unsubscribe = subscribeToCollection(name, () => {
+      setItems(getCollection<T>(name));
+      if (hasCollectionData(name)) {
+        setIsLoading(false);
+      }
+    });
+
+    const load = async () => {
+      await hydrateCollection(name);
+      setItems(getCollection<T>(name));
+      if (hasCollectionData(name)) {
+        setIsLoading(false);
+      }
+      try {
+        await revalidateCollection(name, { taxYear: taxYearRef.current });
+      } catch (error) {
+        console.error(`Error fetching ${name}:`, error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+    return unsubscribe;
+  }, [name]);
+
+  const refresh = useCallback(async () => {
+    try {
+      await revalidateCollection(name, { force: true, taxYear: taxYearRef.current });
+    } catch (error) {
+      console.error(`Error fetching ${name}:`, error);
+    }
+  }, [name]);
+
+  return { items, isLoading, refresh };
+}
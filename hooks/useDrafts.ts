@@ -0,0 +1,16 @@
+import { type Draft, getDrafts, loadDrafts, subscribeToDrafts } from '@/lib/drafts';
+import { useEffect, useState } from 'react';
+
+// Live list of saved form drafts, newest first
+export function useDrafts() {
+  const [drafts, setDrafts] = useState<Draft[]>(getDrafts);
+
+  useEffect(() => {
+    const update = () => setDrafts(getDrafts());
+    const unsubscribe = subscribeToDrafts(update);
+    loadDrafts().then(update);
+    return unsubscribe;
+  }, []);
+
+  return drafts;
+}
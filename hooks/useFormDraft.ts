@@ -0,0 +1,68 @@
+import { clearDraft, type Draft, type DraftForm, getDraft, loadDrafts, NEW_DRAFT_ID, saveDraft } from '@/lib/drafts';
+import { formatTimeAgo } from '@/lib/format';
+import { useCallback, useEffect, useRef } from 'react';
+import { Alert } from 'react-native';
+
+interface FormDraftOptions {
+  isOpen: boolean;
+  entityId?: string; // Record being edited; omitted for a new entry
+  label: string;
+  context?: Record<string, string>;
+}
+
+/**
+ * Autosaves an entry form as a draft while its modal is open, once the values
+ * differ from what the form opened with. `openWithDraft` opens the form,
+ * first offering to resume a draft saved earlier for the same record.
+ */
+export function useFormDraft<T>(form: DraftForm, values: T, { isOpen, entityId = NEW_DRAFT_ID, label, context }: FormDraftOptions) {
+  const openedWith = useRef<string | null>(null);
+
+  // Drafts saved in an earlier session, whichever screen the app opened on
+  useEffect(() => {
+    loadDrafts();
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) {
+      openedWith.current = null;
+      return;
+    }
+    const serialized = JSON.stringify(values);
+    if (openedWith.current === null) {
+      openedWith.current = serialized;
+    } else if (serialized !== openedWith.current) {
+      saveDraft({ form, entityId, label, context, values });
+    }
+    // context is derived from the same state as values
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, values, form, entityId, label]);
+
+  const openWithDraft = useCallback(
+    async (open: (draft?: Draft<T>) => void, draftEntityId: string = NEW_DRAFT_ID) => {
+      await loadDrafts();
+      const draft = getDraft<T>(form, draftEntityId);
+      if (!draft) {
+        open();
+        return;
+      }
+      Alert.alert('Resume Draft?', `You have unsaved changes from ${formatTimeAgo(draft.updatedAt)}.`, [
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => {
+            clearDraft(form, draftEntityId);
+            open();
+          },
+        },
+        { text: 'Resume Draft', onPress: () => open(draft) },
+      ]);
+    },
+    [form]
+  );
+
+  // Call once the entry has been saved
+  const discardDraft = useCallback(() => clearDraft(form, entityId), [form, entityId]);
+
+  return { openWithDraft, discardDraft };
+}
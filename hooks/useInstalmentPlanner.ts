@@ -0,0 +1,21 @@
+import {
+  getInstalmentPlanner,
+  type InstalmentPlannerSettings,
+  loadInstalmentPlanner,
+  subscribeToInstalmentPlanner,
+} from '@/lib/instalment-planner';
+import { useEffect, useState } from 'react';
+
+// Live instalment planner settings (chosen options, assessed balances, reminders)
+export function useInstalmentPlanner() {
+  const [settings, setSettings] = useState<InstalmentPlannerSettings>(getInstalmentPlanner);
+
+  useEffect(() => {
+    const update = () => setSettings(getInstalmentPlanner());
+    const unsubscribe = subscribeToInstalmentPlanner(update);
+    loadInstalmentPlanner().then(update);
+    return unsubscribe;
+  }, []);
+
+  return settings;
+}
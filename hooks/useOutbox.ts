@@ -0,0 +1,89 @@
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  getOutboxEntries,
+  loadOutbox,
+  OutboxEntry,
+  OutboxResource,
+  replayOutbox,
+  subscribeToOutbox,
+  subscribeToReplay,
+} from '@/lib/outbox';
+import { useEffect, useRef, useState } from 'react';
+import { Alert, AppState } from 'react-native';
+
+const REPLAY_INTERVAL = 30 * 1000; // Retry every 30 seconds while changes are waiting
+
+// Queued changes for one resource; onSynced fires after any of them reach the server
+export function useOutbox(resource: OutboxResource, onSynced?: () => void) {
+  const [entries, setEntries] = useState<OutboxEntry[]>(() => getOutboxEntries(resource));
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  useEffect(() => {
+    loadOutbox().then(() => setEntries(getOutboxEntries(resource)));
+
+    const unsubscribe = subscribeToOutbox(() => setEntries(getOutboxEntries(resource)));
+    const unsubscribeReplay = subscribeToReplay((result) => {
+      if (result.synced.some((entry) => entry.resource === resource)) {
+        onSyncedRef.current?.();
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeReplay();
+    };
+  }, [resource]);
+
+  return entries;
+}
+
+async function replayPending() {
+  const entries = await loadOutbox();
+  if (!entries.some((entry) => entry.status === 'pending')) return;
+  await replayOutbox();
+}
+
+// Drives replay for the whole app: once signed in (on launch or after signing
+// back in), when returning to the foreground, and periodically while anything
+// is still pending
+export function useOutboxSync() {
+  const { isAuthenticated } = useAuth();
+
+  // Replay stops on an expired session; this picks up where it left off
+  useEffect(() => {
+    if (isAuthenticated) replayPending();
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        replayPending();
+      }
+    });
+    const interval = setInterval(replayPending, REPLAY_INTERVAL);
+
+    const unsubscribeReplay = subscribeToReplay((result) => {
+      if (result.rejected.length === 0) return;
+      const conflicts = result.rejected.filter((entry) => entry.status === 'conflict').length;
+      const failures = result.rejected.length - conflicts;
+      const parts = [];
+      if (conflicts > 0) {
+        parts.push(`${conflicts} ${conflicts === 1 ? 'change conflicts' : 'changes conflict'} with newer data on the server`);
+      }
+      if (failures > 0) {
+        parts.push(`${failures} ${failures === 1 ? 'change was' : 'changes were'} rejected by the server`);
+      }
+      Alert.alert(
+        'Some offline changes were not saved',
+        `${parts.join(' and ')}. They are marked in your lists so you can retry or discard them.`
+      );
+    });
+
+    return () => {
+      subscription.remove();
+      clearInterval(interval);
+      unsubscribeReplay();
+    };
+  }, []);
+}
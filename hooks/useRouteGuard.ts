@@ -0,0 +1,62 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { checkRouteAccess, rememberRedirect, takeRedirect } from '@/lib/route-guards';
+import { type Href, useGlobalSearchParams, usePathname, useRouter, useSegments } from 'expo-router';
+import { useEffect, useRef } from 'react';
+
+function toHref(pathname: string, params: Record<string, string | string[] | undefined>): string {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : value === undefined ? [] : [value]).forEach((item) => query.append(key, item));
+  });
+  const search = query.toString();
+  return search ? `${pathname}?${search}` : pathname;
+}
+
+// Applies lib/route-guards to every navigation: signed-out users go to the
+// login screen and come back to the link they opened once signed in; users
+// without the right plan see the upgrade screen instead. When a session
+// expires, login opens on top of the current screen so that screen (and any
+// half-filled form and paused save in it) is still there after signing in.
+export function useRouteGuard() {
+  const { user, isLoading, isSessionExpired } = useAuth();
+  const segments = useSegments();
+  const pathname = usePathname();
+  const params = useGlobalSearchParams();
+  const router = useRouter();
+  const lastUserId = useRef<string | null>(null);
+  // Set while login is open on top of an expired session: whose screens are underneath
+  const expiredSession = useRef<{ userId: string | null } | null>(null);
+
+  useEffect(() => {
+    if (isLoading) return;
+
+    const segment = segments[0] as string | undefined;
+    const decision = checkRouteAccess(segment, user);
+
+    if (decision.action === 'login' && isSessionExpired) {
+      expiredSession.current = { userId: lastUserId.current };
+      lastUserId.current = null;
+      router.push('/login');
+    } else if (decision.action === 'login') {
+      // Only links opened while signed out; after signing out, start fresh on the next sign-in
+      if (!lastUserId.current) rememberRedirect(toHref(pathname, params));
+      lastUserId.current = null;
+      router.replace('/login');
+    } else if (decision.action === 'upgrade') {
+      router.replace({ pathname: '/upgrade', params: { route: segment } });
+    } else if (user && segment === 'login' && expiredSession.current) {
+      const { userId } = expiredSession.current;
+      expiredSession.current = null;
+      if ((!userId || userId === user.id) && router.canGoBack()) {
+        router.back();
+      } else {
+        // A different account: nothing of the previous user's screens may stay open
+        router.dismissAll();
+        router.replace('/(tabs)');
+      }
+    } else if (user && segment === 'login') {
+      router.replace((takeRedirect() ?? '/(tabs)') as Href);
+    }
+    if (user) lastUserId.current = user.id;
+  }, [user, isLoading, isSessionExpired, segments, pathname, params, router]);
+}
@@ -0,0 +1,16 @@
+import { getScenarios, loadScenarios, type Scenario, subscribeToScenarios } from '@/lib/scenarios';
+import { useEffect, useMemo, useState } from 'react';
+
+// Live list of the saved what-if scenarios for a tax year, newest first
+export function useScenarios(taxYear: number) {
+  const [scenarios, setScenarios] = useState<Scenario[]>(getScenarios);
+
+  useEffect(() => {
+    const update = () => setScenarios(getScenarios());
+    const unsubscribe = subscribeToScenarios(update);
+    loadScenarios().then(update);
+    return unsubscribe;
+  }, []);
+
+  return useMemo(() => scenarios.filter((scenario) => scenario.taxYear === taxYear), [scenarios, taxYear]);
+}
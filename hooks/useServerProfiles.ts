@@ -0,0 +1,25 @@
+import {
+  getActiveProfile,
+  getServerProfiles,
+  loadServerProfiles,
+  subscribeToServerProfiles,
+} from '@/lib/server-profiles';
+import { useEffect, useState } from 'react';
+
+// Saved backend profiles and the active one, kept in sync with lib/server-profiles
+export function useServerProfiles() {
+  const [profiles, setProfiles] = useState(getServerProfiles);
+  const [activeProfile, setActiveProfile] = useState(getActiveProfile);
+
+  useEffect(() => {
+    const update = () => {
+      setProfiles(getServerProfiles());
+      setActiveProfile(getActiveProfile());
+    };
+    const unsubscribe = subscribeToServerProfiles(update);
+    loadServerProfiles().then(update);
+    return unsubscribe;
+  }, []);
+
+  return { profiles, activeProfile };
+}
@@ -0,0 +1,52 @@
+import { useTaxEstimate } from '@/hooks/useTaxEstimate';
+import { ForbiddenError, isNetworkError, UnauthorizedError } from '@/lib/errors';
+import { calculateSetAsides } from '@/lib/set-aside';
+import { fetchTaxCalculation } from '@/lib/tax-calculation';
+import { type Income, type TaxCalculation } from '@/lib/types';
+import { useEffect, useMemo, useState } from 'react';
+
+// Recommended set-aside for each of a year's income entries (pass them all,
+// not a filtered list, so CPP/QPP is capped correctly). Uses the marginal
+// rate from /api/tax-calculation, or the on-device estimate when the server
+// can't be reached or the plan doesn't include it.
+export function useSetAsides(taxYear: number, entries: Income[]) {
+  const [calculation, setCalculation] = useState<TaxCalculation | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setCalculation(null);
+    fetchTaxCalculation(taxYear)
+      .then((response) => {
+        if (isCurrent) setCalculation(response.calculation);
+      })
+      .catch((error) => {
+        if (isNetworkError(error) || error instanceof ForbiddenError || error instanceof UnauthorizedError) return;
+        console.error('Error fetching tax calculation:', error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [taxYear]);
+
+  const { summary, employment, estimate } = useTaxEstimate(taxYear, calculation);
+  const marginalTaxRate = calculation?.marginalTaxRate ?? estimate.marginalTaxRate;
+
+  const setAsides = useMemo(
+    () =>
+      calculateSetAsides(entries, {
+        taxYear,
+        pensionPlan: estimate.pensionPlan.code,
+        marginalTaxRate,
+        netIncomeRatio: summary.grossIncome > 0 ? summary.netIncome / summary.grossIncome : 1,
+        employmentIncome: employment.employmentIncome ?? 0,
+      }),
+    [entries, taxYear, estimate.pensionPlan.code, marginalTaxRate, summary, employment.employmentIncome]
+  );
+
+  const totalSetAside = useMemo(
+    () => Array.from(setAsides.values()).reduce((sum, setAside) => sum + setAside.total, 0),
+    [setAsides]
+  );
+
+  return { setAsides, totalSetAside, marginalTaxRate, pensionPlan: estimate.pensionPlan.code };
+}
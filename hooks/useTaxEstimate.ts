@@ -0,0 +1,60 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { useBusinessUsePercentages } from '@/hooks/useBusinessUsePercentages';
+import { useCollection } from '@/hooks/useCollection';
+import { getDeductionContext, getDeductionVehicleIds, roundToCents, sumDeductible } from '@/lib/deductions';
+import { getYearFromDateString } from '@/lib/format';
+import { getProvinceRules } from '@/lib/provinces';
+import { employmentFromSlips, estimateTax, type TaxEstimateInput } from '@/lib/tax-engine';
+import { type Expense, type Income, type T4Slip, type TaxCalculation } from '@/lib/types';
+import { useMemo } from 'react';
+
+type IncomeSummary = Pick<TaxCalculation, 'grossIncome' | 'totalExpenses' | 'netIncome'>;
+
+// Tax estimate for a year from what's on the device: income, deductible
+// expenses and T4 slips. Pass the server's totals when it answered so the
+// estimate starts from the same figures the server has.
+export function useTaxEstimate(taxYear: number, serverSummary?: IncomeSummary | null) {
+  const { user } = useAuth();
+  const province = getProvinceRules(user?.province);
+
+  const { items: incomeList, isLoading: isIncomeLoading } = useCollection<Income>('income', { taxYear });
+  const { items: expenseList, isLoading: isExpensesLoading } = useCollection<Expense>('expenses', { taxYear });
+  const { items: slipList, isLoading: isSlipsLoading } = useCollection<T4Slip>('t4Slips', { taxYear });
+  // True until every collection the estimate uses has loaded
+  const isLoading = isIncomeLoading || isExpensesLoading || isSlipsLoading;
+  const yearExpenses = useMemo(
+    () => expenseList.filter((item) => getYearFromDateString(item.date) === taxYear),
+    [expenseList, taxYear]
+  );
+  const yearSlips = useMemo(() => slipList.filter((slip) => Number(slip.taxYear) === taxYear), [slipList, taxYear]);
+  const vehicleIds = useMemo(() => getDeductionVehicleIds(yearExpenses), [yearExpenses]);
+  const vehicleBusinessUse = useBusinessUsePercentages(taxYear, vehicleIds);
+
+  const summary = useMemo((): IncomeSummary => {
+    if (serverSummary) return serverSummary;
+    const grossIncome = roundToCents(
+      incomeList
+        .filter((item) => getYearFromDateString(item.date) === taxYear)
+        .reduce((sum, item) => sum + (parseFloat(item.amount.toString()) || 0), 0)
+    );
+    const totalExpenses = sumDeductible(yearExpenses, getDeductionContext(user, vehicleBusinessUse)).deductibleAmount;
+    return { grossIncome, totalExpenses, netIncome: Math.max(0, grossIncome - totalExpenses) };
+  }, [serverSummary, incomeList, yearExpenses, user, vehicleBusinessUse, taxYear]);
+
+  const employment = useMemo(() => employmentFromSlips(yearSlips), [yearSlips]);
+
+  // Self-employment and T4 employment income taxed together through the brackets;
+  // a business loss is passed through so it offsets employment income
+  const input = useMemo(
+    (): TaxEstimateInput => ({
+      taxYear,
+      province: province.code,
+      selfEmploymentIncome: roundToCents(summary.grossIncome - summary.totalExpenses),
+      ...employment,
+    }),
+    [taxYear, province.code, summary.grossIncome, summary.totalExpenses, employment]
+  );
+  const estimate = useMemo(() => estimateTax(input), [input]);
+
+  return { summary, yearSlips, employment, input, estimate, isLoading };
+}
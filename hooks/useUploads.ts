@@ -0,0 +1,16 @@
+import { getUploads, loadUploads, subscribeToUploads, UploadKind, UploadTask } from '@/lib/uploads';
+import { useEffect, useState } from 'react';
+
+// Live view of the upload queue, optionally limited to one kind and source
+export function useUploads(kind?: UploadKind, source?: string) {
+  const [uploads, setUploads] = useState<UploadTask[]>(() => getUploads({ kind, source }));
+
+  useEffect(() => {
+    const update = () => setUploads(getUploads({ kind, source }));
+    const unsubscribe = subscribeToUploads(update);
+    loadUploads().then(update);
+    return unsubscribe;
+  }, [kind, source]);
+
+  return uploads;
+}
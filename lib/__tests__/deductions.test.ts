@@ -0,0 +1,219 @@
+import {
+  calculateDeductible,
+  getDeductionContext,
+  getDeductionVehicleIds,
+  roundToCents,
+  sumDeductible,
+} from '../deductions';
+import { EXPENSE_TYPES, type Expense, type ExpenseType, type User } from '../types';
+
+// $100 base cost with 5% GST and 7% PST
+function expense(overrides: Partial<Expense> = {}): Expense {
+  return {
+    id: 'expense-1',
+    amount: '112.00',
+    baseCost: '100.00',
+    gstAmount: '5.00',
+    pstAmount: '7.00',
+    date: '2024-03-01',
+    category: 'equipment',
+    isTaxDeductible: true,
+    ...overrides,
+  };
+}
+
+describe('roundToCents', () => {
+  it('rounds half a cent up', () => {
+    expect(roundToCents(1.005)).toBe(1.01);
+    expect(roundToCents(2.675)).toBe(2.68);
+  });
+
+  it('leaves whole cents alone', () => {
+    expect(roundToCents(10.1)).toBe(10.1);
+    expect(roundToCents(0)).toBe(0);
+  });
+
+  it('cleans up floating point sums', () => {
+    expect(roundToCents(0.1 + 0.2)).toBe(0.3);
+  });
+});
+
+// What a $100 + tax expense deducts for each type, with a 20% home office and
+// a vehicle at 60% business use. Typed by ExpenseType so a new type must be added here.
+const BY_EXPENSE_TYPE: Record<ExpenseType, { overrides: Partial<Expense>; deductibleAmount: number; deductibleGst: number }> = {
+  self_employment: { overrides: {}, deductibleAmount: 107, deductibleGst: 5 },
+  personal: { overrides: {}, deductibleAmount: 0, deductibleGst: 0 },
+  home_office_living: { overrides: { category: 'rent' }, deductibleAmount: 21.4, deductibleGst: 1 },
+  vehicle: { overrides: { vehicleId: 'car-1' }, deductibleAmount: 64.2, deductibleGst: 3 },
+  mixed: { overrides: { businessUsePercentage: 50 }, deductibleAmount: 53.5, deductibleGst: 2.5 },
+};
+
+describe('calculateDeductible', () => {
+  it.each(Object.values(EXPENSE_TYPES))('applies the share allowed for %s expenses', (expenseType) => {
+    const { overrides, deductibleAmount, deductibleGst } = BY_EXPENSE_TYPE[expenseType];
+    const context = { homeOfficePercentage: 20, vehicleBusinessUse: new Map([['car-1', 60]]) };
+    expect(calculateDeductible(expense({ expenseType, ...overrides }), context)).toEqual({
+      deductibleAmount,
+      deductibleGst,
+      deductibleQst: 0,
+    });
+  });
+
+  it('treats expenses without a type as self-employment', () => {
+    expect(calculateDeductible(expense({ expenseType: undefined })).deductibleAmount).toBe(107);
+  });
+
+  it('returns nothing for expenses marked not deductible', () => {
+    expect(calculateDeductible(expense({ isTaxDeductible: false }))).toEqual({
+      deductibleAmount: 0,
+      deductibleGst: 0,
+      deductibleQst: 0,
+    });
+  });
+
+  it('returns nothing for expenses without the deductible flag', () => {
+    expect(calculateDeductible(expense({ isTaxDeductible: undefined })).deductibleAmount).toBe(0);
+  });
+
+  describe('without a baseCost', () => {
+    it('uses the total minus its taxes', () => {
+      expect(calculateDeductible(expense({ baseCost: undefined }))).toEqual({
+        deductibleAmount: 107,
+        deductibleGst: 5,
+        deductibleQst: 0,
+      });
+    });
+
+    it('treats an empty baseCost the same way', () => {
+      expect(calculateDeductible(expense({ baseCost: '' })).deductibleAmount).toBe(107);
+    });
+
+    it('uses the whole amount when no taxes were recorded', () => {
+      const quickAdd = expense({ baseCost: undefined, gstAmount: undefined, pstAmount: undefined, amount: 45.5 });
+      expect(calculateDeductible(quickAdd)).toEqual({ deductibleAmount: 45.5, deductibleGst: 0, deductibleQst: 0 });
+    });
+
+    it('never goes below zero when the taxes exceed the total', () => {
+      expect(calculateDeductible(expense({ baseCost: undefined, amount: '10.00' })).deductibleAmount).toBe(7);
+    });
+  });
+
+  describe('partial business use', () => {
+    it('limits mixed expenses to their business-use percentage', () => {
+      const mixed = expense({ expenseType: EXPENSE_TYPES.MIXED, businessUsePercentage: '35' });
+      expect(calculateDeductible(mixed)).toEqual({ deductibleAmount: 37.45, deductibleGst: 1.75, deductibleQst: 0 });
+    });
+
+    it('deducts nothing from a mixed expense without a percentage', () => {
+      const mixed = expense({ expenseType: EXPENSE_TYPES.MIXED, businessUsePercentage: undefined });
+      expect(calculateDeductible(mixed).deductibleAmount).toBe(0);
+    });
+
+    it('also applies the home office share to mixed home office categories', () => {
+      const mixed = expense({ expenseType: EXPENSE_TYPES.MIXED, category: 'utilities', businessUsePercentage: 50 });
+      expect(calculateDeductible(mixed, { homeOfficePercentage: '25' })).toEqual({
+        deductibleAmount: 13.38,
+        deductibleGst: 0.63,
+        deductibleQst: 0,
+      });
+    });
+
+    it('uses full business use for vehicles without odometer entries', () => {
+      const vehicle = expense({ expenseType: EXPENSE_TYPES.VEHICLE, vehicleId: 'car-2' });
+      expect(calculateDeductible(vehicle, { vehicleBusinessUse: new Map([['car-1', 60]]) }).deductibleAmount).toBe(107);
+    });
+
+    it('deducts all of a home office expense when no percentage is set', () => {
+      const rent = expense({ expenseType: EXPENSE_TYPES.HOME_OFFICE_LIVING, category: 'rent' });
+      expect(calculateDeductible(rent, { homeOfficePercentage: null }).deductibleAmount).toBe(107);
+      expect(calculateDeductible(rent, { homeOfficePercentage: 0 }).deductibleAmount).toBe(107);
+    });
+
+    it('deducts nothing for a vehicle with no business use', () => {
+      const vehicle = expense({ expenseType: EXPENSE_TYPES.VEHICLE, vehicleId: 'car-1' });
+      expect(calculateDeductible(vehicle, { vehicleBusinessUse: new Map([['car-1', 0]]) }).deductibleAmount).toBe(0);
+    });
+
+    it('clamps percentages to 0-100', () => {
+      const over = expense({ expenseType: EXPENSE_TYPES.MIXED, businessUsePercentage: 150 });
+      const under = expense({ expenseType: EXPENSE_TYPES.MIXED, businessUsePercentage: -20 });
+      expect(calculateDeductible(over).deductibleAmount).toBe(107);
+      expect(calculateDeductible(under).deductibleAmount).toBe(0);
+    });
+  });
+
+  describe('rounding', () => {
+    it('rounds each amount to cents', () => {
+      const mixed = expense({ expenseType: EXPENSE_TYPES.MIXED, businessUsePercentage: 33.3 });
+      expect(calculateDeductible(mixed)).toEqual({ deductibleAmount: 35.63, deductibleGst: 1.67, deductibleQst: 0 });
+    });
+
+    it('counts unparseable amounts as zero', () => {
+      const garbled = expense({ baseCost: 'abc', gstAmount: 'n/a', pstAmount: undefined });
+      expect(calculateDeductible(garbled)).toEqual({ deductibleAmount: 0, deductibleGst: 0, deductibleQst: 0 });
+    });
+  });
+
+  it('recovers QST instead of deducting it for Quebec registrants', () => {
+    const quebec = expense({ amount: '114.98', gstAmount: '5.00', pstAmount: '9.98' });
+    expect(calculateDeductible(quebec, { claimsQst: true })).toEqual({
+      deductibleAmount: 100,
+      deductibleGst: 5,
+      deductibleQst: 9.98,
+    });
+  });
+});
+
+describe('sumDeductible', () => {
+  it('adds up the rounded per-expense figures', () => {
+    const third = expense({ expenseType: EXPENSE_TYPES.MIXED, businessUsePercentage: 33.3 });
+    expect(sumDeductible([third, third, third])).toEqual({
+      deductibleAmount: 106.89,
+      deductibleGst: 5.01,
+      deductibleQst: 0,
+    });
+  });
+
+  it('is zero for no expenses', () => {
+    expect(sumDeductible([])).toEqual({ deductibleAmount: 0, deductibleGst: 0, deductibleQst: 0 });
+  });
+});
+
+describe('getDeductionContext', () => {
+  const user = { id: 'user-1', homeOfficePercentage: 15, province: 'QC', hasGstNumber: true } as User;
+
+  it('claims QST only for GST registrants in Quebec', () => {
+    expect(getDeductionContext(user).claimsQst).toBe(true);
+    expect(getDeductionContext({ ...user, hasGstNumber: false }).claimsQst).toBe(false);
+    expect(getDeductionContext({ ...user, province: 'ON' }).claimsQst).toBe(false);
+  });
+
+  it('passes the home office percentage and vehicle business use through', () => {
+    const vehicleBusinessUse = new Map([['car-1', 80]]);
+    expect(getDeductionContext(user, vehicleBusinessUse)).toMatchObject({
+      homeOfficePercentage: 15,
+      vehicleBusinessUse,
+    });
+  });
+
+  it('works without a user', () => {
+    expect(getDeductionContext(null)).toEqual({
+      homeOfficePercentage: undefined,
+      vehicleBusinessUse: undefined,
+      claimsQst: false,
+    });
+  });
+});
+
+describe('getDeductionVehicleIds', () => {
+  it('lists each vehicle with vehicle expenses once', () => {
+    const expenses = [
+      expense({ expenseType: EXPENSE_TYPES.VEHICLE, vehicleId: 'car-1' }),
+      expense({ expenseType: EXPENSE_TYPES.VEHICLE, vehicleId: 'car-1' }),
+      expense({ expenseType: EXPENSE_TYPES.VEHICLE, vehicleId: 'car-2' }),
+      expense({ expenseType: EXPENSE_TYPES.MIXED, vehicleId: 'car-3' }),
+      expense({ expenseType: EXPENSE_TYPES.VEHICLE }),
+    ];
+    expect(getDeductionVehicleIds(expenses)).toEqual(['car-1', 'car-2']);
+  });
+});
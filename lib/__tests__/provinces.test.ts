@@ -0,0 +1,34 @@
+import { getIncomeTaxTable, getIncomeTaxTableYear, PROVINCES } from '../provinces';
+
+const TAX_YEARS = [2020, 2021, 2022, 2023, 2024, 2025, 2026];
+
+describe('PROVINCES', () => {
+  it.each(Object.values(PROVINCES))('has an income tax table for every tax year in $name', ({ incomeTax }) => {
+    expect(Object.keys(incomeTax).map(Number)).toEqual(TAX_YEARS);
+  });
+
+  it.each(Object.values(PROVINCES))('ends the $name brackets with an open top bracket', ({ incomeTax }) => {
+    Object.values(incomeTax).forEach(({ brackets }) => {
+      const limits = brackets.map(([upTo]) => upTo);
+      expect(limits).toEqual([...limits].sort((a, b) => a - b));
+      expect(limits[limits.length - 1]).toBe(Infinity);
+    });
+  });
+});
+
+describe('getIncomeTaxTableYear', () => {
+  const { incomeTax } = PROVINCES.ON;
+
+  it('uses the year itself when it has a table', () => {
+    expect(getIncomeTaxTableYear(incomeTax, 2022)).toBe(2022);
+    expect(getIncomeTaxTable(incomeTax, 2022)).toBe(incomeTax[2022]);
+  });
+
+  it('falls back to the latest table for later years', () => {
+    expect(getIncomeTaxTableYear(incomeTax, 2027)).toBe(2026);
+  });
+
+  it('falls back to the earliest table for earlier years', () => {
+    expect(getIncomeTaxTableYear(incomeTax, 2019)).toBe(2020);
+  });
+});
@@ -0,0 +1,23 @@
+import { estimateTax } from '../tax-engine';
+
+const employed = { taxYear: 2025, province: 'ON' as const, employmentIncome: 80000 };
+
+describe('estimateTax', () => {
+  it('lets a business loss offset employment income', () => {
+    const withLoss = estimateTax({ ...employed, selfEmploymentIncome: -10000 });
+    const employedOnly = estimateTax({ ...employed, selfEmploymentIncome: 0 });
+    expect(withLoss.totalIncome).toBe(70000);
+    expect(withLoss.taxableIncome).toBe(employedOnly.taxableIncome - 10000);
+    expect(withLoss.totalIncomeTax).toBeLessThan(employedOnly.totalIncomeTax);
+  });
+
+  it('charges no self-employed CPP on a loss', () => {
+    expect(estimateTax({ ...employed, selfEmploymentIncome: -10000 }).pensionContribution).toBe(0);
+  });
+
+  it('never goes below zero income when the loss is larger than other income', () => {
+    const estimate = estimateTax({ ...employed, selfEmploymentIncome: -100000 });
+    expect(estimate.totalIncome).toBe(0);
+    expect(estimate.totalIncomeTax).toBe(0);
+  });
+});
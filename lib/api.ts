@@ -1,141 +1,238 @@
-import { API_URL } from './config';
-import { preferIPv4 } from './network-config';
+import { getAccessToken } from './auth';
+import { notifyUnauthorized } from './auth-events';
+import { USE_MOCK_BACKEND } from './config';
+import { CancelledError, errorFromResponse, NetworkError, ServerError, TimeoutError } from './errors';
+import { mockFetch } from './mock-backend';
+import { NETWORK_TIMEOUT, preferIPv4, UPLOAD_TIMEOUT } from './network-config';
+import { getApiUrl, loadServerProfiles } from './server-profiles';
 
-async function throwIfResNotOk(res: Response) {
+const MAX_GET_RETRIES = 2;
+const RETRY_BASE_DELAY = 500; // Doubled on every attempt: 500ms, 1s
+
+const DEVICE_HINT = `If testing on a physical device, use your computer's IP address instead of localhost.`;
+
+// Resolved per request so switching server profiles applies immediately
+export async function resolveUrl(url: string) {
+  await loadServerProfiles();
+  return preferIPv4(url.startsWith('http') ? url : `${getApiUrl()}${url}`);
+}
+
+// The Supabase access token identifies the user to the backend; requests go
+// without it when signed out
+async function authHeaders(): Promise<Record<string, string>> {
+  const token = await getAccessToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// fetch, or the in-process mock backend when USE_MOCK_BACKEND is on
+export function apiFetch(url: string, init?: RequestInit): Promise<Response> {
+  return USE_MOCK_BACKEND ? mockFetch(url, init) : fetch(url, init);
+}
+
+/**
+ * fetch with a timeout. Connection failures are rethrown as NetworkError and
+ * aborted requests as TimeoutError.
+ */
+async function send(fullUrl: string, init: RequestInit, timeout: number, networkHint = DEVICE_HINT) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    return await apiFetch(fullUrl, { ...init, signal: controller.signal });
+  } catch (error: any) {
+    if (controller.signal.aborted) {
+      throw new TimeoutError(fullUrl, timeout);
+    }
+    if (error.message?.includes('Network request failed') || error.message?.includes('Failed to fetch')) {
+      throw new NetworkError(fullUrl, `Cannot connect to backend at ${fullUrl}. ${networkHint}`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Every 401 means the session is gone, whichever screen made the request
+function toApiError(fullUrl: string, status: number, statusText: string, text: string) {
+  if (status === 401) {
+    notifyUnauthorized();
+  }
+  return errorFromResponse(fullUrl, status, statusText, text);
+}
+
+async function throwIfResNotOk(res: Response, fullUrl: string) {
   if (!res.ok) {
-    const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    const text = await res.text();
+    throw toApiError(fullUrl, res.status, res.statusText, text);
   }
 }
 
+// Only failures that might go away on their own are worth retrying
+function isRetryable(error: unknown) {
+  return error instanceof NetworkError || error instanceof TimeoutError || error instanceof ServerError;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface RequestOptions {
+  // Hold the request on a 401 until the user signs back in (default). Callers
+  // that must not block, like the outbox replay, get the UnauthorizedError instead
+  waitForReauth?: boolean;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  { waitForReauth = true }: RequestOptions = {},
 ): Promise<Response> {
-  let fullUrl = url.startsWith('http') ? url : `${API_URL}${url}`;
-  fullUrl = preferIPv4(fullUrl);
+  const fullUrl = await resolveUrl(url);
   
   if (__DEV__) {
     console.log(`API Request: ${method} ${fullUrl}`, data);
   }
   
-  try {
-    const res = await fetch(fullUrl, {
+  const sendMutation = (headers: Record<string, string>) =>
+    send(fullUrl, {
       method,
-      headers: data ? { 'Content-Type': 'application/json' } : {},
+      headers: { ...headers, ...(data ? { 'Content-Type': 'application/json' } : {}) },
       body: data ? JSON.stringify(data) : undefined,
       credentials: 'include', // Important for session cookies
-    });
+    }, NETWORK_TIMEOUT,
+      `If testing on a physical device, make sure:\n` +
+      `1. Backend is running\n` +
+      `2. You're using your computer's IP address (not localhost)\n` +
+      `3. Phone and computer are on the same WiFi network\n` +
+      `Add or select your server under More > Server (e.g., http://192.168.1.100:5000)`
+    );
 
-    await throwIfResNotOk(res);
-    return res;
-  } catch (error: any) {
-    if (error.message?.includes('Network request failed') || error.message?.includes('Failed to fetch')) {
-      throw new Error(
-        `Cannot connect to backend at ${fullUrl}. ` +
-        `If testing on a physical device, make sure:\n` +
-        `1. Backend is running\n` +
-        `2. You're using your computer's IP address (not localhost)\n` +
-        `3. Phone and computer are on the same WiFi network\n` +
-        `Set EXPO_PUBLIC_API_URL in .env file (e.g., http://192.168.1.100:5000)`
-      );
+  // Mutations are not retried on failure (the outbox decides what to resend),
+  // except after an expired session below
+  const headers = await authHeaders();
+  let res = await sendMutation(headers);
+
+  // The session expired mid-save: hold the request while the user signs in
+  // again, then send it once more with the new session instead of losing it
+  if (res.status === 401 && headers.Authorization && waitForReauth) {
+    if (!(await notifyUnauthorized())) {
+      throw errorFromResponse(fullUrl, res.status, res.statusText, await res.text());
     }
-    throw error;
+    res = await sendMutation(await authHeaders());
   }
+
+  await throwIfResNotOk(res, fullUrl);
+  return res;
 }
 
+// GETs are idempotent, so network failures, timeouts and 5xx responses are
+// retried with exponential backoff before the error reaches the caller
 export async function apiGet<T>(url: string): Promise<T> {
-  let fullUrl = url.startsWith('http') ? url : `${API_URL}${url}`;
-  fullUrl = preferIPv4(fullUrl);
+  const fullUrl = await resolveUrl(url);
   
   if (__DEV__) {
     console.log(`API GET: ${fullUrl}`);
   }
   
-  try {
-    const res = await fetch(fullUrl, {
-      credentials: 'include',
-    });
-
-    if (res.status === 401) {
-      throw new Error('Unauthorized');
-    }
-
-    await throwIfResNotOk(res);
-    return await res.json();
-  } catch (error: any) {
-    if (error.message?.includes('Network request failed') || error.message?.includes('Failed to fetch')) {
-      throw new Error(
-        `Cannot connect to backend at ${fullUrl}. ` +
-        `If testing on a physical device, use your computer's IP address instead of localhost.`
-      );
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const res = await send(fullUrl, { headers: await authHeaders(), credentials: 'include' }, NETWORK_TIMEOUT);
+      await throwIfResNotOk(res, fullUrl);
+      return await res.json();
+    } catch (error) {
+      if (attempt >= MAX_GET_RETRIES || !isRetryable(error)) {
+        throw error;
+      }
+      await sleep(RETRY_BASE_DELAY * 2 ** attempt);
     }
-    throw error;
   }
 }
 
-export async function uploadReceiptImage(uri: string): Promise<any> {
-  let fullUrl = `${API_URL}/api/receipts/upload`;
-  fullUrl = preferIPv4(fullUrl);
-  
+export interface UploadOptions {
+  fileField: string; // Multipart field name the backend reads the file from
+  fields?: Record<string, string>;
+  onProgress?: (progress: number) => void; // 0..1
+  signal?: AbortSignal;
+}
+
+function buildFormData(uri: string, { fileField, fields = {} }: UploadOptions) {
+  const formData = new FormData();
+
+  // Extract filename from URI or use a default
+  const filename = uri.split('/').pop() || 'photo.jpg';
+  const match = /\.(\w+)$/.exec(filename);
+  const type = match ? `image/${match[1]}` : 'image/jpeg';
+
+  // @ts-ignore - FormData append types are complex in React Native
+  formData.append(fileField, {
+    uri,
+    name: filename,
+    type,
+  } as any);
+
+  Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+  return formData;
+}
+
+/**
+ * POSTs one local file as multipart/form-data and returns the parsed response.
+ * Uses XMLHttpRequest because fetch can't report upload progress; failures are
+ * the same typed errors apiRequest throws, plus CancelledError on abort.
+ */
+export async function apiUpload(url: string, uri: string, options: UploadOptions): Promise<unknown> {
+  const fullUrl = await resolveUrl(url);
+  const body = buildFormData(uri, options);
+  const { onProgress, signal } = options;
+  const headers = await authHeaders();
+
   if (__DEV__) {
-    console.log(`Uploading receipt image: ${fullUrl}`);
+    console.log(`API Upload: ${fullUrl}`);
   }
-  
-  try {
-    // Create FormData for multipart/form-data upload
-    const formData = new FormData();
-    
-    // Extract filename from URI or use a default
-    const filename = uri.split('/').pop() || 'receipt.jpg';
-    const match = /\.(\w+)$/.exec(filename);
-    const type = match ? `image/${match[1]}` : 'image/jpeg';
-    
-    // Backend expects 'files' field (array) and scanWithOCR flag
-    // @ts-ignore - FormData append types are complex in React Native
-    formData.append('files', {
-      uri,
-      name: filename,
-      type,
-    } as any);
-    
-    // Request OCR processing
-    formData.append('scanWithOCR', 'true');
-    // Optional: add notes field if needed
-    // formData.append('notes', '');
-
-    const res = await fetch(fullUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-      body: formData,
-      credentials: 'include',
-    });
-
-    if (res.status === 401) {
-      throw new Error('Unauthorized');
-    }
 
-    await throwIfResNotOk(res);
-    const result = await res.json();
-    
-    // Backend returns an array of receipt records
-    // If OCR completed, the first item should have expenseData
-    if (Array.isArray(result) && result.length > 0) {
-      return result[0]; // Return the first receipt (we only upload one at a time)
-    }
-    
-    return result;
-  } catch (error: any) {
-    if (error.message?.includes('Network request failed') || error.message?.includes('Failed to fetch')) {
-      throw new Error(
-        `Cannot connect to backend at ${fullUrl}. ` +
-        `If testing on a physical device, use your computer's IP address instead of localhost.`
-      );
+  if (signal?.aborted) {
+    throw new CancelledError(fullUrl);
+  }
+
+  if (USE_MOCK_BACKEND) {
+    onProgress?.(0);
+    const res = await send(fullUrl, { method: 'POST', headers, body }, UPLOAD_TIMEOUT);
+    if (signal?.aborted) {
+      throw new CancelledError(fullUrl);
     }
-    throw error;
+    await throwIfResNotOk(res, fullUrl);
+    onProgress?.(1);
+    return res.json();
   }
-}
 
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', fullUrl);
+    xhr.withCredentials = true; // Important for session cookies
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    // Server-side OCR runs inside the request, so uploads get a longer timeout
+    xhr.timeout = UPLOAD_TIMEOUT;
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && event.total > 0) {
+        onProgress?.(event.loaded / event.total);
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(toApiError(fullUrl, xhr.status, '', xhr.responseText));
+        return;
+      }
+      try {
+        resolve(xhr.responseText ? JSON.parse(xhr.responseText) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    };
+    xhr.onerror = () => reject(new NetworkError(fullUrl, `Cannot connect to backend at ${fullUrl}. ${DEVICE_HINT}`));
+    xhr.ontimeout = () => reject(new TimeoutError(fullUrl, UPLOAD_TIMEOUT));
+    xhr.onabort = () => reject(new CancelledError(fullUrl));
+    signal?.addEventListener('abort', () => xhr.abort());
+
+    xhr.send(body);
+  });
+}
@@ -0,0 +1,186 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+
+// Optional PIN (plus Face ID / fingerprint) lock in front of the app. The
+// settings live in AsyncStorage; the PIN is only ever stored as a salted hash
+// in the device keychain, together with the failed-attempt count so that
+// restarting the app doesn't reset it.
+
+const STORAGE_KEY = '@app_lock';
+const PIN_KEY = 'app_lock_pin';
+
+export const PIN_LENGTH = 4;
+export const MAX_PIN_ATTEMPTS = 5; // After this the PIN has to be reset by signing in again
+
+export const LOCK_TIMEOUT_OPTIONS = [
+  { label: 'Immediately', seconds: 0 },
+  { label: 'After 1 minute', seconds: 60 },
+  { label: 'After 5 minutes', seconds: 5 * 60 },
+  { label: 'After 15 minutes', seconds: 15 * 60 },
+  { label: 'After 1 hour', seconds: 60 * 60 },
+];
+
+export interface AppLockSettings {
+  enabled: boolean;
+  useBiometrics: boolean;
+  timeoutSeconds: number; // Time in the background before the app locks again
+  pinResetPending: boolean; // PIN was forgotten; ask for a new one after the next sign-in
+}
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+  failedAttempts: number;
+}
+
+const defaultSettings: AppLockSettings = {
+  enabled: false,
+  useBiometrics: true,
+  timeoutSeconds: 60,
+  pinResetPending: false,
+};
+
+let settings = defaultSettings;
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+async function persist(next: AppLockSettings) {
+  settings = next;
+  notify();
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error saving app lock settings:', error);
+  }
+}
+
+async function readPin(): Promise<StoredPin | null> {
+  const stored = await SecureStore.getItemAsync(PIN_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+async function writePin(pin: StoredPin) {
+  await SecureStore.setItemAsync(PIN_KEY, JSON.stringify(pin));
+}
+
+function hashPin(pin: string, salt: string) {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+}
+
+export function loadAppLock(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          settings = { ...defaultSettings, ...JSON.parse(stored) };
+          notify();
+        }
+      } catch (error) {
+        console.error('Error loading app lock settings:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+export function getAppLockSettings(): AppLockSettings {
+  return settings;
+}
+
+export function subscribeToAppLock(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Saves a new PIN and turns the lock on (also used to change the PIN)
+export async function setPin(pin: string) {
+  const salt = Array.from(Crypto.getRandomBytes(16), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  await writePin({ salt, hash: await hashPin(pin, salt), failedAttempts: 0 });
+  await persist({ ...settings, enabled: true, pinResetPending: false });
+}
+
+/**
+ * Checks a PIN entered on the lock screen. Wrong guesses are counted across
+ * restarts; once none are left the PIN can only be reset by signing in again.
+ */
+export async function verifyPin(pin: string): Promise<{ ok: boolean; attemptsLeft: number }> {
+  const stored = await readPin();
+  if (!stored || stored.failedAttempts >= MAX_PIN_ATTEMPTS) {
+    return { ok: false, attemptsLeft: 0 };
+  }
+
+  if ((await hashPin(pin, stored.salt)) === stored.hash) {
+    if (stored.failedAttempts > 0) await writePin({ ...stored, failedAttempts: 0 });
+    return { ok: true, attemptsLeft: MAX_PIN_ATTEMPTS };
+  }
+
+  const failedAttempts = stored.failedAttempts + 1;
+  await writePin({ ...stored, failedAttempts });
+  return { ok: false, attemptsLeft: MAX_PIN_ATTEMPTS - failedAttempts };
+}
+
+export async function getRemainingPinAttempts() {
+  const stored = await readPin();
+  return stored ? MAX_PIN_ATTEMPTS - stored.failedAttempts : 0;
+}
+
+export async function updateAppLockSettings(changes: Partial<Pick<AppLockSettings, 'useBiometrics' | 'timeoutSeconds'>>) {
+  await persist({ ...settings, ...changes });
+}
+
+// Turns the lock off and forgets the PIN; `pinResetPending` asks for a new one after signing back in
+export async function clearAppLock({ pinResetPending = false } = {}) {
+  try {
+    await SecureStore.deleteItemAsync(PIN_KEY);
+  } catch (error) {
+    console.error('Error clearing app lock PIN:', error);
+  }
+  await persist({ ...defaultSettings, pinResetPending });
+}
+
+export async function dismissPinReset() {
+  await persist({ ...settings, pinResetPending: false });
+}
+
+/**
+ * Name of the biometric unlock this device offers ("Face ID", "Fingerprint"...),
+ * or null when there is no hardware or nothing is enrolled.
+ */
+export async function getBiometricLabel(): Promise<string | null> {
+  try {
+    if (!(await LocalAuthentication.hasHardwareAsync()) || !(await LocalAuthentication.isEnrolledAsync())) {
+      return null;
+    }
+    const types = await LocalAuthentication.supportedAuthenticationTypesAsync();
+    if (types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)) return 'Face ID';
+    if (types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) return 'Fingerprint';
+    return 'Biometrics';
+  } catch (error) {
+    console.error('Error checking biometrics:', error);
+    return null;
+  }
+}
+
+export async function authenticateWithBiometrics(): Promise<boolean> {
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage: 'Unlock Crew Books',
+      cancelLabel: 'Use PIN',
+      // The app's own PIN is the fallback, not the device passcode
+      disableDeviceFallback: true,
+    });
+    return result.success;
+  } catch (error) {
+    console.error('Error during biometric unlock:', error);
+    return false;
+  }
+}
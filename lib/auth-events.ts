@@ -0,0 +1,45 @@
+// Lets the API layer report an ended session (any 401) without depending on
+// React. AuthProvider listens, switches every consumer to signed out and
+// reports back once the user has signed in again, so requests that were
+// paused for the login screen can be sent again.
+
+type UnauthorizedListener = () => void;
+
+const listeners = new Set<UnauthorizedListener>();
+
+let pendingSignIn: { promise: Promise<boolean>; resolve: (resumed: boolean) => void } | null = null;
+
+/**
+ * Reports that the session has ended. Resolves true once the same user has
+ * signed back in, or false if they signed out or a different account signed
+ * in instead. Every 401 until then shares the one pending sign-in.
+ */
+export function notifyUnauthorized(): Promise<boolean> {
+  if (!pendingSignIn) {
+    let resolve!: (resumed: boolean) => void;
+    const promise = new Promise<boolean>((resolvePromise) => {
+      resolve = resolvePromise;
+    });
+    pendingSignIn = { promise, resolve };
+    listeners.forEach((listener) => listener());
+  }
+  return pendingSignIn.promise;
+}
+
+export function isAwaitingSignIn() {
+  return pendingSignIn !== null;
+}
+
+// Called by AuthProvider when the user signs back in (resumed) or gives up
+export function finishPendingSignIn(resumed: boolean) {
+  const pending = pendingSignIn;
+  pendingSignIn = null;
+  pending?.resolve(resumed);
+}
+
+export function subscribeToUnauthorized(listener: UnauthorizedListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
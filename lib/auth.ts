@@ -0,0 +1,84 @@
+import { isAuthRetryableFetchError } from '@supabase/supabase-js';
+import * as Linking from 'expo-linking';
+import { supabase } from './supabase';
+
+// Sign-in through Supabase Auth: email + password, emailed sign-in codes
+// (the same email carries a magic link) and password reset by code. The
+// session is persisted by the Supabase client; lib/api.ts sends its access
+// token with every backend request.
+
+// Where magic links and reset links return to, e.g. crewbooksmobile://login
+const redirectTo = Linking.createURL('login');
+
+function throwIfError<T extends { error: Error | null }>(result: T): T {
+  if (result.error) throw result.error;
+  return result;
+}
+
+export async function signInWithPassword(email: string, password: string) {
+  throwIfError(await supabase.auth.signInWithPassword({ email, password }));
+}
+
+// Emails a 6-digit code and a magic link; either one signs the user in
+export async function sendSignInCode(email: string) {
+  throwIfError(await supabase.auth.signInWithOtp({ email, options: { emailRedirectTo: redirectTo } }));
+}
+
+export async function verifySignInCode(email: string, code: string) {
+  throwIfError(await supabase.auth.verifyOtp({ email, token: code, type: 'email' }));
+}
+
+export async function sendPasswordResetCode(email: string) {
+  throwIfError(await supabase.auth.resetPasswordForEmail(email, { redirectTo }));
+}
+
+// Verifying the reset code signs the user in, which allows setting the new password
+export async function resetPassword(email: string, code: string, password: string) {
+  throwIfError(await supabase.auth.verifyOtp({ email, token: code, type: 'recovery' }));
+  throwIfError(await supabase.auth.updateUser({ password }));
+}
+
+/**
+ * Finishes sign-in from a magic link that opened the app. Returns false when
+ * the URL is not an auth redirect.
+ */
+export async function completeSignInFromUrl(url: string): Promise<boolean> {
+  // Tokens arrive in the fragment (implicit flow); errors may come in either part
+  const params = new URLSearchParams(url.split('#')[1] ?? url.split('?')[1] ?? '');
+  const error = params.get('error_description');
+  if (error) {
+    throw new Error(error.replace(/\+/g, ' '));
+  }
+
+  const accessToken = params.get('access_token');
+  const refreshToken = params.get('refresh_token');
+  if (!accessToken || !refreshToken) return false;
+
+  throwIfError(await supabase.auth.setSession({ access_token: accessToken, refresh_token: refreshToken }));
+  return true;
+}
+
+// Current access token, refreshed first if it has expired; null when signed out
+export async function getAccessToken(): Promise<string | null> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
+// Whether a session is stored on this device. Unlike getAccessToken this stays
+// true offline, when an expired access token can't be refreshed yet.
+export async function hasStoredSession(): Promise<boolean> {
+  const { data, error } = await supabase.auth.getSession();
+  return !!data.session || (!!error && isAuthRetryableFetchError(error));
+}
+
+export async function signOutOfSupabase() {
+  // 'local' ends only this device's session, not the user's other devices
+  throwIfError(await supabase.auth.signOut({ scope: 'local' }));
+}
+
+export function getAuthErrorMessage(error: unknown, fallback: string) {
+  if (isAuthRetryableFetchError(error)) {
+    return 'Cannot reach the sign-in server. Check your connection and try again.';
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
@@ -0,0 +1,82 @@
+import { routes } from './endpoints';
+import { getErrorStatus, isNetworkError } from './errors';
+
+// Vehicle business-use percentages per tax year, shared by the Dashboard and
+// Expenses screens so both compute deductible amounts from the same numbers.
+// One batched request covers every vehicle; concurrent callers asking for the
+// same vehicles share it.
+
+const STALE_TIME = 30 * 1000; // Same freshness window as lib/store.ts
+
+interface CachedPercentages {
+  percentages: Map<string, number>;
+  fetchedAt: number;
+}
+
+// Keyed by tax year and vehicle ids, so asking for more vehicles fetches again
+const cache = new Map<string, CachedPercentages>();
+const inFlight = new Map<string, Promise<Map<string, number>>>();
+
+function getCacheKey(taxYear: number, vehicleIds: string[]) {
+  return `${taxYear}:${[...vehicleIds].sort().join(',')}`;
+}
+
+// Servers without the batch endpoint, or a batch request that failed to go
+// through, can still get answers from the per-vehicle route
+async function fetchEach(taxYear: number, vehicleIds: string[]) {
+  const percentages = new Map<string, number>();
+  await Promise.all(
+    vehicleIds.map(async (vehicleId) => {
+      try {
+        const response = await routes.vehicles.businessUsePercentage.call({ vehicleId, taxYear });
+        percentages.set(vehicleId, response.businessUsePercentage);
+      } catch (error) {
+        console.error(`Error fetching business use for vehicle ${vehicleId}:`, error);
+      }
+    })
+  );
+  return percentages;
+}
+
+async function fetchPercentages(taxYear: number, vehicleIds: string[]) {
+  try {
+    const response = await routes.vehicles.businessUsePercentages.call({ taxYear });
+    return new Map(response.vehicles.map((vehicle) => [vehicle.vehicleId, vehicle.businessUsePercentage]));
+  } catch (error) {
+    if (getErrorStatus(error) !== 404 && !isNetworkError(error)) throw error;
+    return fetchEach(taxYear, vehicleIds);
+  }
+}
+
+/**
+ * Business-use percentage (0-100) per vehicle id for a tax year. Vehicles the
+ * server has no figure for are left out; callers treat those as 100%.
+ */
+export async function fetchBusinessUsePercentages(
+  taxYear: number,
+  vehicleIds: string[]
+): Promise<Map<string, number>> {
+  const key = getCacheKey(taxYear, vehicleIds);
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < STALE_TIME) {
+    return cached.percentages;
+  }
+
+  if (!inFlight.has(key)) {
+    inFlight.set(key, (async () => {
+      try {
+        const percentages = await fetchPercentages(taxYear, vehicleIds);
+        cache.set(key, { percentages, fetchedAt: Date.now() });
+        return percentages;
+      } finally {
+        inFlight.delete(key);
+      }
+    })());
+  }
+  return inFlight.get(key)!;
+}
+
+// Forgets cached percentages (used when the user signs out or switches server)
+export function clearBusinessUse() {
+  cache.clear();
+}
@@ -0,0 +1,59 @@
+import { roundToCents } from './deductions';
+
+// Capital cost allowance (CCA) on equipment and vehicles bought for the
+// business, limited to the first-year claim: enough to show what a purchase
+// does to this year's tax. Assumes the property is bought and put to use in
+// the tax year and claims the full amount allowed.
+
+export type CcaClassCode = '8' | '10' | '10.1' | '12' | '50';
+
+export interface CcaClass {
+  code: CcaClassCode;
+  label: string;
+  rate: number; // Declining-balance rate
+  halfYearExempt?: boolean; // Not subject to the half-year rule
+}
+
+export const CCA_CLASSES: CcaClass[] = [
+  { code: '8', label: 'Equipment (camera, lighting, sound)', rate: 0.2 },
+  { code: '10', label: 'Vehicles', rate: 0.3 },
+  { code: '10.1', label: 'Passenger vehicles over the cost limit', rate: 0.3 },
+  { code: '12', label: 'Small tools under $500', rate: 1, halfYearExempt: true },
+  { code: '50', label: 'Computers and software', rate: 0.55 },
+];
+
+// Class 10.1 cost limit (before sales tax) by the year the car was bought;
+// years without their own entry use the closest earlier one
+const PASSENGER_VEHICLE_COST_LIMITS: Record<number, number> = {
+  2001: 30000,
+  2022: 34000,
+  2023: 36000,
+  2024: 37000,
+};
+
+export function getCcaClass(code: CcaClassCode): CcaClass {
+  return CCA_CLASSES.find((ccaClass) => ccaClass.code === code) ?? CCA_CLASSES[0];
+}
+
+export function getPassengerVehicleCostLimit(taxYear: number): number {
+  const years = Object.keys(PASSENGER_VEHICLE_COST_LIMITS).map(Number).sort((a, b) => a - b);
+  const year = years.filter((candidate) => candidate <= taxYear).pop() ?? years[0];
+  return PASSENGER_VEHICLE_COST_LIMITS[year];
+}
+
+// Share of the class rate claimable in the year of purchase. The Accelerated
+// Investment Incentive lifts it to 1.5x for 2019-2023 and sets the half-year
+// rule aside for 2024-2027; otherwise only half the rate is allowed.
+function firstYearFactor(taxYear: number, ccaClass: CcaClass) {
+  if (taxYear >= 2019 && taxYear <= 2023) return 1.5;
+  if (taxYear >= 2024 && taxYear <= 2027) return 1;
+  return ccaClass.halfYearExempt ? 1 : 0.5;
+}
+
+/** CCA that can be claimed in the year an asset is bought. */
+export function firstYearCca(cost: number, code: CcaClassCode, taxYear: number): number {
+  const ccaClass = getCcaClass(code);
+  const capitalCost = code === '10.1' ? Math.min(cost, getPassengerVehicleCostLimit(taxYear)) : cost;
+  if (capitalCost <= 0) return 0;
+  return roundToCents(Math.min(capitalCost, capitalCost * ccaClass.rate * firstYearFactor(taxYear, ccaClass)));
+}
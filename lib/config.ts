@@ -10,6 +10,10 @@
 //
 // Current detected IP: 192.168.1.73
 // Update this default if your IP changes or use EXPO_PUBLIC_API_URL environment variable
+//
+// This is only the "Default" server profile. Other backends (staging, production,
+// a different Wi-Fi address) can be added and selected at runtime from
+// More > Server; see lib/server-profiles.ts
 
 const API_BASE_URL = 
   process.env.EXPO_PUBLIC_API_URL || 
@@ -17,7 +21,12 @@ const API_BASE_URL =
 
 export const API_URL = API_BASE_URL;
 
+// Serve every /api route from the in-process mock backend (lib/mock-backend.ts)
+// instead of the network, for demos, screenshots and UI tests that run offline.
+// Turn on with EXPO_PUBLIC_USE_MOCK_BACKEND=true
+export const USE_MOCK_BACKEND = process.env.EXPO_PUBLIC_USE_MOCK_BACKEND === 'true';
+
 // Log the API URL for debugging
 if (__DEV__) {
-  console.log('API URL:', API_URL);
+  console.log('API URL:', USE_MOCK_BACKEND ? 'mock backend' : API_URL);
 }
@@ -0,0 +1,138 @@
+import { getProvinceRules } from './provinces';
+import { EXPENSE_TYPES, type Expense, HOME_OFFICE_LIVING_CATEGORIES, type User } from './types';
+
+// What part of an expense is tax-deductible, and how much of its GST (and in
+// Quebec, QST) can be claimed back as an input tax credit or refund. Pure
+// functions of the expense and the user's percentages, so the Dashboard,
+// Expenses and GST/HST screens all arrive at the same figures.
+
+export interface DeductionContext {
+  homeOfficePercentage?: number | string | null; // From the user's profile, 0-100
+  vehicleBusinessUse?: Map<string, number>; // Business-use % per vehicle id for the tax year
+  claimsQst?: boolean; // Quebec registrants recover QST (stored as pstAmount) like GST
+}
+
+export interface DeductibleAmounts {
+  deductibleAmount: number; // Base cost, plus PST unless it's recovered as QST
+  deductibleGst: number; // GST that can be claimed as an ITC
+  deductibleQst: number; // QST that can be claimed as an input tax refund (ITR)
+}
+
+const NOT_DEDUCTIBLE: DeductibleAmounts = { deductibleAmount: 0, deductibleGst: 0, deductibleQst: 0 };
+
+// API amounts arrive as numbers or numeric strings; anything unparseable counts as 0
+function toAmount(value: number | string | null | undefined): number {
+  const amount = typeof value === 'number' ? value : parseFloat(value ?? '');
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+// A percentage as a 0-1 share, or `fallback` when not set
+function toShare(percentage: number | string | null | undefined, fallback: number): number {
+  if (percentage === null || percentage === undefined || percentage === '') return fallback;
+  return Math.min(Math.max(toAmount(percentage), 0), 100) / 100;
+}
+
+export function roundToCents(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+function applyShare({ deductibleAmount, deductibleGst, deductibleQst }: DeductibleAmounts, share: number): DeductibleAmounts {
+  return { deductibleAmount: deductibleAmount * share, deductibleGst: deductibleGst * share, deductibleQst: deductibleQst * share };
+}
+
+function isHomeOfficeLivingCategory(category: string) {
+  return (HOME_OFFICE_LIVING_CATEGORIES as readonly string[]).includes(category);
+}
+
+/**
+ * Deductible amount, GST and QST of one expense, rounded to cents. Expenses saved
+ * without a base cost (older entries, quick adds) use the total minus its taxes.
+ */
+export function calculateDeductible(expense: Expense, context: DeductionContext = {}): DeductibleAmounts {
+  // Only expenses explicitly marked deductible count
+  if (!expense.isTaxDeductible) return NOT_DEDUCTIBLE;
+
+  const gstAmount = toAmount(expense.gstAmount);
+  const pstAmount = toAmount(expense.pstAmount);
+  const baseCost =
+    expense.baseCost !== undefined && expense.baseCost !== null && expense.baseCost !== ''
+      ? toAmount(expense.baseCost)
+      : Math.max(toAmount(expense.amount) - gstAmount - pstAmount, 0);
+
+  // Recovered QST comes back as a refund, so like GST it isn't also an expense
+  const full: DeductibleAmounts = context.claimsQst
+    ? { deductibleAmount: baseCost, deductibleGst: gstAmount, deductibleQst: pstAmount }
+    : { deductibleAmount: baseCost + pstAmount, deductibleGst: gstAmount, deductibleQst: 0 };
+  // A home office percentage of 0 means none was entered: the whole expense counts
+  const homeOfficeShare = context.homeOfficePercentage ? toShare(context.homeOfficePercentage, 1) : 1;
+  let result: DeductibleAmounts;
+
+  switch (expense.expenseType || EXPENSE_TYPES.SELF_EMPLOYMENT) {
+    case EXPENSE_TYPES.PERSONAL:
+      return NOT_DEDUCTIBLE;
+
+    case EXPENSE_TYPES.HOME_OFFICE_LIVING:
+      // Only the home office's share of rent, utilities and the like
+      result = applyShare(full, homeOfficeShare);
+      break;
+
+    case EXPENSE_TYPES.VEHICLE: {
+      // Business use from the vehicle's odometer entries; 100% until there are any
+      const businessUse = expense.vehicleId ? context.vehicleBusinessUse?.get(expense.vehicleId) : undefined;
+      result = applyShare(full, toShare(businessUse, 1));
+      break;
+    }
+
+    case EXPENSE_TYPES.MIXED:
+      // Only the business portion, further limited to the home office share
+      // for home office/living categories
+      result = applyShare(full, toShare(expense.businessUsePercentage, 0));
+      if (isHomeOfficeLivingCategory(expense.category)) result = applyShare(result, homeOfficeShare);
+      break;
+
+    case EXPENSE_TYPES.SELF_EMPLOYMENT:
+    default:
+      // Self-employment expenses, and any type added since, are fully deductible
+      result = full;
+  }
+
+  return {
+    deductibleAmount: roundToCents(result.deductibleAmount),
+    deductibleGst: roundToCents(result.deductibleGst),
+    deductibleQst: roundToCents(result.deductibleQst),
+  };
+}
+
+// Totals of the per-expense figures, so a summary always equals the sum of its rows
+export function sumDeductible(expenses: Expense[], context: DeductionContext = {}): DeductibleAmounts {
+  return expenses.reduce<DeductibleAmounts>(
+    (totals, expense) => {
+      const { deductibleAmount, deductibleGst, deductibleQst } = calculateDeductible(expense, context);
+      return {
+        deductibleAmount: roundToCents(totals.deductibleAmount + deductibleAmount),
+        deductibleGst: roundToCents(totals.deductibleGst + deductibleGst),
+        deductibleQst: roundToCents(totals.deductibleQst + deductibleQst),
+      };
+    },
+    NOT_DEDUCTIBLE
+  );
+}
+
+// The user-level settings that feed the calculation
+export function getDeductionContext(user: User | null, vehicleBusinessUse?: Map<string, number>): DeductionContext {
+  return {
+    homeOfficePercentage: user?.homeOfficePercentage,
+    vehicleBusinessUse,
+    // GST registrants in Quebec are registered for QST as well
+    claimsQst: getProvinceRules(user?.province).code === 'QC' && user?.hasGstNumber === true,
+  };
+}
+
+// Vehicles whose business-use percentage is needed to work out these expenses
+export function getDeductionVehicleIds(expenses: Expense[]): string[] {
+  const ids = new Set<string>();
+  expenses.forEach((expense) => {
+    if (expense.expenseType === EXPENSE_TYPES.VEHICLE && expense.vehicleId) ids.add(expense.vehicleId);
+  });
+  return Array.from(ids);
+}
@@ -0,0 +1,118 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Half-filled entry forms (expense, income, mileage log, vehicle), saved as
+// the user types so an incoming call, an app kill or a swiped-away modal
+// doesn't lose them. One draft per form and record: editing an existing
+// record keys the draft by its id, a new entry by "new".
+
+const STORAGE_KEY = '@drafts';
+const SAVE_DELAY = 500; // Typing only writes to storage once it pauses
+
+export type DraftForm = 'expense' | 'income' | 'mileage' | 'vehicle';
+
+export const NEW_DRAFT_ID = 'new';
+
+export interface Draft<T = unknown> {
+  form: DraftForm;
+  entityId: string; // Record being edited, or NEW_DRAFT_ID
+  label: string; // Shown in the Dashboard's list, e.g. "Staples · $45.00"
+  context?: Record<string, string>; // What the form was opened for, e.g. { vehicleId } for mileage logs
+  values: T;
+  updatedAt: number;
+}
+
+let drafts: Draft[] = [];
+let loadPromise: Promise<void> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+async function persist() {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+  } catch (error) {
+    console.error('Error saving drafts:', error);
+  }
+}
+
+function schedulePersist() {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    persist();
+  }, SAVE_DELAY);
+}
+
+function isDraft(draft: Draft, form: DraftForm, entityId: string) {
+  return draft.form === form && draft.entityId === entityId;
+}
+
+export function loadDrafts(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          const restored: Draft[] = JSON.parse(stored);
+          // Drafts saved since launch win over the stored copy of the same form
+          drafts = [
+            ...restored.filter((draft) => !drafts.some((current) => isDraft(current, draft.form, draft.entityId))),
+            ...drafts,
+          ];
+          notify();
+        }
+      } catch (error) {
+        console.error('Error loading drafts:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+// Newest first
+export function getDrafts(): Draft[] {
+  return [...drafts].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getDraft<T>(form: DraftForm, entityId: string = NEW_DRAFT_ID): Draft<T> | undefined {
+  return drafts.find((draft) => isDraft(draft, form, entityId)) as Draft<T> | undefined;
+}
+
+export function subscribeToDrafts(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function saveDraft<T>(draft: Omit<Draft<T>, 'updatedAt'>) {
+  drafts = [
+    ...drafts.filter((current) => !isDraft(current, draft.form, draft.entityId)),
+    { ...draft, updatedAt: Date.now() },
+  ];
+  notify();
+  schedulePersist();
+}
+
+export function clearDraft(form: DraftForm, entityId: string = NEW_DRAFT_ID) {
+  if (!getDraft(form, entityId)) return;
+  drafts = drafts.filter((draft) => !isDraft(draft, form, entityId));
+  notify();
+  schedulePersist();
+}
+
+// Drops every draft (used when the user signs out or switches server)
+export async function clearDrafts() {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = null;
+  drafts = [];
+  notify();
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing drafts:', error);
+  }
+}
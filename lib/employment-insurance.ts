@@ -0,0 +1,36 @@
+import { type ProvinceCode } from './provinces';
+
+// Employment Insurance premiums withheld on T4 employment income. Quebec has
+// its own parental insurance plan (QPIP), so its residents pay a lower EI rate.
+// Premiums paid earn a non-refundable credit, and anything withheld beyond the
+// year's maximum comes back with the return.
+
+export interface EiParameters {
+  maxInsurableEarnings: number;
+  rate: number; // Employee rate
+}
+
+// Keyed by tax year: [maximum insurable earnings, rate, Quebec rate]
+const EI_RATES: Record<number, [number, number, number]> = {
+  2020: [54200, 0.0158, 0.012],
+  2021: [56300, 0.0158, 0.0118],
+  2022: [60300, 0.0158, 0.012],
+  2023: [61500, 0.0163, 0.0127],
+  2024: [63200, 0.0166, 0.0132],
+  2025: [65700, 0.0164, 0.0131],
+  2026: [68900, 0.0163, 0.013],
+};
+
+const LATEST_YEAR = 2026; // Later years use these figures until the table is updated
+const EARLIEST_YEAR = 2020;
+
+export function getEiParameters(year: number, province: ProvinceCode): EiParameters {
+  const [maxInsurableEarnings, rate, quebecRate] = EI_RATES[Math.min(Math.max(year, EARLIEST_YEAR), LATEST_YEAR)];
+  return { maxInsurableEarnings, rate: province === 'QC' ? quebecRate : rate };
+}
+
+// What employers should withhold on a year's insurable earnings
+export function eiPremiums(insurableEarnings: number, year: number, province: ProvinceCode) {
+  const { maxInsurableEarnings, rate } = getEiParameters(year, province);
+  return Math.max(0, Math.min(insurableEarnings, maxInsurableEarnings)) * rate;
+}
@@ -0,0 +1,432 @@
+import { apiGet, apiRequest } from './api';
+import { array, boolean, number, numeric, object, oneOf, optional, Schema, SchemaError, string, unknown } from './schema';
+import type {
+  BusinessUsePercentage,
+  BusinessUsePercentages,
+  DashboardData,
+  Expense,
+  GstHstSummary,
+  Income,
+  InstalmentPayment,
+  OdometerPhoto,
+  Paystub,
+  Receipt,
+  T4Slip,
+  TaxCalculation,
+  TaxCalculationResponse,
+  TaxSavingsTransfer,
+  User,
+  Vehicle,
+  VehicleBusinessUse,
+  VehicleMileageLog,
+} from './types';
+
+// Every backend route the app calls, declared once with its params, request
+// body and response schema. Responses are validated before they reach a screen.
+
+export type MutationMethod = 'POST' | 'PATCH' | 'DELETE';
+
+// Request bodies may send null to clear a field
+export type Payload<T> = { [K in keyof T]?: T[K] | null };
+
+export class ResponseValidationError extends Error {
+  constructor(public route: string, public cause: SchemaError) {
+    super(`Unexpected response from ${route}: ${cause.message}`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+export interface Route<Params, Body, Result> {
+  method: 'GET' | MutationMethod;
+  path: (params: Params) => string;
+  parse: (data: unknown, url?: string) => Result;
+  call: (params: Params, body?: Body) => Promise<Result>;
+}
+
+// Incremental sync: `since` is the cursor from the previous response, and
+// `taxYear` limits a full listing to one year
+export interface SyncParams {
+  since?: string;
+  taxYear?: number;
+}
+
+// Records changed since the cursor, ids deleted since (tombstones) and the next cursor
+export interface ChangeSet<T> {
+  items: T[];
+  deleted: string[];
+  cursor: string;
+}
+
+export interface MutationRoute<Params, Body, Result> extends Route<Params, Body, Result> {
+  method: MutationMethod;
+  // Method, URL and body for callers that send the request themselves (the offline outbox)
+  request: (params: Params, body?: Body) => { method: MutationMethod; url: string; data?: Body };
+}
+
+export function validateResponse<Result>(schema: Schema<Result>, data: unknown, route: string): Result {
+  try {
+    return schema(data, '');
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      const validationError = new ResponseValidationError(route, error);
+      console.error(validationError.message);
+      throw validationError;
+    }
+    throw error;
+  }
+}
+
+async function readJson(res: Response) {
+  const text = await res.text();
+  return text ? JSON.parse(text) : undefined;
+}
+
+function get<Params = void, Result = unknown>(
+  path: (params: Params) => string,
+  response: Schema<Result>,
+): Route<Params, void, Result> {
+  const parse = (data: unknown, url = '') => validateResponse(response, data, `GET ${url}`);
+  return {
+    method: 'GET',
+    path,
+    parse,
+    call: async (params) => {
+      const url = path(params);
+      return parse(await apiGet<unknown>(url), url);
+    },
+  };
+}
+
+function syncQuery({ since, taxYear }: SyncParams) {
+  const query = [
+    since !== undefined && `since=${encodeURIComponent(since)}`,
+    taxYear !== undefined && `taxYear=${taxYear}`,
+  ].filter(Boolean);
+  return query.length > 0 ? `?${query.join('&')}` : '';
+}
+
+function changes<T>(path: string, item: Schema<T>): Route<SyncParams, void, ChangeSet<T>> {
+  return get(
+    (params: SyncParams) => `${path}${syncQuery(params)}`,
+    object<ChangeSet<T>>({ items: array(item), deleted: array(string()), cursor: string() })
+  );
+}
+
+function mutation<Params = void, Body = void, Result = unknown>(
+  method: MutationMethod,
+  path: (params: Params) => string,
+  response: Schema<Result> = unknown() as Schema<Result>,
+): MutationRoute<Params, Body, Result> {
+  const parse = (data: unknown, url = '') => validateResponse(response, data, `${method} ${url}`);
+  return {
+    method,
+    path,
+    parse,
+    request: (params, body) => ({ method, url: path(params), data: body }),
+    call: async (params, body) => {
+      const url = path(params);
+      return parse(await readJson(await apiRequest(method, url, body)), url);
+    },
+  };
+}
+
+// Schemas
+
+const mileageLoggingStyles = ['trip_distance', 'odometer'] as const;
+
+export const userSchema = object<User>({
+  id: string(),
+  email: optional(string()),
+  firstName: optional(string()),
+  lastName: optional(string()),
+  hasGstNumber: optional(boolean()),
+  homeOfficePercentage: optional(numeric()),
+  enabledExpenseCategories: optional(array(string())),
+  enabledPersonalExpenseCategories: optional(array(string())),
+  enabledGeneralExpenseCategories: optional(array(string())),
+  mileageLoggingStyle: optional(oneOf(mileageLoggingStyles)),
+  subscriptionTier: optional(string()),
+  hasRegularEmployment: optional(boolean()),
+});
+
+export const incomeSchema = object<Income>({
+  id: string(),
+  amount: numeric(),
+  date: string(),
+  incomeType: string(),
+  productionName: optional(string()),
+  accountingOffice: optional(string()),
+  gstHstCollected: optional(numeric()),
+  dues: optional(numeric()),
+  retirement: optional(numeric()),
+  labour: optional(numeric()),
+  buyout: optional(numeric()),
+  pension: optional(numeric()),
+  insurance: optional(numeric()),
+});
+
+export const expenseSchema = object<Expense>({
+  id: string(),
+  amount: numeric(),
+  baseCost: optional(numeric()),
+  gstAmount: optional(numeric()),
+  pstAmount: optional(numeric()),
+  date: string(),
+  title: optional(string()),
+  category: string(),
+  subcategory: optional(string()),
+  vehicleId: optional(string()),
+  vendor: optional(string()),
+  description: optional(string()),
+  isTaxDeductible: optional(boolean()),
+  expenseType: optional(string()),
+  businessUsePercentage: optional(numeric()),
+});
+
+export const vehicleSchema = object<Vehicle>({
+  id: string(),
+  name: string(),
+  make: optional(string()),
+  model: optional(string()),
+  isPrimary: optional(boolean()),
+  usedExclusivelyForBusiness: optional(boolean()),
+  claimsCca: optional(boolean()),
+  currentMileage: optional(numeric()),
+  totalAnnualMileage: optional(numeric()),
+  purchasePrice: optional(numeric()),
+});
+
+export const mileageLogSchema = object<VehicleMileageLog>({
+  id: string(),
+  vehicleId: string(),
+  date: string(),
+  odometerReading: numeric(),
+  description: optional(string()),
+  isBusinessUse: optional(boolean()),
+});
+
+export const receiptSchema = object<Receipt>({
+  id: string(),
+  imageUrl: string(),
+  uploadedAt: optional(string()),
+  linkedExpenseId: optional(string()),
+  ocrStatus: optional(string()),
+});
+
+export const paystubSchema = object<Paystub>({
+  id: string(),
+  imageUrl: string(),
+  uploadedAt: optional(string()),
+  linkedIncomeId: optional(string()),
+});
+
+export const odometerPhotoSchema = object<OdometerPhoto>({
+  id: string(),
+  vehicleId: string(),
+  imageUrl: optional(string()),
+  photoUrl: optional(string()),
+  photoDate: optional(string()),
+  readingDate: optional(string()),
+  mileage: optional(numeric()),
+});
+
+export const t4SlipSchema = object<T4Slip>({
+  id: string(),
+  taxYear: number(),
+  employer: string(),
+  employmentIncome: numeric(),
+  incomeTaxDeducted: optional(numeric()),
+  cppContributions: optional(numeric()),
+  eiPremiums: optional(numeric()),
+  unionDues: optional(numeric()),
+  photoUrl: optional(string()),
+});
+
+export const instalmentPaymentSchema = object<InstalmentPayment>({
+  id: string(),
+  taxYear: number(),
+  dueDate: string(),
+  paidDate: string(),
+  amount: numeric(),
+  note: optional(string()),
+});
+
+export const taxSavingsTransferSchema = object<TaxSavingsTransfer>({
+  id: string(),
+  taxYear: number(),
+  date: string(),
+  amount: numeric(),
+  note: optional(string()),
+});
+
+const businessUseSchema = object<BusinessUsePercentage>({
+  businessUsePercentage: number(),
+  totalMileage: optional(number()),
+  isEstimate: optional(boolean()),
+});
+
+const businessUsePercentagesSchema = object<BusinessUsePercentages>({
+  taxYear: number(),
+  vehicles: array(
+    object<VehicleBusinessUse>({
+      vehicleId: string(),
+      businessUsePercentage: number(),
+      totalMileage: optional(number()),
+      isEstimate: optional(boolean()),
+    })
+  ),
+});
+
+const taxCalculationSchema = object<TaxCalculation>({
+  grossIncome: number(),
+  netIncome: number(),
+  totalExpenses: number(),
+  federalTax: number(),
+  provincialTax: number(),
+  cppContribution: number(),
+  totalOwed: number(),
+  marginalTaxRate: number(),
+  effectiveTaxRate: number(),
+});
+
+const taxCalculationResponseSchema = object<TaxCalculationResponse>({
+  calculation: taxCalculationSchema,
+  user: object<TaxCalculationResponse['user']>({ subscriptionTier: optional(string()) }),
+});
+
+const gstHstSummarySchema = object<GstHstSummary>({
+  gstHstCollected: number(),
+  inputTaxCredits: number(),
+  netGstHstOwing: number(),
+  transactionsWithGstHst: number(),
+});
+
+const dashboardSchema = object<DashboardData>({
+  income: array(incomeSchema),
+  expenses: array(expenseSchema),
+  taxCalculation: object<DashboardData['taxCalculation']>({
+    grossIncome: number(),
+    federalTax: number(),
+    provincialTax: number(),
+    cppContribution: number(),
+  }),
+});
+
+const mileageLoggingStyleSchema = object<{ mileageLoggingStyle: (typeof mileageLoggingStyles)[number] }>({
+  mileageLoggingStyle: oneOf(mileageLoggingStyles),
+});
+
+// Routes
+
+type Id = { id: string };
+type DeleteLinked = { deleteLinked: boolean };
+
+export const routes = {
+  auth: {
+    user: get(() => '/api/auth/user', userSchema),
+    // Ends the backend's cookie session; its response expires the session cookie
+    logout: mutation('POST', () => '/api/logout'),
+  },
+  user: {
+    profile: get(() => '/api/user/profile', userSchema),
+    updateProfile: mutation<void, Payload<User>>('PATCH', () => '/api/user/profile'),
+    mileageLoggingStyle: get(() => '/api/user/mileage-logging-style', mileageLoggingStyleSchema),
+    updateMileageLoggingStyle: mutation<void, { mileageLoggingStyle: string }>('PATCH', () => '/api/user/mileage-logging-style'),
+  },
+  dashboard: get(() => '/api/dashboard', dashboardSchema),
+  taxCalculation: get(
+    ({ taxYear }: { taxYear: number }) => `/api/tax-calculation?taxYear=${taxYear}`,
+    taxCalculationResponseSchema
+  ),
+  gstHst: get(({ taxYear }: { taxYear: number }) => `/api/gst-hst?taxYear=${taxYear}`, gstHstSummarySchema),
+  expenses: {
+    list: get(() => '/api/expenses', array(expenseSchema)),
+    changes: changes('/api/expenses/changes', expenseSchema),
+    create: mutation<void, Payload<Expense>, Expense>('POST', () => '/api/expenses', expenseSchema),
+    update: mutation<Id, Payload<Expense>, Expense>('PATCH', ({ id }) => `/api/expenses/${id}`, expenseSchema),
+    remove: mutation<Id>('DELETE', ({ id }) => `/api/expenses/${id}`),
+  },
+  income: {
+    list: get(() => '/api/income', array(incomeSchema)),
+    changes: changes('/api/income/changes', incomeSchema),
+    create: mutation<void, Payload<Income>, Income>('POST', () => '/api/income', incomeSchema),
+    update: mutation<Id, Payload<Income>, Income>('PATCH', ({ id }) => `/api/income/${id}`, incomeSchema),
+    remove: mutation<Id>('DELETE', ({ id }) => `/api/income/${id}`),
+  },
+  vehicles: {
+    list: get(() => '/api/vehicles', array(vehicleSchema)),
+    create: mutation<void, Payload<Vehicle>, Vehicle>('POST', () => '/api/vehicles', vehicleSchema),
+    update: mutation<Id, Payload<Vehicle>, Vehicle>('PATCH', ({ id }) => `/api/vehicles/${id}`, vehicleSchema),
+    remove: mutation<Id>('DELETE', ({ id }) => `/api/vehicles/${id}`),
+    businessUsePercentage: get(
+      ({ vehicleId, taxYear }: { vehicleId: string; taxYear: number }) =>
+        `/api/vehicles/${vehicleId}/business-use-percentage?taxYear=${taxYear}`,
+      businessUseSchema
+    ),
+    businessUsePercentages: get(
+      ({ taxYear }: { taxYear: number }) => `/api/vehicles/business-use-percentages?taxYear=${taxYear}`,
+      businessUsePercentagesSchema
+    ),
+    odometerPhotos: get(
+      ({ vehicleId }: { vehicleId: string }) => `/api/vehicles/${vehicleId}/odometer-photos`,
+      array(odometerPhotoSchema)
+    ),
+    updateOdometerPhoto: mutation<{ vehicleId: string; id: string }, Payload<OdometerPhoto>>(
+      'PATCH',
+      ({ vehicleId, id }) => `/api/vehicles/${vehicleId}/odometer-photos/${id}`
+    ),
+    removeOdometerPhoto: mutation<{ vehicleId: string; id: string }>(
+      'DELETE',
+      ({ vehicleId, id }) => `/api/vehicles/${vehicleId}/odometer-photos/${id}`
+    ),
+  },
+  mileageLogs: {
+    list: get(
+      ({ vehicleId }: { vehicleId: string }) => `/api/vehicles/${vehicleId}/mileage-logs`,
+      array(mileageLogSchema)
+    ),
+    create: mutation<{ vehicleId: string }, Payload<VehicleMileageLog>, VehicleMileageLog>(
+      'POST',
+      ({ vehicleId }) => `/api/vehicles/${vehicleId}/mileage-logs`,
+      mileageLogSchema
+    ),
+    update: mutation<Id, Payload<VehicleMileageLog>, VehicleMileageLog>(
+      'PATCH',
+      ({ id }) => `/api/mileage-logs/${id}`,
+      mileageLogSchema
+    ),
+    remove: mutation<Id>('DELETE', ({ id }) => `/api/mileage-logs/${id}`),
+  },
+  receipts: {
+    list: get(() => '/api/receipts', array(receiptSchema)),
+    remove: mutation<Id, DeleteLinked>('DELETE', ({ id }) => `/api/receipts/${id}`),
+  },
+  paystubs: {
+    list: get(() => '/api/paystubs', array(paystubSchema)),
+    remove: mutation<Id, DeleteLinked>('DELETE', ({ id }) => `/api/paystubs/${id}`),
+  },
+  t4Slips: {
+    list: get(() => '/api/t4-slips', array(t4SlipSchema)),
+    create: mutation<void, Payload<T4Slip>, T4Slip>('POST', () => '/api/t4-slips', t4SlipSchema),
+    update: mutation<Id, Payload<T4Slip>, T4Slip>('PATCH', ({ id }) => `/api/t4-slips/${id}`, t4SlipSchema),
+    remove: mutation<Id>('DELETE', ({ id }) => `/api/t4-slips/${id}`),
+  },
+  instalmentPayments: {
+    list: get(() => '/api/instalment-payments', array(instalmentPaymentSchema)),
+    create: mutation<void, Payload<InstalmentPayment>, InstalmentPayment>(
+      'POST',
+      () => '/api/instalment-payments',
+      instalmentPaymentSchema
+    ),
+    remove: mutation<Id>('DELETE', ({ id }) => `/api/instalment-payments/${id}`),
+  },
+  taxSavingsTransfers: {
+    list: get(() => '/api/tax-savings-transfers', array(taxSavingsTransferSchema)),
+    create: mutation<void, Payload<TaxSavingsTransfer>, TaxSavingsTransfer>(
+      'POST',
+      () => '/api/tax-savings-transfers',
+      taxSavingsTransferSchema
+    ),
+    remove: mutation<Id>('DELETE', ({ id }) => `/api/tax-savings-transfers/${id}`),
+  },
+};
@@ -0,0 +1,151 @@
+// Typed errors thrown by lib/api.ts. Screens branch on the error class (or its
+// `kind`) instead of matching text in the message.
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'validation'
+  | 'server'
+  | 'cancelled'
+  | 'http';
+
+export class ApiError extends Error {
+  constructor(
+    public kind: ApiErrorKind,
+    message: string,
+    public status: number | null = null,
+    public url = '',
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// The request never reached the server (no signal, backend down, wrong address)
+export class NetworkError extends ApiError {
+  constructor(url: string, message: string) {
+    super('network', message, null, url);
+    this.name = 'NetworkError';
+  }
+}
+
+// No response within the timeout; the server may or may not have seen the request
+export class TimeoutError extends ApiError {
+  constructor(url: string, public timeoutMs: number) {
+    super('timeout', `Request to ${url} timed out after ${Math.round(timeoutMs / 1000)}s`, null, url);
+    this.name = 'TimeoutError';
+  }
+}
+
+// 401: the session is missing or expired
+export class UnauthorizedError extends ApiError {
+  constructor(url: string, message = 'Unauthorized') {
+    super('unauthorized', message, 401, url);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// 403: the user's subscription tier doesn't include this feature
+export class ForbiddenError extends ApiError {
+  constructor(url: string, message = 'This feature is not included in your subscription') {
+    super('forbidden', message, 403, url);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// 400/422: the server rejected the request body. `fieldErrors` maps field name to message
+export class ValidationError extends ApiError {
+  constructor(
+    url: string,
+    status: number,
+    message: string,
+    public fieldErrors: Record<string, string> = {},
+  ) {
+    super('validation', message, status, url);
+    this.name = 'ValidationError';
+  }
+}
+
+// 5xx: the server failed while handling a valid request
+export class ServerError extends ApiError {
+  constructor(url: string, status: number, message: string) {
+    super('server', message, status, url);
+    this.name = 'ServerError';
+  }
+}
+
+// The caller aborted the request (e.g. the user cancelled an upload)
+export class CancelledError extends ApiError {
+  constructor(url: string) {
+    super('cancelled', 'Request was cancelled', null, url);
+    this.name = 'CancelledError';
+  }
+}
+
+// True when the server can't be reached right now, so retrying later may succeed
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+// True when a write can be queued and sent again without applying it twice:
+// it never reached the server, or repeating it is harmless. A POST that timed
+// out may already have created the record, so it is not resent.
+export function isSafeToResend(error: unknown, method: string): boolean {
+  if (error instanceof NetworkError) return true;
+  return error instanceof TimeoutError && method.toUpperCase() !== 'POST';
+}
+
+export function getErrorStatus(error: unknown): number | null {
+  return error instanceof ApiError ? error.status : null;
+}
+
+// Accepts `{ errors: [{ path, message }] }` (zod issues), `{ errors: { field: message } }`
+// and `{ fieldErrors: { field: message | message[] } }`
+function parseFieldErrors(body: any): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  const source = body?.fieldErrors ?? body?.errors;
+  if (Array.isArray(source)) {
+    source.forEach((issue) => {
+      const path = Array.isArray(issue?.path) ? issue.path.join('.') : issue?.path ?? issue?.field;
+      if (path && issue?.message) fieldErrors[String(path)] = String(issue.message);
+    });
+  } else if (source && typeof source === 'object') {
+    Object.entries(source).forEach(([field, message]) => {
+      const first = Array.isArray(message) ? message[0] : message;
+      if (first) fieldErrors[field] = String(first);
+    });
+  }
+  return fieldErrors;
+}
+
+// Builds the typed error for a non-2xx response from its status and body text
+export function errorFromResponse(url: string, status: number, statusText: string, text: string): ApiError {
+  let body: any;
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    body = undefined;
+  }
+  const message = (typeof body?.message === 'string' && body.message) || (body ? '' : text) || statusText || `HTTP ${status}`;
+
+  if (status === 401) return new UnauthorizedError(url, message);
+  if (status === 403) return new ForbiddenError(url, message);
+  if (status === 400 || status === 422) return new ValidationError(url, status, message, parseFieldErrors(body));
+  if (status >= 500) return new ServerError(url, status, message);
+  return new ApiError('http', message, status, url);
+}
+
+// Alert text for a failed save: the server's field messages when it rejected
+// the input, otherwise the generic fallback
+export function getSaveErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ValidationError) {
+    const fields = Object.entries(error.fieldErrors).map(([field, message]) => `${field}: ${message}`);
+    return fields.length > 0 ? fields.join('\n') : error.message;
+  }
+  if (error instanceof TimeoutError) {
+    return 'The server took too long to respond. Check whether it was saved before trying again.';
+  }
+  return fallback;
+}
@@ -123,3 +123,13 @@ export function formatDate(date: string | Date): string {
   }).format(d);
 }
 
+
+// "just now", "5 min ago", "3 h ago", then the date
+export function formatTimeAgo(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return formatDate(new Date(timestamp));
+}
@@ -0,0 +1,195 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { formatCurrency, formatDate } from './format';
+import { type InstalmentOption } from './instalments';
+
+// Instalment planner choices kept on the device: the payment option picked
+// for each tax year, prior-year balances typed in from a Notice of
+// Assessment, and local reminders ahead of each due date. Payments made are
+// recorded on the server (routes.instalmentPayments).
+
+const STORAGE_KEY = '@instalment_planner';
+const CHANNEL_ID = 'tax-instalments';
+
+export const REMINDER_DAYS_BEFORE = 7;
+const REMINDER_HOUR = 9; // Local time
+
+export interface InstalmentPlannerSettings {
+  remindersEnabled: boolean;
+  options: Record<number, InstalmentOption>; // By tax year
+  assessedBalances: Record<number, number>; // By tax year; replaces the on-device estimate for that year
+  reminderIds: string[]; // Scheduled notifications, cancelled before rescheduling
+}
+
+export interface InstalmentReminder {
+  dueDate: string; // YYYY-MM-DD
+  amount: number;
+}
+
+const defaultSettings: InstalmentPlannerSettings = {
+  remindersEnabled: false,
+  options: {},
+  assessedBalances: {},
+  reminderIds: [],
+};
+
+let settings = defaultSettings;
+let loadPromise: Promise<void> | null = null;
+// Reminder changes run one at a time so each cancels what the previous one scheduled
+let reminderQueue: Promise<unknown> = Promise.resolve();
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+async function persist(next: InstalmentPlannerSettings) {
+  settings = next;
+  notify();
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error saving instalment planner:', error);
+  }
+}
+
+export function loadInstalmentPlanner(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          settings = { ...defaultSettings, ...JSON.parse(stored) };
+          notify();
+        }
+      } catch (error) {
+        console.error('Error loading instalment planner:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+export function getInstalmentPlanner(): InstalmentPlannerSettings {
+  return settings;
+}
+
+export function subscribeToInstalmentPlanner(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function setInstalmentOption(taxYear: number, option: InstalmentOption) {
+  await persist({ ...settings, options: { ...settings.options, [taxYear]: option } });
+}
+
+// Pass null to go back to the on-device estimate
+export async function setAssessedBalance(taxYear: number, amount: number | null) {
+  const assessedBalances = { ...settings.assessedBalances };
+  if (amount === null) {
+    delete assessedBalances[taxYear];
+  } else {
+    assessedBalances[taxYear] = amount;
+  }
+  await persist({ ...settings, assessedBalances });
+}
+
+async function requestPermission() {
+  if (Platform.OS === 'android') {
+    // Android 13+ only asks for permission once a channel exists
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Tax instalments',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+function queueReminderChange<T>(change: () => Promise<T>): Promise<T> {
+  const result = reminderQueue.then(change);
+  reminderQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function cancelReminders() {
+  await Promise.all(
+    settings.reminderIds.map((id) =>
+      Notifications.cancelScheduledNotificationAsync(id).catch((error) => {
+        console.error('Error cancelling instalment reminder:', error);
+      })
+    )
+  );
+}
+
+/**
+ * Turns reminders on or off. Returns false when notification permission
+ * was refused, leaving reminders off.
+ */
+export async function setRemindersEnabled(enabled: boolean): Promise<boolean> {
+  if (enabled && !(await requestPermission())) {
+    return false;
+  }
+  await queueReminderChange(async () => {
+    if (!enabled) {
+      await cancelReminders();
+    }
+    await persist({ ...settings, remindersEnabled: enabled, reminderIds: enabled ? settings.reminderIds : [] });
+  });
+  return true;
+}
+
+/**
+ * Replaces the scheduled reminders with one per upcoming instalment, sent
+ * REMINDER_DAYS_BEFORE days ahead of its due date. Instalments already
+ * paid in full should be left out. Does nothing while reminders are off.
+ */
+export function scheduleInstalmentReminders(reminders: InstalmentReminder[]) {
+  return queueReminderChange(() => replaceReminders(reminders));
+}
+
+async function replaceReminders(reminders: InstalmentReminder[]) {
+  if (!settings.remindersEnabled) return;
+
+  await cancelReminders();
+  const reminderIds: string[] = [];
+  for (const { dueDate, amount } of reminders) {
+    const [year, month, day] = dueDate.split('-').map((part) => parseInt(part, 10));
+    const remindAt = new Date(year, month - 1, day - REMINDER_DAYS_BEFORE, REMINDER_HOUR);
+    if (amount <= 0 || remindAt.getTime() <= Date.now()) continue;
+
+    try {
+      const id = await Notifications.scheduleNotificationAsync({
+        content: {
+          title: `Tax instalment due ${formatDate(dueDate)}`,
+          body: `${formatCurrency(amount)} is due to the CRA in ${REMINDER_DAYS_BEFORE} days.`,
+        },
+        trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: remindAt, channelId: CHANNEL_ID },
+      });
+      reminderIds.push(id);
+    } catch (error) {
+      console.error('Error scheduling instalment reminder:', error);
+    }
+  }
+  await persist({ ...settings, reminderIds });
+}
+
+// Cancels reminders and forgets the planner (used when the user signs out or switches server)
+export async function clearInstalmentPlanner() {
+  await loadInstalmentPlanner(); // Reminder ids scheduled in an earlier session
+  await queueReminderChange(async () => {
+    await cancelReminders();
+    settings = defaultSettings;
+    notify();
+  });
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing instalment planner:', error);
+  }
+}
@@ -0,0 +1,94 @@
+import { roundToCents } from './deductions';
+import { type ProvinceCode } from './provinces';
+import { type TaxEstimate } from './tax-engine';
+
+// CRA quarterly tax instalments. They're required when net tax owing is over
+// the threshold for the year and for either of the two years before it, and
+// are due March 15, June 15, September 15 and December 15.
+//
+// The CRA charges no instalment interest when the payments follow its
+// no-calculation option or the prior-year option, even if the year ends up
+// owing more. The current-year option is cheaper when income drops, but is
+// charged interest if the estimate turns out too low.
+//
+// Quebec residents pay provincial instalments to Revenu Québec, so only
+// federal tax counts towards the CRA's (lower) threshold and payments.
+
+export type InstalmentOption = 'noCalculation' | 'priorYear' | 'currentYear';
+
+export const INSTALMENT_OPTIONS: { key: InstalmentOption; label: string; description: string }[] = [
+  {
+    key: 'noCalculation',
+    label: 'No-calculation',
+    description: 'The amounts on the CRA reminders: March and June from two years ago, the rest from last year',
+  },
+  {
+    key: 'priorYear',
+    label: 'Prior-year',
+    description: "A quarter of last year's balance each time",
+  },
+  {
+    key: 'currentYear',
+    label: 'Current-year',
+    description: "A quarter of this year's estimate; interest applies if it falls short",
+  },
+];
+
+// Balance each payment option is based on, for the tax year and the two before it
+export interface InstalmentBases {
+  currentYear: number;
+  priorYear: number;
+  twoYearsAgo: number;
+}
+
+const THRESHOLD = 3000;
+const QUEBEC_THRESHOLD = 1800;
+const DUE_DATES = ['03-15', '06-15', '09-15', '12-15'];
+
+export function getInstalmentThreshold(province: ProvinceCode) {
+  return province === 'QC' ? QUEBEC_THRESHOLD : THRESHOLD;
+}
+
+// YYYY-MM-DD, in order
+export function getInstalmentDueDates(taxYear: number): string[] {
+  return DUE_DATES.map((monthDay) => `${taxYear}-${monthDay}`);
+}
+
+/**
+ * What instalments have to cover for a year: income tax and self-employed
+ * CPP contributions, less what employers withheld. In Quebec the QPP and
+ * provincial tax go to Revenu Québec, leaving federal tax only.
+ */
+export function getInstalmentBase(estimate: TaxEstimate) {
+  return estimate.pensionPlan.code === 'QPP' ? estimate.netTaxOwing : Math.max(0, estimate.totalOwed);
+}
+
+// Tested on the same bases the payments are worked out from, so the two always agree
+export function isInstalmentRequired(bases: InstalmentBases, province: ProvinceCode) {
+  const threshold = getInstalmentThreshold(province);
+  return bases.currentYear > threshold && (bases.priorYear > threshold || bases.twoYearsAgo > threshold);
+}
+
+// The four payments, in due-date order
+export function calculateInstalments(option: InstalmentOption, bases: InstalmentBases): number[] {
+  const quarterOf = (amount: number) => roundToCents(Math.max(0, amount) / 4);
+
+  switch (option) {
+    case 'noCalculation': {
+      // September and December make up whatever March and June left short of last year's balance
+      const early = quarterOf(bases.twoYearsAgo);
+      const late = roundToCents(Math.max(0, bases.priorYear - 2 * early) / 2);
+      return [early, early, late, late];
+    }
+    case 'priorYear':
+      return Array(4).fill(quarterOf(bases.priorYear));
+    case 'currentYear':
+      return Array(4).fill(quarterOf(bases.currentYear));
+  }
+}
+
+// The option with the lowest total that the CRA won't charge interest on
+export function getRecommendedOption(bases: InstalmentBases): InstalmentOption {
+  const total = (option: InstalmentOption) => calculateInstalments(option, bases).reduce((sum, amount) => sum + amount, 0);
+  return total('noCalculation') <= total('priorYear') ? 'noCalculation' : 'priorYear';
+}
@@ -0,0 +1,738 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createAuthState, createDefaultFixtures, createSyncState, type MockDatabase, type SyncedCollection } from './mock-fixtures';
+import { getProvinceRules } from './provinces';
+import { estimateTax } from './tax-engine';
+import type { BusinessUsePercentage, Expense, Income, TaxCalculation } from './types';
+
+// In-process stand-in for the backend. When USE_MOCK_BACKEND is on
+// (lib/config.ts) apiFetch sends every request here instead of the network.
+// Data lives in memory and is persisted to AsyncStorage so it survives reloads.
+
+const STORAGE_KEY = '@mock-backend';
+const MOCK_LATENCY = 150; // Keeps loading states visible, as against a real server
+const MOCK_SESSION_TTL = 60 * 60; // Seconds, like Supabase's default JWT expiry
+
+// Every emailed sign-in or password reset code is this in the stand-in
+export const MOCK_SIGN_IN_CODE = '123456';
+
+let db: MockDatabase | null = null;
+let loading: Promise<MockDatabase> | null = null;
+let nextId = 1;
+
+class MockHttpError extends Error {
+  constructor(public status: number, message: string, public body: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+async function getDatabase(): Promise<MockDatabase> {
+  if (db) return db;
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        db = stored ? JSON.parse(stored) : createDefaultFixtures();
+        // Data saved before change tracking / sign-in existed
+        db!.sync ??= createSyncState();
+        db!.auth ??= createAuthState();
+        db!.t4Slips ??= [];
+        db!.instalmentPayments ??= [];
+        db!.taxSavingsTransfers ??= [];
+      } catch (error) {
+        console.error('Error loading mock backend data:', error);
+        db = createDefaultFixtures();
+      }
+      loading = null;
+      return db!;
+    })();
+  }
+  return loading;
+}
+
+async function save() {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+  } catch (error) {
+    console.error('Error saving mock backend data:', error);
+  }
+}
+
+// Replaces the mock data with the default fixtures, overridden by `fixtures`
+export async function seedMockBackend(fixtures: Partial<MockDatabase> = {}) {
+  db = { ...createDefaultFixtures(), ...fixtures };
+  await save();
+}
+
+export function resetMockBackend() {
+  return seedMockBackend();
+}
+
+function createId(prefix: string) {
+  return `mock-${prefix}-${Date.now().toString(36)}${nextId++}`;
+}
+
+function yearOf(date: string | undefined) {
+  return date ? parseInt(date.slice(0, 4), 10) : NaN;
+}
+
+function toNumber(value: unknown) {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(number) ? number : 0;
+}
+
+function requireFields(body: Record<string, any>, fields: string[]) {
+  const missing = fields.filter((field) => body[field] === undefined || body[field] === null || body[field] === '');
+  if (missing.length > 0) {
+    throw new MockHttpError(400, 'Invalid request', {
+      errors: missing.map((field) => ({ path: [field], message: 'Required' })),
+    });
+  }
+}
+
+function findOr404<T extends { id: string }>(items: T[], id: string): T {
+  const item = items.find((candidate) => candidate.id === id);
+  if (!item) throw new MockHttpError(404, 'Not found');
+  return item;
+}
+
+function update<T extends { id: string }>(items: T[], id: string, changes: Partial<T>): T {
+  const item = findOr404(items, id);
+  Object.assign(item, changes, { id, updatedAt: new Date().toISOString() });
+  return item;
+}
+
+function remove<T extends { id: string }>(items: T[], id: string): T[] {
+  findOr404(items, id);
+  return items.filter((item) => item.id !== id);
+}
+
+// Marks a record as changed so the next /changes request returns it
+function touch(data: MockDatabase, collection: SyncedCollection, id: string) {
+  data.sync.seq += 1;
+  data.sync.versions[`${collection}/${id}`] = data.sync.seq;
+}
+
+function tombstone(data: MockDatabase, collection: SyncedCollection, id: string) {
+  data.sync.seq += 1;
+  delete data.sync.versions[`${collection}/${id}`];
+  data.sync.tombstones.push({ collection, id, seq: data.sync.seq });
+}
+
+// Without `since` this is a full (optionally year-scoped) listing; with it, only
+// records changed after that cursor plus the ids deleted since
+function listChanges(data: MockDatabase, collection: SyncedCollection, query: Record<string, string>) {
+  const since = query.since ? parseInt(query.since, 10) : null;
+  if (since !== null && (isNaN(since) || since > data.sync.seq)) {
+    throw new MockHttpError(410, 'Sync cursor is no longer valid');
+  }
+  const taxYear = query.taxYear ? parseInt(query.taxYear, 10) : null;
+  const items = (data[collection] as (Expense | Income)[]).filter(
+    (item) =>
+      (since === null || (data.sync.versions[`${collection}/${item.id}`] ?? 0) > since) &&
+      (taxYear === null || yearOf(item.date) === taxYear)
+  );
+  const deleted =
+    since === null
+      ? []
+      : data.sync.tombstones
+          .filter((entry) => entry.collection === collection && entry.seq > since)
+          .map((entry) => entry.id);
+  return { items, deleted, cursor: String(data.sync.seq) };
+}
+
+// Reads multipart fields from React Native's FormData (getParts) or the web's
+function readFormData(body: unknown): Record<string, any> {
+  const fields: Record<string, any> = {};
+  const form = body as any;
+  if (typeof form?.getParts === 'function') {
+    form.getParts().forEach((part: any) => {
+      fields[part.fieldName] = part.uri ? { uri: part.uri, name: part.name, type: part.type } : part.string;
+    });
+  } else if (typeof form?.forEach === 'function') {
+    form.forEach((value: unknown, key: string) => {
+      fields[key] = value;
+    });
+  }
+  return fields;
+}
+
+// Same rules as the Mileage screen: each log's distance is measured from the
+// previous reading, and the first from the vehicle's starting mileage
+function getBusinessUse(data: MockDatabase, vehicleId: string, taxYear: number): BusinessUsePercentage {
+  const vehicle = findOr404(data.vehicles, vehicleId);
+  const logs = data.mileageLogs
+    .filter((log) => log.vehicleId === vehicleId && yearOf(log.date) === taxYear)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  let previous = toNumber(vehicle.currentMileage);
+  let total = 0;
+  let business = 0;
+  logs.forEach((log) => {
+    const distance = Math.max(0, toNumber(log.odometerReading) - previous);
+    previous = toNumber(log.odometerReading);
+    total += distance;
+    if (log.isBusinessUse !== false) business += distance;
+  });
+
+  if (total === 0) {
+    return { businessUsePercentage: vehicle.usedExclusivelyForBusiness ? 100 : 0, totalMileage: 0, isEstimate: true };
+  }
+  return { businessUsePercentage: Math.round((business / total) * 1000) / 10, totalMileage: total, isEstimate: false };
+}
+
+function getDeductibleAmount(data: MockDatabase, expense: Expense, taxYear: number) {
+  const amount = toNumber(expense.amount);
+  switch (expense.expenseType || 'self_employment') {
+    case 'personal':
+      return 0;
+    case 'home_office_living':
+      return (amount * toNumber(data.user.homeOfficePercentage)) / 100;
+    case 'vehicle':
+      return expense.vehicleId
+        ? (amount * getBusinessUse(data, expense.vehicleId, taxYear).businessUsePercentage) / 100
+        : 0;
+    default:
+      return expense.isTaxDeductible === false ? 0 : amount;
+  }
+}
+
+function calculateTax(data: MockDatabase, taxYear: number): TaxCalculation {
+  const income = data.income.filter((item: Income) => yearOf(item.date) === taxYear);
+  const expenses = data.expenses.filter((item) => yearOf(item.date) === taxYear);
+  const grossIncome = income.reduce((sum, item) => sum + toNumber(item.amount), 0);
+  const totalExpenses = expenses.reduce((sum, item) => sum + getDeductibleAmount(data, item, taxYear), 0);
+  const netIncome = Math.max(0, grossIncome - totalExpenses);
+
+  // Same engine as the app's offline estimate. Federal tax is before the
+  // Quebec abatement, which the app applies
+  const estimate = estimateTax({ taxYear, province: getProvinceRules(data.user.province).code, selfEmploymentIncome: netIncome });
+  const totalOwed = estimate.basicFederalTax + estimate.provincialTax + estimate.pensionContribution;
+
+  return {
+    grossIncome,
+    netIncome,
+    totalExpenses,
+    federalTax: estimate.basicFederalTax,
+    provincialTax: estimate.provincialTax,
+    cppContribution: estimate.pensionContribution,
+    totalOwed,
+    marginalTaxRate: estimate.marginalTaxRate,
+    effectiveTaxRate: grossIncome > 0 ? (totalOwed / grossIncome) * 100 : 0,
+  };
+}
+
+interface RequestContext {
+  data: MockDatabase;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: any;
+  token: string | null; // Bearer token from the Authorization header
+}
+
+type Handler = (context: RequestContext) => unknown;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+  public?: boolean;
+}
+
+const mockRoutes: MockRoute[] = [];
+
+function route(method: string, path: string, handler: Handler, options: { public?: boolean } = {}) {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    `^${path.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    })}$`
+  );
+  mockRoutes.push({ method, pattern, keys, handler, public: options.public });
+}
+
+function taxYearOf(query: Record<string, string>) {
+  return query.taxYear ? parseInt(query.taxYear, 10) : new Date().getFullYear();
+}
+
+// Supabase Auth stand-in: the subset of GoTrue's /auth/v1 API that lib/auth.ts
+// uses, so sign-in works with no Supabase project. Codes are always
+// MOCK_SIGN_IN_CODE and nothing is emailed.
+
+function findSession(data: MockDatabase, token: string | null) {
+  return data.auth.sessions.find(
+    (session) => session.accessToken === token && session.expiresAt > Date.now() / 1000
+  );
+}
+
+function authUser(email: string) {
+  return {
+    id: `mock-auth-${email}`,
+    aud: 'authenticated',
+    role: 'authenticated',
+    email,
+    app_metadata: { provider: 'email' },
+    user_metadata: {},
+    created_at: new Date(0).toISOString(),
+  };
+}
+
+function createSession(data: MockDatabase, email: string) {
+  const session = {
+    accessToken: createId('access'),
+    refreshToken: createId('refresh'),
+    email,
+    expiresAt: Math.floor(Date.now() / 1000) + MOCK_SESSION_TTL,
+  };
+  data.auth.sessions.push(session);
+  data.user = { ...data.user, email };
+  return {
+    access_token: session.accessToken,
+    refresh_token: session.refreshToken,
+    token_type: 'bearer',
+    expires_in: MOCK_SESSION_TTL,
+    expires_at: session.expiresAt,
+    user: authUser(email),
+  };
+}
+
+function requireSession(data: MockDatabase, token: string | null) {
+  const session = findSession(data, token);
+  if (!session) throw new MockHttpError(401, 'Invalid JWT', { error_code: 'bad_jwt' });
+  return session;
+}
+
+function sendCode(data: MockDatabase, email: string, type: 'email' | 'recovery') {
+  data.auth.pendingCodes = data.auth.pendingCodes.filter((code) => code.email !== email);
+  data.auth.pendingCodes.push({ email, type });
+  if (__DEV__) {
+    console.log(`Mock auth: ${type === 'recovery' ? 'password reset' : 'sign-in'} code for ${email} is ${MOCK_SIGN_IN_CODE}`);
+  }
+}
+
+route('POST', '/auth/v1/token', ({ data, query, body }) => {
+  if (query.grant_type === 'refresh_token') {
+    const session = data.auth.sessions.find((candidate) => candidate.refreshToken === body?.refresh_token);
+    if (!session) throw new MockHttpError(400, 'Invalid Refresh Token', { error_code: 'refresh_token_not_found' });
+    data.auth.sessions = data.auth.sessions.filter((candidate) => candidate !== session);
+    return createSession(data, session.email);
+  }
+  const email = String(body?.email ?? '').toLowerCase();
+  const account = data.auth.accounts.find((candidate) => candidate.email === email);
+  if (!account?.password || account.password !== body?.password) {
+    throw new MockHttpError(400, 'Invalid login credentials', { error_code: 'invalid_credentials' });
+  }
+  return createSession(data, email);
+}, { public: true });
+
+route('POST', '/auth/v1/otp', ({ data, body }) => {
+  requireFields(body ?? {}, ['email']);
+  const email = String(body.email).toLowerCase();
+  if (!data.auth.accounts.some((account) => account.email === email)) {
+    data.auth.accounts.push({ email });
+  }
+  sendCode(data, email, 'email');
+  return {};
+}, { public: true });
+
+route('POST', '/auth/v1/recover', ({ data, body }) => {
+  requireFields(body ?? {}, ['email']);
+  const email = String(body.email).toLowerCase();
+  // Same reply whether or not the account exists, as Supabase does
+  if (data.auth.accounts.some((account) => account.email === email)) {
+    sendCode(data, email, 'recovery');
+  }
+  return {};
+}, { public: true });
+
+route('POST', '/auth/v1/verify', ({ data, body }) => {
+  const email = String(body?.email ?? '').toLowerCase();
+  const type = body?.type === 'recovery' ? 'recovery' : 'email';
+  const pending = data.auth.pendingCodes.find((code) => code.email === email && code.type === type);
+  if (!pending || body?.token !== MOCK_SIGN_IN_CODE) {
+    throw new MockHttpError(403, 'Token has expired or is invalid', { error_code: 'otp_expired' });
+  }
+  data.auth.pendingCodes = data.auth.pendingCodes.filter((code) => code !== pending);
+  return createSession(data, email);
+}, { public: true });
+
+route('GET', '/auth/v1/user', ({ data, token }) => authUser(requireSession(data, token).email), { public: true });
+
+route('PUT', '/auth/v1/user', ({ data, token, body }) => {
+  const { email } = requireSession(data, token);
+  if (body?.password) {
+    data.auth.accounts = data.auth.accounts.map((account) =>
+      account.email === email ? { ...account, password: body.password } : account
+    );
+  }
+  return authUser(email);
+}, { public: true });
+
+route('POST', '/auth/v1/logout', ({ data, token }) => {
+  data.auth.sessions = data.auth.sessions.filter((session) => session.accessToken !== token);
+  return {};
+}, { public: true });
+
+// App auth
+
+route('GET', '/api/auth/user', ({ data }) => data.user);
+
+route('POST', '/api/logout', () => ({}), { public: true });
+
+// User
+
+route('GET', '/api/user/profile', ({ data }) => data.user);
+
+route('PATCH', '/api/user/profile', ({ data, body }) => {
+  data.user = { ...data.user, ...body, id: data.user.id };
+  return data.user;
+});
+
+route('GET', '/api/user/mileage-logging-style', ({ data }) => ({
+  mileageLoggingStyle: data.user.mileageLoggingStyle ?? 'trip_distance',
+}));
+
+route('PATCH', '/api/user/mileage-logging-style', ({ data, body }) => {
+  requireFields(body ?? {}, ['mileageLoggingStyle']);
+  data.user = { ...data.user, mileageLoggingStyle: body.mileageLoggingStyle };
+  return { mileageLoggingStyle: body.mileageLoggingStyle };
+});
+
+// Summaries
+
+route('GET', '/api/dashboard', ({ data }) => {
+  const { grossIncome, federalTax, provincialTax, cppContribution } = calculateTax(data, new Date().getFullYear());
+  return {
+    income: data.income,
+    expenses: data.expenses,
+    taxCalculation: { grossIncome, federalTax, provincialTax, cppContribution },
+  };
+});
+
+route('GET', '/api/tax-calculation', ({ data, query }) => {
+  if (data.user.subscriptionTier === 'basic') {
+    throw new MockHttpError(403, 'Tax tools require a Personal or Corporate subscription');
+  }
+  return {
+    calculation: calculateTax(data, taxYearOf(query)),
+    user: { subscriptionTier: data.user.subscriptionTier },
+  };
+});
+
+route('GET', '/api/gst-hst', ({ data, query }) => {
+  const taxYear = taxYearOf(query);
+  const income = data.income.filter((item) => yearOf(item.date) === taxYear && toNumber(item.gstHstCollected) > 0);
+  const expenses = data.expenses.filter((item) => yearOf(item.date) === taxYear && toNumber(item.gstAmount) > 0);
+  const gstHstCollected = income.reduce((sum, item) => sum + toNumber(item.gstHstCollected), 0);
+  const inputTaxCredits = expenses.reduce((sum, item) => sum + toNumber(item.gstAmount), 0);
+  return {
+    gstHstCollected,
+    inputTaxCredits,
+    netGstHstOwing: gstHstCollected - inputTaxCredits,
+    transactionsWithGstHst: income.length + expenses.length,
+  };
+});
+
+// Expenses and income
+
+route('GET', '/api/expenses', ({ data }) => data.expenses);
+
+route('GET', '/api/expenses/changes', ({ data, query }) => listChanges(data, 'expenses', query));
+
+route('POST', '/api/expenses', ({ data, body }) => {
+  requireFields(body ?? {}, ['amount', 'date', 'category']);
+  const expense = { ...body, id: createId('expense'), createdAt: new Date().toISOString() };
+  data.expenses.push(expense);
+  touch(data, 'expenses', expense.id);
+  return expense;
+});
+
+route('PATCH', '/api/expenses/:id', ({ data, params, body }) => {
+  const expense = update(data.expenses, params.id, body);
+  touch(data, 'expenses', expense.id);
+  return expense;
+});
+
+route('DELETE', '/api/expenses/:id', ({ data, params }) => {
+  data.expenses = remove(data.expenses, params.id);
+  tombstone(data, 'expenses', params.id);
+  return { success: true };
+});
+
+route('GET', '/api/income', ({ data }) => data.income);
+
+route('GET', '/api/income/changes', ({ data, query }) => listChanges(data, 'income', query));
+
+route('POST', '/api/income', ({ data, body }) => {
+  requireFields(body ?? {}, ['amount', 'date', 'incomeType']);
+  const income = { ...body, id: createId('income'), createdAt: new Date().toISOString() };
+  data.income.push(income);
+  touch(data, 'income', income.id);
+  return income;
+});
+
+route('PATCH', '/api/income/:id', ({ data, params, body }) => {
+  const income = update(data.income, params.id, body);
+  touch(data, 'income', income.id);
+  return income;
+});
+
+route('DELETE', '/api/income/:id', ({ data, params }) => {
+  data.income = remove(data.income, params.id);
+  tombstone(data, 'income', params.id);
+  return { success: true };
+});
+
+// Vehicles, mileage and odometer photos
+
+route('GET', '/api/vehicles', ({ data }) => data.vehicles);
+
+route('POST', '/api/vehicles', ({ data, body }) => {
+  requireFields(body ?? {}, ['name']);
+  const vehicle = { ...body, id: createId('vehicle'), createdAt: new Date().toISOString() };
+  if (vehicle.isPrimary) data.vehicles.forEach((other) => (other.isPrimary = false));
+  data.vehicles.push(vehicle);
+  return vehicle;
+});
+
+route('PATCH', '/api/vehicles/:id', ({ data, params, body }) => {
+  if (body?.isPrimary) data.vehicles.forEach((other) => (other.isPrimary = other.id === params.id));
+  return update(data.vehicles, params.id, body);
+});
+
+route('DELETE', '/api/vehicles/:id', ({ data, params }) => {
+  data.vehicles = remove(data.vehicles, params.id);
+  data.mileageLogs = data.mileageLogs.filter((log) => log.vehicleId !== params.id);
+  data.odometerPhotos = data.odometerPhotos.filter((photo) => photo.vehicleId !== params.id);
+  return { success: true };
+});
+
+route('GET', '/api/vehicles/:vehicleId/business-use-percentage', ({ data, params, query }) =>
+  getBusinessUse(data, params.vehicleId, taxYearOf(query))
+);
+
+route('GET', '/api/vehicles/business-use-percentages', ({ data, query }) => {
+  const taxYear = taxYearOf(query);
+  return {
+    taxYear,
+    vehicles: data.vehicles.map((vehicle) => ({ vehicleId: vehicle.id, ...getBusinessUse(data, vehicle.id, taxYear) })),
+  };
+});
+
+route('GET', '/api/vehicles/:vehicleId/mileage-logs', ({ data, params }) => {
+  findOr404(data.vehicles, params.vehicleId);
+  return data.mileageLogs.filter((log) => log.vehicleId === params.vehicleId);
+});
+
+route('POST', '/api/vehicles/:vehicleId/mileage-logs', ({ data, params, body }) => {
+  findOr404(data.vehicles, params.vehicleId);
+  requireFields(body ?? {}, ['date', 'odometerReading']);
+  const log = { ...body, id: createId('log'), vehicleId: params.vehicleId, createdAt: new Date().toISOString() };
+  data.mileageLogs.push(log);
+  return log;
+});
+
+route('PATCH', '/api/mileage-logs/:id', ({ data, params, body }) => update(data.mileageLogs, params.id, body));
+
+route('DELETE', '/api/mileage-logs/:id', ({ data, params }) => {
+  data.mileageLogs = remove(data.mileageLogs, params.id);
+  return { success: true };
+});
+
+route('GET', '/api/vehicles/:vehicleId/odometer-photos', ({ data, params }) => {
+  findOr404(data.vehicles, params.vehicleId);
+  return data.odometerPhotos.filter((photo) => photo.vehicleId === params.vehicleId);
+});
+
+route('POST', '/api/vehicles/:vehicleId/odometer-photos', ({ data, params, body }) => {
+  findOr404(data.vehicles, params.vehicleId);
+  const fields = readFormData(body);
+  requireFields(fields, ['file', 'mileage']);
+  const photo = {
+    id: createId('odometer'),
+    vehicleId: params.vehicleId,
+    filename: fields.file.name,
+    imageUrl: fields.file.uri,
+    photoDate: fields.photoDate,
+    mileage: fields.mileage,
+    notes: fields.notes,
+    uploadedAt: new Date().toISOString(),
+  };
+  data.odometerPhotos.push(photo);
+  return photo;
+});
+
+route('PATCH', '/api/vehicles/:vehicleId/odometer-photos/:id', ({ data, params, body }) =>
+  update(data.odometerPhotos, params.id, body)
+);
+
+route('DELETE', '/api/vehicles/:vehicleId/odometer-photos/:id', ({ data, params }) => {
+  data.odometerPhotos = remove(data.odometerPhotos, params.id);
+  return { success: true };
+});
+
+// Receipts and paystubs
+
+route('GET', '/api/receipts', ({ data }) => data.receipts);
+
+// There is no OCR offline, so every upload "reads" the same sample receipt
+route('POST', '/api/receipts/upload', ({ data, body }) => {
+  const fields = readFormData(body);
+  requireFields(fields, ['files']);
+  const receipt = {
+    id: createId('receipt'),
+    filename: fields.files.name,
+    imageUrl: fields.files.uri,
+    uploadedAt: new Date().toISOString(),
+    ocrStatus: 'completed',
+    expenseData: {
+      vendor: 'Sample Hardware',
+      total: 56.5,
+      baseCost: 50,
+      gstAmount: 6.5,
+      date: new Date().toISOString().slice(0, 10),
+      category: 'office_supplies',
+      description: 'Sample receipt from the mock backend',
+    },
+  };
+  data.receipts.push(receipt);
+  return [receipt];
+});
+
+route('DELETE', '/api/receipts/:id', ({ data, params, body }) => {
+  const receipt = findOr404(data.receipts, params.id);
+  if (body?.deleteLinked && receipt.linkedExpenseId) {
+    data.expenses = data.expenses.filter((expense) => expense.id !== receipt.linkedExpenseId);
+    tombstone(data, 'expenses', receipt.linkedExpenseId);
+  }
+  data.receipts = remove(data.receipts, params.id);
+  return { success: true };
+});
+
+route('GET', '/api/paystubs', ({ data }) => data.paystubs);
+
+route('DELETE', '/api/paystubs/:id', ({ data, params, body }) => {
+  const paystub = findOr404(data.paystubs, params.id);
+  if (body?.deleteLinked && paystub.linkedIncomeId) {
+    data.income = data.income.filter((income) => income.id !== paystub.linkedIncomeId);
+    tombstone(data, 'income', paystub.linkedIncomeId);
+  }
+  data.paystubs = remove(data.paystubs, params.id);
+  return { success: true };
+});
+
+// T4 slips
+
+route('GET', '/api/t4-slips', ({ data }) => data.t4Slips);
+
+route('POST', '/api/t4-slips', ({ data, body }) => {
+  requireFields(body ?? {}, ['taxYear', 'employer', 'employmentIncome']);
+  const slip = { ...body, id: createId('t4'), createdAt: new Date().toISOString() };
+  data.t4Slips.push(slip);
+  return slip;
+});
+
+route('PATCH', '/api/t4-slips/:id', ({ data, params, body }) => update(data.t4Slips, params.id, body));
+
+route('DELETE', '/api/t4-slips/:id', ({ data, params }) => {
+  data.t4Slips = remove(data.t4Slips, params.id);
+  return { success: true };
+});
+
+route('POST', '/api/t4-slips/:id/photo', ({ data, params, body }) => {
+  const fields = readFormData(body);
+  requireFields(fields, ['file']);
+  return update(data.t4Slips, params.id, { photoUrl: fields.file.uri });
+});
+
+// Tax instalments
+
+route('GET', '/api/instalment-payments', ({ data }) => data.instalmentPayments);
+
+route('POST', '/api/instalment-payments', ({ data, body }) => {
+  requireFields(body ?? {}, ['taxYear', 'dueDate', 'paidDate', 'amount']);
+  const payment = { ...body, id: createId('instalment'), createdAt: new Date().toISOString() };
+  data.instalmentPayments.push(payment);
+  return payment;
+});
+
+route('DELETE', '/api/instalment-payments/:id', ({ data, params }) => {
+  data.instalmentPayments = remove(data.instalmentPayments, params.id);
+  return { success: true };
+});
+
+// Tax savings transfers
+
+route('GET', '/api/tax-savings-transfers', ({ data }) => data.taxSavingsTransfers);
+
+route('POST', '/api/tax-savings-transfers', ({ data, body }) => {
+  requireFields(body ?? {}, ['taxYear', 'date', 'amount']);
+  const transfer = { ...body, id: createId('transfer'), createdAt: new Date().toISOString() };
+  data.taxSavingsTransfers.push(transfer);
+  return transfer;
+});
+
+route('DELETE', '/api/tax-savings-transfers/:id', ({ data, params }) => {
+  data.taxSavingsTransfers = remove(data.taxSavingsTransfers, params.id);
+  return { success: true };
+});
+
+function parseUrl(url: string) {
+  const [path, search = ''] = url.replace(/^https?:\/\/[^/]+/, '').split('?');
+  const query: Record<string, string> = {};
+  search.split('&').filter(Boolean).forEach((pair) => {
+    const [key, value = ''] = pair.split('=');
+    query[decodeURIComponent(key)] = decodeURIComponent(value);
+  });
+  return { path, query };
+}
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * fetch-compatible entry point. Resolves with a Response just like the real
+ * server would, including 4xx/5xx statuses, so the API layer handles it unchanged.
+ */
+export async function mockFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const method = (init.method || 'GET').toUpperCase();
+  const { path, query } = parseUrl(url);
+  const data = await getDatabase();
+
+  await new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY));
+  if (init.signal?.aborted) {
+    throw new Error('Aborted');
+  }
+
+  const matches = mockRoutes.filter((candidate) => candidate.pattern.test(path));
+  const match = matches.find((candidate) => candidate.method === method);
+  if (!match) {
+    return jsonResponse(matches.length > 0 ? 405 : 404, { message: `Mock backend has no route for ${method} ${path}` });
+  }
+  const authorization = new Headers(init.headers).get('Authorization');
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+  if (!match.public && !findSession(data, token)) {
+    return jsonResponse(401, { message: 'Unauthorized' });
+  }
+
+  const values = match.pattern.exec(path)!.slice(1);
+  const params = Object.fromEntries(match.keys.map((key, index) => [key, decodeURIComponent(values[index])]));
+  const body = typeof init.body === 'string' ? JSON.parse(init.body) : init.body;
+
+  try {
+    const result = match.handler({ data, params, query, body, token });
+    if (method !== 'GET') await save();
+    return jsonResponse(method === 'POST' ? 201 : 200, result);
+  } catch (error) {
+    if (error instanceof MockHttpError) {
+      return jsonResponse(error.status, { message: error.message, ...error.body });
+    }
+    console.error('Mock backend error:', error);
+    return jsonResponse(500, { message: error instanceof Error ? error.message : 'Mock backend error' });
+  }
+}
@@ -0,0 +1,113 @@
+import type {
+  Expense,
+  Income,
+  InstalmentPayment,
+  OdometerPhoto,
+  Paystub,
+  Receipt,
+  T4Slip,
+  TaxSavingsTransfer,
+  User,
+  Vehicle,
+  VehicleMileageLog,
+} from './types';
+
+// Seed data for the mock backend (lib/mock-backend.ts). Dates are relative to
+// the current year so the default tax year always has something to show.
+
+export interface MockDatabase {
+  auth: MockAuthState;
+  user: User;
+  expenses: Expense[];
+  income: Income[];
+  vehicles: Vehicle[];
+  mileageLogs: VehicleMileageLog[];
+  receipts: Receipt[];
+  paystubs: Paystub[];
+  odometerPhotos: OdometerPhoto[];
+  t4Slips: T4Slip[];
+  instalmentPayments: InstalmentPayment[];
+  taxSavingsTransfers: TaxSavingsTransfer[];
+  sync: MockSyncState;
+}
+
+// Accounts and sessions for the Supabase Auth stand-in (/auth/v1 routes)
+export interface MockAuthState {
+  accounts: { email: string; password?: string }[];
+  sessions: { accessToken: string; refreshToken: string; email: string; expiresAt: number }[];
+  pendingCodes: { email: string; type: 'email' | 'recovery' }[];
+}
+
+export const MOCK_DEMO_ACCOUNT = { email: 'demo@crewbooks.app', password: 'password123' };
+
+export function createAuthState(): MockAuthState {
+  return { accounts: [{ ...MOCK_DEMO_ACCOUNT }], sessions: [], pendingCodes: [] };
+}
+
+export type SyncedCollection = 'expenses' | 'income';
+
+// Change tracking behind the /changes endpoints. Every write bumps `seq`; the
+// cursor handed to the app is the seq it has seen up to.
+export interface MockSyncState {
+  seq: number;
+  versions: Record<string, number>; // `${collection}/${id}` -> seq of its last change
+  tombstones: { collection: SyncedCollection; id: string; seq: number }[];
+}
+
+export function createSyncState(): MockSyncState {
+  return { seq: 0, versions: {}, tombstones: [] };
+}
+
+export function createDefaultFixtures(year = new Date().getFullYear()): MockDatabase {
+  const date = (month: number, day: number, y = year) =>
+    `${y}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+  return {
+    auth: createAuthState(),
+    user: {
+      id: 'mock-user',
+      email: MOCK_DEMO_ACCOUNT.email,
+      firstName: 'Demo',
+      lastName: 'Crew',
+      hasGstNumber: true,
+      province: 'ON',
+      homeOfficePercentage: 10,
+      enabledExpenseCategories: [],
+      enabledPersonalExpenseCategories: [],
+      enabledGeneralExpenseCategories: [],
+      mileageLoggingStyle: 'odometer',
+      subscriptionTier: 'personal',
+      userType: 'crew',
+    },
+    income: [
+      { id: 'mock-income-1', amount: '4850.00', date: date(1, 19), incomeType: 'union_production', productionName: 'Northern Lights S2', accountingOffice: 'Entertainment Partners', gstHstCollected: '630.50', dues: '121.25' },
+      { id: 'mock-income-2', amount: '6200.00', date: date(3, 8), incomeType: 'union_production', productionName: 'Harbour Street', accountingOffice: 'Cast & Crew', gstHstCollected: '806.00', dues: '155.00' },
+      { id: 'mock-income-3', amount: '1750.00', date: date(4, 22), incomeType: 'non_union_production', productionName: 'Maple Syrup Commercial', gstHstCollected: '227.50' },
+      { id: 'mock-income-4', amount: '312.40', date: date(6, 2), incomeType: 'royalty_residual', productionName: 'Northern Lights S1' },
+      { id: 'mock-income-5', amount: '5400.00', date: date(11, 14, year - 1), incomeType: 'union_production', productionName: 'Winter Run', gstHstCollected: '702.00' },
+    ],
+    expenses: [
+      { id: 'mock-expense-1', amount: '84.75', baseCost: '75.00', gstAmount: '9.75', date: date(1, 25), title: 'Gaffer tape and gloves', category: 'office_supplies', vendor: 'Vistek', expenseType: 'self_employment', isTaxDeductible: true },
+      { id: 'mock-expense-2', amount: '62.15', baseCost: '55.00', gstAmount: '7.15', date: date(2, 3), title: 'Fuel', category: 'fuel_costs', vendor: 'Petro-Canada', vehicleId: 'mock-vehicle-1', expenseType: 'vehicle', isTaxDeductible: true },
+      { id: 'mock-expense-3', amount: '450.00', date: date(2, 1), title: 'IATSE dues', category: 'licenses_memberships', vendor: 'IATSE 873', expenseType: 'self_employment', isTaxDeductible: true },
+      { id: 'mock-expense-4', amount: '1800.00', date: date(3, 1), title: 'March rent', category: 'rent', expenseType: 'home_office_living', isTaxDeductible: true },
+      { id: 'mock-expense-5', amount: '96.05', baseCost: '85.00', gstAmount: '11.05', date: date(3, 15), title: 'Internet', category: 'internet', vendor: 'Rogers', expenseType: 'home_office_living', isTaxDeductible: true },
+      { id: 'mock-expense-6', amount: '38.00', date: date(4, 9), title: 'Parking at stage 5', category: 'parking_tolls', vehicleId: 'mock-vehicle-1', expenseType: 'vehicle', isTaxDeductible: true },
+    ],
+    vehicles: [
+      { id: 'mock-vehicle-1', name: 'Work Truck', make: 'Ford', model: 'F-150', year: year - 4, isPrimary: true, usedExclusivelyForBusiness: false, claimsCca: false, currentMileage: '84000' },
+    ],
+    mileageLogs: [
+      { id: 'mock-log-1', vehicleId: 'mock-vehicle-1', date: date(1, 31), odometerReading: '85200', description: 'January set days', isBusinessUse: true },
+      { id: 'mock-log-2', vehicleId: 'mock-vehicle-1', date: date(2, 28), odometerReading: '85950', description: 'Personal trips', isBusinessUse: false },
+      { id: 'mock-log-3', vehicleId: 'mock-vehicle-1', date: date(3, 31), odometerReading: '87400', description: 'Harbour Street locations', isBusinessUse: true },
+    ],
+    receipts: [],
+    paystubs: [],
+    odometerPhotos: [],
+    t4Slips: [],
+    instalmentPayments: [],
+    taxSavingsTransfers: [],
+    sync: createSyncState(),
+  };
+}
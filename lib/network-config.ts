@@ -27,6 +27,9 @@ export function preferIPv4(url: string): string {
  */
 export const NETWORK_TIMEOUT = 10000; // 10 seconds
 
+// Receipt uploads include server-side OCR, which can take much longer
+export const UPLOAD_TIMEOUT = 60000; // 60 seconds
+
 /**
  * Notes on IPv4 preference in React Native/Expo:
  * 
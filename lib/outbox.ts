@@ -0,0 +1,271 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiRequest } from './api';
+import { getErrorStatus, isSafeToResend, TimeoutError, UnauthorizedError } from './errors';
+
+const OUTBOX_STORAGE_KEY = '@outbox';
+
+export type OutboxResource = 'expenses' | 'income' | 'mileage-logs';
+export type OutboxMethod = 'POST' | 'PATCH' | 'DELETE';
+
+// pending: waiting to be sent; conflict: server returned 409; failed: any other rejection
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  resource: OutboxResource;
+  method: OutboxMethod;
+  url: string;
+  data?: any;
+  // Server id of the record for PATCH/DELETE
+  entityId?: string;
+  // Owning record for nested resources (vehicle id for mileage logs)
+  parentId?: string;
+  createdAt: string;
+  status: OutboxStatus;
+  error?: string;
+}
+
+export interface PendingInfo {
+  entryId: string;
+  method: OutboxMethod;
+  status: OutboxStatus;
+  error?: string;
+}
+
+export type WithPending<T> = T & { pending?: PendingInfo };
+
+export interface ReplayResult {
+  synced: OutboxEntry[];
+  rejected: OutboxEntry[];
+  // True when replay stopped because the backend is still unreachable
+  offline: boolean;
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+type ReplayListener = (result: ReplayResult) => void;
+
+let entries: OutboxEntry[] = [];
+let loaded = false;
+let loadPromise: Promise<OutboxEntry[]> | null = null;
+let replayPromise: Promise<ReplayResult> | null = null;
+const listeners = new Set<OutboxListener>();
+const replayListeners = new Set<ReplayListener>();
+
+function createEntryId() {
+  return `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isLocalId(id: string | undefined | null) {
+  return !!id && id.startsWith('local-');
+}
+
+async function persist(next: OutboxEntry[]) {
+  entries = next;
+  listeners.forEach((listener) => listener(entries));
+  try {
+    await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Error saving outbox:', error);
+  }
+}
+
+export function loadOutbox(): Promise<OutboxEntry[]> {
+  if (loaded) return Promise.resolve(entries);
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+        if (stored) {
+          entries = JSON.parse(stored);
+        }
+      } catch (error) {
+        console.error('Error loading outbox:', error);
+      }
+      loaded = true;
+      listeners.forEach((listener) => listener(entries));
+      return entries;
+    })();
+  }
+  return loadPromise;
+}
+
+export function getOutboxEntries(resource?: OutboxResource): OutboxEntry[] {
+  return resource ? entries.filter((entry) => entry.resource === resource) : entries;
+}
+
+export function subscribeToOutbox(listener: OutboxListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function subscribeToReplay(listener: ReplayListener) {
+  replayListeners.add(listener);
+  return () => {
+    replayListeners.delete(listener);
+  };
+}
+
+async function enqueue(entry: Omit<OutboxEntry, 'id' | 'createdAt' | 'status'>) {
+  await loadOutbox();
+  const queued: OutboxEntry = {
+    ...entry,
+    id: createEntryId(),
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+  };
+  await persist([...entries, queued]);
+  return queued;
+}
+
+export async function updateOutboxEntry(id: string, data: any) {
+  await loadOutbox();
+  await persist(entries.map((entry) => (
+    entry.id === id ? { ...entry, data, status: 'pending', error: undefined } : entry
+  )));
+}
+
+export async function removeOutboxEntry(id: string) {
+  await loadOutbox();
+  await persist(entries.filter((entry) => entry.id !== id));
+}
+
+export async function clearOutbox() {
+  await loadOutbox();
+  await persist([]);
+}
+
+export async function retryOutboxEntry(id: string) {
+  await loadOutbox();
+  await persist(entries.map((entry) => (
+    entry.id === id ? { ...entry, status: 'pending', error: undefined } : entry
+  )));
+  return replayOutbox();
+}
+
+/**
+ * Sends a mutation, or queues it in the outbox when the backend can't be reached.
+ * Server rejections, and creates that timed out (the server may have saved
+ * them), are thrown as usual so the form can show them immediately.
+ */
+export async function sendOrQueue(
+  entry: Omit<OutboxEntry, 'id' | 'createdAt' | 'status'>,
+): Promise<{ queued: boolean; response?: Response }> {
+  await loadOutbox();
+
+  // Keep ordering: if older changes are still waiting, this one waits behind them
+  const hasPending = entries.some((queued) => queued.status === 'pending');
+  if (!hasPending) {
+    try {
+      const response = await apiRequest(entry.method, entry.url, entry.data);
+      return { queued: false, response };
+    } catch (error) {
+      if (!isSafeToResend(error, entry.method)) {
+        throw error;
+      }
+    }
+  }
+
+  await enqueue(entry);
+  if (hasPending) {
+    // Online but behind older changes: flush them all in order
+    replayOutbox();
+  }
+  return { queued: true };
+}
+
+/**
+ * Replays pending entries oldest first. Stops at the first network failure so
+ * later changes are never applied before earlier ones. An expired session
+ * also stops it, leaving the entry queued for the next replay after sign-in
+ * rather than waiting here for the login screen.
+ */
+export function replayOutbox(): Promise<ReplayResult> {
+  if (replayPromise) return replayPromise;
+
+  replayPromise = (async () => {
+    await loadOutbox();
+    const result: ReplayResult = { synced: [], rejected: [], offline: false };
+
+    // Re-read the queue each pass so entries added mid-replay are picked up too
+    for (;;) {
+      const entry = entries.find((queued) => queued.status === 'pending');
+      if (!entry) break;
+      try {
+        await apiRequest(entry.method, entry.url, entry.data, { waitForReauth: false });
+        result.synced.push(entry);
+        await persist(entries.filter((queued) => queued.id !== entry.id));
+      } catch (error: any) {
+        if (isSafeToResend(error, entry.method)) {
+          result.offline = true;
+          break;
+        }
+        if (error instanceof UnauthorizedError) break;
+        // A create that timed out may have been saved; the user checks before retrying
+        const status = getErrorStatus(error);
+        const rejected: OutboxEntry = {
+          ...entry,
+          status: status === 409 ? 'conflict' : 'failed',
+          error:
+            error instanceof TimeoutError
+              ? 'Timed out. It may already be saved; check before retrying.'
+              : error?.message || 'Request failed',
+        };
+        result.rejected.push(rejected);
+        await persist(entries.map((queued) => (queued.id === entry.id ? rejected : queued)));
+      }
+    }
+
+    if (__DEV__ && (result.synced.length > 0 || result.rejected.length > 0)) {
+      console.log(`Outbox replay: ${result.synced.length} synced, ${result.rejected.length} rejected`);
+    }
+    replayListeners.forEach((listener) => listener(result));
+    return result;
+  })().finally(() => {
+    replayPromise = null;
+  });
+
+  return replayPromise;
+}
+
+/**
+ * Overlays queued changes on a server list so offline edits show up as pending rows.
+ * Queued creates are appended with their local id, edits and deletes mark the row.
+ */
+export function applyPendingEntries<T extends { id: string }>(
+  items: T[],
+  queued: OutboxEntry[],
+  toItem: (entry: OutboxEntry) => T,
+): WithPending<T>[] {
+  const result: WithPending<T>[] = [...items];
+
+  queued.forEach((entry) => {
+    const pending: PendingInfo = {
+      entryId: entry.id,
+      method: entry.method,
+      status: entry.status,
+      error: entry.error,
+    };
+
+    if (entry.method === 'POST') {
+      result.push({ ...toItem(entry), id: entry.id, pending });
+      return;
+    }
+
+    const index = result.findIndex((item) => item.id === entry.entityId);
+    if (index === -1) return;
+    result[index] = entry.method === 'PATCH'
+      ? { ...result[index], ...entry.data, id: result[index].id, pending }
+      : { ...result[index], pending };
+  });
+
+  return result;
+}
+
+export function getPendingLabel(pending: PendingInfo) {
+  if (pending.status === 'conflict') return 'Conflict';
+  if (pending.status === 'failed') return 'Sync failed';
+  if (pending.method === 'DELETE') return 'Pending delete';
+  return 'Pending sync';
+}
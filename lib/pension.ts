@@ -0,0 +1,171 @@
+import { type ProvinceCode } from './provinces';
+
+// Canada Pension Plan / Quebec Pension Plan contributions on employment and
+// self-employment earnings. Quebec residents contribute to the QPP instead of
+// the CPP: same earnings ceilings and exemption, different base rate.
+//
+// Contributions come in three parts, taxed differently:
+// - base: on earnings from the basic exemption up to the first ceiling (YMPE).
+//   The employee's share earns a non-refundable credit.
+// - first enhanced: the 2019-2023 phase-in, on the same earnings as base.
+// - second additional (CPP2/QPP2): from 2024, on earnings between the YMPE and
+//   the second ceiling (YAMPE).
+// Both enhanced parts, and the employer half the self-employed also pay, are
+// deducted from income instead.
+
+export type PensionPlanCode = 'CPP' | 'QPP';
+
+export interface PensionPlan {
+  code: PensionPlanCode;
+  name: string;
+}
+
+export interface PensionParameters {
+  maxPensionableEarnings: number; // YMPE
+  maxAdditionalPensionableEarnings: number; // YAMPE; equal to the YMPE before 2024
+  basicExemption: number;
+  employeeBaseRate: number;
+  employeeEnhancedRate: number; // First enhancement
+  employeeSecondRate: number; // CPP2/QPP2
+  selfEmployedRate: number; // Base and first enhancement, employee and employer share together
+  selfEmployedSecondRate: number;
+}
+
+export interface PensionContribution {
+  base: number;
+  firstEnhanced: number;
+  secondAdditional: number;
+  total: number;
+}
+
+// How a contribution is treated on the return
+export interface PensionTaxTreatment {
+  deductible: number; // Enhanced parts plus, for the self-employed, the employer half of base
+  credited: number; // Employee base part, claimed as a non-refundable credit
+}
+
+const PENSION_PLANS: Record<PensionPlanCode, PensionPlan> = {
+  CPP: { code: 'CPP', name: 'Canada Pension Plan' },
+  QPP: { code: 'QPP', name: 'Quebec Pension Plan' },
+};
+
+const EMPLOYEE_BASE_RATES: Record<PensionPlanCode, number> = { CPP: 0.0495, QPP: 0.054 };
+
+// Keyed by tax year
+const MAX_PENSIONABLE_EARNINGS: Record<number, number> = {
+  2020: 58700,
+  2021: 61600,
+  2022: 64900,
+  2023: 66600,
+  2024: 68500,
+  2025: 71300,
+  2026: 74600,
+};
+
+const MAX_ADDITIONAL_PENSIONABLE_EARNINGS: Record<number, number> = {
+  2024: 73200,
+  2025: 81200,
+  2026: 85000,
+};
+
+const EMPLOYEE_ENHANCED_RATES: Record<number, number> = {
+  2020: 0.003,
+  2021: 0.005,
+  2022: 0.0075,
+  2023: 0.01,
+  2024: 0.01,
+  2025: 0.01,
+  2026: 0.01,
+};
+
+const EMPLOYEE_SECOND_RATE = 0.04; // Same for CPP2 and QPP2
+const BASIC_EXEMPTION = 3500;
+const LATEST_YEAR = 2026; // Later years use these figures until the table is updated
+const EARLIEST_YEAR = 2020;
+
+const NO_CONTRIBUTION: PensionContribution = { base: 0, firstEnhanced: 0, secondAdditional: 0, total: 0 };
+
+export function getPensionPlan(province: ProvinceCode): PensionPlan {
+  return PENSION_PLANS[province === 'QC' ? 'QPP' : 'CPP'];
+}
+
+export function getPensionParameters(year: number, plan: PensionPlanCode): PensionParameters {
+  const tableYear = Math.min(Math.max(year, EARLIEST_YEAR), LATEST_YEAR);
+  const maxPensionableEarnings = MAX_PENSIONABLE_EARNINGS[tableYear];
+  const secondCeiling = MAX_ADDITIONAL_PENSIONABLE_EARNINGS[tableYear];
+  const employeeBaseRate = EMPLOYEE_BASE_RATES[plan];
+  const employeeEnhancedRate = EMPLOYEE_ENHANCED_RATES[tableYear];
+  const employeeSecondRate = secondCeiling ? EMPLOYEE_SECOND_RATE : 0;
+  return {
+    maxPensionableEarnings,
+    maxAdditionalPensionableEarnings: secondCeiling ?? maxPensionableEarnings,
+    basicExemption: BASIC_EXEMPTION,
+    employeeBaseRate,
+    employeeEnhancedRate,
+    employeeSecondRate,
+    selfEmployedRate: 2 * (employeeBaseRate + employeeEnhancedRate),
+    selfEmployedSecondRate: 2 * employeeSecondRate,
+  };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Employee-rate contribution on the earnings between `earningsBefore` and
+ * `earningsBefore + earnings`. Earnings already counted elsewhere in the year
+ * (e.g. on a T4) use up the exemption and ceilings first.
+ */
+function contributionOnLayer(earnings: number, earningsBefore: number, params: PensionParameters): PensionContribution {
+  const { basicExemption, maxPensionableEarnings, maxAdditionalPensionableEarnings } = params;
+  const earningsAfter = earningsBefore + Math.max(0, earnings);
+  const firstLayer =
+    clamp(earningsAfter, basicExemption, maxPensionableEarnings) - clamp(earningsBefore, basicExemption, maxPensionableEarnings);
+  const secondLayer =
+    clamp(earningsAfter, maxPensionableEarnings, maxAdditionalPensionableEarnings) -
+    clamp(earningsBefore, maxPensionableEarnings, maxAdditionalPensionableEarnings);
+  const base = firstLayer * params.employeeBaseRate;
+  const firstEnhanced = firstLayer * params.employeeEnhancedRate;
+  const secondAdditional = secondLayer * params.employeeSecondRate;
+  return { base, firstEnhanced, secondAdditional, total: base + firstEnhanced + secondAdditional };
+}
+
+function doubled({ base, firstEnhanced, secondAdditional, total }: PensionContribution): PensionContribution {
+  return { base: base * 2, firstEnhanced: firstEnhanced * 2, secondAdditional: secondAdditional * 2, total: total * 2 };
+}
+
+// What employers should withhold on a year's employment earnings (employee share only)
+export function employeeContribution(earnings: number, year: number, plan: PensionPlanCode): PensionContribution {
+  if (earnings <= 0) return NO_CONTRIBUTION;
+  return contributionOnLayer(earnings, 0, getPensionParameters(year, plan));
+}
+
+/**
+ * Contribution owed on a year's net self-employment income, at both shares.
+ * Pass the year's employment earnings so they count towards the exemption
+ * and ceilings first, as on Schedule 8.
+ */
+export function selfEmployedContribution(
+  netIncome: number,
+  year: number,
+  plan: PensionPlanCode,
+  employmentEarnings = 0
+): PensionContribution {
+  if (netIncome <= 0) return NO_CONTRIBUTION;
+  return doubled(contributionOnLayer(netIncome, Math.max(0, employmentEarnings), getPensionParameters(year, plan)));
+}
+
+export function maxSelfEmployedContribution(year: number, plan: PensionPlanCode) {
+  const { maxAdditionalPensionableEarnings } = getPensionParameters(year, plan);
+  return selfEmployedContribution(maxAdditionalPensionableEarnings, year, plan).total;
+}
+
+// Only the employee half of base is credited; the self-employed deduct the employer half
+export function selfEmployedTaxTreatment({ base, total }: PensionContribution): PensionTaxTreatment {
+  return { deductible: total - base / 2, credited: base / 2 };
+}
+
+export function employeeTaxTreatment({ base, total }: PensionContribution): PensionTaxTreatment {
+  return { deductible: total - base, credited: base };
+}
@@ -0,0 +1,342 @@
+// Income tax brackets and sales tax rules for each province and territory,
+// used wherever the app needs the user's provincial figures: tax estimates,
+// the expense form's GST/PST/HST split and GST/HST tracking. Income tax
+// tables are kept per tax year (see getIncomeTaxTable); like the rest of the
+// estimates they are a guide, not a filing tool.
+
+export type ProvinceCode =
+  | 'AB' | 'BC' | 'MB' | 'NB' | 'NL' | 'NS' | 'NT' | 'NU' | 'ON' | 'PE' | 'QC' | 'SK' | 'YT';
+
+// Income up to `upTo` (from the previous bracket's limit) is taxed at `rate`
+export type TaxBracket = [upTo: number, rate: number];
+
+export interface IncomeTaxTable {
+  brackets: TaxBracket[];
+  basicPersonalAmount: number; // Claimed as a credit at the lowest bracket's rate
+}
+
+// Tables by tax year, one for every year from 2020. A year without its own
+// table uses the closest earlier one (or the earliest) so a new year keeps
+// working until it's added; getIncomeTaxTableYear tells the UI when that happens.
+export type IncomeTaxTables = Record<number, IncomeTaxTable>;
+
+export interface SalesTaxRules {
+  type: 'gst_pst' | 'hst' | 'gst';
+  gstRate: number; // GST, or the combined HST rate in HST provinces
+  pstRate: number; // Provincial sales tax charged on top of GST; 0 when none
+  pstLabel: string; // What the province calls it: PST, RST or QST
+}
+
+export interface ProvinceRules {
+  code: ProvinceCode;
+  name: string;
+  incomeTax: IncomeTaxTables;
+  salesTax: SalesTaxRules;
+}
+
+export const GST_RATE = 0.05;
+
+const GST_ONLY: SalesTaxRules = { type: 'gst', gstRate: GST_RATE, pstRate: 0, pstLabel: 'PST' };
+
+function gstPst(pstRate: number, pstLabel = 'PST'): SalesTaxRules {
+  return { type: 'gst_pst', gstRate: GST_RATE, pstRate, pstLabel };
+}
+
+function hst(rate: number): SalesTaxRules {
+  return { type: 'hst', gstRate: rate, pstRate: 0, pstLabel: 'PST' };
+}
+
+// Sorted by name for pickers
+export const PROVINCES: Record<ProvinceCode, ProvinceRules> = {
+  AB: {
+    code: 'AB',
+    name: 'Alberta',
+    incomeTax: {
+      2020: { brackets: [[131220, 0.10], [157464, 0.12], [209952, 0.13], [314928, 0.14], [Infinity, 0.15]], basicPersonalAmount: 19369 },
+      2021: { brackets: [[131220, 0.10], [157464, 0.12], [209952, 0.13], [314928, 0.14], [Infinity, 0.15]], basicPersonalAmount: 19369 },
+      2022: { brackets: [[134238, 0.10], [161086, 0.12], [214781, 0.13], [322171, 0.14], [Infinity, 0.15]], basicPersonalAmount: 19814 },
+      2023: { brackets: [[142292, 0.10], [170751, 0.12], [227668, 0.13], [341502, 0.14], [Infinity, 0.15]], basicPersonalAmount: 21003 },
+      2024: { brackets: [[148269, 0.10], [177922, 0.12], [237230, 0.13], [355845, 0.14], [Infinity, 0.15]], basicPersonalAmount: 21885 },
+      2025: { brackets: [[60000, 0.08], [151234, 0.10], [181481, 0.12], [241974, 0.13], [362961, 0.14], [Infinity, 0.15]], basicPersonalAmount: 22323 },
+      2026: { brackets: [[61200, 0.08], [154259, 0.10], [185111, 0.12], [246813, 0.13], [370220, 0.14], [Infinity, 0.15]], basicPersonalAmount: 22769 },
+    },
+    salesTax: GST_ONLY,
+  },
+  BC: {
+    code: 'BC',
+    name: 'British Columbia',
+    incomeTax: {
+      2020: { brackets: [[41725, 0.0506], [83451, 0.077], [95812, 0.105], [116344, 0.1229], [157748, 0.147], [220000, 0.168], [Infinity, 0.205]], basicPersonalAmount: 10949 },
+      2021: { brackets: [[42184, 0.0506], [84369, 0.077], [96866, 0.105], [117623, 0.1229], [159483, 0.147], [222420, 0.168], [Infinity, 0.205]], basicPersonalAmount: 11070 },
+      2022: { brackets: [[43070, 0.0506], [86141, 0.077], [98901, 0.105], [120094, 0.1229], [162832, 0.147], [227091, 0.168], [Infinity, 0.205]], basicPersonalAmount: 11302 },
+      2023: { brackets: [[45654, 0.0506], [91310, 0.077], [104835, 0.105], [127299, 0.1229], [172602, 0.147], [240716, 0.168], [Infinity, 0.205]], basicPersonalAmount: 11981 },
+      2024: { brackets: [[47937, 0.0506], [95875, 0.077], [110076, 0.105], [133664, 0.1229], [181232, 0.147], [252752, 0.168], [Infinity, 0.205]], basicPersonalAmount: 12580 },
+      2025: { brackets: [[49279, 0.0506], [98560, 0.077], [113158, 0.105], [137407, 0.1229], [186306, 0.147], [259829, 0.168], [Infinity, 0.205]], basicPersonalAmount: 12932 },
+      2026: { brackets: [[50363, 0.056], [100728, 0.077], [115648, 0.105], [140430, 0.1229], [190405, 0.147], [265545, 0.168], [Infinity, 0.205]], basicPersonalAmount: 13216 },
+    },
+    salesTax: gstPst(0.07),
+  },
+  MB: {
+    code: 'MB',
+    name: 'Manitoba',
+    incomeTax: {
+      2020: { brackets: [[33389, 0.108], [72164, 0.1275], [Infinity, 0.174]], basicPersonalAmount: 9838 },
+      2021: { brackets: [[33723, 0.108], [72885, 0.1275], [Infinity, 0.174]], basicPersonalAmount: 10145 },
+      2022: { brackets: [[34431, 0.108], [74416, 0.1275], [Infinity, 0.174]], basicPersonalAmount: 10145 },
+      2023: { brackets: [[36842, 0.108], [79625, 0.1275], [Infinity, 0.174]], basicPersonalAmount: 15000 },
+      2024: { brackets: [[47000, 0.108], [100000, 0.1275], [Infinity, 0.174]], basicPersonalAmount: 15780 },
+      2025: { brackets: [[47000, 0.108], [100000, 0.1275], [Infinity, 0.174]], basicPersonalAmount: 15780 },
+      2026: { brackets: [[47000, 0.108], [100000, 0.1275], [Infinity, 0.174]], basicPersonalAmount: 15780 },
+    },
+    salesTax: gstPst(0.07, 'RST'),
+  },
+  NB: {
+    code: 'NB',
+    name: 'New Brunswick',
+    incomeTax: {
+      2020: { brackets: [[43401, 0.0968], [86803, 0.1482], [141122, 0.1652], [160776, 0.1784], [Infinity, 0.203]], basicPersonalAmount: 10459 },
+      2021: { brackets: [[43835, 0.0968], [87671, 0.1482], [142534, 0.1652], [162383, 0.1784], [Infinity, 0.203]], basicPersonalAmount: 10564 },
+      2022: { brackets: [[44887, 0.0968], [89775, 0.1482], [145955, 0.1652], [166280, 0.1784], [Infinity, 0.203]], basicPersonalAmount: 11720 },
+      2023: { brackets: [[47715, 0.094], [95431, 0.14], [176756, 0.16], [Infinity, 0.195]], basicPersonalAmount: 12458 },
+      2024: { brackets: [[49958, 0.094], [99916, 0.14], [185064, 0.16], [Infinity, 0.195]], basicPersonalAmount: 13044 },
+      2025: { brackets: [[51306, 0.094], [102614, 0.14], [190060, 0.16], [Infinity, 0.195]], basicPersonalAmount: 13396 },
+      2026: { brackets: [[52333, 0.094], [104666, 0.14], [193861, 0.16], [Infinity, 0.195]], basicPersonalAmount: 13664 },
+    },
+    salesTax: hst(0.15),
+  },
+  NL: {
+    code: 'NL',
+    name: 'Newfoundland and Labrador',
+    incomeTax: {
+      2020: { brackets: [[37929, 0.087], [75858, 0.145], [135432, 0.158], [189604, 0.173], [Infinity, 0.183]], basicPersonalAmount: 9498 },
+      2021: { brackets: [[38081, 0.087], [76161, 0.145], [135973, 0.158], [190363, 0.173], [Infinity, 0.183]], basicPersonalAmount: 9536 },
+      2022: {
+        brackets: [
+          [39147, 0.087], [78294, 0.145], [139780, 0.158], [195693, 0.178],
+          [250000, 0.198], [500000, 0.208], [1000000, 0.213], [Infinity, 0.218],
+        ],
+        basicPersonalAmount: 9803,
+      },
+      2023: {
+        brackets: [
+          [41457, 0.087], [82913, 0.145], [148027, 0.158], [207239, 0.178],
+          [264750, 0.198], [529500, 0.208], [1059000, 0.213], [Infinity, 0.218],
+        ],
+        basicPersonalAmount: 10382,
+      },
+      2024: {
+        brackets: [
+          [43198, 0.087], [86395, 0.145], [154244, 0.158], [215943, 0.178],
+          [275870, 0.198], [551739, 0.208], [1103478, 0.213], [Infinity, 0.218],
+        ],
+        basicPersonalAmount: 10818,
+      },
+      2025: {
+        brackets: [
+          [44192, 0.087], [88382, 0.145], [157792, 0.158], [220910, 0.178],
+          [282214, 0.198], [564429, 0.208], [1128858, 0.213], [Infinity, 0.218],
+        ],
+        basicPersonalAmount: 11067,
+      },
+      2026: {
+        brackets: [
+          [45076, 0.087], [90149, 0.145], [160948, 0.158], [225328, 0.178],
+          [287858, 0.198], [575718, 0.208], [1151436, 0.213], [Infinity, 0.218],
+        ],
+        basicPersonalAmount: 11288,
+      },
+    },
+    salesTax: hst(0.15),
+  },
+  NT: {
+    code: 'NT',
+    name: 'Northwest Territories',
+    incomeTax: {
+      2020: { brackets: [[44396, 0.059], [88796, 0.086], [144362, 0.122], [Infinity, 0.1405]], basicPersonalAmount: 15093 },
+      2021: { brackets: [[45462, 0.059], [90927, 0.086], [147826, 0.122], [Infinity, 0.1405]], basicPersonalAmount: 15609 },
+      2022: { brackets: [[46740, 0.059], [93480, 0.086], [151978, 0.122], [Infinity, 0.1405]], basicPersonalAmount: 16093 },
+      2023: { brackets: [[48326, 0.059], [96655, 0.086], [157139, 0.122], [Infinity, 0.1405]], basicPersonalAmount: 16593 },
+      2024: { brackets: [[50597, 0.059], [101198, 0.086], [164525, 0.122], [Infinity, 0.1405]], basicPersonalAmount: 17373 },
+      2025: { brackets: [[51964, 0.059], [103930, 0.086], [168967, 0.122], [Infinity, 0.1405]], basicPersonalAmount: 17842 },
+      2026: { brackets: [[53003, 0.059], [106009, 0.086], [172346, 0.122], [Infinity, 0.1405]], basicPersonalAmount: 18198 },
+    },
+    salesTax: GST_ONLY,
+  },
+  NS: {
+    code: 'NS',
+    name: 'Nova Scotia',
+    incomeTax: {
+      2020: { brackets: [[29590, 0.0879], [59180, 0.1495], [93000, 0.1667], [150000, 0.175], [Infinity, 0.21]], basicPersonalAmount: 8481 },
+      2021: { brackets: [[29590, 0.0879], [59180, 0.1495], [93000, 0.1667], [150000, 0.175], [Infinity, 0.21]], basicPersonalAmount: 8481 },
+      2022: { brackets: [[29590, 0.0879], [59180, 0.1495], [93000, 0.1667], [150000, 0.175], [Infinity, 0.21]], basicPersonalAmount: 8481 },
+      2023: { brackets: [[29590, 0.0879], [59180, 0.1495], [93000, 0.1667], [150000, 0.175], [Infinity, 0.21]], basicPersonalAmount: 8481 },
+      2024: { brackets: [[29590, 0.0879], [59180, 0.1495], [93000, 0.1667], [150000, 0.175], [Infinity, 0.21]], basicPersonalAmount: 8744 },
+      2025: { brackets: [[30507, 0.0879], [61015, 0.1495], [95883, 0.1667], [154650, 0.175], [Infinity, 0.21]], basicPersonalAmount: 11744 },
+      2026: { brackets: [[31117, 0.0879], [62235, 0.1495], [97801, 0.1667], [157743, 0.175], [Infinity, 0.21]], basicPersonalAmount: 11979 },
+    },
+    salesTax: hst(0.14),
+  },
+  NU: {
+    code: 'NU',
+    name: 'Nunavut',
+    incomeTax: {
+      2020: { brackets: [[46740, 0.04], [93480, 0.07], [151978, 0.09], [Infinity, 0.115]], basicPersonalAmount: 16304 },
+      2021: { brackets: [[47862, 0.04], [95724, 0.07], [155625, 0.09], [Infinity, 0.115]], basicPersonalAmount: 16862 },
+      2022: { brackets: [[49240, 0.04], [98482, 0.07], [160109, 0.09], [Infinity, 0.115]], basicPersonalAmount: 17373 },
+      2023: { brackets: [[50877, 0.04], [101754, 0.07], [165429, 0.09], [Infinity, 0.115]], basicPersonalAmount: 17925 },
+      2024: { brackets: [[53268, 0.04], [106537, 0.07], [173205, 0.09], [Infinity, 0.115]], basicPersonalAmount: 18767 },
+      2025: { brackets: [[54707, 0.04], [109413, 0.07], [177881, 0.09], [Infinity, 0.115]], basicPersonalAmount: 19274 },
+      2026: { brackets: [[55801, 0.04], [111602, 0.07], [181439, 0.09], [Infinity, 0.115]], basicPersonalAmount: 19659 },
+    },
+    salesTax: GST_ONLY,
+  },
+  ON: {
+    code: 'ON',
+    name: 'Ontario',
+    incomeTax: {
+      2020: { brackets: [[44740, 0.0505], [89482, 0.0915], [150000, 0.1116], [220000, 0.1216], [Infinity, 0.1316]], basicPersonalAmount: 10783 },
+      2021: { brackets: [[45142, 0.0505], [90287, 0.0915], [150000, 0.1116], [220000, 0.1216], [Infinity, 0.1316]], basicPersonalAmount: 10880 },
+      2022: { brackets: [[46226, 0.0505], [92454, 0.0915], [150000, 0.1116], [220000, 0.1216], [Infinity, 0.1316]], basicPersonalAmount: 11141 },
+      2023: { brackets: [[49231, 0.0505], [98463, 0.0915], [150000, 0.1116], [220000, 0.1216], [Infinity, 0.1316]], basicPersonalAmount: 11865 },
+      2024: { brackets: [[51446, 0.0505], [102894, 0.0915], [150000, 0.1116], [220000, 0.1216], [Infinity, 0.1316]], basicPersonalAmount: 12399 },
+      2025: { brackets: [[52886, 0.0505], [105775, 0.0915], [150000, 0.1116], [220000, 0.1216], [Infinity, 0.1316]], basicPersonalAmount: 12747 },
+      2026: { brackets: [[53891, 0.0505], [107785, 0.0915], [150000, 0.1116], [220000, 0.1216], [Infinity, 0.1316]], basicPersonalAmount: 12989 },
+    },
+    salesTax: hst(0.13),
+  },
+  PE: {
+    code: 'PE',
+    name: 'Prince Edward Island',
+    incomeTax: {
+      2020: { brackets: [[31984, 0.098], [63969, 0.138], [Infinity, 0.167]], basicPersonalAmount: 10500 },
+      2021: { brackets: [[31984, 0.098], [63969, 0.138], [Infinity, 0.167]], basicPersonalAmount: 11250 },
+      2022: { brackets: [[31984, 0.098], [63969, 0.138], [Infinity, 0.167]], basicPersonalAmount: 11250 },
+      2023: { brackets: [[31984, 0.098], [63969, 0.138], [Infinity, 0.167]], basicPersonalAmount: 12000 },
+      2024: { brackets: [[32656, 0.0965], [64313, 0.1363], [105000, 0.1665], [140000, 0.18], [Infinity, 0.1875]], basicPersonalAmount: 13500 },
+      2025: { brackets: [[33328, 0.095], [64656, 0.1347], [105000, 0.166], [140000, 0.1762], [Infinity, 0.19]], basicPersonalAmount: 14250 },
+      2026: { brackets: [[33928, 0.095], [65820, 0.1347], [106890, 0.166], [142250, 0.1762], [Infinity, 0.19]], basicPersonalAmount: 15000 },
+    },
+    salesTax: hst(0.15),
+  },
+  QC: {
+    code: 'QC',
+    name: 'Quebec',
+    incomeTax: {
+      2020: { brackets: [[44545, 0.15], [89080, 0.20], [108390, 0.24], [Infinity, 0.2575]], basicPersonalAmount: 15532 },
+      2021: { brackets: [[45105, 0.15], [90200, 0.20], [109755, 0.24], [Infinity, 0.2575]], basicPersonalAmount: 15728 },
+      2022: { brackets: [[46295, 0.15], [92580, 0.20], [112655, 0.24], [Infinity, 0.2575]], basicPersonalAmount: 16143 },
+      2023: { brackets: [[49275, 0.14], [98540, 0.19], [119910, 0.24], [Infinity, 0.2575]], basicPersonalAmount: 17183 },
+      2024: { brackets: [[51780, 0.14], [103545, 0.19], [126000, 0.24], [Infinity, 0.2575]], basicPersonalAmount: 18056 },
+      2025: { brackets: [[53255, 0.14], [106495, 0.19], [129590, 0.24], [Infinity, 0.2575]], basicPersonalAmount: 18571 },
+      2026: { brackets: [[54345, 0.14], [108680, 0.19], [132245, 0.24], [Infinity, 0.2575]], basicPersonalAmount: 18952 },
+    },
+    salesTax: gstPst(0.09975, 'QST'),
+  },
+  SK: {
+    code: 'SK',
+    name: 'Saskatchewan',
+    incomeTax: {
+      2020: { brackets: [[45225, 0.105], [129214, 0.125], [Infinity, 0.145]], basicPersonalAmount: 16065 },
+      2021: { brackets: [[45677, 0.105], [130506, 0.125], [Infinity, 0.145]], basicPersonalAmount: 16225 },
+      2022: { brackets: [[46773, 0.105], [133638, 0.125], [Infinity, 0.145]], basicPersonalAmount: 16615 },
+      2023: { brackets: [[49720, 0.105], [142058, 0.125], [Infinity, 0.145]], basicPersonalAmount: 17661 },
+      2024: { brackets: [[52057, 0.105], [148734, 0.125], [Infinity, 0.145]], basicPersonalAmount: 18491 },
+      2025: { brackets: [[53463, 0.105], [152750, 0.125], [Infinity, 0.145]], basicPersonalAmount: 18991 },
+      2026: { brackets: [[54532, 0.105], [155805, 0.125], [Infinity, 0.145]], basicPersonalAmount: 19871 },
+    },
+    salesTax: gstPst(0.06),
+  },
+  YT: {
+    code: 'YT',
+    name: 'Yukon',
+    incomeTax: {
+      2020: { brackets: [[48535, 0.064], [97069, 0.09], [150473, 0.109], [500000, 0.128], [Infinity, 0.15]], basicPersonalAmount: 13229 },
+      2021: { brackets: [[49020, 0.064], [98040, 0.09], [151978, 0.109], [500000, 0.128], [Infinity, 0.15]], basicPersonalAmount: 13808 },
+      2022: { brackets: [[50197, 0.064], [100392, 0.09], [155625, 0.109], [500000, 0.128], [Infinity, 0.15]], basicPersonalAmount: 14398 },
+      2023: { brackets: [[53359, 0.064], [106717, 0.09], [165430, 0.109], [500000, 0.128], [Infinity, 0.15]], basicPersonalAmount: 15000 },
+      2024: { brackets: [[55867, 0.064], [111733, 0.09], [173205, 0.109], [500000, 0.128], [Infinity, 0.15]], basicPersonalAmount: 15705 },
+      2025: { brackets: [[57375, 0.064], [114750, 0.09], [177882, 0.109], [500000, 0.128], [Infinity, 0.15]], basicPersonalAmount: 16129 },
+      2026: { brackets: [[58523, 0.064], [117045, 0.09], [181440, 0.109], [500000, 0.128], [Infinity, 0.15]], basicPersonalAmount: 16452 },
+    },
+    salesTax: GST_ONLY,
+  },
+};
+
+// Quebec residents file a separate provincial return with Revenu Québec and
+// get this share of their basic federal tax back, since Quebec funds programs
+// that Ottawa funds elsewhere
+export const QUEBEC_ABATEMENT_RATE = 0.165;
+
+// Profiles saved before the province could be chosen were all sent as BC
+export const DEFAULT_PROVINCE: ProvinceCode = 'BC';
+
+export function isProvinceCode(code: unknown): code is ProvinceCode {
+  return typeof code === 'string' && code in PROVINCES;
+}
+
+export function getProvinceRules(code: string | null | undefined): ProvinceRules {
+  return PROVINCES[isProvinceCode(code) ? code : DEFAULT_PROVINCE];
+}
+
+// The year whose table applies to `year`; differs from `year` only when it has no table
+export function getIncomeTaxTableYear(tables: IncomeTaxTables, year: number): number {
+  const years = Object.keys(tables).map(Number).sort((a, b) => a - b);
+  return [...years].reverse().find((candidate) => candidate <= year) ?? years[0];
+}
+
+export function getIncomeTaxTable(tables: IncomeTaxTables, year: number): IncomeTaxTable {
+  return tables[getIncomeTaxTableYear(tables, year)];
+}
+
+export function bracketTax(income: number, brackets: TaxBracket[]) {
+  let tax = 0;
+  let lower = 0;
+  for (const [upTo, rate] of brackets) {
+    if (income <= lower) break;
+    tax += (Math.min(income, upTo) - lower) * rate;
+    lower = upTo;
+  }
+  return tax;
+}
+
+export function marginalRate(income: number, brackets: TaxBracket[]) {
+  return (brackets.find(([upTo]) => income <= upTo) ?? brackets[brackets.length - 1])[1];
+}
+
+// Tax on `income` less the basic personal amount credit
+export function incomeTaxAfterBasicCredit(income: number, { brackets, basicPersonalAmount }: IncomeTaxTable) {
+  return Math.max(0, bracketTax(income, brackets) - basicPersonalAmount * brackets[0][1]);
+}
+
+// Field labels for the expense form and GST/HST screen: "HST", or "GST" and "PST"/"QST"/"RST"
+export function getSalesTaxLabels({ type, pstLabel }: SalesTaxRules) {
+  return { gst: type === 'hst' ? 'HST' : 'GST', pst: pstLabel };
+}
+
+// A rate as written in the legislation: 0.0506 -> "5.06%", 0.09975 -> "9.975%"
+export function formatRate(rate: number) {
+  return `${parseFloat((rate * 100).toFixed(3))}%`;
+}
+
+// e.g. "HST 13%" or "GST 5% + PST 7%"
+export function describeSalesTax(salesTax: SalesTaxRules) {
+  const labels = getSalesTaxLabels(salesTax);
+  const gst = `${labels.gst} ${formatRate(salesTax.gstRate)}`;
+  return salesTax.pstRate > 0 ? `${gst} + ${labels.pst} ${formatRate(salesTax.pstRate)}` : gst;
+}
+
+/**
+ * Splits a tax-included total into base cost, GST/HST and PST at the
+ * province's rates. Only the taxes marked as included are backed out; PST
+ * is never included in provinces that don't charge it.
+ */
+export function splitTaxIncludedTotal(
+  total: number,
+  salesTax: SalesTaxRules,
+  { gstIncluded, pstIncluded }: { gstIncluded: boolean; pstIncluded: boolean }
+) {
+  const gstRate = gstIncluded ? salesTax.gstRate : 0;
+  const pstRate = pstIncluded ? salesTax.pstRate : 0;
+  const baseCost = total / (1 + gstRate + pstRate);
+  return { baseCost, gstAmount: baseCost * gstRate, pstAmount: baseCost * pstRate };
+}
@@ -0,0 +1,73 @@
+import { PRICING_TIERS, type User } from './types';
+
+// Who may open each top-level route. Anything not listed needs a signed-in
+// user, so a new screen is protected without having to register it here;
+// only routes that should be reachable signed out, or that need a paid plan,
+// are listed.
+
+export type PricingTier = keyof typeof PRICING_TIERS;
+
+export type RouteAccess =
+  | { kind: 'public' }
+  | { kind: 'authenticated' }
+  | { kind: 'tier'; tiers: PricingTier[]; feature: string; description: string };
+
+const PAID_TIERS: PricingTier[] = ['personal', 'corporate'];
+
+// Keyed by the first path segment (a file in app/ or a route group like "(tabs)")
+const ROUTE_ACCESS: Record<string, RouteAccess> = {
+  login: { kind: 'public' },
+  // Reachable from the login screen to pick which backend to sign in to
+  'server-profiles': { kind: 'public' },
+  'tax-calculator': {
+    kind: 'tier',
+    tiers: PAID_TIERS,
+    feature: 'Tax Estimator',
+    description: 'Upgrade to a paid plan to access tax calculations, projections, and detailed bracket breakdowns.',
+  },
+  // Builds on the Tax Estimator's figures
+  instalments: {
+    kind: 'tier',
+    tiers: PAID_TIERS,
+    feature: 'Instalment Planner',
+    description: 'Upgrade to a paid plan to plan your CRA tax instalments and get reminders before each due date.',
+  },
+};
+
+export type GuardDecision =
+  | { action: 'allow' }
+  | { action: 'login' }
+  | { action: 'upgrade'; access: Extract<RouteAccess, { kind: 'tier' }> };
+
+export function getRouteAccess(segment: string | undefined): RouteAccess {
+  return (segment && ROUTE_ACCESS[segment]) || { kind: 'authenticated' };
+}
+
+export function getUserTier(user: User | null): PricingTier {
+  const tier = user?.subscriptionTier;
+  return tier && tier in PRICING_TIERS ? (tier as PricingTier) : 'basic';
+}
+
+export function checkRouteAccess(segment: string | undefined, user: User | null): GuardDecision {
+  const access = getRouteAccess(segment);
+  if (access.kind === 'public') return { action: 'allow' };
+  if (!user) return { action: 'login' };
+  if (access.kind === 'tier' && !access.tiers.includes(getUserTier(user))) {
+    return { action: 'upgrade', access };
+  }
+  return { action: 'allow' };
+}
+
+// Where to go once signed in, when the user was sent to the login screen from
+// a deep link. Kept in memory: it only matters within this launch of the app.
+let pendingRedirect: string | null = null;
+
+export function rememberRedirect(href: string) {
+  pendingRedirect = href;
+}
+
+export function takeRedirect(): string | null {
+  const href = pendingRedirect;
+  pendingRedirect = null;
+  return href;
+}
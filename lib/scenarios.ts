@@ -0,0 +1,145 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { type CcaClassCode, firstYearCca } from './cca';
+import { type TaxEstimateInput } from './tax-engine';
+
+// What-if scenarios for the Tax Estimator: hypothetical income, expenses,
+// RRSP contributions and asset purchases laid over the year's real figures.
+// None of it is recorded as income or expenses; named scenarios are kept on
+// the device, per tax year, so they can be reopened and compared later.
+
+const STORAGE_KEY = '@tax_scenarios';
+
+export interface ScenarioAsset {
+  id: string;
+  description: string;
+  ccaClass: CcaClassCode;
+  cost: number;
+}
+
+export interface ScenarioAdjustments {
+  income: number; // Extra self-employment income, e.g. another contract
+  expenses: number; // Extra deductible expenses
+  rrspContribution: number;
+  assets: ScenarioAsset[]; // Purchases claimed through CCA
+}
+
+export interface Scenario extends ScenarioAdjustments {
+  id: string;
+  taxYear: number;
+  name: string;
+  updatedAt: number;
+}
+
+export const EMPTY_ADJUSTMENTS: ScenarioAdjustments = {
+  income: 0,
+  expenses: 0,
+  rrspContribution: 0,
+  assets: [],
+};
+
+let scenarios: Scenario[] = [];
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+async function persist(next: Scenario[]) {
+  scenarios = next;
+  notify();
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error saving scenarios:', error);
+  }
+}
+
+export function createScenarioId(prefix = 'scenario') {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function loadScenarios(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          const restored: Scenario[] = JSON.parse(stored);
+          // Scenarios saved since launch win over the stored copy
+          scenarios = [...restored.filter((scenario) => !scenarios.some((current) => current.id === scenario.id)), ...scenarios];
+          notify();
+        }
+      } catch (error) {
+        console.error('Error loading scenarios:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+// Newest first
+export function getScenarios(): Scenario[] {
+  return [...scenarios].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function subscribeToScenarios(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Adds the scenario, or replaces the saved one with the same id
+export async function saveScenario(scenario: Omit<Scenario, 'updatedAt'>): Promise<Scenario> {
+  await loadScenarios(); // So writing the list can't drop scenarios that haven't loaded yet
+  const saved = { ...scenario, updatedAt: Date.now() };
+  await persist([...scenarios.filter((current) => current.id !== scenario.id), saved]);
+  return saved;
+}
+
+export async function deleteScenario(id: string) {
+  await loadScenarios();
+  await persist(scenarios.filter((scenario) => scenario.id !== id));
+}
+
+// Forgets all scenarios (used when the user signs out or switches server)
+export async function clearScenarios() {
+  await loadScenarios(); // So a load still in flight can't bring them back
+  scenarios = [];
+  notify();
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing scenarios:', error);
+  }
+}
+
+function incomeBeforeCca(baseline: TaxEstimateInput, adjustments: ScenarioAdjustments) {
+  return baseline.selfEmploymentIncome + adjustments.income - adjustments.expenses;
+}
+
+// First-year CCA claimed on the scenario's assets. CCA is optional, so only
+// enough is claimed to bring self-employment income down to zero; the rest
+// stays undepreciated for later years.
+export function getScenarioCca(baseline: TaxEstimateInput, adjustments: ScenarioAdjustments): number {
+  const cca = adjustments.assets.reduce(
+    (sum, asset) => sum + firstYearCca(asset.cost, asset.ccaClass, baseline.taxYear),
+    0
+  );
+  return Math.min(cca, Math.max(0, incomeBeforeCca(baseline, adjustments)));
+}
+
+/**
+ * The estimator input with a scenario applied: extra income, expenses and
+ * first-year CCA change self-employment income, and RRSP contributions are
+ * deducted from taxable income. Expenses can turn it into a loss, which
+ * offsets T4 employment income.
+ */
+export function applyScenario(baseline: TaxEstimateInput, adjustments: ScenarioAdjustments): TaxEstimateInput {
+  return {
+    ...baseline,
+    selfEmploymentIncome: incomeBeforeCca(baseline, adjustments) - getScenarioCca(baseline, adjustments),
+    rrspDeduction: (baseline.rrspDeduction ?? 0) + adjustments.rrspContribution,
+  };
+}
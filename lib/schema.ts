@@ -0,0 +1,100 @@
+// Minimal runtime validators for API responses. Each schema checks a value and
+// returns it typed, or throws a SchemaError naming the offending field.
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export class SchemaError extends Error {
+  constructor(public path: string, public expected: string, public received: unknown) {
+    super(`${path || 'response'} should be ${expected} but was ${describe(received)}`);
+    this.name = 'SchemaError';
+  }
+}
+
+function describe(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  return typeof value === 'object' ? 'an object' : String(value);
+}
+
+function join(path: string, key: string | number) {
+  return typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+}
+
+export function string(): Schema<string> {
+  return (value, path) => {
+    if (typeof value !== 'string') throw new SchemaError(path, 'a string', value);
+    return value;
+  };
+}
+
+export function number(): Schema<number> {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new SchemaError(path, 'a number', value);
+    return value;
+  };
+}
+
+// Money and distances arrive as numbers or decimal strings ("12.50") depending on the column type
+export function numeric(): Schema<number | string> {
+  return (value, path) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return value;
+    throw new SchemaError(path, 'a number', value);
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return (value, path) => {
+    if (typeof value !== 'boolean') throw new SchemaError(path, 'true or false', value);
+    return value;
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, path) => {
+    if (!values.includes(value as T)) throw new SchemaError(path, `one of ${values.join(', ')}`, value);
+    return value as T;
+  };
+}
+
+// Missing and null are both accepted and normalized to undefined
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, 'an array', value);
+    return value.map((entry, index) => item(entry, join(path, index)));
+  };
+}
+
+// Keys of T without its `[key: string]: any` index signature
+type KnownKeys<T> = keyof {
+  [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K];
+};
+
+export type Shape<T> = { [K in KnownKeys<T>]?: Schema<T[K]> };
+
+/**
+ * Validates the listed fields of an object. Unlisted fields are passed through
+ * untouched, so the backend can add columns without breaking older app builds.
+ */
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'an object', value);
+    }
+    const result: Record<string, unknown> = { ...value };
+    Object.entries(shape).forEach(([key, schema]) => {
+      result[key] = (schema as Schema<unknown>)((value as Record<string, unknown>)[key], join(path, key));
+    });
+    return result as T;
+  };
+}
+
+// Accepts anything; for endpoints whose body the app does not read
+export function unknown(): Schema<unknown> {
+  return (value) => value;
+}
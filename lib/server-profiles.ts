@@ -0,0 +1,159 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_URL } from './config';
+
+// Named backend URLs (local, staging, production...) the user can switch
+// between at runtime. The API layer reads the active URL on every request, so
+// a switch takes effect without rebuilding the app.
+
+const STORAGE_KEY = '@server-profiles';
+const TEST_TIMEOUT = 5000;
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  status?: number;
+  latencyMs?: number;
+  error?: string;
+}
+
+interface StoredProfiles {
+  profiles: ServerProfile[];
+  activeId: string;
+}
+
+// Built from EXPO_PUBLIC_API_URL / lib/config.ts; always present and not editable
+const defaultProfile: ServerProfile = { id: DEFAULT_PROFILE_ID, name: 'Default', url: API_URL };
+
+let state: StoredProfiles = { profiles: [defaultProfile], activeId: DEFAULT_PROFILE_ID };
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+async function persist(next: StoredProfiles) {
+  state = next;
+  notify();
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ ...next, profiles: next.profiles.filter((profile) => profile.id !== DEFAULT_PROFILE_ID) })
+    );
+  } catch (error) {
+    console.error('Error saving server profiles:', error);
+  }
+}
+
+export function loadServerProfiles(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          const parsed: StoredProfiles = JSON.parse(stored);
+          const profiles = [defaultProfile, ...parsed.profiles];
+          state = {
+            profiles,
+            activeId: profiles.some((profile) => profile.id === parsed.activeId) ? parsed.activeId : DEFAULT_PROFILE_ID,
+          };
+          notify();
+        }
+      } catch (error) {
+        console.error('Error loading server profiles:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+export function getServerProfiles(): ServerProfile[] {
+  return state.profiles;
+}
+
+export function getActiveProfile(): ServerProfile {
+  return state.profiles.find((profile) => profile.id === state.activeId) ?? defaultProfile;
+}
+
+// Base URL for API requests and image links. Falls back to the default until
+// the saved profiles have loaded; lib/api.ts awaits the load before requesting.
+export function getApiUrl(): string {
+  return getActiveProfile().url;
+}
+
+export function subscribeToServerProfiles(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Trims whitespace and trailing slashes; returns null when the URL is not http(s)
+export function normalizeServerUrl(url: string): string | null {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  return /^https?:\/\/[^\s/]+/i.test(trimmed) ? trimmed : null;
+}
+
+export async function saveServerProfile(profile: Omit<ServerProfile, 'id'> & { id?: string }): Promise<ServerProfile> {
+  await loadServerProfiles();
+  const url = normalizeServerUrl(profile.url);
+  if (!url) {
+    throw new Error('Enter a URL starting with http:// or https://');
+  }
+  if (profile.id === DEFAULT_PROFILE_ID) {
+    throw new Error('The default server cannot be edited');
+  }
+  const saved: ServerProfile = {
+    id: profile.id ?? `server-${Date.now().toString(36)}`,
+    name: profile.name.trim() || url,
+    url,
+  };
+  const exists = state.profiles.some((existing) => existing.id === saved.id);
+  await persist({
+    ...state,
+    profiles: exists
+      ? state.profiles.map((existing) => (existing.id === saved.id ? saved : existing))
+      : [...state.profiles, saved],
+  });
+  return saved;
+}
+
+export async function removeServerProfile(id: string) {
+  await loadServerProfiles();
+  if (id === DEFAULT_PROFILE_ID) return;
+  await persist({
+    profiles: state.profiles.filter((profile) => profile.id !== id),
+    activeId: state.activeId === id ? DEFAULT_PROFILE_ID : state.activeId,
+  });
+}
+
+export async function selectServerProfile(id: string) {
+  await loadServerProfiles();
+  if (!state.profiles.some((profile) => profile.id === id)) return;
+  await persist({ ...state, activeId: id });
+}
+
+// Any HTTP response (even 401) means the server is reachable
+export async function testServerConnection(url: string): Promise<ConnectionTestResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TEST_TIMEOUT);
+  const startedAt = Date.now();
+  try {
+    const res = await fetch(`${url}/api/auth/user`, { credentials: 'include', signal: controller.signal });
+    return { ok: true, status: res.status, latencyMs: Date.now() - startedAt };
+  } catch (error: any) {
+    return {
+      ok: false,
+      error: controller.signal.aborted ? `No response after ${TEST_TIMEOUT / 1000}s` : error?.message || 'Connection failed',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
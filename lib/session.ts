@@ -0,0 +1,81 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiRequest } from './api';
+import { clearDrafts } from './drafts';
+import { routes } from './endpoints';
+import { getErrorStatus } from './errors';
+import { clearInstalmentPlanner } from './instalment-planner';
+import { clearOutbox, getOutboxEntries, loadOutbox } from './outbox';
+import { clearScenarios } from './scenarios';
+import { clearStore } from './store';
+import { type User } from './types';
+import { clearUploads, getUploads, loadUploads } from './uploads';
+
+// Device-side data that belongs to the signed-in user. Cleared on sign out so
+// a shared device can be handed to the next person.
+
+const USER_STORAGE_KEY = '@session_user';
+
+// Offline changes and photo uploads that have not reached the server yet
+export async function countUnsyncedChanges() {
+  await Promise.all([loadOutbox(), loadUploads()]);
+  const pendingUploads = getUploads().filter((task) => task.status === 'queued' || task.status === 'uploading');
+  return getOutboxEntries().length + pendingUploads.length;
+}
+
+// The signed-in user as last returned by the server, so a launch without
+// signal can still open the app (and its outbox) for the stored session
+export async function saveSessionUser(user: User) {
+  try {
+    await AsyncStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+  } catch (error) {
+    console.error('Error saving signed-in user:', error);
+  }
+}
+
+export async function loadSessionUser(): Promise<User | null> {
+  try {
+    const stored = await AsyncStorage.getItem(USER_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error loading signed-in user:', error);
+    return null;
+  }
+}
+
+export async function clearSessionUser() {
+  try {
+    await AsyncStorage.removeItem(USER_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing signed-in user:', error);
+  }
+}
+
+// The cached user, cached lists (expenses, income, receipts, paystubs...), the offline outbox, the upload
+// queue, form drafts, the instalment planner with its reminders and saved what-if scenarios
+/**
+ * Ends the backend's cookie session, so the cookie store (the browser's, on
+ * web) no longer holds a live session. Like the Supabase sign-out this throws
+ * when the server can't be reached; a session that already ended, or a server
+ * without the route, is fine.
+ */
+export async function endServerSession() {
+  const { method, url } = routes.auth.logout.request();
+  try {
+    await apiRequest(method, url, undefined, { waitForReauth: false });
+  } catch (error) {
+    const status = getErrorStatus(error);
+    if (status !== 401 && status !== 404) throw error;
+  }
+}
+
+export async function clearLocalData() {
+  await Promise.all([
+    clearSessionUser(),
+    clearStore(),
+    clearOutbox(),
+    clearUploads(),
+    clearDrafts(),
+    clearInstalmentPlanner(),
+    clearScenarios(),
+  ]);
+}
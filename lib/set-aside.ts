@@ -0,0 +1,54 @@
+import { roundToCents } from './deductions';
+import { type PensionPlanCode, selfEmployedContribution } from './pension';
+import { type Income } from './types';
+
+// How much of each income entry to move to a tax savings account: income
+// tax at the marginal rate on the share of it left after deductible
+// expenses, all the GST/HST collected on it (it belongs to the CRA), and the
+// CPP/QPP it adds until the year's contributions reach their maximum.
+
+export interface SetAside {
+  incomeTax: number;
+  salesTax: number;
+  pension: number;
+  total: number;
+}
+
+export interface SetAsideContext {
+  taxYear: number;
+  pensionPlan: PensionPlanCode;
+  marginalTaxRate: number; // Percent
+  netIncomeRatio: number; // Net income over gross income for the year so far, 0-1
+  employmentIncome: number; // T4 earnings, which use up the CPP/QPP ceilings first
+}
+
+function toAmount(value: number | string | null | undefined): number {
+  const amount = typeof value === 'number' ? value : parseFloat(value ?? '');
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+/**
+ * Set-aside for each of a year's income entries, keyed by id. Entries are
+ * taken in date order so CPP/QPP stops once earlier entries reach the cap.
+ */
+export function calculateSetAsides(entries: Income[], context: SetAsideContext): Map<string, SetAside> {
+  const { taxYear, pensionPlan, marginalTaxRate, employmentIncome } = context;
+  const netIncomeRatio = Math.min(Math.max(context.netIncomeRatio, 0), 1);
+  const ordered = [...entries].sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+
+  const setAsides = new Map<string, SetAside>();
+  let earningsToDate = 0;
+  let pensionBefore = 0;
+  ordered.forEach((entry) => {
+    const netEarnings = Math.max(0, toAmount(entry.amount)) * netIncomeRatio;
+    earningsToDate += netEarnings;
+    const pensionToDate = selfEmployedContribution(earningsToDate, taxYear, pensionPlan, employmentIncome).total;
+
+    const incomeTax = roundToCents((netEarnings * marginalTaxRate) / 100);
+    const salesTax = roundToCents(toAmount(entry.gstHstCollected));
+    const pension = roundToCents(pensionToDate - pensionBefore);
+    pensionBefore = pensionToDate;
+    setAsides.set(entry.id, { incomeTax, salesTax, pension, total: roundToCents(incomeTax + salesTax + pension) });
+  });
+  return setAsides;
+}
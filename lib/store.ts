@@ -0,0 +1,305 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { clearBusinessUse } from './business-use';
+import {
+  ChangeSet,
+  expenseSchema,
+  incomeSchema,
+  instalmentPaymentSchema,
+  paystubSchema,
+  receiptSchema,
+  Route,
+  routes,
+  SyncParams,
+  t4SlipSchema,
+  taxSavingsTransferSchema,
+  validateResponse,
+  vehicleSchema,
+} from './endpoints';
+import { getErrorStatus } from './errors';
+import { Schema } from './schema';
+import { clearTaxCalculations } from './tax-calculation';
+
+// App-wide normalized cache for list data. Each collection is stored by id,
+// persisted to AsyncStorage, served immediately on launch and revalidated in
+// the background (stale-while-revalidate). Collections with a `changes` route
+// sync incrementally: after the first full load only records changed since
+// the last cursor are transferred, and tombstones remove deleted ones.
+
+export type CollectionName =
+  | 'expenses'
+  | 'income'
+  | 'vehicles'
+  | 'receipts'
+  | 'paystubs'
+  | 't4Slips'
+  | 'instalmentPayments'
+  | 'taxSavingsTransfers';
+
+interface CollectionConfig {
+  list: Route<void, void, any[]>;
+  changes?: Route<SyncParams, void, ChangeSet<any>>;
+  item: Schema<any>;
+}
+
+const COLLECTIONS: Record<CollectionName, CollectionConfig> = {
+  expenses: { list: routes.expenses.list, changes: routes.expenses.changes, item: expenseSchema },
+  income: { list: routes.income.list, changes: routes.income.changes, item: incomeSchema },
+  vehicles: { list: routes.vehicles.list, item: vehicleSchema },
+  receipts: { list: routes.receipts.list, item: receiptSchema },
+  paystubs: { list: routes.paystubs.list, item: paystubSchema },
+  t4Slips: { list: routes.t4Slips.list, item: t4SlipSchema },
+  instalmentPayments: { list: routes.instalmentPayments.list, item: instalmentPaymentSchema },
+  taxSavingsTransfers: { list: routes.taxSavingsTransfers.list, item: taxSavingsTransferSchema },
+};
+
+const STORAGE_KEY_PREFIX = '@store/';
+const STALE_TIME = 30 * 1000; // Data younger than this is not refetched unless forced
+
+interface CollectionState {
+  byId: Record<string, any>;
+  ids: string[];
+  updatedAt: number | null;
+  cursor: string | null; // Incremental sync position; null means the next sync is a full load
+}
+
+type CollectionListener = () => void;
+
+const collections = {} as Record<CollectionName, CollectionState>;
+const listeners = {} as Record<CollectionName, Set<CollectionListener>>;
+const snapshots = {} as Partial<Record<CollectionName, any[]>>;
+const hydrated = new Set<CollectionName>();
+const hydrating = new Map<CollectionName, Promise<void>>();
+const inFlight = new Map<CollectionName, Promise<void>>();
+// Collections whose server answered 404 on /changes; these fall back to full lists
+const changesUnsupported = new Set<CollectionName>();
+// Bumped by clearStore, so loads and syncs started for the previous user never
+// write their results back after sign out
+let generation = 0;
+
+(Object.keys(COLLECTIONS) as CollectionName[]).forEach((name) => {
+  collections[name] = { byId: {}, ids: [], updatedAt: null, cursor: null };
+  listeners[name] = new Set();
+});
+
+function notify(name: CollectionName) {
+  delete snapshots[name];
+  listeners[name].forEach((listener) => listener());
+}
+
+async function persist(name: CollectionName) {
+  try {
+    await AsyncStorage.setItem(`${STORAGE_KEY_PREFIX}${name}`, JSON.stringify(collections[name]));
+  } catch (error) {
+    console.error(`Error saving ${name} cache:`, error);
+  }
+}
+
+function commit(name: CollectionName, state: CollectionState) {
+  collections[name] = state;
+  notify(name);
+  persist(name);
+}
+
+function normalize(items: any[]): Pick<CollectionState, 'byId' | 'ids'> {
+  const byId: Record<string, any> = {};
+  const ids: string[] = [];
+  items.forEach((item) => {
+    if (!item?.id) return;
+    if (!byId[item.id]) ids.push(item.id);
+    byId[item.id] = item;
+  });
+  return { byId, ids };
+}
+
+// Returns the same array instance until the collection changes, so it is safe
+// to use directly as React state or a memo dependency
+export function getCollection<T = any>(name: CollectionName): T[] {
+  if (!snapshots[name]) {
+    const { byId, ids } = collections[name];
+    snapshots[name] = ids.map((id) => byId[id]);
+  }
+  return snapshots[name] as T[];
+}
+
+export function getEntity<T = any>(name: CollectionName, id: string): T | undefined {
+  return collections[name].byId[id];
+}
+
+export function hasCollectionData(name: CollectionName) {
+  return collections[name].updatedAt !== null;
+}
+
+export function subscribeToCollection(name: CollectionName, listener: CollectionListener) {
+  listeners[name].add(listener);
+  return () => {
+    listeners[name].delete(listener);
+  };
+}
+
+export function hydrateCollection(name: CollectionName): Promise<void> {
+  if (hydrated.has(name)) return Promise.resolve();
+  if (!hydrating.has(name)) {
+    const started = generation;
+    hydrating.set(name, (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(`${STORAGE_KEY_PREFIX}${name}`);
+        // Never overwrite fresher data that arrived from the network meanwhile
+        if (stored && collections[name].updatedAt === null && generation === started) {
+          collections[name] = { cursor: null, ...JSON.parse(stored) };
+          notify(name);
+        }
+      } catch (error) {
+        console.error(`Error loading ${name} cache:`, error);
+      } finally {
+        hydrated.add(name);
+        hydrating.delete(name);
+      }
+    })());
+  }
+  return hydrating.get(name)!;
+}
+
+export function replaceCollection(name: CollectionName, items: any[]) {
+  commit(name, { ...normalize(items || []), updatedAt: Date.now(), cursor: null });
+}
+
+export function upsertEntities(name: CollectionName, items: any | any[]) {
+  const list = Array.isArray(items) ? items : [items];
+  const current = collections[name];
+  const byId = { ...current.byId };
+  const ids = [...current.ids];
+  list.forEach((item) => {
+    if (!item?.id) return;
+    if (!byId[item.id]) ids.push(item.id);
+    byId[item.id] = { ...byId[item.id], ...item };
+  });
+  commit(name, { ...current, byId, ids });
+}
+
+export function removeEntity(name: CollectionName, id: string) {
+  const current = collections[name];
+  if (!current.byId[id]) return;
+  const byId = { ...current.byId };
+  delete byId[id];
+  commit(name, { ...current, byId, ids: current.ids.filter((existing) => existing !== id) });
+}
+
+// Applies the record returned by a successful POST/PATCH to the store
+export async function upsertFromResponse(name: CollectionName, response: Response | undefined) {
+  if (!response) return;
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    // Some endpoints reply without a body; the next revalidation picks the change up
+    return;
+  }
+  upsertEntities(name, validateResponse(COLLECTIONS[name].item, data, `${name} record`));
+}
+
+function applyChanges(name: CollectionName, { items, deleted, cursor }: ChangeSet<any>) {
+  const current = collections[name];
+  const byId = { ...current.byId };
+  const ids = [...current.ids];
+  items.forEach((item) => {
+    if (!item?.id) return;
+    if (!byId[item.id]) ids.push(item.id);
+    byId[item.id] = item;
+  });
+  const removed = new Set(deleted.filter((id) => byId[id]));
+  removed.forEach((id) => delete byId[id]);
+  commit(name, {
+    byId,
+    ids: removed.size > 0 ? ids.filter((id) => !removed.has(id)) : ids,
+    updatedAt: Date.now(),
+    cursor,
+  });
+}
+
+// Responses that arrive after clearStore belong to the previous user and are dropped
+async function sync(name: CollectionName, taxYear?: number, started = generation): Promise<void> {
+  const isCurrent = () => generation === started;
+  const { list, changes } = COLLECTIONS[name];
+  if (!changes || changesUnsupported.has(name)) {
+    const items = await list.call();
+    if (isCurrent()) replaceCollection(name, items);
+    return;
+  }
+
+  try {
+    const { cursor } = collections[name];
+    if (cursor) {
+      const changeSet = await changes.call({ since: cursor });
+      if (isCurrent()) applyChanges(name, changeSet);
+      return;
+    }
+    if (taxYear !== undefined && collections[name].updatedAt === null) {
+      // Nothing cached yet: load the year on screen first so it renders while
+      // the rest of the history downloads
+      const year = await changes.call({ taxYear });
+      if (!isCurrent()) return;
+      commit(name, { ...normalize(year.items), updatedAt: Date.now(), cursor: null });
+    }
+    const full = await changes.call({});
+    if (!isCurrent()) return;
+    commit(name, { ...normalize(full.items), updatedAt: Date.now(), cursor: full.cursor });
+  } catch (error) {
+    if (!isCurrent()) return;
+    const status = getErrorStatus(error);
+    if (status === 404) {
+      changesUnsupported.add(name);
+      return sync(name, undefined, started);
+    }
+    if (status === 410 && collections[name].cursor) {
+      // The server no longer recognises our cursor (e.g. its data was reset)
+      collections[name] = { ...collections[name], cursor: null };
+      return sync(name, taxYear, started);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Refetches a collection from the server. Concurrent calls share one request,
+ * and fresh data is left alone unless `force` is set. `taxYear` is the year
+ * on screen, loaded first when nothing is cached yet.
+ */
+export async function revalidateCollection(
+  name: CollectionName,
+  options: { force?: boolean; taxYear?: number } = {}
+) {
+  await hydrateCollection(name);
+
+  const { updatedAt } = collections[name];
+  if (!options.force && updatedAt !== null && Date.now() - updatedAt < STALE_TIME) {
+    return;
+  }
+
+  if (!inFlight.has(name)) {
+    const request: Promise<void> = sync(name, options.taxYear).finally(() => {
+      // clearStore may already have dropped it, and a newer sync taken its place
+      if (inFlight.get(name) === request) inFlight.delete(name);
+    });
+    inFlight.set(name, request);
+  }
+  return inFlight.get(name);
+}
+
+// Wipes every collection from memory and disk (used when the user signs out)
+export async function clearStore() {
+  const names = Object.keys(COLLECTIONS) as CollectionName[];
+  generation += 1;
+  inFlight.clear();
+  hydrating.clear();
+  names.forEach((name) => {
+    collections[name] = { byId: {}, ids: [], updatedAt: null, cursor: null };
+    notify(name);
+  });
+  clearBusinessUse();
+  clearTaxCalculations();
+  try {
+    await AsyncStorage.multiRemove(names.map((name) => `${STORAGE_KEY_PREFIX}${name}`));
+  } catch (error) {
+    console.error('Error clearing cached data:', error);
+  }
+}
@@ -1,33 +1,40 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createClient } from '@supabase/supabase-js';
 import Constants from 'expo-constants';
 import 'react-native-url-polyfill/auto';
+import { USE_MOCK_BACKEND } from './config';
+import { mockFetch } from './mock-backend';
 
 // Read environment variables from multiple sources
 // Try process.env first (works if .env is loaded), then fall back to expo config
-const supabaseUrl = 
-  process.env.EXPO_PUBLIC_SUPABASE_URL || 
-  Constants.expoConfig?.extra?.supabaseUrl || 
+const supabaseUrl =
+  process.env.EXPO_PUBLIC_SUPABASE_URL ||
+  Constants.expoConfig?.extra?.supabaseUrl ||
   '';
-  
-const supabaseAnonKey = 
-  process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || 
-  Constants.expoConfig?.extra?.supabaseAnonKey || 
+
+const supabaseAnonKey =
+  process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY ||
+  Constants.expoConfig?.extra?.supabaseAnonKey ||
   '';
 
-// Validate environment variables
-const hasValidCredentials = 
-  supabaseUrl && 
-  supabaseAnonKey && 
-  !supabaseUrl.includes('your-') && 
+// http:// is allowed so a local Supabase stack (`supabase start`, usually
+// http://127.0.0.1:54321 or your computer's IP on a device) works in development
+const hasValidCredentials =
+  supabaseUrl &&
+  supabaseAnonKey &&
+  !supabaseUrl.includes('your-') &&
   !supabaseAnonKey.includes('your-') &&
-  supabaseUrl.startsWith('https://');
+  /^https?:\/\//.test(supabaseUrl);
+
+// With the mock backend on, auth requests go to its /auth/v1 stand-in instead
+export const isSupabaseConfigured = USE_MOCK_BACKEND || !!hasValidCredentials;
 
-if (!hasValidCredentials) {
+if (!isSupabaseConfigured) {
   console.error(
-    `⚠️ Missing Supabase environment variables. 
-    Got URL: ${supabaseUrl ? (supabaseUrl.includes('your-') ? '✗ (placeholder)' : supabaseUrl.startsWith('https://') ? '✓' : '✗ (invalid)') : '✗'} 
+    `⚠️ Missing Supabase environment variables.
+    Got URL: ${supabaseUrl ? (supabaseUrl.includes('your-') ? '✗ (placeholder)' : /^https?:\/\//.test(supabaseUrl) ? '✓' : '✗ (invalid)') : '✗'}
     Got Key: ${supabaseAnonKey ? (supabaseAnonKey.includes('your-') ? '✗ (placeholder)' : '✓') : '✗'}
-    
+
     Please add your real Supabase credentials to .env file as EXPO_PUBLIC_SUPABASE_URL and EXPO_PUBLIC_SUPABASE_ANON_KEY, then restart the dev server.`
   );
 }
@@ -35,13 +42,16 @@ if (!hasValidCredentials) {
 // Create and export Supabase client
 // Use placeholder values if credentials are missing (prevents crash, but won't work)
 export const supabase = createClient(
-  hasValidCredentials ? supabaseUrl : 'https://placeholder.supabase.co',
-  hasValidCredentials ? supabaseAnonKey : 'placeholder-key',
+  USE_MOCK_BACKEND ? 'http://mock-supabase.local' : hasValidCredentials ? supabaseUrl : 'https://placeholder.supabase.co',
+  USE_MOCK_BACKEND ? 'mock-anon-key' : hasValidCredentials ? supabaseAnonKey : 'placeholder-key',
   {
     auth: {
-      autoRefreshToken: hasValidCredentials,
-      persistSession: hasValidCredentials,
+      // Sessions survive restarts; the access token is refreshed in the background
+      storage: AsyncStorage,
+      autoRefreshToken: isSupabaseConfigured,
+      persistSession: isSupabaseConfigured,
       detectSessionInUrl: false,
     },
+    global: USE_MOCK_BACKEND ? { fetch: (input, init) => mockFetch(String(input), init) } : undefined,
   }
 );
@@ -0,0 +1,48 @@
+import { routes } from './endpoints';
+import { type TaxCalculationResponse } from './types';
+
+// The server's tax calculation per tax year, shared by the Dashboard, Income
+// and Tax Estimator screens so each year is fetched once however many of
+// them are open. Concurrent callers share one request.
+
+const STALE_TIME = 30 * 1000; // Same freshness window as lib/store.ts
+
+interface CachedCalculation {
+  response: TaxCalculationResponse;
+  fetchedAt: number;
+}
+
+const cache = new Map<number, CachedCalculation>();
+const inFlight = new Map<number, Promise<TaxCalculationResponse>>();
+
+/**
+ * /api/tax-calculation for a tax year, from the cache while it's fresh.
+ * Errors (offline, a plan without tax tools) are thrown to the caller.
+ */
+export function fetchTaxCalculation(taxYear: number): Promise<TaxCalculationResponse> {
+  const cached = cache.get(taxYear);
+  if (cached && Date.now() - cached.fetchedAt < STALE_TIME) {
+    return Promise.resolve(cached.response);
+  }
+
+  if (!inFlight.has(taxYear)) {
+    const request: Promise<TaxCalculationResponse> = routes.taxCalculation
+      .call({ taxYear })
+      .then((response) => {
+        // Dropped if the cache was cleared (sign out) while this was in flight
+        if (inFlight.get(taxYear) === request) cache.set(taxYear, { response, fetchedAt: Date.now() });
+        return response;
+      })
+      .finally(() => {
+        if (inFlight.get(taxYear) === request) inFlight.delete(taxYear);
+      });
+    inFlight.set(taxYear, request);
+  }
+  return inFlight.get(taxYear)!;
+}
+
+// Forgets cached calculations (used when the user signs out or switches server)
+export function clearTaxCalculations() {
+  cache.clear();
+  inFlight.clear();
+}
@@ -0,0 +1,178 @@
+import { eiPremiums } from './employment-insurance';
+import {
+  employeeContribution,
+  employeeTaxTreatment,
+  getPensionPlan,
+  type PensionContribution,
+  type PensionPlan,
+  selfEmployedContribution,
+  selfEmployedTaxTreatment,
+} from './pension';
+import {
+  bracketTax,
+  getIncomeTaxTable,
+  getProvinceRules,
+  type IncomeTaxTable,
+  type IncomeTaxTables,
+  marginalRate,
+  type ProvinceCode,
+  QUEBEC_ABATEMENT_RATE,
+} from './provinces';
+import { type T4Slip } from './types';
+
+// Income tax estimate worked out on the device from the bracket tables, so
+// the Tax Estimator can combine self-employment and T4 employment income
+// properly and still works when /api/tax-calculation can't be reached.
+// Covers the basic personal amount, CPP/QPP and EI; other credits are left out.
+
+// 2025's lowest rate is the blended 14.5% (15% until July, 14% after)
+const FEDERAL_INCOME_TAX: IncomeTaxTables = {
+  2020: { brackets: [[48535, 0.15], [97069, 0.205], [150473, 0.26], [214368, 0.29], [Infinity, 0.33]], basicPersonalAmount: 13229 },
+  2021: { brackets: [[49020, 0.15], [98040, 0.205], [151978, 0.26], [216511, 0.29], [Infinity, 0.33]], basicPersonalAmount: 13808 },
+  2022: { brackets: [[50197, 0.15], [100392, 0.205], [155625, 0.26], [221708, 0.29], [Infinity, 0.33]], basicPersonalAmount: 14398 },
+  2023: { brackets: [[53359, 0.15], [106717, 0.205], [165430, 0.26], [235675, 0.29], [Infinity, 0.33]], basicPersonalAmount: 15000 },
+  2024: { brackets: [[55867, 0.15], [111733, 0.205], [173205, 0.26], [246752, 0.29], [Infinity, 0.33]], basicPersonalAmount: 15705 },
+  2025: { brackets: [[57375, 0.145], [114750, 0.205], [177882, 0.26], [253414, 0.29], [Infinity, 0.33]], basicPersonalAmount: 16129 },
+  2026: { brackets: [[58523, 0.14], [117045, 0.205], [181440, 0.26], [258482, 0.29], [Infinity, 0.33]], basicPersonalAmount: 16452 },
+};
+
+export interface TaxEstimateInput {
+  taxYear: number;
+  province: ProvinceCode;
+  selfEmploymentIncome: number; // Net of deductible expenses; a business loss (negative) offsets other income
+  employmentIncome?: number; // T4 employment income
+  employmentPensionPaid?: number; // CPP/QPP (and CPP2) withheld by employers; assumed correct when left out
+  employmentEiPaid?: number; // EI premiums withheld by employers; assumed correct when left out
+  taxesPaid?: number; // Income tax withheld by employers
+  unionDues?: number; // Deducted from income
+  rrspDeduction?: number; // RRSP contributions claimed for the year
+}
+
+export type EmploymentAmounts = Pick<
+  TaxEstimateInput,
+  'employmentIncome' | 'employmentPensionPaid' | 'employmentEiPaid' | 'taxesPaid' | 'unionDues'
+>;
+
+export interface TaxEstimate {
+  pensionPlan: PensionPlan;
+  totalIncome: number;
+  taxableIncome: number; // After union dues, RRSP contributions and the deductible part of CPP/QPP contributions
+  selfEmployedPension: PensionContribution; // Owed with the return on self-employment earnings
+  employeePension: PensionContribution; // Due on employment earnings, withheld by employers
+  pensionContribution: number; // Self-employed total
+  pensionWithheld: number;
+  pensionOverpayment: number; // Withheld beyond what employment earnings required; refunded
+  pensionDeduction: number;
+  pensionCredit: number; // Employee base contributions, claimed as a credit
+  eiPremiums: number; // Due on employment earnings, claimed as a credit
+  eiOverpayment: number;
+  basicFederalTax: number; // Before the Quebec abatement
+  quebecAbatement: number;
+  federalTax: number;
+  provincialTax: number;
+  totalIncomeTax: number;
+  netTaxOwing: number; // Income tax less tax withheld, as the CRA tests it for instalments; federal only in Quebec
+  totalOwed: number; // Income tax and CPP/QPP less what was withheld or overpaid; negative is a refund
+  marginalTaxRate: number; // Percent
+  effectiveTaxRate: number; // Percent of total income, before withholding
+}
+
+export function getFederalIncomeTaxTable(year: number): IncomeTaxTable {
+  return getIncomeTaxTable(FEDERAL_INCOME_TAX, year);
+}
+
+function toAmount(value: number | string | null | undefined): number {
+  const amount = typeof value === 'number' ? value : parseFloat(value ?? '');
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+// Sums a year's T4 slips. CPP and EI stay undefined (assumed withheld
+// correctly) unless at least one slip has the box filled in.
+export function employmentFromSlips(slips: T4Slip[]): EmploymentAmounts {
+  const sum = (box: keyof T4Slip) => slips.reduce((total, slip) => total + toAmount(slip[box]), 0);
+  const hasBox = (box: keyof T4Slip) => slips.some((slip) => slip[box] !== undefined && slip[box] !== null && slip[box] !== '');
+  return {
+    employmentIncome: sum('employmentIncome'),
+    employmentPensionPaid: hasBox('cppContributions') ? sum('cppContributions') : undefined,
+    employmentEiPaid: hasBox('eiPremiums') ? sum('eiPremiums') : undefined,
+    taxesPaid: sum('incomeTaxDeducted'),
+    unionDues: sum('unionDues'),
+  };
+}
+
+// Tax on `income` less credits worth `creditAmount` at the lowest rate
+function taxAfterCredits(income: number, { brackets, basicPersonalAmount }: IncomeTaxTable, creditAmount: number) {
+  return Math.max(0, bracketTax(income, brackets) - (basicPersonalAmount + creditAmount) * brackets[0][1]);
+}
+
+export function estimateTax({
+  taxYear,
+  province,
+  selfEmploymentIncome,
+  employmentIncome = 0,
+  employmentPensionPaid,
+  employmentEiPaid,
+  taxesPaid = 0,
+  unionDues = 0,
+  rrspDeduction = 0,
+}: TaxEstimateInput): TaxEstimate {
+  const pensionPlan = getPensionPlan(province);
+  // A loss reduces total income but leaves no self-employment earnings for CPP/QPP
+  const netSelfEmploymentIncome = Math.max(0, selfEmploymentIncome);
+  const totalIncome = Math.max(0, selfEmploymentIncome + employmentIncome);
+
+  // Employment earnings use up the exemption and ceilings first (Schedule 8)
+  const employeePension = employeeContribution(employmentIncome, taxYear, pensionPlan.code);
+  const selfEmployedPension = selfEmployedContribution(netSelfEmploymentIncome, taxYear, pensionPlan.code, employmentIncome);
+  const pensionWithheld = employmentPensionPaid ?? employeePension.total;
+  // A shortfall is the employer's to correct, so only an overpayment changes the balance
+  const pensionOverpayment = Math.max(0, pensionWithheld - employeePension.total);
+
+  const selfEmployed = selfEmployedTaxTreatment(selfEmployedPension);
+  const employee = employeeTaxTreatment(employeePension);
+  const pensionDeduction = selfEmployed.deductible + employee.deductible;
+  const pensionCredit = selfEmployed.credited + employee.credited;
+  const taxableIncome = Math.max(0, totalIncome - pensionDeduction - unionDues - rrspDeduction);
+
+  const premiums = eiPremiums(employmentIncome, taxYear, province);
+  const eiOverpayment = Math.max(0, (employmentEiPaid ?? premiums) - premiums);
+
+  const federalTable = getFederalIncomeTaxTable(taxYear);
+  const provincialTable = getIncomeTaxTable(getProvinceRules(province).incomeTax, taxYear);
+  const creditAmount = pensionCredit + premiums;
+  const basicFederalTax = taxAfterCredits(taxableIncome, federalTable, creditAmount);
+  const abatementRate = province === 'QC' ? QUEBEC_ABATEMENT_RATE : 0;
+  const quebecAbatement = basicFederalTax * abatementRate;
+  const federalTax = basicFederalTax - quebecAbatement;
+  const provincialTax = taxAfterCredits(taxableIncome, provincialTable, creditAmount);
+  const totalIncomeTax = federalTax + provincialTax;
+  const pensionContribution = selfEmployedPension.total;
+
+  return {
+    pensionPlan,
+    totalIncome,
+    taxableIncome,
+    selfEmployedPension,
+    employeePension,
+    pensionContribution,
+    pensionWithheld,
+    pensionOverpayment,
+    pensionDeduction,
+    pensionCredit,
+    eiPremiums: premiums,
+    eiOverpayment,
+    basicFederalTax,
+    quebecAbatement,
+    federalTax,
+    provincialTax,
+    totalIncomeTax,
+    // Quebec T4s (box 22) only show federal tax withheld; Quebec tax is on the RL-1
+    netTaxOwing: Math.max(0, (province === 'QC' ? federalTax : totalIncomeTax) - taxesPaid),
+    totalOwed: totalIncomeTax + pensionContribution - taxesPaid - pensionOverpayment - eiOverpayment,
+    marginalTaxRate:
+      (marginalRate(taxableIncome, federalTable.brackets) * (1 - abatementRate) +
+        marginalRate(taxableIncome, provincialTable.brackets)) *
+      100,
+    effectiveTaxRate: totalIncome > 0 ? ((totalIncomeTax + pensionContribution) / totalIncome) * 100 : 0,
+  };
+}
@@ -160,6 +160,7 @@ export interface User {
   name?: string;
   hasGstNumber?: boolean;
   gstNumber?: string;
+  province?: string; // Two-letter code, see lib/provinces
   homeOfficePercentage?: number | string;
   enabledExpenseCategories?: string[];
   enabledPersonalExpenseCategories?: string[];
@@ -251,12 +252,131 @@ export interface VehicleMileageLog {
 
 export interface Receipt {
   id: string;
-  filename: string;
-  url: string;
-  uploadedAt: string;
+  filename?: string;
+  url?: string;
+  imageUrl: string;
+  uploadedAt?: string;
   expenseId?: string;
+  linkedExpenseId?: string;
+  notes?: string;
   ocrStatus?: string;
+  ocrError?: string;
   expenseData?: any;
   [key: string]: any;
 }
 
+export interface Paystub {
+  id: string;
+  filename?: string;
+  imageUrl: string;
+  uploadedAt?: string;
+  incomeId?: string;
+  linkedIncomeId?: string;
+  notes?: string;
+  [key: string]: any;
+}
+
+export interface OdometerPhoto {
+  id: string;
+  vehicleId: string;
+  filename?: string;
+  imageUrl?: string;
+  photoUrl?: string;
+  readingDate?: string;
+  photoDate?: string;
+  odometerValue?: number;
+  mileage?: number | string;
+  notes?: string;
+  uploadedAt?: string;
+  [key: string]: any;
+}
+
+// A T4 Statement of Remuneration Paid, entered by hand for one tax year.
+// Amounts are the slip's boxes; a photo of the slip can be attached.
+export interface T4Slip {
+  id: string;
+  taxYear: number;
+  employer: string;
+  employmentIncome: number | string; // Box 14
+  incomeTaxDeducted?: number | string; // Box 22
+  cppContributions?: number | string; // Box 16 (17 for QPP), plus 16A/17A from 2024
+  eiPremiums?: number | string; // Box 18
+  unionDues?: number | string; // Box 44
+  photoUrl?: string;
+  createdAt?: string;
+  [key: string]: any;
+}
+
+// A tax instalment paid to the CRA towards a tax year. `dueDate` is the
+// instalment it counts towards (YYYY-03-15, -06-15, -09-15 or -12-15).
+export interface InstalmentPayment {
+  id: string;
+  taxYear: number;
+  dueDate: string;
+  paidDate: string;
+  amount: number | string;
+  note?: string;
+  createdAt?: string;
+  [key: string]: any;
+}
+
+// Money moved to a tax savings account, tracked against the set-aside
+// recommended for the year's income (lib/set-aside.ts)
+export interface TaxSavingsTransfer {
+  id: string;
+  taxYear: number;
+  date: string;
+  amount: number | string;
+  note?: string;
+  createdAt?: string;
+  [key: string]: any;
+}
+
+// Response shapes for computed endpoints
+export interface BusinessUsePercentage {
+  businessUsePercentage: number;
+  totalMileage?: number;
+  isEstimate?: boolean;
+}
+
+export interface VehicleBusinessUse extends BusinessUsePercentage {
+  vehicleId: string;
+}
+
+// Every vehicle's business use for one tax year, computed server-side in one request
+export interface BusinessUsePercentages {
+  taxYear: number;
+  vehicles: VehicleBusinessUse[];
+}
+
+export interface TaxCalculation {
+  grossIncome: number;
+  netIncome: number;
+  totalExpenses: number;
+  federalTax: number;
+  provincialTax: number;
+  cppContribution: number;
+  totalOwed: number;
+  marginalTaxRate: number;
+  effectiveTaxRate: number;
+}
+
+export interface TaxCalculationResponse {
+  calculation: TaxCalculation;
+  user: { subscriptionTier?: string };
+}
+
+export interface GstHstSummary {
+  gstHstCollected: number;
+  inputTaxCredits: number;
+  netGstHstOwing: number;
+  transactionsWithGstHst: number;
+}
+
+export interface DashboardData {
+  income: Income[];
+  expenses: Expense[];
+  taxCalculation: Pick<TaxCalculation, 'grossIncome' | 'federalTax' | 'provincialTax' | 'cppContribution'>;
+  monthlyData?: { month: string; income: number; expenses: number }[];
+  expensesByCategory?: { category: string; amount: number; color: string }[];
+}
@@ -0,0 +1,291 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiUpload } from './api';
+import { ApiError, type ApiErrorKind, CancelledError, isSafeToResend, ServerError, TimeoutError } from './errors';
+import { upsertEntities } from './store';
+
+// Background queue for every photo upload (receipt scans from Expenses and
+// Income, odometer photos, T4 slip photos). Files go up one at a time with progress, can be
+// cancelled, and failed uploads are retried with backoff. Queued uploads resume
+// after an app restart; one cut off mid-upload waits for a manual retry.
+
+const STORAGE_KEY = '@uploads';
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY = 2000; // Doubled on every attempt: 2s, 4s, 8s
+
+export type UploadKind = 'receipt' | 'odometer' | 't4';
+
+// queued: waiting its turn (or to retry); done/failed/cancelled stay listed until dismissed
+export type UploadStatus = 'queued' | 'uploading' | 'done' | 'failed' | 'cancelled';
+
+export interface UploadTask {
+  id: string;
+  kind: UploadKind;
+  source?: string; // Screen (or vehicle) that queued it, so each list shows only its own uploads
+  uri: string;
+  url: string;
+  fileField: string;
+  fields: Record<string, string>;
+  status: UploadStatus;
+  progress: number; // 0..1
+  attempts: number;
+  createdAt: number;
+  error?: string;
+  errorKind?: ApiErrorKind;
+  result?: any;
+}
+
+type UploadListener = () => void;
+
+let tasks: UploadTask[] = [];
+let loadPromise: Promise<void> | null = null;
+let isProcessing = false;
+const listeners = new Set<UploadListener>();
+const controllers = new Map<string, AbortController>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+async function save() {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(tasks));
+  } catch (error) {
+    console.error('Error saving upload queue:', error);
+  }
+}
+
+function update(id: string, changes: Partial<UploadTask>, persist = true) {
+  tasks = tasks.map((task) => (task.id === id ? { ...task, ...changes } : task));
+  notify();
+  if (persist) save();
+  return tasks.find((task) => task.id === id);
+}
+
+function isSettled(task: UploadTask) {
+  return task.status === 'done' || task.status === 'failed' || task.status === 'cancelled';
+}
+
+// Uploads are POSTs: one that timed out may have been stored, so it waits for a manual retry
+function isRetryable(error: unknown) {
+  return isSafeToResend(error, 'POST') || error instanceof ServerError;
+}
+
+const TIMED_OUT_MESSAGE = 'Timed out. It may have been uploaded; check before retrying.';
+const INTERRUPTED_MESSAGE = 'Interrupted when the app closed. It may have been uploaded; check before retrying.';
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function loadUploads(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          // Anything mid-upload when the app was closed may have reached the
+          // server, so like a timed-out upload it waits for a manual retry
+          const restored: UploadTask[] = JSON.parse(stored).map((task: UploadTask) =>
+            task.status === 'uploading'
+              ? { ...task, status: 'failed', progress: 0, error: INTERRUPTED_MESSAGE, errorKind: undefined }
+              : task
+          );
+          tasks = [...restored, ...tasks];
+          notify();
+        }
+      } catch (error) {
+        console.error('Error loading upload queue:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+// Restores the saved queue and continues any unfinished uploads (called on launch)
+export async function resumeUploads() {
+  await loadUploads();
+  processQueue();
+}
+
+export function getUploads(filter: { kind?: UploadKind; source?: string } = {}): UploadTask[] {
+  return tasks.filter(
+    (task) => (!filter.kind || task.kind === filter.kind) && (!filter.source || task.source === filter.source)
+  );
+}
+
+export function subscribeToUploads(listener: UploadListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function runTask(id: string) {
+  const task = update(id, { status: 'uploading', progress: 0, error: undefined, errorKind: undefined })!;
+  const attempts = task.attempts + 1;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  let retryDelay: number | null = null;
+
+  try {
+    const response = await apiUpload(task.url, task.uri, {
+      fileField: task.fileField,
+      fields: task.fields,
+      signal: controller.signal,
+      onProgress: (progress) => update(id, { progress }, false),
+    });
+    // The receipts endpoint replies with an array; we only ever send one file
+    const result: any = Array.isArray(response) ? response[0] : response;
+    if (task.kind === 'receipt' && result?.id) {
+      upsertEntities('receipts', result);
+    } else if (task.kind === 't4' && result?.id) {
+      // Replies with the slip, now carrying its photoUrl
+      upsertEntities('t4Slips', result);
+    }
+    update(id, { status: 'done', progress: 1, attempts, result });
+  } catch (error: any) {
+    if (error instanceof CancelledError) {
+      update(id, { status: 'cancelled', attempts });
+    } else if (isRetryable(error) && attempts < MAX_ATTEMPTS) {
+      update(id, { status: 'queued', progress: 0, attempts, error: error.message });
+      retryDelay = RETRY_BASE_DELAY * 2 ** (attempts - 1);
+    } else {
+      console.error('Upload failed:', error);
+      update(id, {
+        status: 'failed',
+        attempts,
+        error: error instanceof TimeoutError ? TIMED_OUT_MESSAGE : error?.message || 'Upload failed',
+        errorKind: error instanceof ApiError ? error.kind : undefined,
+      });
+    }
+  } finally {
+    controllers.delete(id);
+  }
+  // Waits with no request in flight, so cancelling meanwhile marks the task
+  // cancelled and processQueue won't pick it up again
+  if (retryDelay !== null) await sleep(retryDelay);
+}
+
+async function processQueue() {
+  if (isProcessing) return;
+  isProcessing = true;
+  try {
+    // Re-read the queue each pass so uploads added meanwhile are picked up too
+    for (;;) {
+      const next = tasks.find((task) => task.status === 'queued');
+      if (!next) break;
+      await runTask(next.id);
+    }
+  } finally {
+    isProcessing = false;
+  }
+}
+
+async function enqueueUpload(
+  upload: Pick<UploadTask, 'kind' | 'source' | 'uri' | 'url' | 'fileField' | 'fields'>,
+): Promise<UploadTask> {
+  await loadUploads();
+  const task: UploadTask = {
+    ...upload,
+    id: `upload-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    status: 'queued',
+    progress: 0,
+    attempts: 0,
+    createdAt: Date.now(),
+  };
+  tasks = [...tasks, task];
+  notify();
+  await save();
+  processQueue();
+  return task;
+}
+
+// Receipt scans from both Expenses and Income go to the receipts endpoint with OCR on
+export function uploadReceipt(uri: string, source: 'expenses' | 'income') {
+  return enqueueUpload({
+    kind: 'receipt',
+    source,
+    uri,
+    url: '/api/receipts/upload',
+    fileField: 'files',
+    fields: { scanWithOCR: 'true' },
+  });
+}
+
+export function uploadOdometerPhoto(
+  vehicleId: string,
+  uri: string,
+  details: { photoDate?: string; mileage: string; notes?: string },
+) {
+  const fields: Record<string, string> = { mileage: details.mileage };
+  // Backend expects photoDate (not readingDate)
+  if (details.photoDate) fields.photoDate = details.photoDate;
+  if (details.notes) fields.notes = details.notes;
+  return enqueueUpload({
+    kind: 'odometer',
+    source: vehicleId,
+    uri,
+    url: `/api/vehicles/${vehicleId}/odometer-photos`,
+    fileField: 'file',
+    fields,
+  });
+}
+
+export function uploadT4SlipPhoto(slipId: string, uri: string) {
+  return enqueueUpload({
+    kind: 't4',
+    source: slipId,
+    uri,
+    url: `/api/t4-slips/${slipId}/photo`,
+    fileField: 'file',
+    fields: {},
+  });
+}
+
+// Resolves once the upload finishes, fails or is cancelled (undefined if it was dismissed)
+export function waitForUpload(id: string): Promise<UploadTask | undefined> {
+  return new Promise((resolve) => {
+    const check = () => {
+      const task = tasks.find((candidate) => candidate.id === id);
+      if (!task || isSettled(task)) {
+        unsubscribe();
+        resolve(task);
+      }
+    };
+    const unsubscribe = subscribeToUploads(check);
+    check();
+  });
+}
+
+export function cancelUpload(id: string) {
+  const controller = controllers.get(id);
+  if (controller) {
+    controller.abort();
+  } else {
+    update(id, { status: 'cancelled' });
+  }
+}
+
+export function retryUpload(id: string) {
+  update(id, { status: 'queued', progress: 0, attempts: 0, error: undefined, errorKind: undefined });
+  processQueue();
+}
+
+export function dismissUpload(id: string) {
+  controllers.get(id)?.abort();
+  tasks = tasks.filter((task) => task.id !== id);
+  notify();
+  save();
+}
+
+// Drops every upload (used when the user signs out or switches server)
+export async function clearUploads() {
+  controllers.forEach((controller) => controller.abort());
+  tasks = [];
+  notify();
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing upload queue:', error);
+  }
+}